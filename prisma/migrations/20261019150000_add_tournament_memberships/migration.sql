@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TournamentRole" AS ENUM ('OWNER', 'ORGANIZER', 'HEAD_REFEREE', 'ALLIANCE_REFEREE');
+
+-- CreateTable
+CREATE TABLE "TournamentMembership" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "TournamentRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TournamentMembership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TournamentMembership_userId_idx" ON "TournamentMembership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMembership_tournamentId_userId_key" ON "TournamentMembership"("tournamentId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "TournamentMembership" ADD CONSTRAINT "TournamentMembership_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentMembership" ADD CONSTRAINT "TournamentMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every tournament admin becomes its owner
+INSERT INTO "TournamentMembership" ("id", "tournamentId", "userId", "role", "updatedAt")
+SELECT gen_random_uuid()::text, t."id", t."adminId", 'OWNER', CURRENT_TIMESTAMP
+FROM "Tournament" t;
+
+-- Backfill: referees already assigned to a field keep working at that tournament
+INSERT INTO "TournamentMembership" ("id", "tournamentId", "userId", "role", "updatedAt")
+SELECT gen_random_uuid()::text, f."tournamentId", fr."userId",
+       CASE WHEN bool_or(fr."isHeadRef") THEN 'HEAD_REFEREE'::"TournamentRole" ELSE 'ALLIANCE_REFEREE'::"TournamentRole" END,
+       CURRENT_TIMESTAMP
+FROM "field_referees" fr
+JOIN "Field" f ON f."id" = fr."fieldId"
+GROUP BY f."tournamentId", fr."userId"
+ON CONFLICT ("tournamentId", "userId") DO NOTHING;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN     "after" JSONB,
+ADD COLUMN     "before" JSONB,
+ADD COLUMN     "tournamentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AuditLog_resource_resourceId_idx" ON "AuditLog"("resource", "resourceId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_tournamentId_createdAt_idx" ON "AuditLog"("tournamentId", "createdAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN "statusReason" TEXT;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "TeamRegistrationStatus" AS ENUM ('PENDING', 'APPROVED', 'WAITLISTED', 'REJECTED', 'WITHDRAWN');
+
+-- AlterTable: teams registered before the approval workflow are already in
+ALTER TABLE "Team" ADD COLUMN "registrationStatus" "TeamRegistrationStatus" NOT NULL DEFAULT 'APPROVED',
+ADD COLUMN "registrationStatusReason" TEXT,
+ADD COLUMN "registrationStatusChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Team" ALTER COLUMN "registrationStatus" SET DEFAULT 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "Team_tournamentId_registrationStatus_idx" ON "Team"("tournamentId", "registrationStatus");
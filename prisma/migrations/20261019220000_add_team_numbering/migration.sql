@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "TeamNumberMode" AS ENUM ('SEQUENTIAL', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "teamNumberMode" "TeamNumberMode" NOT NULL DEFAULT 'SEQUENTIAL',
+ADD COLUMN "teamNumberPrefix" TEXT,
+ADD COLUMN "teamNumberPadding" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN "teamNumberStart" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "nextTeamNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- Continue each sequence after the highest number already issued, ignoring
+-- the random TMP fallback numbers
+UPDATE "Tournament" t
+SET "nextTeamNumber" = numbers.max_number + 1
+FROM (
+  SELECT "tournamentId", MAX(substring("teamNumber" FROM '(\d+)$')::BIGINT) AS max_number
+  FROM "Team"
+  WHERE "teamNumber" !~ '^TMP' AND "teamNumber" ~ '\d+$'
+  GROUP BY "tournamentId"
+) numbers
+WHERE numbers."tournamentId" = t."id" AND numbers.max_number < 2147483647;
+
+-- DropIndex
+DROP INDEX "Team_teamNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Team_tournamentId_teamNumber_key" ON "Team"("tournamentId", "teamNumber");
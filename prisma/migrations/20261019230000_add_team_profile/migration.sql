@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN "robotName" TEXT,
+ADD COLUMN "description" TEXT,
+ADD COLUMN "logoKey" TEXT,
+ADD COLUMN "primaryColor" TEXT,
+ADD COLUMN "secondaryColor" TEXT,
+ADD COLUMN "links" JSONB;
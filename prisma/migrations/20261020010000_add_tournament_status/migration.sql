@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "TournamentStatus" AS ENUM ('DRAFT', 'REGISTRATION', 'SCHEDULED', 'LIVE', 'COMPLETED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "status" "TournamentStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN "statusChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing tournaments take the status their dates imply, so running events stay open
+UPDATE "Tournament" SET "status" = CASE
+  WHEN "endDate" < CURRENT_TIMESTAMP THEN 'COMPLETED'::"TournamentStatus"
+  WHEN "startDate" <= CURRENT_TIMESTAMP THEN 'LIVE'::"TournamentStatus"
+  ELSE 'REGISTRATION'::"TournamentStatus"
+END;
+
+-- CreateIndex
+CREATE INDEX "Tournament_status_idx" ON "Tournament"("status");
@@ -0,0 +1,33 @@
+import { SetMetadata } from '@nestjs/common';
+import { TournamentIdParam } from '../common/services/tournament-resolver.service';
+
+export const API_KEY_SCOPES = ['read:rankings', 'read:matches', 'write:scores'] as const;
+export type ApiKeyScopeName = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * What the route's `:id` parameter identifies, used to enforce a key's
+ * tournament restriction.
+ */
+export type ApiKeyIdParam = TournamentIdParam;
+
+export interface ApiKeyScopeMetadata {
+  scope: ApiKeyScopeName;
+  idParam?: ApiKeyIdParam;
+}
+
+export const API_KEY_SCOPE_KEY = 'apiKeyScope';
+
+/**
+ * Allow API keys holding `scope` to call this endpoint. Endpoints without
+ * this decorator reject API keys.
+ *
+ * @example
+ * ```typescript
+ * @Get(':id/rankings')
+ * @UseGuards(JwtAuthGuard)
+ * @ApiKeyScope('read:rankings', 'stage')
+ * getStageRankings(@Param('id') id: string) {}
+ * ```
+ */
+export const ApiKeyScope = (scope: ApiKeyScopeName, idParam?: ApiKeyIdParam) =>
+  SetMetadata(API_KEY_SCOPE_KEY, { scope, idParam } as ApiKeyScopeMetadata);
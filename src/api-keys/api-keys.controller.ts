@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../utils/prisma-types';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto';
+import { Audited } from '../audit/audited.decorator';
+
+@Controller('api-keys')
+@Audited('apiKey')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * The response contains the plaintext key. It is not shown again.
+   */
+  @Post()
+  async create(@Body() createApiKeyDto: CreateApiKeyDto, @Request() req) {
+    return this.apiKeysService.create(createApiKeyDto, req.user.id);
+  }
+
+  @Get()
+  async findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  async revoke(@Param('id', ParseUUIDPipe) id: string) {
+    return this.apiKeysService.revoke(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+
+/**
+ * Global so JwtAuthGuard can authenticate API keys in every module that uses it
+ */
+@Global()
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, PrismaService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
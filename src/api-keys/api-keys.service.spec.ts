@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+import { PrismaService } from '../prisma.service';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  const key = 'rms_test-key-value';
+  const storedKey = {
+    id: 'key-1',
+    name: 'Scoreboard',
+    prefix: 'rms_test-key',
+    keyHash: createHash('sha256').update(key).digest('hex'),
+    scopes: ['read:rankings'],
+    tournamentId: 'tournament-1',
+    expiresAt: null as Date | null,
+    lastUsedAt: null as Date | null,
+    lastUsedIp: null as string | null,
+    revokedAt: null as Date | null,
+    createdById: 'admin-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    jest.spyOn(service['logger'], 'log').mockImplementation();
+    jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and return the plaintext key once', async () => {
+      mockPrisma.apiKey.create.mockImplementation(
+        (args: any) => ({ ...storedKey, ...args.data, keyHash: undefined }) as any,
+      );
+
+      const result = await service.create(
+        { name: 'Scoreboard', scopes: ['read:rankings'] },
+        'admin-1',
+      );
+
+      const data = mockPrisma.apiKey.create.mock.calls[0][0].data as any;
+      expect(result.key).toMatch(/^rms_/);
+      expect(data.keyHash).toBe(createHash('sha256').update(result.key).digest('hex'));
+      expect(data.prefix).toBe(result.key.substring(0, 12));
+      expect(data).not.toHaveProperty('key');
+    });
+
+    it('should reject an unknown tournament', async () => {
+      mockPrisma.tournament.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          { name: 'Scoreboard', scopes: ['read:rankings'], tournamentId: 'missing' },
+          'admin-1',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrisma.apiKey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the principal and record usage for a valid key', async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(storedKey as any);
+      mockPrisma.apiKey.update.mockResolvedValue(storedKey as any);
+
+      const principal = await service.authenticate(key, '10.0.0.1');
+
+      expect(principal).toEqual({
+        id: 'key-1',
+        name: 'Scoreboard',
+        scopes: ['read:rankings'],
+        tournamentId: 'tournament-1',
+      });
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' },
+      });
+    });
+
+    it('should not rewrite usage for a key used moments ago from the same address', async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        lastUsedAt: new Date(),
+        lastUsedIp: '10.0.0.1',
+      } as any);
+
+      await service.authenticate(key, '10.0.0.1');
+
+      expect(mockPrisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce({
+        ...storedKey,
+        revokedAt: new Date(),
+      } as any);
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce({
+        ...storedKey,
+        expiresAt: new Date(Date.now() - 1000),
+      } as any);
+
+      expect(await service.authenticate(key)).toBeNull();
+      expect(await service.authenticate(key)).toBeNull();
+    });
+
+    it('should not look up values without the key prefix', async () => {
+      expect(await service.authenticate('not-a-key')).toBeNull();
+      expect(mockPrisma.apiKey.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw NotFoundException for an unknown key', async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(null);
+
+      await expect(service.revoke('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { CreateApiKeyDto } from './dto';
+import { ApiKeyScopeName } from './api-key-scope.decorator';
+
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: ApiKeyScopeName[];
+  tournamentId: string | null;
+}
+
+const API_KEY_PREFIX = 'rms_';
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly lastUsedWriteInterval = 60 * 1000; // Avoid a write on every request
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Mint a key. The plaintext key is only returned here and cannot be
+   * recovered afterwards.
+   */
+  async create(createApiKeyDto: CreateApiKeyDto, createdById: string) {
+    if (createApiKeyDto.tournamentId) {
+      const tournament = await this.prisma.tournament.findUnique({
+        where: { id: createApiKeyDto.tournamentId },
+        select: { id: true },
+      });
+      if (!tournament) {
+        throw new NotFoundException(
+          `Tournament with ID ${createApiKeyDto.tournamentId} not found`,
+        );
+      }
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: createApiKeyDto.name,
+        prefix: key.substring(0, 12),
+        keyHash: this.hashKey(key),
+        scopes: createApiKeyDto.scopes,
+        tournamentId: createApiKeyDto.tournamentId,
+        expiresAt: createApiKeyDto.expiresAt,
+        createdById,
+      },
+      select: this.publicFields(),
+    });
+
+    this.logger.log(`API key "${apiKey.name}" (${apiKey.prefix}) created by ${createdById}`);
+    return { ...apiKey, key };
+  }
+
+  async findAll() {
+    return this.prisma.apiKey.findMany({
+      select: this.publicFields(),
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(id: string) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { id },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    if (apiKey.revokedAt) {
+      return this.prisma.apiKey.findUnique({ where: { id }, select: this.publicFields() });
+    }
+
+    const revoked = await this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: this.publicFields(),
+    });
+    this.logger.log(`API key "${revoked.name}" (${revoked.prefix}) revoked`);
+    return revoked;
+  }
+
+  /**
+   * Resolve a presented key to its principal, or null if it is unknown,
+   * revoked or expired. Records when and from where the key was last used.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKeyPrincipal | null> {
+    if (!key?.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    });
+
+    const now = new Date();
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > this.lastUsedWriteInterval ||
+      apiKey.lastUsedIp !== (ipAddress ?? null)
+    ) {
+      await this.prisma.apiKey
+        .update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: now, lastUsedIp: ipAddress },
+        })
+        .catch((error) =>
+          this.logger.warn(`Failed to record API key usage: ${error.message}`),
+        );
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes as ApiKeyScopeName[],
+      tournamentId: apiKey.tournamentId,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private publicFields() {
+    return {
+      id: true,
+      name: true,
+      prefix: true,
+      scopes: true,
+      tournamentId: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      lastUsedIp: true,
+      revokedAt: true,
+      createdById: true,
+      createdAt: true,
+    } as const;
+  }
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { API_KEY_SCOPES } from '../api-key-scope.decorator';
+
+export const createApiKeyDto = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must not exceed 100 characters'),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'At least one scope is required')
+    .transform((scopes) => Array.from(new Set(scopes))),
+  tournamentId: z.string().uuid('Invalid tournament ID').optional(),
+  expiresAt: z
+    .string()
+    .datetime({ message: 'Invalid expiry date' })
+    .transform((value) => new Date(value))
+    .refine((date) => date > new Date(), 'Expiry date must be in the future')
+    .optional(),
+});
+
+export class CreateApiKeyDto extends createZodDto(createApiKeyDto) {}
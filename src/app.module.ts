@@ -16,6 +16,13 @@ import { EventsGateway } from './websockets/events.gateway';
 import { TeamStatsApiModule } from './match-scores/team-stats-api.module';
 import { ScoreConfigModule } from './score-config/score-config.module';
 import { EmailsModule } from './emails/emails.module';
+import { AuditModule } from './audit/audit.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { TournamentMembershipsModule } from './tournament-memberships/tournament-memberships.module';
+import {
+  DiagnosticsModule,
+  isDiagnosticsEnabled,
+} from './diagnostics/diagnostics.module';
 
 @Module({
   imports: [
@@ -31,6 +38,11 @@ import { EmailsModule } from './emails/emails.module';
     TeamStatsApiModule,
     ScoreConfigModule,
     EmailsModule,
+    AuditModule,
+    ApiKeysModule,
+    TournamentMembershipsModule,
+    // Debug endpoints are only mounted when explicitly enabled
+    ...(isDiagnosticsEnabled() ? [DiagnosticsModule] : []),
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService, EventsGateway],
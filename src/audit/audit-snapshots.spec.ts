@@ -0,0 +1,49 @@
+import { diffSnapshots } from './audit-snapshots';
+
+describe('diffSnapshots', () => {
+  it('should keep only changed fields for a single entity', () => {
+    const result = diffSnapshots(
+      { s1: { id: 's1', name: 'Swiss', status: 'ACTIVE', updatedAt: 'a' } },
+      { s1: { id: 's1', name: 'Swiss', status: 'COMPLETED', updatedAt: 'b' } },
+    );
+
+    expect(result).toEqual({
+      before: { status: 'ACTIVE' },
+      after: { status: 'COMPLETED' },
+    });
+  });
+
+  it('should compare nested values structurally', () => {
+    const result = diffSnapshots(
+      { m1: { id: 'm1', alliances: [{ color: 'RED', score: 10 }] } },
+      { m1: { id: 'm1', alliances: [{ color: 'RED', score: 25 }] } },
+    );
+
+    expect(result.after).toEqual({ alliances: [{ color: 'RED', score: 25 }] });
+  });
+
+  it('should record the full entity on create and delete', () => {
+    const entity = { id: 'u1', username: 'ref' };
+
+    expect(diffSnapshots(null, { u1: entity })).toEqual({ before: null, after: entity });
+    expect(diffSnapshots({ u1: entity }, null)).toEqual({ before: entity, after: null });
+  });
+
+  it('should key bulk changes by entity id and skip unchanged entities', () => {
+    const result = diffSnapshots(
+      {
+        u1: { id: 'u1', role: 'COMMON' },
+        u2: { id: 'u2', role: 'HEAD_REFEREE' },
+      },
+      {
+        u1: { id: 'u1', role: 'HEAD_REFEREE' },
+        u2: { id: 'u2', role: 'HEAD_REFEREE' },
+      },
+    );
+
+    expect(result).toEqual({
+      before: { u1: { role: 'COMMON' } },
+      after: { u1: { role: 'HEAD_REFEREE' } },
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../prisma.service';
+
+type SnapshotLoader = (
+  prisma: PrismaService,
+  ids: string[],
+) => Promise<Array<{ id: string } & Record<string, unknown>>>;
+
+/**
+ * How to load the audited state of each entity type. Entities without a
+ * loader are still audited, just without before/after values. Never select
+ * secrets here.
+ */
+const SNAPSHOT_LOADERS = {
+  user: (prisma, ids) =>
+    prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        username: true,
+        name: true,
+        email: true,
+        phoneNumber: true,
+        role: true,
+        isActive: true,
+        statusReason: true,
+        emailVerified: true,
+      },
+    }),
+  tournament: (prisma, ids) => prisma.tournament.findMany({ where: { id: { in: ids } } }),
+  stage: (prisma, ids) => prisma.stage.findMany({ where: { id: { in: ids } } }),
+  match: (prisma, ids) => prisma.match.findMany({ where: { id: { in: ids } } }),
+  matchScore: (prisma, ids) =>
+    prisma.match.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        status: true,
+        winningAlliance: true,
+        scoredById: true,
+        alliances: {
+          select: { color: true, score: true, autoScore: true, driveScore: true },
+          orderBy: { color: 'asc' },
+        },
+      },
+    }),
+  team: (prisma, ids) =>
+    prisma.team.findMany({
+      where: { id: { in: ids } },
+      include: {
+        teamMembers: { select: { id: true, name: true, email: true }, orderBy: { id: 'asc' } },
+      },
+    }),
+  field: (prisma, ids) =>
+    prisma.field.findMany({
+      where: { id: { in: ids } },
+      include: {
+        fieldReferees: { select: { userId: true, isHeadRef: true }, orderBy: { userId: 'asc' } },
+      },
+    }),
+  scoreConfig: (prisma, ids) => prisma.scoreConfig.findMany({ where: { id: { in: ids } } }),
+  apiKey: (prisma, ids) =>
+    prisma.apiKey.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        name: true,
+        scopes: true,
+        tournamentId: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+    }),
+} satisfies Record<string, SnapshotLoader>;
+
+export type AuditEntityType =
+  | keyof typeof SNAPSHOT_LOADERS
+  | 'alliance'
+  | 'scoreElement'
+  | 'bonusCondition'
+  | 'penaltyCondition'
+  | 'tournamentMembership'
+  | 'ranking'
+  | 'schedule'
+  | 'twoFactor';
+
+export type Snapshot = Record<string, Prisma.InputJsonObject>;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+/**
+ * Load entities as plain JSON, keyed by id. Returns null when the entity type
+ * has no loader.
+ */
+export async function loadSnapshot(
+  prisma: PrismaService,
+  entity: AuditEntityType,
+  ids: string[],
+): Promise<Snapshot | null> {
+  const loader = (SNAPSHOT_LOADERS as Record<string, SnapshotLoader>)[entity];
+  if (!loader || ids.length === 0) {
+    return null;
+  }
+
+  const rows = await loader(prisma, ids);
+  return Object.fromEntries(rows.map((row) => [row.id, JSON.parse(JSON.stringify(row))]));
+}
+
+/**
+ * Reduce two snapshots to the fields that changed. A created entity has no
+ * before value and a deleted one no after value. Single-entity changes are
+ * returned flat; bulk changes stay keyed by entity id.
+ */
+export function diffSnapshots(
+  before: Snapshot | null,
+  after: Snapshot | null,
+): { before: Prisma.InputJsonValue | null; after: Prisma.InputJsonValue | null } {
+  const ids = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+  const changedBefore: Record<string, Prisma.InputJsonObject> = {};
+  const changedAfter: Record<string, Prisma.InputJsonObject> = {};
+
+  for (const id of ids) {
+    const previous = before?.[id];
+    const next = after?.[id];
+
+    if (!previous || !next) {
+      if (previous) changedBefore[id] = previous;
+      if (next) changedAfter[id] = next;
+      continue;
+    }
+
+    const fieldsBefore: Record<string, Prisma.InputJsonValue | null> = {};
+    const fieldsAfter: Record<string, Prisma.InputJsonValue | null> = {};
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+        fieldsBefore[field] = previous[field] ?? null;
+        fieldsAfter[field] = next[field] ?? null;
+      }
+    }
+    if (Object.keys(fieldsAfter).length > 0) {
+      changedBefore[id] = fieldsBefore;
+      changedAfter[id] = fieldsAfter;
+    }
+  }
+
+  if (ids.length === 1) {
+    return {
+      before: changedBefore[ids[0]] ?? null,
+      after: changedAfter[ids[0]] ?? null,
+    };
+  }
+
+  return {
+    before: Object.keys(changedBefore).length > 0 ? changedBefore : null,
+    after: Object.keys(changedAfter).length > 0 ? changedAfter : null,
+  };
+}
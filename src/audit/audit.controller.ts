@@ -0,0 +1,19 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../utils/prisma-types';
+import { AuditService } from './audit.service';
+import { AuditQueryDto } from './dto';
+
+@Controller('audit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  findAll(@Query() query: AuditQueryDto) {
+    return this.auditService.findAll(query);
+  }
+}
@@ -0,0 +1,106 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditService } from './audit.service';
+import { AUDITED_KEY } from './audited.decorator';
+import { PrismaService } from '../prisma.service';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
+
+describe('AuditInterceptor', () => {
+  let interceptor: AuditInterceptor;
+  let reflector: Reflector;
+  let auditService: DeepMockProxy<AuditService>;
+  let prisma: DeepMockProxy<PrismaService>;
+  let resolver: DeepMockProxy<TournamentResolverService>;
+
+  const createContext = (request: any): ExecutionContext =>
+    ({
+      getType: () => 'http',
+      getHandler: () => function update() {},
+      getClass: jest.fn(),
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as any;
+
+  const handler = (result: any): CallHandler => ({ handle: () => of(result) });
+
+  // Let the fire-and-forget record() finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    auditService = mockDeep<AuditService>();
+    prisma = mockDeep<PrismaService>();
+    resolver = mockDeep<TournamentResolverService>();
+    interceptor = new AuditInterceptor(reflector, auditService, prisma, resolver);
+  });
+
+  it('should record the changed fields of an updated entity', async () => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue({ entity: 'stage', tournament: 'stage' });
+    resolver.resolveTournamentId.mockResolvedValue('t1');
+    prisma.stage.findMany
+      .mockResolvedValueOnce([{ id: 's1', status: 'ACTIVE' }] as any)
+      .mockResolvedValueOnce([{ id: 's1', status: 'COMPLETED' }] as any);
+    const request = {
+      method: 'PATCH',
+      params: { id: 's1' },
+      body: { status: 'COMPLETED' },
+      user: { id: 'u1', username: 'organizer' },
+      originalUrl: '/api/stages/s1',
+      headers: {},
+    };
+
+    await lastValueFrom(interceptor.intercept(createContext(request), handler({ id: 's1' })));
+    await flush();
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'u1',
+        action: 'stage.update',
+        resource: 'stage',
+        resourceId: 's1',
+        tournamentId: 't1',
+        before: { status: 'ACTIVE' },
+        after: { status: 'COMPLETED' },
+      }),
+    );
+  });
+
+  it('should take the id of a created entity from the response', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue({ entity: 'team' });
+    resolver.resolveTournamentId.mockResolvedValue(null);
+    prisma.team.findMany.mockResolvedValue([{ id: 'team-1', name: 'Bots' }] as any);
+    const request = { method: 'POST', params: {}, body: {}, user: { id: 'u1' }, headers: {} };
+
+    await lastValueFrom(interceptor.intercept(createContext(request), handler({ id: 'team-1' })));
+    await flush();
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resourceId: 'team-1',
+        before: null,
+        after: { id: 'team-1', name: 'Bots' },
+      }),
+    );
+  });
+
+  it('should ignore reads and routes without @Audited', async () => {
+    const spy = jest.spyOn(reflector, 'getAllAndOverride');
+    spy.mockReturnValueOnce({ entity: 'stage' });
+    await lastValueFrom(
+      interceptor.intercept(createContext({ method: 'GET', params: {} }), handler([])),
+    );
+
+    spy.mockReturnValueOnce(null);
+    await lastValueFrom(
+      interceptor.intercept(createContext({ method: 'POST', params: {} }), handler({})),
+    );
+    await flush();
+
+    expect(auditService.record).not.toHaveBeenCalled();
+    expect(spy).toHaveBeenCalledWith(AUDITED_KEY, expect.any(Array));
+  });
+});
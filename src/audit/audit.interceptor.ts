@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { PrismaService } from '../prisma.service';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
+import { AuditService } from './audit.service';
+import { AUDITED_KEY, AuditedMetadata } from './audited.decorator';
+import { Snapshot, diffSnapshots, loadSnapshot } from './audit-snapshots';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Registered globally. Records successful mutating requests on routes marked
+ * with @Audited, including which fields of the entity changed.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+    private readonly prisma: PrismaService,
+    @Optional() private readonly tournamentResolver?: TournamentResolverService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const audited = this.reflector.getAllAndOverride<AuditedMetadata | null>(AUDITED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const request = context.switchToHttp().getRequest();
+    if (!audited || !MUTATING_METHODS.has(request.method)) {
+      return next.handle();
+    }
+
+    const ids = this.requestEntityIds(request, audited);
+    let before: Snapshot | null = null;
+    let tournamentId: string | null = null;
+
+    // Capture state before the handler runs, since deletes leave nothing to read after
+    const prepare = async () => {
+      [before, tournamentId] = await Promise.all([
+        this.safely(() => loadSnapshot(this.prisma, audited.entity, ids)),
+        this.safely(
+          async () =>
+            (await this.tournamentResolver?.resolveTournamentId(
+              request.params ?? {},
+              request.body,
+              audited.tournament,
+            )) ?? null,
+        ),
+      ]);
+    };
+
+    return from(prepare()).pipe(
+      switchMap(() => next.handle()),
+      tap((result) => void this.record(context, request, audited, ids, before, tournamentId, result)),
+    );
+  }
+
+  private async record(
+    context: ExecutionContext,
+    request: any,
+    audited: AuditedMetadata,
+    ids: string[],
+    before: Snapshot | null,
+    tournamentId: string | null,
+    result: any,
+  ) {
+    // Creates only learn the entity id from the response
+    const entityIds = ids.length > 0 ? ids : [result?.id ?? result?.data?.id].filter(
+      (id): id is string => typeof id === 'string',
+    );
+    const after = await this.safely(() => loadSnapshot(this.prisma, audited.entity, entityIds));
+    const changes = diffSnapshots(before, after);
+
+    await this.auditService.record({
+      userId: request.user?.id,
+      username: request.user?.username,
+      action: `${audited.entity}.${context.getHandler().name}`,
+      resource: audited.entity,
+      resourceId: entityIds.length === 1 ? entityIds[0] : null,
+      tournamentId,
+      before: changes.before,
+      after: changes.after,
+      ipAddress: request.ip,
+      userAgent: request.headers?.['user-agent'],
+      metadata: {
+        method: request.method,
+        path: request.originalUrl ?? request.url,
+        ...(entityIds.length > 1 ? { entityIds } : {}),
+        ...(request.user?.apiKey ? { apiKeyId: request.user.apiKey.id } : {}),
+      },
+    });
+  }
+
+  private requestEntityIds(request: any, audited: AuditedMetadata): string[] {
+    const fromBody = audited.idBody ? request.body?.[audited.idBody] : undefined;
+    const param = audited.idParam === undefined ? 'id' : audited.idParam;
+    const value = fromBody ?? (param ? request.params?.[param] : undefined);
+    const ids = Array.isArray(value) ? value : [value];
+    return ids.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  }
+
+  private async safely<T>(load: () => Promise<T>): Promise<T | null> {
+    try {
+      return await load();
+    } catch (error) {
+      this.logger.warn(`Failed to capture audit state: ${error.message}`);
+      return null;
+    }
+  }
+}
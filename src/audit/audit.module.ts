@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './audit.interceptor';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    PrismaService,
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,86 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../prisma.service';
+import { AuditQueryDto } from './dto';
+
+export interface AuditEntry {
+  userId?: string | null;
+  username?: string | null;
+  action: string;
+  resource: string;
+  resourceId?: string | null;
+  tournamentId?: string | null;
+  before?: Prisma.InputJsonValue | null;
+  after?: Prisma.InputJsonValue | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Persist an audit entry. Failures are logged rather than thrown so that
+   * auditing never breaks the request being audited.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: entry.userId ?? null,
+          username: entry.username ?? null,
+          action: entry.action,
+          resource: entry.resource,
+          resourceId: entry.resourceId ?? null,
+          tournamentId: entry.tournamentId ?? null,
+          before: entry.before ?? undefined,
+          after: entry.after ?? undefined,
+          ipAddress: entry.ipAddress ?? null,
+          userAgent: entry.userAgent ?? null,
+          metadata: entry.metadata,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to record audit entry ${entry.action}: ${error.message}`);
+    }
+  }
+
+  async findAll(query: AuditQueryDto) {
+    const { page, limit } = query;
+    const where: Prisma.AuditLogWhereInput = {
+      tournamentId: query.tournamentId,
+      resource: query.entity,
+      resourceId: query.entityId,
+      userId: query.actorId,
+      action: query.action,
+      createdAt:
+        query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { SetMetadata } from '@nestjs/common';
+import { TournamentIdParam } from '../common/services/tournament-resolver.service';
+import { AuditEntityType } from './audit-snapshots';
+
+export interface AuditedOptions {
+  /**
+   * Route param holding the entity id. Defaults to `id`. Use null when `:id`
+   * is a parent and the entity is created, so the id is read from the response.
+   */
+  idParam?: string | null;
+  /** Body field holding the entity id, or an array of ids for bulk operations */
+  idBody?: string;
+  /** What `:id` identifies when looking up the tournament */
+  tournament?: TournamentIdParam;
+}
+
+export interface AuditedMetadata extends AuditedOptions {
+  entity: AuditEntityType;
+}
+
+export const AUDITED_KEY = 'audited';
+
+/**
+ * Record every POST, PUT, PATCH and DELETE on this controller or route in the
+ * audit log, with the entity's changed fields before and after the request.
+ * A route-level decorator replaces the controller-level one.
+ *
+ * @example
+ * ```typescript
+ * @Controller('stages')
+ * @Audited('stage', { tournament: 'stage' })
+ * export class StagesController {}
+ * ```
+ */
+export const Audited = (entity: AuditEntityType, options: AuditedOptions = {}) =>
+  SetMetadata(AUDITED_KEY, { entity, ...options } as AuditedMetadata);
+
+/**
+ * Exclude a mutating route that does not change state, e.g. a POST used for a query
+ */
+export const SkipAudit = () => SetMetadata(AUDITED_KEY, null);
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const AuditQuerySchema = z
+  .object({
+    tournamentId: z.string().uuid('Invalid tournament ID').optional(),
+    entity: z.string().min(1).max(50).optional(),
+    entityId: z.string().min(1).max(100).optional(),
+    actorId: z.string().uuid('Invalid actor ID').optional(),
+    action: z.string().min(1).max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(100, 'Limit cannot exceed 100')
+      .default(25),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before or equal to to',
+    path: ['from'],
+  });
+
+export class AuditQueryDto extends createZodDto(AuditQuerySchema) {}
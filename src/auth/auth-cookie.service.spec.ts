@@ -0,0 +1,12 @@
+import { AuthCookieService } from './auth-cookie.service';
+import { AuthSessionService } from './auth-session.service';
+import { mockDeep } from 'jest-mock-extended';
+
+describe('AuthCookieService', () => {
+  it('should expire the access token cookie with the token', () => {
+    const service = new AuthCookieService(mockDeep<AuthSessionService>());
+
+    // ACCESS_TOKEN_EXPIRES_IN defaults to 15m
+    expect(service.getCookieOptions().maxAge).toBe(15 * 60 * 1000);
+  });
+});
@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Response, CookieOptions } from 'express';
+import { AuthSessionService } from './auth-session.service';
+
+/** Lifetime of access tokens in the JWT library's format, e.g. "15m" */
+export const ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+
+const DURATION_UNIT_MS = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Environment-aware settings for the access and refresh token cookies
+ */
+@Injectable()
+export class AuthCookieService {
+  readonly cookieName = process.env.AUTH_COOKIE_NAME || 'token';
+  readonly refreshCookieName =
+    process.env.REFRESH_COOKIE_NAME || 'refresh_token';
+  private readonly cookieLogger = new Logger('AuthCookieConfig');
+
+  constructor(private readonly authSessionService: AuthSessionService) {}
+
+  private parseBooleanEnv(value?: string | null): boolean | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const normalized = value.trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) {
+      return true;
+    }
+    if (['false', '0', 'no', 'off'].includes(normalized)) {
+      return false;
+    }
+
+    return undefined;
+  }
+
+  private resolveCookieSameSite(): CookieOptions['sameSite'] {
+    const configured = process.env.COOKIE_SAME_SITE?.trim().toLowerCase();
+    if (configured === 'none' || configured === 'lax' || configured === 'strict') {
+      return configured as CookieOptions['sameSite'];
+    }
+
+    return process.env.NODE_ENV === 'production' ? 'none' : 'strict';
+  }
+
+  private resolveCookieSecure(sameSite: CookieOptions['sameSite']): boolean {
+    const explicit = this.parseBooleanEnv(process.env.COOKIE_SECURE);
+    if (sameSite === 'none') {
+      if (explicit === false) {
+        this.cookieLogger.warn(
+          'SameSite=None requires secure cookies; overriding COOKIE_SECURE=false to true.',
+        );
+      } else if (explicit !== true && process.env.NODE_ENV !== 'production') {
+        this.cookieLogger.warn(
+          'SameSite=None requires secure cookies; enabling secure flag automatically.',
+        );
+      }
+      return true;
+    }
+
+    if (typeof explicit === 'boolean') {
+      return explicit;
+    }
+
+    return process.env.NODE_ENV === 'production';
+  }
+
+  private resolveCookieDomain(): string | undefined {
+    const domain = process.env.COOKIE_DOMAIN?.trim();
+    return domain?.length ? domain : undefined;
+  }
+
+  /**
+   * The access token cookie expires with the token it carries, so browsers
+   * stop sending it once the JWT is no longer accepted
+   */
+  private resolveCookieMaxAge(): number {
+    const match = /^(\d+)\s*(ms|s|m|h|d)?$/i.exec(ACCESS_TOKEN_EXPIRES_IN.trim());
+    if (!match) {
+      this.cookieLogger.warn(
+        `Invalid ACCESS_TOKEN_EXPIRES_IN value "${ACCESS_TOKEN_EXPIRES_IN}". Falling back to default (15m).`,
+      );
+      return 15 * 60 * 1000;
+    }
+
+    // Same units as the JWT library; a bare number is milliseconds
+    const unit = (match[2]?.toLowerCase() ?? 'ms') as keyof typeof DURATION_UNIT_MS;
+    return parseInt(match[1], 10) * DURATION_UNIT_MS[unit];
+  }
+
+  getCookieOptions(): CookieOptions {
+    const sameSite = this.resolveCookieSameSite();
+    const secure = this.resolveCookieSecure(sameSite);
+    const domain = this.resolveCookieDomain();
+    const maxAge = this.resolveCookieMaxAge();
+
+    const options: CookieOptions = {
+      httpOnly: true,
+      secure,
+      sameSite,
+      maxAge,
+    };
+
+    if (domain) {
+      options.domain = domain;
+    }
+
+    this.cookieLogger.log(
+      `Cookie options resolved: ${JSON.stringify({
+        secure: options.secure,
+        sameSite: options.sameSite,
+        maxAge: options.maxAge,
+        domain: options.domain,
+      })}`,
+    );
+
+    return options;
+  }
+
+  /**
+   * Refresh cookies live longer and are only sent to the auth endpoints
+   */
+  getRefreshCookieOptions(): CookieOptions {
+    return {
+      ...this.getCookieOptions(),
+      maxAge: this.authSessionService.refreshTokenMaxAge,
+      path: '/api/auth',
+    };
+  }
+
+  setAuthCookies(res: Response, accessToken: string, refreshToken: string) {
+    res.cookie(this.cookieName, accessToken, this.getCookieOptions());
+    res.cookie(this.refreshCookieName, refreshToken, this.getRefreshCookieOptions());
+  }
+
+  clearAuthCookies(res: Response) {
+    res.clearCookie(this.cookieName, this.getCookieOptions());
+    const { maxAge, ...refreshCookieOptions } = this.getRefreshCookieOptions();
+    res.clearCookie(this.refreshCookieName, refreshCookieOptions);
+  }
+}
@@ -25,20 +25,28 @@ describe('AuthSecurityService', () => {
   });
 
   describe('recordFailedAttempt', () => {
-    it('should log failed attempts without throwing', async () => {
-      const logSpy = jest.spyOn(service['logger'], 'warn').mockImplementation();
+    it('should persist the failed attempt', async () => {
+      jest.spyOn(service['logger'], 'warn').mockImplementation();
 
       await service.recordFailedAttempt('testuser', '127.0.0.1');
 
-      expect(logSpy).toHaveBeenCalledWith('Failed login attempt for testuser from IP 127.0.0.1');
+      expect(mockPrisma.loginAttempt.create).toHaveBeenCalledWith({
+        data: { username: 'testuser', ipAddress: '127.0.0.1', success: false },
+      });
     });
 
     it('should handle errors gracefully', async () => {
       const logSpy = jest.spyOn(service['logger'], 'warn').mockImplementation();
+      mockPrisma.loginAttempt.create.mockRejectedValue(new Error('db down'));
 
-      await service.recordFailedAttempt('testuser', '127.0.0.1');
+      await expect(
+        service.recordFailedAttempt('testuser', '127.0.0.1'),
+      ).resolves.toBeUndefined();
 
-      expect(logSpy).toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(
+        'Failed to record login attempt',
+        expect.any(Error),
+      );
     });
   });
 
@@ -51,30 +59,113 @@ describe('AuthSecurityService', () => {
       expect(logSpy).toHaveBeenCalledWith('Successful login for testuser from IP 127.0.0.1');
     });
 
-    it('should handle errors gracefully', async () => {
-      const logSpy = jest.spyOn(service['logger'], 'warn').mockImplementation();
+    it('should record the success and clear outstanding failures', async () => {
+      jest.spyOn(service['logger'], 'log').mockImplementation();
 
       await service.recordSuccessfulLogin('testuser', '127.0.0.1');
 
-      expect(logSpy).not.toHaveBeenCalled(); // Should not warn if successful
+      expect(mockPrisma.loginAttempt.create).toHaveBeenCalledWith({
+        data: { username: 'testuser', ipAddress: '127.0.0.1', success: true },
+      });
+      expect(mockPrisma.loginAttempt.updateMany).toHaveBeenCalledWith({
+        where: { username: 'testuser', success: false, clearedAt: null },
+        data: { clearedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
     });
   });
 
   describe('isAccountLocked', () => {
-    it('should return false by default (no database table yet)', async () => {
+    it('should return false below the failure threshold', async () => {
+      mockPrisma.loginAttempt.count.mockResolvedValue(4);
+
       const result = await service.isAccountLocked('testuser');
 
       expect(result).toBe(false);
+      expect(mockPrisma.loginAttempt.count).toHaveBeenCalledWith({
+        where: {
+          success: false,
+          clearedAt: null,
+          createdAt: { gte: expect.any(Date) },
+          username: 'testuser',
+        },
+      });
+    });
+
+    it('should return true once the failure threshold is reached', async () => {
+      mockPrisma.loginAttempt.count.mockResolvedValue(5);
+
+      const result = await service.isAccountLocked('testuser');
+
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('isIpLocked', () => {
+    it('should use the per-IP threshold', async () => {
+      mockPrisma.loginAttempt.count.mockResolvedValue(19);
+      expect(await service.isIpLocked('10.0.0.1')).toBe(false);
+
+      mockPrisma.loginAttempt.count.mockResolvedValue(20);
+      expect(await service.isIpLocked('10.0.0.1')).toBe(true);
+    });
+  });
+
+  describe('getLockedIdentifiers', () => {
+    it('should report accounts at or above the threshold', async () => {
+      const now = Date.now();
+      const failures = Array.from({ length: 6 }, (_, i) => ({
+        username: 'admin',
+        ipAddress: `10.0.0.${i}`,
+        createdAt: new Date(now - (6 - i) * 1000),
+      }));
+      failures.push({
+        username: 'referee',
+        ipAddress: '10.0.0.1',
+        createdAt: new Date(now),
+      });
+      mockPrisma.loginAttempt.findMany.mockResolvedValue(failures as any);
+
+      const result = await service.getLockedIdentifiers();
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toEqual({
+        type: 'account',
+        identifier: 'admin',
+        failedAttempts: 6,
+        lastAttemptAt: failures[5].createdAt,
+        lockedUntil: new Date(failures[1].createdAt.getTime() + 900000),
+      });
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear outstanding failures for the account', async () => {
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+      mockPrisma.loginAttempt.updateMany.mockResolvedValue({ count: 5 });
+
+      const result = await service.unlockAccount('admin');
+
+      expect(result).toEqual({ cleared: 5 });
+      expect(mockPrisma.loginAttempt.updateMany).toHaveBeenCalledWith({
+        where: { username: 'admin', success: false, clearedAt: null },
+        data: { clearedAt: expect.any(Date) },
+      });
     });
   });
 
   describe('cleanupOldAttempts', () => {
-    it('should log cleanup operation', async () => {
+    it('should delete attempts past the retention period', async () => {
       const logSpy = jest.spyOn(service['logger'], 'debug').mockImplementation();
+      mockPrisma.loginAttempt.deleteMany.mockResolvedValue({ count: 0 });
 
-      await service.cleanupOldAttempts();
+      const result = await service.cleanupOldAttempts();
 
       expect(logSpy).toHaveBeenCalledWith('Cleaning up old login attempts');
+      expect(mockPrisma.loginAttempt.deleteMany).toHaveBeenCalledWith({
+        where: { createdAt: { lt: expect.any(Date) } },
+      });
+      expect(result).toEqual({ deleted: 0 });
     });
   });
 });
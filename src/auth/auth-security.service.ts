@@ -1,40 +1,191 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 
+export interface LockedIdentifier {
+  type: 'account' | 'ip';
+  identifier: string;
+  failedAttempts: number;
+  lastAttemptAt: Date;
+  lockedUntil: Date;
+}
+
 @Injectable()
-export class AuthSecurityService {
-  private readonly logger = new Logger(AuthSecurityService.name);  private readonly maxFailedAttempts = parseInt(process.env.MAX_FAILED_ATTEMPTS || '5');
+export class AuthSecurityService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuthSecurityService.name);
+  private readonly maxFailedAttempts = parseInt(process.env.MAX_FAILED_ATTEMPTS || '5');
+  private readonly maxFailedAttemptsPerIp = parseInt(process.env.MAX_FAILED_ATTEMPTS_PER_IP || '20');
   private readonly lockoutDuration = parseInt(process.env.LOCKOUT_DURATION || '900000'); // 15 minutes
+  private readonly attemptRetention = parseInt(process.env.LOGIN_ATTEMPT_RETENTION || '2592000000'); // 30 days
+  private cleanupInterval?: NodeJS.Timeout;
 
   constructor(private prisma: PrismaService) {}
 
+  onModuleInit() {
+    // Periodic cleanup of expired login attempts
+    this.cleanupInterval = setInterval(() => this.cleanupOldAttempts(), 60 * 60 * 1000);
+    this.cleanupInterval.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+
   async recordFailedAttempt(identifier: string, ip: string) {
     try {
-      // For now, we'll use a simple in-memory approach since we don't have the LoginAttempt table yet
-      // In production, this would use the database
       this.logger.warn(`Failed login attempt for ${identifier} from IP ${ip}`);
+      await this.prisma.loginAttempt.create({
+        data: { username: identifier, ipAddress: ip, success: false },
+      });
     } catch (error) {
       this.logger.warn('Failed to record login attempt', error);
     }
   }
 
+  /**
+   * An account is locked while it has at least MAX_FAILED_ATTEMPTS uncleared
+   * failures inside the sliding LOCKOUT_DURATION window.
+   */
   async isAccountLocked(identifier: string): Promise<boolean> {
-    // For now, return false since we don't have the database table
-    // In production, this would check the database for recent failed attempts
-    return false;
+    const failures = await this.prisma.loginAttempt.count({
+      where: { ...this.activeFailuresWhere(), username: identifier },
+    });
+    return failures >= this.maxFailedAttempts;
+  }
+
+  async isIpLocked(ip: string): Promise<boolean> {
+    const failures = await this.prisma.loginAttempt.count({
+      where: { ...this.activeFailuresWhere(), ipAddress: ip },
+    });
+    return failures >= this.maxFailedAttemptsPerIp;
   }
 
   async recordSuccessfulLogin(identifier: string, ip: string) {
     try {
       this.logger.log(`Successful login for ${identifier} from IP ${ip}`);
+      const now = new Date();
+      await this.prisma.$transaction([
+        this.prisma.loginAttempt.create({
+          data: { username: identifier, ipAddress: ip, success: true },
+        }),
+        // A successful login resets the failure counter for the account
+        this.prisma.loginAttempt.updateMany({
+          where: { username: identifier, success: false, clearedAt: null },
+          data: { clearedAt: now },
+        }),
+      ]);
     } catch (error) {
       this.logger.warn('Failed to record successful login', error);
     }
   }
 
+  /**
+   * List all accounts and IPs that are currently locked out
+   */
+  async getLockedIdentifiers(): Promise<LockedIdentifier[]> {
+    const failures = await this.prisma.loginAttempt.findMany({
+      where: this.activeFailuresWhere(),
+      select: { username: true, ipAddress: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byAccount = new Map<string, Date[]>();
+    const byIp = new Map<string, Date[]>();
+    for (const failure of failures) {
+      byAccount.set(failure.username, [
+        ...(byAccount.get(failure.username) || []),
+        failure.createdAt,
+      ]);
+      byIp.set(failure.ipAddress, [
+        ...(byIp.get(failure.ipAddress) || []),
+        failure.createdAt,
+      ]);
+    }
+
+    return [
+      ...this.collectLocked('account', byAccount, this.maxFailedAttempts),
+      ...this.collectLocked('ip', byIp, this.maxFailedAttemptsPerIp),
+    ];
+  }
+
+  /**
+   * Clear outstanding failures for an account so it can log in again
+   */
+  async unlockAccount(identifier: string): Promise<{ cleared: number }> {
+    const result = await this.prisma.loginAttempt.updateMany({
+      where: { username: identifier, success: false, clearedAt: null },
+      data: { clearedAt: new Date() },
+    });
+    this.logger.log(`Account ${identifier} unlocked (${result.count} failures cleared)`);
+    return { cleared: result.count };
+  }
+
+  /**
+   * Clear outstanding failures originating from an IP address
+   */
+  async unlockIp(ip: string): Promise<{ cleared: number }> {
+    const result = await this.prisma.loginAttempt.updateMany({
+      where: { ipAddress: ip, success: false, clearedAt: null },
+      data: { clearedAt: new Date() },
+    });
+    this.logger.log(`IP ${ip} unlocked (${result.count} failures cleared)`);
+    return { cleared: result.count };
+  }
+
   async cleanupOldAttempts() {
-    // For now, this is a no-op
-    // In production, this would clean up old login attempts from the database
     this.logger.debug('Cleaning up old login attempts');
+    try {
+      const cutoff = new Date(Date.now() - this.attemptRetention);
+      const result = await this.prisma.loginAttempt.deleteMany({
+        where: { createdAt: { lt: cutoff } },
+      });
+      if (result.count > 0) {
+        this.logger.log(`Removed ${result.count} login attempts older than ${cutoff.toISOString()}`);
+      }
+      return { deleted: result.count };
+    } catch (error) {
+      this.logger.warn('Failed to clean up old login attempts', error);
+      return { deleted: 0 };
+    }
+  }
+
+  private activeFailuresWhere() {
+    return {
+      success: false,
+      clearedAt: null,
+      createdAt: { gte: new Date(Date.now() - this.lockoutDuration) },
+    };
+  }
+
+  /**
+   * Attempts arrive sorted ascending. The lock lifts once enough of the oldest
+   * failures slide out of the window to drop below the threshold.
+   */
+  private collectLocked(
+    type: LockedIdentifier['type'],
+    attempts: Map<string, Date[]>,
+    threshold: number,
+  ): LockedIdentifier[] {
+    const locked: LockedIdentifier[] = [];
+    attempts.forEach((dates, identifier) => {
+      if (dates.length < threshold) {
+        return;
+      }
+      const releasingAttempt = dates[dates.length - threshold];
+      locked.push({
+        type,
+        identifier,
+        failedAttempts: dates.length,
+        lastAttemptAt: dates[dates.length - 1],
+        lockedUntil: new Date(releasingAttempt.getTime() + this.lockoutDuration),
+      });
+    });
+    return locked;
   }
 }
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { AuthSessionService } from './auth-session.service';
+import { PrismaService } from '../prisma.service';
+import { UserRole } from '../utils/prisma-types';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { setGlobalEventsGateway } from '../match-scores/ranking-update.service';
+
+const hash = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex');
+
+describe('AuthSessionService', () => {
+  let service: AuthSessionService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  const activeSession = {
+    id: 'session-1',
+    userId: 'user-1',
+    refreshTokenHash: hash('secret'),
+    userAgent: 'jest',
+    ipAddress: '127.0.0.1',
+    expiresAt: new Date(Date.now() + 60000),
+    lastUsedAt: new Date(),
+    revokedAt: null,
+    revokedReason: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: { id: 'user-1', username: 'testuser', role: UserRole.COMMON, isActive: true },
+  };
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthSessionService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<AuthSessionService>(AuthSessionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSession', () => {
+    it('should store only a hash of the refresh token secret', async () => {
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-1' } as any);
+
+      const { refreshToken } = await service.createSession('user-1', {
+        ipAddress: '127.0.0.1',
+      });
+
+      const [sessionId, secret] = refreshToken.split('.');
+      expect(sessionId).toBe('session-1');
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          refreshTokenHash: hash(secret),
+          ipAddress: '127.0.0.1',
+        }),
+      });
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should replace the stored hash and return a new token', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(activeSession as any);
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.rotateSession('session-1.secret');
+
+      expect(result.sessionId).toBe('session-1');
+      expect(result.refreshToken).not.toBe('session-1.secret');
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: 'session-1',
+            refreshTokenHash: hash('secret'),
+            revokedAt: null,
+          },
+        }),
+      );
+    });
+
+    it('should revoke the session when a rotated-out token is reused', async () => {
+      jest.spyOn(service['logger'], 'warn').mockImplementation();
+      mockPrisma.session.findUnique.mockResolvedValue(activeSession as any);
+      mockPrisma.session.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        service.rotateSession('session-1.stale-secret'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockPrisma.session.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'refresh_token_reuse' },
+      });
+    });
+
+    it('should reject revoked sessions', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+      } as any);
+
+      await expect(service.rotateSession('session-1.secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions of deactivated users', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({
+        ...activeSession,
+        user: { ...activeSession.user, isActive: false },
+      } as any);
+
+      await expect(service.rotateSession('session-1.secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(service.rotateSession('garbage')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('revokeUserSession', () => {
+    it('should not revoke sessions owned by another user', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.revokeUserSession('user-2', 'session-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should close the websockets of the revoked session', async () => {
+      const gateway = { disconnectSession: jest.fn() };
+      setGlobalEventsGateway(gateway);
+      mockPrisma.session.findFirst.mockResolvedValue({ id: 'session-1' } as any);
+
+      await service.revokeUserSession('user-1', 'session-1');
+
+      expect(gateway.disconnectSession).toHaveBeenCalledWith('session-1', 'Session revoked');
+      setGlobalEventsGateway(null);
+    });
+  });
+
+  describe('revokeOtherUserSessions', () => {
+    it('should keep the current session and close the sockets of the others', async () => {
+      const gateway = { disconnectSession: jest.fn() };
+      setGlobalEventsGateway(gateway);
+      mockPrisma.session.findMany.mockResolvedValue([{ id: 'session-2' }, { id: 'session-3' }] as any);
+
+      const result = await service.revokeOtherUserSessions('user-1', 'session-1', 'password_changed');
+
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, id: { not: 'session-1' } },
+        select: { id: true },
+      });
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledTimes(2);
+      expect(gateway.disconnectSession).toHaveBeenCalledWith('session-2', 'Session revoked');
+      expect(gateway.disconnectSession).toHaveBeenCalledWith('session-3', 'Session revoked');
+      expect(result).toEqual({ revoked: 2 });
+      setGlobalEventsGateway(null);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { getGlobalEventsGateway } from '../match-scores/ranking-update.service';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Manages server-side login sessions backed by rotating refresh tokens.
+ *
+ * A refresh token has the form `<sessionId>.<secret>`. Only a hash of the
+ * current secret is stored; every refresh replaces it. Presenting a secret
+ * that has already been rotated out means the token was copied, so the whole
+ * session is revoked.
+ */
+@Injectable()
+export class AuthSessionService {
+  private readonly logger = new Logger(AuthSessionService.name);
+  private readonly refreshTokenTtl = parseInt(process.env.REFRESH_TOKEN_TTL || '2592000000'); // 30 days
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  get refreshTokenMaxAge(): number {
+    return this.refreshTokenTtl;
+  }
+
+  async createSession(userId: string, context: SessionContext = {}) {
+    const secret = this.generateSecret();
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: this.hashSecret(secret),
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt: new Date(Date.now() + this.refreshTokenTtl),
+      },
+    });
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one, detecting reuse of rotated tokens
+   */
+  async rotateSession(refreshToken: string, context: SessionContext = {}) {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        user: { select: { id: true, username: true, role: true, isActive: true } },
+      },
+    });
+
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      !session.user.isActive
+    ) {
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    const nextSecret = this.generateSecret();
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const rotated = await this.prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: this.hashSecret(secret),
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hashSecret(nextSecret),
+        lastUsedAt: new Date(),
+        ipAddress: context.ipAddress ?? session.ipAddress,
+        userAgent: context.userAgent ?? session.userAgent,
+      },
+    });
+
+    if (rotated.count === 0) {
+      this.logger.warn(
+        `Refresh token reuse detected for session ${session.id} (user ${session.user.username}) from IP ${context.ipAddress}`,
+      );
+      await this.revokeSession(session.id, 'refresh_token_reuse');
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    return {
+      sessionId: session.id,
+      user: session.user,
+      refreshToken: `${session.id}.${nextSecret}`,
+    };
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  async listActiveSessions(userId: string) {
+    return this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revokeUserSession(userId: string, sessionId: string) {
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+      select: { id: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    await this.revokeSession(session.id, 'user_revoked');
+  }
+
+  async revokeSession(sessionId: string, reason: string) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    // Sockets are only authenticated at handshake, so close the ones using this session
+    getGlobalEventsGateway()?.disconnectSession?.(sessionId, 'Session revoked');
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to, ignoring malformed tokens
+   */
+  async revokeByRefreshToken(refreshToken: string, reason: string) {
+    try {
+      const { sessionId } = this.parseRefreshToken(refreshToken);
+      await this.revokeSession(sessionId, reason);
+    } catch (error) {
+      this.logger.debug(`Ignoring unusable refresh token on revoke: ${error.message}`);
+    }
+  }
+
+  async revokeAllUserSessions(userId: string, reason: string) {
+    const result = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    getGlobalEventsGateway()?.disconnectUser?.(userId, 'Session revoked');
+    return { revoked: result.count };
+  }
+
+  /**
+   * Revoke every session of a user except the one making the request
+   */
+  async revokeOtherUserSessions(userId: string, keepSessionId: string, reason: string) {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, id: { not: keepSessionId } },
+      select: { id: true },
+    });
+    for (const session of sessions) {
+      await this.revokeSession(session.id, reason);
+    }
+    return { revoked: sessions.length };
+  }
+
+  private parseRefreshToken(refreshToken: string) {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return { sessionId, secret };
+  }
+
+  private generateSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
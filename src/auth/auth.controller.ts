@@ -12,131 +12,45 @@ import {
   Ip,
   Logger,
   HttpStatus,
+  Param,
+  Delete,
+  Headers,
+  ParseUUIDPipe,
 } from '@nestjs/common';
-import { Response, CookieOptions } from 'express';
+import { Response } from 'express';
 import { AuthService } from './auth.service';
+import { AuthSecurityService } from './auth-security.service';
+import { AuthSessionService, SessionContext } from './auth-session.service';
+import { AuthCookieService } from './auth-cookie.service';
 import { UsersService } from '../users/users.service';
 import { UserRole } from '../utils/prisma-types';
 import { JwtAuthGuard } from './jwt-auth.guard';
 import { RolesGuard } from './roles.guard';
 import { Roles } from './roles.decorator';
+import { AllowDuringTwoFactorSetup } from './public.decorator';
 import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { RegisterDto } from './dto/register.dto';
 import { CreateUserDto } from '../users/dto';
 import { LoginDto } from './dto/login.dto';
 import { ActivateDto } from './dto/activate.dto';
 import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
 
 @Controller('auth')
 @UseGuards(ThrottlerGuard)
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
 
-  private readonly cookieName = process.env.AUTH_COOKIE_NAME || 'token';
-  private readonly cookieLogger = new Logger('AuthCookieConfig');
-
   constructor(
     private readonly authService: AuthService,
     private readonly usersService: UsersService,
+    private readonly authSecurityService: AuthSecurityService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly authCookieService: AuthCookieService,
   ) {}
 
-  private parseBooleanEnv(value?: string | null): boolean | undefined {
-    if (!value) {
-      return undefined;
-    }
-
-    const normalized = value.trim().toLowerCase();
-    if (['true', '1', 'yes', 'on'].includes(normalized)) {
-      return true;
-    }
-    if (['false', '0', 'no', 'off'].includes(normalized)) {
-      return false;
-    }
-
-    return undefined;
-  }
-
-  private resolveCookieSameSite(): CookieOptions['sameSite'] {
-    const configured = process.env.COOKIE_SAME_SITE?.trim().toLowerCase();
-    if (configured === 'none' || configured === 'lax' || configured === 'strict') {
-      return configured as CookieOptions['sameSite'];
-    }
-
-    return process.env.NODE_ENV === 'production' ? 'none' : 'strict';
-  }
-
-  private resolveCookieSecure(sameSite: CookieOptions['sameSite']): boolean {
-    const explicit = this.parseBooleanEnv(process.env.COOKIE_SECURE);
-    if (sameSite === 'none') {
-      if (explicit === false) {
-        this.cookieLogger.warn(
-          'SameSite=None requires secure cookies; overriding COOKIE_SECURE=false to true.',
-        );
-      } else if (explicit !== true && process.env.NODE_ENV !== 'production') {
-        this.cookieLogger.warn(
-          'SameSite=None requires secure cookies; enabling secure flag automatically.',
-        );
-      }
-      return true;
-    }
-
-    if (typeof explicit === 'boolean') {
-      return explicit;
-    }
-
-    return process.env.NODE_ENV === 'production';
-  }
-
-  private resolveCookieDomain(): string | undefined {
-    const domain = process.env.COOKIE_DOMAIN?.trim();
-    return domain?.length ? domain : undefined;
-  }
-
-  private resolveCookieMaxAge(): number {
-    const configured = process.env.COOKIE_MAX_AGE_MS;
-    if (!configured) {
-      return 24 * 60 * 60 * 1000; // 24 hours default
-    }
-
-    const parsed = parseInt(configured, 10);
-    if (Number.isFinite(parsed) && parsed > 0) {
-      return parsed;
-    }
-
-    this.cookieLogger.warn(
-      `Invalid COOKIE_MAX_AGE_MS value "${configured}". Falling back to default (24h).`,
-    );
-    return 24 * 60 * 60 * 1000;
-  }
-
-  private getCookieOptions(): CookieOptions {
-    const sameSite = this.resolveCookieSameSite();
-    const secure = this.resolveCookieSecure(sameSite);
-    const domain = this.resolveCookieDomain();
-    const maxAge = this.resolveCookieMaxAge();
-
-    const options: CookieOptions = {
-      httpOnly: true,
-      secure,
-      sameSite,
-      maxAge,
-    };
-
-    if (domain) {
-      options.domain = domain;
-    }
-
-    this.cookieLogger.log(
-      `Cookie options resolved: ${JSON.stringify({
-        secure: options.secure,
-        sameSite: options.sameSite,
-        maxAge: options.maxAge,
-        domain: options.domain,
-      })}`,
-    );
-
-    return options;
-  }
   @Post('register')
   @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 attempts per minute
   @HttpCode(HttpStatus.CREATED)
@@ -162,12 +76,36 @@ export class AuthController {
     return { message: 'Verification email sent successfully. Please check your inbox and spam folder.' };
   }
 
+  @Post('forgot-password')
+  @Throttle({ default: { limit: 1, ttl: 600000 } }) // 1 attempt per 10 minutes
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+    return { message: 'If an account exists for that email, a password reset link has been sent.' };
+  }
+
+  @Post('reset-password')
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{ message: string }> {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+    this.authCookieService.clearAuthCookies(res);
+    return { message: 'Password has been reset. Please log in with your new password.' };
+  }
+
   @Post('login')
   @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 attempts per minute
   async login(
     @Body(ValidationPipe) loginDto: LoginDto,
     @Res({ passthrough: true }) res: Response,
     @Ip() clientIp: string,
+    @Headers('user-agent') userAgent?: string,
   ) {
     console.log(
       `Validating user: ${loginDto.username} ${loginDto.password} from IP: ${clientIp}`,
@@ -176,29 +114,109 @@ export class AuthController {
       loginDto.username,
       loginDto.password,
       clientIp,
+      loginDto.twoFactorCode,
     );
-    const { access_token, user: userInfo } = await this.authService.login(user);
+    const sessionContext: SessionContext = { ipAddress: clientIp, userAgent };
+    const {
+      access_token,
+      refresh_token,
+      user: userInfo,
+      twoFactorSetupRequired,
+    } = await this.authService.login(user, sessionContext);
 
-    // Set JWT as HTTP-only cookie with environment-aware settings
-    const cookieOptions = this.getCookieOptions();
-    res.cookie(this.cookieName, access_token, cookieOptions);
+    // Set access and refresh tokens as HTTP-only cookies with environment-aware settings
+    this.authCookieService.setAuthCookies(res, access_token, refresh_token);
 
     this.logger.log(`User logged in: ${userInfo.username}`);
 
-    // Return token in response body for cross-domain scenarios
+    // Return tokens in response body for cross-domain scenarios
     return {
       user: userInfo,
       message: 'Login successful',
       access_token: access_token, // Include token for frontend to store
+      refresh_token: refresh_token,
+      twoFactorSetupRequired,
     };
   }
+
+  @Post('refresh')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Body() refreshDto: RefreshTokenDto,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
+    @Ip() clientIp: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const refreshToken =
+      refreshDto?.refreshToken || req.cookies?.[this.authCookieService.refreshCookieName];
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    try {
+      const { access_token, refresh_token, user } =
+        await this.authService.refreshTokens(refreshToken, {
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+      this.authCookieService.setAuthCookies(res, access_token, refresh_token);
+
+      return {
+        user,
+        message: 'Token refreshed',
+        access_token,
+        refresh_token,
+      };
+    } catch (error) {
+      this.authCookieService.clearAuthCookies(res);
+      throw error;
+    }
+  }
+
   @Post('logout')
-  logout(@Res({ passthrough: true }) res: Response) {
-    const cookieOptions = this.getCookieOptions();
-    res.clearCookie(this.cookieName, cookieOptions);
+  @HttpCode(HttpStatus.OK)
+  async logout(
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
+    @Body() refreshDto?: RefreshTokenDto,
+  ) {
+    const refreshToken =
+      refreshDto?.refreshToken || req.cookies?.[this.authCookieService.refreshCookieName];
+    if (refreshToken) {
+      await this.authSessionService.revokeByRefreshToken(refreshToken, 'logout');
+    }
+    this.authCookieService.clearAuthCookies(res);
     return { message: 'Logged out successfully' };
   }
 
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  async getSessions(@Request() req) {
+    const sessions = await this.authSessionService.listActiveSessions(req.user.id);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user.sessionId,
+    }));
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    await this.authSessionService.revokeUserSession(req.user.id, id);
+    if (id === req.user.sessionId) {
+      this.authCookieService.clearAuthCookies(res);
+    }
+    return { message: 'Session revoked' };
+  }
+
   @Get('init-admin')
   @HttpCode(201)
   async initializeAdmin() {
@@ -208,6 +226,7 @@ export class AuthController {
 
   @Get('check-auth')
   @UseGuards(JwtAuthGuard)
+  @AllowDuringTwoFactorSetup()
   async checkAuth(@Request() req) {
     // This endpoint requires a valid JWT token
     return {
@@ -230,214 +249,26 @@ export class AuthController {
     };
   }
 
-  @Get('debug-admin')
-  async debugAdmin() {
-    try {
-      const adminUsername = process.env.ADMIN_USERNAME || 'admin';
-      const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
-
-      // Find admin user
-      const user = await this.authService['prisma'].user.findUnique({
-        where: { username: adminUsername },
-        select: {
-          id: true,
-          username: true,
-          role: true,
-          password: true, // Include password for debugging
-          createdAt: true,
-        },
-      });
-
-      if (!user) {
-        return {
-          found: false,
-          message: 'Admin user not found',
-          expectedUsername: adminUsername,
-        };
-      }
-
-      // Test password validation
-      const bcrypt = require('bcrypt');
-      const passwordMatch = await bcrypt.compare(adminPassword, user.password);
-
-      return {
-        found: true,
-        user: {
-          id: user.id,
-          username: user.username,
-          role: user.role,
-          createdAt: user.createdAt,
-          passwordHashLength: user.password.length,
-        },
-        passwordTest: {
-          expectedPassword: adminPassword,
-          passwordMatch: passwordMatch,
-          hashStartsWith: user.password.substring(0, 10) + '...',
-        },
-      };
-    } catch (error) {
-      return {
-        error: true,
-        message: error.message,
-      };
-    }
-  }
-
-  @Get('force-recreate-admin')
-  @HttpCode(201)
-  async forceRecreateAdmin() {
-    // Temporarily disabled
-    return { message: 'Force recreate admin endpoint is temporarily disabled' };
-  }
-
-  @Get('debug-env')
-  debugEnvironment() {
-    return {
-      nodeEnv: process.env.NODE_ENV,
-      hasJwtSecret: !!process.env.JWT_SECRET,
-      frontendUrl: process.env.FRONTEND_URL,
-      cookieDomain: process.env.COOKIE_DOMAIN,
-      adminUsername: process.env.ADMIN_USERNAME,
-      hasAdminPassword: !!process.env.ADMIN_PASSWORD,
-      timestamp: new Date().toISOString(),
-    };
-  }
-
-  @Get('debug-cookies')
-  debugCookies(@Request() req) {
-    return {
-      cookies: req.cookies,
-      headers: {
-        cookie: req.headers.cookie,
-        authorization: req.headers.authorization,
-        origin: req.headers.origin,
-        referer: req.headers.referer,
-      },
-      timestamp: new Date().toISOString(),
-    };
-  }
-
-  @Get('test-cookie')
-  testCookie(@Res({ passthrough: true }) res: Response) {
-    // Test cookie with various settings
-    const testToken = 'test-token-12345';
-
-    // Set multiple test cookies with different configurations
-    res.cookie('test-token-strict', testToken, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'strict',
-      maxAge: 60 * 60 * 1000, // 1 hour
-    });
-
-    res.cookie('test-token-none', testToken, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'none',
-      maxAge: 60 * 60 * 1000, // 1 hour
-    });
-
-    res.cookie('test-token-lax', testToken, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 1000, // 1 hour
-    });
-
-    return {
-      message: 'Test cookies set',
-      instructions:
-        'Check your browser dev tools -> Application -> Cookies to see which cookies are set',
-    };
-  }
-
-  @Get('read-cookies')
-  readCookies(@Request() req) {
-    return {
-      allCookies: req.cookies,
-      tokenCookie: req.cookies[this.cookieName],
-      testCookies: {
-        strict: req.cookies['test-token-strict'],
-        none: req.cookies['test-token-none'],
-        lax: req.cookies['test-token-lax'],
-      },
-      headers: {
-        cookie: req.headers.cookie,
-        origin: req.headers.origin,
-        host: req.headers.host,
-      },
-    };
+  @Get('locked-accounts')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getLockedAccounts() {
+    return this.authSecurityService.getLockedIdentifiers();
   }
 
-  @Post('login-debug')
-  @Throttle({ default: { limit: 5, ttl: 60000 } })
-  async loginDebug(
-    @Body(ValidationPipe) loginDto: LoginDto,
-    @Res({ passthrough: true }) res: Response,
-    @Ip() clientIp: string,
-    @Request() req,
-  ) {
-    try {
-      const user = await this.authService.validateUser(
-        loginDto.username,
-        loginDto.password,
-        clientIp,
-      );
-      const { access_token, user: userInfo } =
-        await this.authService.login(user);
-
-      // Log the request details
-      const requestInfo = {
-        origin: req.headers.origin,
-        host: req.headers.host,
-        userAgent: req.headers['user-agent'],
-        referer: req.headers.referer,
-        forwardedFor: req.headers['x-forwarded-for'],
-        clientIp: clientIp,
-      };
-
-      // Set JWT as HTTP-only cookie with detailed logging
-      const cookieOptions = this.getCookieOptions();
-
-      res.cookie(this.cookieName, access_token, cookieOptions);
-
-      this.logger.log(`[LOGIN DEBUG] User logged in: ${userInfo.username}`);
-      this.logger.log(
-        `[LOGIN DEBUG] Cookie options: ${JSON.stringify(cookieOptions)}`,
-      );
-      this.logger.log(
-        `[LOGIN DEBUG] Request info: ${JSON.stringify(requestInfo)}`,
-      );
-
-      return {
-        user: userInfo,
-        message: 'Login successful',
-        debug: {
-          environment: process.env.NODE_ENV,
-          cookieOptions,
-          requestInfo,
-          tokenPreview: access_token.substring(0, 20) + '...',
-        },
-      };
-    } catch (error) {
-      this.logger.error(`[LOGIN DEBUG] Login failed: ${error.message}`);
-      throw error;
-    }
+  @Post('locked-accounts/:username/unlock')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async unlockAccount(@Param('username') username: string) {
+    return this.authSecurityService.unlockAccount(username);
   }
 
-  @Get('debug-headers')
-  debugHeaders(@Request() req) {
-    return {
-      authorizationHeader: req.headers.authorization,
-      cookieHeader: req.headers.cookie,
-      allHeaders: {
-        authorization: req.headers.authorization,
-        cookie: req.headers.cookie,
-        origin: req.headers.origin,
-        referer: req.headers.referer,
-        'user-agent': req.headers['user-agent'],
-      },
-      timestamp: new Date().toISOString(),
-    };
+  @Post('locked-ips/:ip/unlock')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async unlockIp(@Param('ip') ip: string) {
+    return this.authSecurityService.unlockIp(ip);
   }
 }
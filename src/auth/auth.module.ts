@@ -7,6 +7,10 @@ import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
 import { PrismaService } from '../prisma.service';
 import { AuthSecurityService } from './auth-security.service';
+import { AuthSessionService } from './auth-session.service';
+import { AuthCookieService, ACCESS_TOKEN_EXPIRES_IN } from './auth-cookie.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
 import { RolesGuard } from './roles.guard';
 import { EmailsModule } from '../emails/emails.module';
 import { UsersModule } from '../users/users.module';
@@ -16,7 +20,7 @@ import { UsersModule } from '../users/users.module';
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your-secret-key', // Use environment variable in production
-      signOptions: { expiresIn: '24h' },
+      signOptions: { expiresIn: ACCESS_TOKEN_EXPIRES_IN }, // Short-lived; renewed via refresh token
     }),
     ThrottlerModule.forRoot([
       {
@@ -38,10 +42,19 @@ import { UsersModule } from '../users/users.module';
     JwtStrategy,
     PrismaService,
     AuthSecurityService,
+    AuthSessionService,
+    AuthCookieService,
+    TwoFactorService,
     RolesGuard,
   ],
-  controllers: [AuthController],
-  exports: [AuthService, AuthSecurityService],
+  controllers: [AuthController, TwoFactorController],
+  exports: [
+    AuthService,
+    AuthSecurityService,
+    AuthSessionService,
+    AuthCookieService,
+    TwoFactorService,
+  ],
 })
 export class AuthModule implements OnModuleInit {
   private readonly logger = new Logger(AuthModule.name);
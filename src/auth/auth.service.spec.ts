@@ -1,9 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { AuthService } from './auth.service';
+import { AuthService, AccountDisabledException } from './auth.service';
 import { PrismaService } from '../prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { AuthSecurityService } from './auth-security.service';
+import { AuthSessionService } from './auth-session.service';
+import { TwoFactorRequiredException, TwoFactorService } from './two-factor.service';
 import { UsersService } from '../users/users.service';
+import { EmailsService } from '../emails/emails.service';
 import {
   UnauthorizedException,
   ConflictException,
@@ -19,12 +22,19 @@ describe('AuthService', () => {
   let mockJwtService: DeepMockProxy<JwtService>;
   let mockAuthSecurityService: DeepMockProxy<AuthSecurityService>;
   let mockUsersService: DeepMockProxy<UsersService>;
+  let mockAuthSessionService: DeepMockProxy<AuthSessionService>;
+  let mockEmailsService: DeepMockProxy<EmailsService>;
+  let mockTwoFactorService: DeepMockProxy<TwoFactorService>;
 
   beforeEach(async () => {
     mockPrisma = mockDeep<PrismaService>();
     mockJwtService = mockDeep<JwtService>();
     mockAuthSecurityService = mockDeep<AuthSecurityService>();
     mockUsersService = mockDeep<UsersService>();
+    mockAuthSessionService = mockDeep<AuthSessionService>();
+    mockEmailsService = mockDeep<EmailsService>();
+    mockTwoFactorService = mockDeep<TwoFactorService>();
+    mockTwoFactorService.isSetupRequired.mockResolvedValue(false);
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -33,6 +43,9 @@ describe('AuthService', () => {
         { provide: JwtService, useValue: mockJwtService },
         { provide: AuthSecurityService, useValue: mockAuthSecurityService },
         { provide: UsersService, useValue: mockUsersService },
+        { provide: AuthSessionService, useValue: mockAuthSessionService },
+        { provide: EmailsService, useValue: mockEmailsService },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
       ],
     }).compile();
 
@@ -59,8 +72,15 @@ describe('AuthService', () => {
       createdById: null,
       avatar: null,
       isActive: true,
+      statusChangedAt: null,
+      statusReason: null,
       lastLoginAt: null,
       emailVerified: true, // Changed to true so validation passes
+      lastVerificationEmailSent: null,
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      deletedAt: null,
     };
 
     it('should validate user with correct credentials', async () => {
@@ -97,11 +117,92 @@ describe('AuthService', () => {
         createdById: null,
         avatar: null,
         isActive: true,
+        statusChangedAt: null,
+        statusReason: null,
         lastLoginAt: null,
         emailVerified: true,
+        lastVerificationEmailSent: null,
+        twoFactorEnabledAt: null,
+        deletedAt: null,
       });
     });
 
+    it('should ask for a second factor when 2FA is enabled', async () => {
+      mockAuthSecurityService.isAccountLocked.mockResolvedValue(false);
+      mockAuthSecurityService.isIpLocked.mockResolvedValue(false);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      await expect(
+        service.validateUser('testuser', 'password', '127.0.0.1'),
+      ).rejects.toThrow(TwoFactorRequiredException);
+      expect(mockAuthSecurityService.recordFailedAttempt).not.toHaveBeenCalled();
+      expect(mockAuthSecurityService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed attempt for a wrong second factor', async () => {
+      mockAuthSecurityService.isAccountLocked.mockResolvedValue(false);
+      mockAuthSecurityService.isIpLocked.mockResolvedValue(false);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockTwoFactorService.verifyLoginCode.mockResolvedValue(false);
+
+      await expect(
+        service.validateUser('testuser', 'password', '127.0.0.1', '000000'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockAuthSecurityService.recordFailedAttempt).toHaveBeenCalledWith(
+        'testuser',
+        '127.0.0.1',
+      );
+    });
+
+    it('should log in with a valid second factor', async () => {
+      mockAuthSecurityService.isAccountLocked.mockResolvedValue(false);
+      mockAuthSecurityService.isIpLocked.mockResolvedValue(false);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabledAt: new Date(),
+        twoFactorSecret: 'encrypted',
+      } as any);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockTwoFactorService.verifyLoginCode.mockResolvedValue(true);
+
+      const result = await service.validateUser(
+        'testuser',
+        'password',
+        '127.0.0.1',
+        '123456',
+      );
+
+      expect(result.twoFactorSecret).toBeUndefined();
+      expect(mockAuthSecurityService.recordSuccessfulLogin).toHaveBeenCalledWith(
+        'testuser',
+        '127.0.0.1',
+      );
+    });
+
+    it('should reject a deactivated account without counting a failed attempt', async () => {
+      mockAuthSecurityService.isAccountLocked.mockResolvedValue(false);
+      mockAuthSecurityService.isIpLocked.mockResolvedValue(false);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+      } as any);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      await expect(
+        service.validateUser('testuser', 'password', '127.0.0.1'),
+      ).rejects.toThrow(AccountDisabledException);
+      expect(mockAuthSecurityService.recordFailedAttempt).not.toHaveBeenCalled();
+      expect(mockAuthSecurityService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    });
+
     it('should throw error if account is locked', async () => {
       mockAuthSecurityService.isAccountLocked.mockResolvedValue(true);
 
@@ -317,7 +418,7 @@ describe('AuthService', () => {
   });
 
   describe('login', () => {
-    it('should generate JWT token for valid user', async () => {
+    it('should create a session and issue access and refresh tokens', async () => {
       const user = {
         id: '1',
         username: 'testuser',
@@ -326,22 +427,151 @@ describe('AuthService', () => {
 
       const token = 'jwt-token';
       mockJwtService.sign.mockReturnValue(token);
+      mockAuthSessionService.createSession.mockResolvedValue({
+        session: { id: 'session-1' } as any,
+        refreshToken: 'session-1.secret',
+      });
 
-      const result = await service.login(user);
+      const result = await service.login(user, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+      });
 
+      expect(mockAuthSessionService.createSession).toHaveBeenCalledWith('1', {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+      });
       expect(mockJwtService.sign).toHaveBeenCalledWith({
         username: 'testuser',
         sub: '1',
         role: UserRole.COMMON,
+        sid: 'session-1',
       });
       expect(result).toEqual({
         access_token: token,
+        refresh_token: 'session-1.secret',
         user: {
           id: '1',
           username: 'testuser',
           role: UserRole.COMMON,
         },
+        twoFactorSetupRequired: false,
+      });
+    });
+  });
+
+  describe('refreshTokens', () => {
+    it('should rotate the refresh token and sign a new access token', async () => {
+      const user = { id: '1', username: 'testuser', role: UserRole.COMMON, isActive: true };
+      mockAuthSessionService.rotateSession.mockResolvedValue({
+        sessionId: 'session-1',
+        user,
+        refreshToken: 'session-1.next',
+      });
+      mockJwtService.sign.mockReturnValue('new-jwt');
+
+      const result = await service.refreshTokens('session-1.old');
+
+      expect(mockAuthSessionService.rotateSession).toHaveBeenCalledWith(
+        'session-1.old',
+        {},
+      );
+      expect(result).toEqual({
+        access_token: 'new-jwt',
+        refresh_token: 'session-1.next',
+        user,
+      });
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should silently ignore unknown emails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.requestPasswordReset('nobody@example.com'),
+      ).resolves.toBeUndefined();
+
+      expect(mockEmailsService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not send another email within the cooldown', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: '1',
+        username: 'testuser',
+        email: 'test@example.com',
+      } as any);
+      mockPrisma.passwordResetToken.findFirst.mockResolvedValue({
+        createdAt: new Date(),
+      } as any);
+
+      await service.requestPasswordReset('test@example.com');
+
+      expect(mockPrisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(mockEmailsService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('should store a hashed token and email the reset link', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: '1',
+        username: 'testuser',
+        email: 'test@example.com',
+      } as any);
+      mockPrisma.passwordResetToken.findFirst.mockResolvedValue(null);
+
+      await service.requestPasswordReset('test@example.com');
+
+      expect(mockPrisma.passwordResetToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: '1',
+          tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        }),
+      });
+      expect(mockEmailsService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'testuser',
+        expect.stringContaining('/reset-password?token='),
+        30,
+      );
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reject unknown or already used tokens', async () => {
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue(null);
+      jest.spyOn(bcrypt, 'hash').mockResolvedValue('hashed' as never);
+
+      await expect(
+        service.resetPassword('bad-token', 'NewPass123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockAuthSessionService.revokeAllUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('should update the password and revoke all sessions', async () => {
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue({
+        id: 'token-1',
+        userId: '1',
+      } as any);
+      mockPrisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.user.update.mockResolvedValue({
+        id: '1',
+        username: 'testuser',
+      } as any);
+      jest.spyOn(bcrypt, 'hash').mockResolvedValue('hashed' as never);
+
+      await service.resetPassword('good-token', 'NewPass123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { password: 'hashed' },
+        select: { id: true, username: true },
       });
+      expect(mockAuthSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        '1',
+        'password_reset',
+      );
     });
   });
 
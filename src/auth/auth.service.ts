@@ -11,15 +11,36 @@ import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma.service';
 import { UsersService } from '../users/users.service';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 import { UserRole } from '../utils/prisma-types';
 import { AuthSecurityService } from './auth-security.service';
+import { AuthSessionService, SessionContext } from './auth-session.service';
+import { TwoFactorRequiredException, TwoFactorService } from './two-factor.service';
 import { RegisterDto } from './dto/register.dto';
 import { EmailsService } from '../emails/emails.service';
 import { ActivateDto } from './dto/activate.dto';
 
+/**
+ * Login attempt for an account an admin has deactivated. The flag lets
+ * clients show a specific message instead of a generic failure.
+ */
+export class AccountDisabledException extends ForbiddenException {
+  constructor() {
+    super({
+      statusCode: 403,
+      error: 'Forbidden',
+      message: 'Account disabled. Contact an administrator to reactivate it.',
+      accountDisabled: true,
+    });
+  }
+}
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
+  private readonly bcryptRounds = 12;
+  private readonly passwordResetTtlMinutes = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30');
+  private readonly passwordResetCooldownMs = 10 * 60 * 1000; // Same cooldown as resend-verification
 
   constructor(
     private readonly prisma: PrismaService,
@@ -27,12 +48,15 @@ export class AuthService {
     private readonly usersService: UsersService,
     private readonly authSecurityService: AuthSecurityService,
     private readonly emailsService: EmailsService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   async validateUser(
     username: string,
     password: string,
     clientIp: string,
+    twoFactorCode?: string,
   ): Promise<any> {
     try {
       if (await this.authSecurityService.isAccountLocked(username)) {
@@ -41,6 +65,12 @@ export class AuthService {
         );
       }
 
+      if (await this.authSecurityService.isIpLocked(clientIp)) {
+        throw new UnauthorizedException(
+          'Too many failed login attempts from this address. Try again later.',
+        );
+      }
+
       const user = await this.prisma.user.findUnique({
         where: { username },
       });
@@ -56,17 +86,43 @@ export class AuthService {
         throw new UnauthorizedException('Invalid credentials');
       }
 
+      // Only reveal the account state once the password has been proven
+      if (!user.isActive) {
+        throw new AccountDisabledException();
+      }
+
       if (!user.emailVerified) {
         throw new ForbiddenException('User must verify email first');
       }
 
+      // Second step for accounts enrolled in two-factor authentication
+      if (user.twoFactorEnabledAt) {
+        if (!twoFactorCode) {
+          throw new TwoFactorRequiredException();
+        }
+        if (!(await this.twoFactorService.verifyLoginCode(user, twoFactorCode))) {
+          throw new UnauthorizedException('Invalid two-factor authentication code');
+        }
+      }
+
       // Record successful login
       await this.authSecurityService.recordSuccessfulLogin(username, clientIp);
 
-      const { password: _, ...result } = user;
+      const {
+        password: _,
+        twoFactorSecret: __,
+        twoFactorLastUsedStep: ___,
+        ...result
+      } = user;
       return result;
     } catch (err) {
-      await this.authSecurityService.recordFailedAttempt(username, clientIp);
+      // Asking for the second factor is not a failed attempt
+      if (
+        !(err instanceof TwoFactorRequiredException) &&
+        !(err instanceof AccountDisabledException)
+      ) {
+        await this.authSecurityService.recordFailedAttempt(username, clientIp);
+      }
       throw err;
     }
   }
@@ -191,6 +247,100 @@ export class AuthService {
     }
   }
 
+  /**
+   * Email a single-use password reset link. Always resolves the same way so
+   * callers cannot tell whether an account exists for the address.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, username: true, email: true },
+    });
+
+    if (!user?.email) {
+      this.logger.log(`Password reset requested for unknown email`);
+      return;
+    }
+
+    // Check rate limiting - 10 minutes cooldown between reset emails
+    const now = new Date();
+    const lastRequest = await this.prisma.passwordResetToken.findFirst({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    if (
+      lastRequest &&
+      lastRequest.createdAt.getTime() > now.getTime() - this.passwordResetCooldownMs
+    ) {
+      this.logger.warn(`Password reset for ${user.username} requested again within cooldown`);
+      return;
+    }
+
+    const token = randomBytes(32).toString('hex');
+
+    // Issuing a new token invalidates any earlier unused ones
+    await this.prisma.$transaction([
+      this.prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(now.getTime() + this.passwordResetTtlMinutes * 60 * 1000),
+        },
+      }),
+    ]);
+
+    await this.emailsService.sendPasswordResetEmail(
+      user.email,
+      user.username,
+      `${process.env.FRONTEND_URL}/reset-password?token=${token}`,
+      this.passwordResetTtlMinutes,
+    );
+  }
+
+  /**
+   * Consume a reset token, set the new password and sign the user out everywhere
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const now = new Date();
+    const hashedPassword = await bcrypt.hash(newPassword, this.bcryptRounds);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash: this.hashToken(token) },
+        select: { id: true, userId: true },
+      });
+
+      // Conditional update keeps the token single-use under concurrent requests
+      const consumed = resetToken
+        ? await tx.passwordResetToken.updateMany({
+            where: { id: resetToken.id, usedAt: null, expiresAt: { gt: now } },
+            data: { usedAt: now },
+          })
+        : { count: 0 };
+
+      if (!resetToken || consumed.count === 0) {
+        throw new BadRequestException('Password reset link is invalid or has expired.');
+      }
+
+      return tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+        select: { id: true, username: true },
+      });
+    });
+
+    await this.authSessionService.revokeAllUserSessions(user.id, 'password_reset');
+    await this.authSecurityService.unlockAccount(user.username);
+
+    this.logger.log(`Password reset completed for ${user.username}`);
+  }
+
   async createDefaultAdmin() {
     const adminUsername = process.env.ADMIN_USERNAME || 'admin';
     const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
@@ -234,15 +384,94 @@ export class AuthService {
     }
   }
 
-  async login(user: any) {
-    const payload = { username: user.username, sub: user.id, role: user.role };
+  async login(user: any, context: SessionContext = {}) {
+    const { session, refreshToken } =
+      await this.authSessionService.createSession(user.id, context);
+
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: this.signAccessToken(user, session.id),
+      refresh_token: refreshToken,
       user: {
         id: user.id,
         username: user.username,
         role: user.role,
       },
+      // Frontend should send the user to 2FA enrollment before anything else
+      twoFactorSetupRequired: await this.twoFactorService.isSetupRequired(user),
+    };
+  }
+
+  /**
+   * Rotate a refresh token and issue a fresh access token for its session
+   */
+  async refreshTokens(refreshToken: string, context: SessionContext = {}) {
+    const { sessionId, user, refreshToken: nextRefreshToken } =
+      await this.authSessionService.rotateSession(refreshToken, context);
+
+    return {
+      access_token: this.signAccessToken(user, sessionId),
+      refresh_token: nextRefreshToken,
+      user,
+    };
+  }
+
+  /**
+   * Resolve the user behind an access token outside the HTTP pipeline
+   * (e.g. websocket handshakes). Returns null for invalid, expired or
+   * revoked tokens instead of throwing.
+   */
+  async authenticateAccessToken(token: string) {
+    try {
+      const payload = await this.jwtService.verifyAsync(token);
+
+      if (!payload.sid || !(await this.authSessionService.isSessionActive(payload.sid))) {
+        return null;
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: {
+          id: true,
+          username: true,
+          role: true,
+          isActive: true,
+          twoFactorEnabledAt: true,
+        },
+      });
+
+      // Same rule as JwtAuthGuard: no access until required 2FA is set up
+      if (
+        !user ||
+        !user.isActive ||
+        (await this.twoFactorService.isSetupRequired(user))
+      ) {
+        return null;
+      }
+
+      return {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        sub: user.id,
+        sessionId: payload.sid as string,
+      };
+    } catch (error) {
+      this.logger.debug(`Access token rejected: ${error.message}`);
+      return null;
+    }
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private signAccessToken(user: any, sessionId: string): string {
+    const payload = {
+      username: user.username,
+      sub: user.id,
+      role: user.role,
+      sid: sessionId,
     };
+    return this.jwtService.sign(payload);
   }
 }
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const forgotPasswordDto = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export class ForgotPasswordDto extends createZodDto(forgotPasswordDto) {}
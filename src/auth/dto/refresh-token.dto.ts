@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const refreshTokenDto = z.object({
+  // Optional because browsers send the refresh token as an HTTP-only cookie
+  refreshToken: z.string().min(1, 'Refresh token cannot be empty').optional(),
+});
+
+export class RefreshTokenDto extends createZodDto(refreshTokenDto) {}
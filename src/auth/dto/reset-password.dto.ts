@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const resetPasswordDto = z
+  .object({
+    token: z.string().min(1, 'Token is required'),
+    newPassword: z
+      .string()
+      .min(6, 'Password must be at least 6 characters')
+      .max(100, 'Password must not exceed 100 characters')
+      .regex(
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+        'Password must contain at least one lowercase letter, one uppercase letter, and one number',
+      ),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+export class ResetPasswordDto extends createZodDto(resetPasswordDto) {}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const twoFactorCodeDto = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(6, 'Code must be at least 6 characters')
+    .max(20, 'Code must not exceed 20 characters'),
+});
+
+export class TwoFactorCodeDto extends createZodDto(twoFactorCodeDto) {}
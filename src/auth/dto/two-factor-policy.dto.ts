@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const twoFactorPolicyDto = z.object({
+  required: z.boolean(),
+});
+
+export class TwoFactorPolicyDto extends createZodDto(twoFactorPolicyDto) {}
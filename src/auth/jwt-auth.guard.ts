@@ -1,15 +1,31 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+  Optional,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
-import { IS_PUBLIC_KEY } from './public.decorator';
+import { IS_PUBLIC_KEY, ALLOW_TWO_FACTOR_SETUP_KEY } from './public.decorator';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import {
+  API_KEY_SCOPE_KEY,
+  ApiKeyScopeMetadata,
+} from '../api-keys/api-key-scope.decorator';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    @Optional() private apiKeysService?: ApiKeysService,
+    @Optional() private tournamentResolver?: TournamentResolverService,
+  ) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -19,7 +35,84 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return super.canActivate(context);
+    const request = context.switchToHttp().getRequest();
+    const authorization: string | undefined = request.headers?.authorization;
+    if (authorization?.startsWith('ApiKey ')) {
+      return this.authenticateApiKey(context, request, authorization.substring(7).trim());
+    }
+
+    const activated = (await super.canActivate(context)) as boolean;
+    if (!activated) {
+      return false;
+    }
+
+    // Users who still have to enroll in required 2FA may only reach setup endpoints
+    const { user } = context.switchToHttp().getRequest();
+    if (user?.twoFactorSetupRequired) {
+      const allowed = this.reflector.getAllAndOverride<boolean>(
+        ALLOW_TWO_FACTOR_SETUP_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!allowed) {
+        throw new ForbiddenException({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: `Two-factor authentication must be set up for ${user.role} accounts`,
+          twoFactorSetupRequired: true,
+        });
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * API keys only reach endpoints marked with @ApiKeyScope, and only when the
+   * key holds that scope and, if restricted, targets its tournament.
+   */
+  private async authenticateApiKey(
+    context: ExecutionContext,
+    request: any,
+    key: string,
+  ): Promise<boolean> {
+    if (!this.apiKeysService) {
+      throw new UnauthorizedException('API key authentication is not available');
+    }
+
+    const principal = await this.apiKeysService.authenticate(key, request.ip);
+    if (!principal) {
+      throw new UnauthorizedException('Invalid, expired or revoked API key');
+    }
+
+    const required = this.reflector.getAllAndOverride<ApiKeyScopeMetadata>(
+      API_KEY_SCOPE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
+    }
+    if (!principal.scopes.includes(required.scope)) {
+      throw new ForbiddenException(`API key is missing the ${required.scope} scope`);
+    }
+
+    if (principal.tournamentId) {
+      const tournamentId = await this.tournamentResolver?.resolveTournamentId(
+        request.params ?? {},
+        request.body,
+        required.idParam,
+      );
+      if (tournamentId !== principal.tournamentId) {
+        throw new ForbiddenException('API key is not valid for this tournament');
+      }
+    }
+
+    request.user = {
+      id: null,
+      username: `api-key:${principal.name}`,
+      role: null,
+      apiKey: principal,
+    };
+    return true;
   }
 }
 
@@ -3,12 +3,18 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PrismaService } from '../prisma.service';
 import { Request } from 'express';
+import { AuthSessionService } from './auth-session.service';
+import { TwoFactorService } from './two-factor.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   private readonly logger = new Logger(JwtStrategy.name);
 
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private authSessionService: AuthSessionService,
+    private twoFactorService: TwoFactorService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
         ExtractJwt.fromAuthHeaderAsBearerToken(), // Authorization header (primary)
@@ -24,6 +30,12 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       // Log the payload for debugging
       this.logger.debug(`JWT payload: ${JSON.stringify(payload)}`);
       
+      // Access tokens are bound to a server-side session that can be revoked
+      if (!payload.sid || !(await this.authSessionService.isSessionActive(payload.sid))) {
+        this.logger.warn(`Session ${payload.sid} for user ${payload.sub} is not active`);
+        throw new UnauthorizedException('Session revoked');
+      }
+
       // Find the user by ID from JWT payload
       const user = await this.prisma.user.findUnique({
         where: { id: payload.sub },
@@ -31,6 +43,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
           id: true,
           username: true,
           role: true,
+          isActive: true,
+          twoFactorEnabledAt: true,
         },
       });
 
@@ -39,13 +53,22 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('User not found');
       }
 
+      if (!user.isActive) {
+        this.logger.warn(`User ${user.username} is deactivated`);
+        throw new UnauthorizedException('Account disabled');
+      }
+
       this.logger.debug(`User authenticated: ${user.username}, role: ${user.role}`);
       
       // Return user object in format expected by controllers
       // Controllers expect req.user.sub for the user ID
+      const { twoFactorEnabledAt, isActive, ...profile } = user;
       const userObject = {
-        ...user,
-        sub: user.id // Add sub field for compatibility with existing controller code
+        ...profile,
+        sub: user.id, // Add sub field for compatibility with existing controller code
+        sessionId: payload.sid,
+        // Role requires 2FA but the user has not enrolled; JwtAuthGuard limits access
+        twoFactorSetupRequired: await this.twoFactorService.isSetupRequired(user),
       };
       
       this.logger.debug(`Returning user object: ${JSON.stringify(userObject)}`);
@@ -15,3 +15,12 @@ export const IS_PUBLIC_KEY = 'isPublic';
  * ```
  */
 export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+export const ALLOW_TWO_FACTOR_SETUP_KEY = 'allowTwoFactorSetup';
+
+/**
+ * Keep an endpoint reachable for users whose role requires two-factor
+ * authentication but who have not enrolled yet
+ */
+export const AllowDuringTwoFactorSetup = () =>
+  SetMetadata(ALLOW_TWO_FACTOR_SETUP_KEY, true);
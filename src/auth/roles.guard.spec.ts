@@ -0,0 +1,87 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { RolesGuard } from './roles.guard';
+import { ROLES_KEY } from './roles.decorator';
+import { TOURNAMENT_ROLES_KEY, TOURNAMENT_MANAGER_ROLES } from './tournament-roles.decorator';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
+import { TournamentMembershipsService } from '../tournament-memberships/tournament-memberships.service';
+import { TournamentRole, UserRole } from '../utils/prisma-types';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let reflector: Reflector;
+  let resolver: DeepMockProxy<TournamentResolverService>;
+  let memberships: DeepMockProxy<TournamentMembershipsService>;
+
+  const createContext = (user: any, params: Record<string, string> = {}): ExecutionContext =>
+    ({
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToHttp: () => ({
+        getRequest: () => ({ user, params, body: {} }),
+      }),
+    }) as any;
+
+  const withMetadata = (metadata: Record<string, unknown>) =>
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockImplementation((key: string) => metadata[key]);
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    resolver = mockDeep<TournamentResolverService>();
+    memberships = mockDeep<TournamentMembershipsService>();
+    guard = new RolesGuard(reflector, resolver, memberships);
+    jest.spyOn(guard['logger'], 'warn').mockImplementation();
+    jest.spyOn(guard['logger'], 'debug').mockImplementation();
+  });
+
+  it('should check the global role when no tournament roles are declared', async () => {
+    withMetadata({ [ROLES_KEY]: [UserRole.ADMIN] });
+    const user = { id: 'u1', username: 'ref', role: UserRole.HEAD_REFEREE };
+
+    await expect(guard.canActivate(createContext(user))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should let global admins through tournament-scoped routes', async () => {
+    withMetadata({ [TOURNAMENT_ROLES_KEY]: { roles: TOURNAMENT_MANAGER_ROLES } });
+    const user = { id: 'u1', username: 'admin', role: UserRole.ADMIN };
+
+    await expect(guard.canActivate(createContext(user))).resolves.toBe(true);
+    expect(memberships.getRole).not.toHaveBeenCalled();
+  });
+
+  it('should allow members holding a listed role in the resolved tournament', async () => {
+    withMetadata({
+      [TOURNAMENT_ROLES_KEY]: { roles: TOURNAMENT_MANAGER_ROLES, idParam: 'tournament' },
+    });
+    resolver.resolveTournamentId.mockResolvedValue('t1');
+    memberships.getRole.mockResolvedValue(TournamentRole.ORGANIZER);
+    const user = { id: 'u1', username: 'org', role: UserRole.COMMON };
+
+    await expect(guard.canActivate(createContext(user, { id: 't1' }))).resolves.toBe(true);
+    expect(memberships.getRole).toHaveBeenCalledWith('t1', 'u1');
+  });
+
+  it('should ignore the global role on tournament-scoped routes', async () => {
+    withMetadata({
+      [ROLES_KEY]: [UserRole.HEAD_REFEREE],
+      [TOURNAMENT_ROLES_KEY]: { roles: [TournamentRole.HEAD_REFEREE] },
+    });
+    resolver.resolveTournamentId.mockResolvedValue('t2');
+    memberships.getRole.mockResolvedValue(null);
+    const user = { id: 'u1', username: 'ref', role: UserRole.HEAD_REFEREE };
+
+    await expect(guard.canActivate(createContext(user))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject when the tournament cannot be resolved', async () => {
+    withMetadata({ [TOURNAMENT_ROLES_KEY]: { roles: TOURNAMENT_MANAGER_ROLES } });
+    resolver.resolveTournamentId.mockResolvedValue(null);
+    const user = { id: 'u1', username: 'org', role: UserRole.COMMON };
+
+    await expect(guard.canActivate(createContext(user))).rejects.toThrow(ForbiddenException);
+    expect(memberships.getRole).not.toHaveBeenCalled();
+  });
+});
@@ -5,29 +5,39 @@ import {
   UnauthorizedException,
   ForbiddenException,
   Logger,
+  Optional,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { UserRole } from '../utils/prisma-types';
 import { ROLES_KEY } from './roles.decorator';
+import { TOURNAMENT_ROLES_KEY, TournamentRolesMetadata } from './tournament-roles.decorator';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
+import { TournamentMembershipsService } from '../tournament-memberships/tournament-memberships.service';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
   private readonly logger = new Logger(RolesGuard.name);
 
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    @Optional() private tournamentResolver?: TournamentResolverService,
+    @Optional() private membershipsService?: TournamentMembershipsService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
       ROLES_KEY,
       [context.getHandler(), context.getClass()],
     );
+    const tournamentRoles = this.reflector.getAllAndOverride<TournamentRolesMetadata>(
+      TOURNAMENT_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
 
-    if (!requiredRoles) {
+    if (!requiredRoles && !tournamentRoles) {
       return true; // No roles required, allow access
     }
 
-    this.logger.debug(`Required roles: ${requiredRoles.join(', ')}`);
-
     const request = context.switchToHttp().getRequest();
     const user = request.user;
 
@@ -38,6 +48,17 @@ export class RolesGuard implements CanActivate {
       throw new UnauthorizedException('User not authenticated');
     }
 
+    // API keys are authorised by scope in JwtAuthGuard rather than by role
+    if (user.apiKey) {
+      return true;
+    }
+
+    if (tournamentRoles) {
+      return this.checkTournamentRole(request, user, tournamentRoles);
+    }
+
+    this.logger.debug(`Required roles: ${requiredRoles.join(', ')}`);
+
     this.logger.debug(
       `User attempting access: ${user.username}, role: ${user.role}`,
     );
@@ -59,4 +80,38 @@ export class RolesGuard implements CanActivate {
     );
     return true;
   }
+
+  /**
+   * Global ADMINs manage every tournament. Everyone else needs a membership
+   * with one of the listed roles in the tournament the request targets.
+   */
+  private async checkTournamentRole(
+    request: any,
+    user: any,
+    { roles, idParam }: TournamentRolesMetadata,
+  ): Promise<boolean> {
+    if (user.role === UserRole.ADMIN) {
+      return true;
+    }
+
+    const tournamentId = await this.tournamentResolver?.resolveTournamentId(
+      request.params ?? {},
+      request.body,
+      idParam,
+    );
+    const membershipRole = tournamentId
+      ? await this.membershipsService?.getRole(tournamentId, user.id)
+      : null;
+
+    if (!membershipRole || !roles.includes(membershipRole)) {
+      this.logger.warn(
+        `Access denied: User ${user.username} has role ${membershipRole ?? 'none'} in tournament ${tournamentId ?? 'unknown'}. Required: ${roles.join(', ')}`,
+      );
+      throw new ForbiddenException(
+        'You do not have the required role in this tournament',
+      );
+    }
+
+    return true;
+  }
 }
@@ -0,0 +1,45 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotp,
+  getTimeStep,
+  verifyTotp,
+} from './totp.util';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp.util', () => {
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('hello two factor');
+    expect(base32Decode(base32Encode(buffer))).toEqual(buffer);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTimeStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept codes within the drift window and return their step', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, getTimeStep(now) - 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(getTimeStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const url = buildOtpauthUrl('RMS', 'admin@example.com', 'ABCDEF');
+    expect(url).toMatch(/^otpauth:\/\/totp\/RMS%3Aadmin%40example\.com\?/);
+    expect(url).toContain('secret=ABCDEF');
+    expect(url).toContain('issuer=RMS');
+  });
+});
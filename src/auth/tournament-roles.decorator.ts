@@ -0,0 +1,37 @@
+import { SetMetadata } from '@nestjs/common';
+import { TournamentRole } from '../utils/prisma-types';
+import { TournamentIdParam } from '../common/services/tournament-resolver.service';
+
+export interface TournamentRolesMetadata {
+  roles: TournamentRole[];
+  idParam?: TournamentIdParam;
+}
+
+export const TOURNAMENT_ROLES_KEY = 'tournamentRoles';
+
+// Can change the tournament's setup
+export const TOURNAMENT_MANAGER_ROLES: TournamentRole[] = [
+  TournamentRole.OWNER,
+  TournamentRole.ORGANIZER,
+];
+
+// Can run matches and enter scores
+export const TOURNAMENT_OFFICIAL_ROLES: TournamentRole[] = [
+  ...TOURNAMENT_MANAGER_ROLES,
+  TournamentRole.HEAD_REFEREE,
+];
+
+/**
+ * Restrict a route to users holding one of `roles` in the tournament the
+ * request targets. Global ADMINs always pass. Takes precedence over @Roles.
+ *
+ * @example
+ * ```typescript
+ * @Patch(':id')
+ * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'stage')
+ * update(@Param('id') id: string) {}
+ * ```
+ */
+export const TournamentRoles = (roles: TournamentRole[], idParam?: TournamentIdParam) =>
+  SetMetadata(TOURNAMENT_ROLES_KEY, { roles, idParam } as TournamentRolesMetadata);
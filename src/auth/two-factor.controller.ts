@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Request,
+  Post,
+  Put,
+  UseGuards,
+  Body,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { UserRole } from '../utils/prisma-types';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { Roles } from './roles.decorator';
+import { AllowDuringTwoFactorSetup } from './public.decorator';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorPolicyDto } from './dto/two-factor-policy.dto';
+import { Audited } from '../audit/audited.decorator';
+
+@Controller('auth/2fa')
+@Audited('twoFactor')
+@UseGuards(ThrottlerGuard, JwtAuthGuard)
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get('status')
+  @AllowDuringTwoFactorSetup()
+  async getStatus(@Request() req) {
+    return this.twoFactorService.getStatus(req.user.id);
+  }
+
+  /**
+   * Returns the secret and an otpauth:// URI for the frontend to render as a QR code
+   */
+  @Post('setup')
+  @AllowDuringTwoFactorSetup()
+  @HttpCode(HttpStatus.OK)
+  async setup(@Request() req) {
+    return this.twoFactorService.beginSetup(req.user.id);
+  }
+
+  @Post('enable')
+  @AllowDuringTwoFactorSetup()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async enable(@Request() req, @Body() codeDto: TwoFactorCodeDto) {
+    return this.twoFactorService.enable(req.user.id, codeDto.code);
+  }
+
+  @Post('disable')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async disable(@Request() req, @Body() codeDto: TwoFactorCodeDto) {
+    await this.twoFactorService.disable(req.user.id, codeDto.code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('backup-codes')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async regenerateBackupCodes(@Request() req, @Body() codeDto: TwoFactorCodeDto) {
+    return this.twoFactorService.regenerateBackupCodes(req.user.id, codeDto.code);
+  }
+
+  @Get('policies')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPolicies() {
+    return this.twoFactorService.listPolicies();
+  }
+
+  @Put('policies/:role')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async setPolicy(
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+    @Body() policyDto: TwoFactorPolicyDto,
+    @Request() req,
+  ) {
+    return this.twoFactorService.setPolicy(role, policyDto.required, req.user.id);
+  }
+
+  @Post('users/:id/reset')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async resetUser(@Param('id', ParseUUIDPipe) id: string) {
+    return this.twoFactorService.resetForUser(id);
+  }
+}
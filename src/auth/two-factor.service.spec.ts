@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { PrismaService } from '../prisma.service';
+import { UserRole } from '../utils/prisma-types';
+import { generateTotp } from './totp.util';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  const baseUser = {
+    id: 'user-1',
+    username: 'headref',
+    email: 'headref@example.com',
+    role: UserRole.HEAD_REFEREE,
+    twoFactorSecret: null as string | null,
+    twoFactorEnabledAt: null as Date | null,
+    twoFactorLastUsedStep: null as number | null,
+  };
+
+  /**
+   * Run beginSetup and capture the encrypted secret it stores
+   */
+  const setUpSecret = async () => {
+    mockPrisma.user.findUnique.mockResolvedValueOnce(baseUser as any);
+    const { secret } = await service.beginSetup('user-1');
+    const stored = (mockPrisma.user.update.mock.calls[0][0].data as any).twoFactorSecret;
+    return { secret, stored };
+  };
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+    jest.spyOn(service['logger'], 'log').mockImplementation();
+    jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  describe('beginSetup', () => {
+    it('should store an encrypted secret and return a provisioning URI', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(baseUser as any);
+
+      const result = await service.beginSetup('user-1');
+      const stored = (mockPrisma.user.update.mock.calls[0][0].data as any).twoFactorSecret;
+
+      expect(result.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUrl).toContain('headref%40example.com');
+      expect(stored).not.toContain(result.secret);
+    });
+
+    it('should refuse when 2FA is already enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        twoFactorEnabledAt: new Date(),
+      } as any);
+
+      await expect(service.beginSetup('user-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('enable', () => {
+    it('should enable 2FA with a valid code and return backup codes', async () => {
+      const { secret, stored } = await setUpSecret();
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        twoFactorSecret: stored,
+      } as any);
+      mockPrisma.$transaction.mockResolvedValue([]);
+
+      const result = await service.enable('user-1', generateTotp(secret));
+
+      expect(result.backupCodes).toHaveLength(10);
+      expect(result.backupCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(mockPrisma.twoFactorBackupCode.createMany).toHaveBeenCalled();
+    });
+
+    it('should reject an invalid code', async () => {
+      const { stored } = await setUpSecret();
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        twoFactorSecret: stored,
+      } as any);
+
+      await expect(service.enable('user-1', '000000')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyLoginCode', () => {
+    it('should accept a current TOTP code once', async () => {
+      const { secret, stored } = await setUpSecret();
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        service.verifyLoginCode({ id: 'user-1', twoFactorSecret: stored }, generateTotp(secret)),
+      ).resolves.toBe(true);
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      const { secret, stored } = await setUpSecret();
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+      mockPrisma.twoFactorBackupCode.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.verifyLoginCode({ id: 'user-1', twoFactorSecret: stored }, generateTotp(secret)),
+      ).resolves.toBe(false);
+    });
+
+    it('should consume an unused backup code', async () => {
+      mockPrisma.twoFactorBackupCode.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        service.verifyLoginCode({ id: 'user-1', twoFactorSecret: null }, 'ABCDE-12345'),
+      ).resolves.toBe(true);
+      expect(mockPrisma.twoFactorBackupCode.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          codeHash: createHash('sha256').update('abcde12345').digest('hex'),
+          usedAt: null,
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('disable', () => {
+    it('should not allow disabling when the role requires 2FA', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      mockPrisma.twoFactorPolicy.findUnique.mockResolvedValue({
+        role: UserRole.HEAD_REFEREE,
+        required: true,
+      } as any);
+
+      await expect(service.disable('user-1', '123456')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('isSetupRequired', () => {
+    it('should require setup for unenrolled users of a required role', async () => {
+      mockPrisma.twoFactorPolicy.findUnique.mockResolvedValue({
+        role: UserRole.ADMIN,
+        required: true,
+      } as any);
+
+      await expect(
+        service.isSetupRequired({ id: 'u', role: UserRole.ADMIN, twoFactorEnabledAt: null }),
+      ).resolves.toBe(true);
+      await expect(
+        service.isSetupRequired({ id: 'u', role: UserRole.ADMIN, twoFactorEnabledAt: new Date() }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('listPolicies', () => {
+    it('should report every role, defaulting to not required', async () => {
+      mockPrisma.twoFactorPolicy.findMany.mockResolvedValue([
+        { role: UserRole.ADMIN, required: true, updatedAt: new Date() } as any,
+      ]);
+
+      const policies = await service.listPolicies();
+
+      expect(policies).toHaveLength(Object.values(UserRole).length);
+      expect(policies.find((p) => p.role === UserRole.ADMIN)?.required).toBe(true);
+      expect(policies.find((p) => p.role === UserRole.HEAD_REFEREE)?.required).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { UserRole } from '../utils/prisma-types';
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp.util';
+
+export interface TwoFactorSubject {
+  id: string;
+  role: UserRole;
+  twoFactorEnabledAt?: Date | null;
+}
+
+/**
+ * Password was correct but the account needs a second factor. The flag lets
+ * clients prompt for the code and resubmit the login.
+ */
+export class TwoFactorRequiredException extends UnauthorizedException {
+  constructor() {
+    super({
+      statusCode: 401,
+      error: 'Unauthorized',
+      message: 'Two-factor authentication code required',
+      twoFactorRequired: true,
+    });
+  }
+}
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly issuer = process.env.TWO_FACTOR_ISSUER || 'RMS';
+  private readonly backupCodeCount = 10;
+  private readonly encryptionKey = createHash('sha256')
+    .update(
+      process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+        process.env.JWT_SECRET ||
+        'your-secret-key',
+    )
+    .digest();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+    const backupCodesRemaining = await this.prisma.twoFactorBackupCode.count({
+      where: { userId, usedAt: null },
+    });
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      enabledAt: user.twoFactorEnabledAt,
+      pendingSetup: !user.twoFactorEnabledAt && !!user.twoFactorSecret,
+      required: await this.isRequiredForRole(user.role),
+      backupCodesRemaining,
+    };
+  }
+
+  /**
+   * Start (or restart) enrollment by issuing a fresh secret. The secret only
+   * becomes active once a code generated from it is confirmed via enable().
+   */
+  async beginSetup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: this.encrypt(secret), twoFactorLastUsedStep: null },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(this.issuer, user.email || user.username, secret),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app and hand out
+   * backup codes. Backup codes are only ever shown once.
+   */
+  async enable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup before enabling it');
+    }
+
+    const step = verifyTotp(this.decrypt(user.twoFactorSecret), code);
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor authentication code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step },
+      }),
+      this.prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorBackupCode.createMany({
+        data: backupCodes.map((backupCode) => ({
+          userId,
+          codeHash: this.hashBackupCode(backupCode),
+        })),
+      }),
+    ]);
+
+    this.logger.log(`Two-factor authentication enabled for ${user.username}`);
+    return { backupCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (await this.isRequiredForRole(user.role)) {
+      throw new ForbiddenException(
+        `Two-factor authentication is required for ${user.role} accounts`,
+      );
+    }
+    if (!(await this.verifyLoginCode(user, code))) {
+      throw new BadRequestException('Invalid two-factor authentication code');
+    }
+
+    await this.clearTwoFactor(userId);
+    this.logger.log(`Two-factor authentication disabled for ${user.username}`);
+  }
+
+  async regenerateBackupCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new BadRequestException('Invalid two-factor authentication code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await this.prisma.$transaction([
+      this.prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorBackupCode.createMany({
+        data: backupCodes.map((backupCode) => ({
+          userId,
+          codeHash: this.hashBackupCode(backupCode),
+        })),
+      }),
+    ]);
+
+    return { backupCodes };
+  }
+
+  /**
+   * Admin recovery for users who lost their authenticator device
+   */
+  async resetForUser(userId: string) {
+    const user = await this.findUser(userId);
+    await this.clearTwoFactor(userId);
+    this.logger.log(`Two-factor authentication reset for ${user.username}`);
+    return { message: `Two-factor authentication reset for ${user.username}` };
+  }
+
+  /**
+   * Second login step: accept either a TOTP code or an unused backup code
+   */
+  async verifyLoginCode(
+    user: { id: string; twoFactorSecret?: string | null; twoFactorLastUsedStep?: number | null },
+    code: string,
+  ): Promise<boolean> {
+    if (await this.verifyTotpCode(user, code)) {
+      return true;
+    }
+    return this.consumeBackupCode(user.id, code);
+  }
+
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    const policy = await this.prisma.twoFactorPolicy.findUnique({
+      where: { role },
+    });
+    return !!policy?.required;
+  }
+
+  /**
+   * A user whose role requires 2FA but who has not enrolled yet
+   */
+  async isSetupRequired(user: TwoFactorSubject): Promise<boolean> {
+    if (user.twoFactorEnabledAt) {
+      return false;
+    }
+    return this.isRequiredForRole(user.role);
+  }
+
+  async listPolicies() {
+    const policies = await this.prisma.twoFactorPolicy.findMany();
+    return Object.values(UserRole).map((role) => {
+      const policy = policies.find((p) => p.role === role);
+      return {
+        role,
+        required: !!policy?.required,
+        updatedAt: policy?.updatedAt ?? null,
+      };
+    });
+  }
+
+  async setPolicy(role: UserRole, required: boolean, updatedById: string) {
+    const policy = await this.prisma.twoFactorPolicy.upsert({
+      where: { role },
+      create: { role, required, updatedById },
+      update: { required, updatedById },
+    });
+    this.logger.log(`Two-factor requirement for ${role} set to ${required}`);
+    return policy;
+  }
+
+  private async verifyTotpCode(
+    user: { id: string; twoFactorSecret?: string | null; twoFactorLastUsedStep?: number | null },
+    code: string,
+  ): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(this.decrypt(user.twoFactorSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so the same code cannot be used twice
+    const accepted = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return accepted.count > 0;
+  }
+
+  private async consumeBackupCode(userId: string, code: string): Promise<boolean> {
+    const consumed = await this.prisma.twoFactorBackupCode.updateMany({
+      where: { userId, codeHash: this.hashBackupCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count > 0) {
+      this.logger.warn(`Backup code used for user ${userId}`);
+    }
+    return consumed.count > 0;
+  }
+
+  private async clearTwoFactor(userId: string) {
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      this.prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastUsedStep: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: this.backupCodeCount }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hashBackupCode(code: string): string {
+    const normalized = (code || '').replace(/[\s-]/g, '').toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private encrypt(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,132 @@
+import { PassThrough } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { writeTabularExport, writeTabularWorkbook, TabularColumn } from './tabular-export';
+
+describe('writeTabularExport', () => {
+  interface Row {
+    name: string;
+    score: number;
+    joinedAt: Date | null;
+  }
+
+  const columns: TabularColumn<Row>[] = [
+    { key: 'name', header: 'Name', value: (row) => row.name },
+    { key: 'score', header: 'Score', value: (row) => row.score },
+    { key: 'joinedAt', header: 'Joined', value: (row) => row.joinedAt },
+  ];
+
+  async function* rows(...items: Row[]) {
+    yield* items;
+  }
+
+  function createTarget() {
+    const target = Object.assign(new PassThrough(), {
+      headers: {} as Record<string, string>,
+      setHeader(name: string, value: string) {
+        target.headers[name] = value;
+      },
+    });
+    const chunks: Buffer[] = [];
+    target.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+    const body = new Promise<Buffer>((resolve) =>
+      target.on('end', () => resolve(Buffer.concat(chunks))),
+    );
+    return { target, body };
+  }
+
+  it('should stream a CSV download with escaped cells', async () => {
+    const { target, body } = createTarget();
+
+    await writeTabularExport(target, {
+      format: 'csv',
+      filename: 'users',
+      columns,
+      rows: rows(
+        { name: 'Doe, "Jane"', score: 12, joinedAt: new Date('2025-01-02T03:04:05.000Z') },
+        { name: 'Bob', score: 3, joinedAt: null },
+      ),
+    });
+
+    expect(target.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+    expect(target.headers['Content-Disposition']).toContain('attachment; filename="users.csv"');
+    expect((await body).toString('utf8')).toBe(
+      '\uFEFFName,Score,Joined\r\n' +
+        '"Doe, ""Jane""",12,2025-01-02T03:04:05.000Z\r\n' +
+        'Bob,3,\r\n',
+    );
+  });
+
+  it('should neutralise cells that spreadsheets would run as formulas', async () => {
+    const { target, body } = createTarget();
+
+    await writeTabularExport(target, {
+      format: 'csv',
+      filename: 'users',
+      columns: [columns[0]],
+      rows: rows({ name: '=HYPERLINK("http://x")', score: 0, joinedAt: null }),
+    });
+
+    expect((await body).toString('utf8')).toContain(`"'=HYPERLINK(""http://x"")"`);
+  });
+
+  it('should keep negative numbers such as a point differential as numbers', async () => {
+    const { target, body } = createTarget();
+
+    await writeTabularExport(target, {
+      format: 'csv',
+      filename: 'rankings',
+      columns: [
+        columns[0],
+        { key: 'differential', header: 'Point Differential', value: (row) => row.score },
+      ],
+      rows: rows(
+        { name: 'Red', score: -12, joinedAt: null },
+        { name: '-1+1', score: -3.5, joinedAt: null },
+      ),
+    });
+
+    expect((await body).toString('utf8')).toBe(
+      '\uFEFFName,Point Differential\r\n' + 'Red,-12\r\n' + "'-1+1,-3.5\r\n",
+    );
+  });
+
+  it('should write an XLSX workbook with a header row', async () => {
+    const { target, body } = createTarget();
+
+    await writeTabularExport(target, {
+      format: 'xlsx',
+      filename: 'users',
+      sheetName: 'Users',
+      columns,
+      rows: rows({ name: 'Jane', score: 12, joinedAt: null }),
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await body);
+    const sheet = workbook.getWorksheet('Users')!;
+
+    expect(target.headers['Content-Disposition']).toContain('filename="users.xlsx"');
+    expect(sheet.getRow(1).values).toEqual([undefined, 'Name', 'Score', 'Joined']);
+    expect(sheet.getRow(2).getCell(1).value).toBe('Jane');
+    expect(sheet.getRow(2).getCell(2).value).toBe(12);
+  });
+
+  it('should write one worksheet per sheet into a single workbook', async () => {
+    const { target, body } = createTarget();
+
+    await writeTabularWorkbook(target, {
+      filename: 'tournament',
+      sheets: [
+        { name: 'Teams', columns, rows: [{ name: 'Jane', score: 12, joinedAt: null }] },
+        { name: 'Matches', columns: [columns[1]], rows: rows({ name: 'Bob', score: 3, joinedAt: null }) },
+      ],
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await body);
+
+    expect(target.headers['Content-Disposition']).toContain('filename="tournament.xlsx"');
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Teams', 'Matches']);
+    expect(workbook.getWorksheet('Matches')!.getRow(2).getCell(1).value).toBe(3);
+  });
+});
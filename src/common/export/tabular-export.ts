@@ -0,0 +1,147 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import * as ExcelJS from 'exceljs';
+
+export type TabularFormat = 'csv' | 'xlsx';
+
+export interface TabularColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => unknown;
+}
+
+export interface TabularExportOptions<T> {
+  format: TabularFormat;
+  /** File name without extension */
+  filename: string;
+  columns: TabularColumn<T>[];
+  rows: AsyncIterable<T> | Iterable<T>;
+  sheetName?: string;
+}
+
+export interface TabularSheet<T> {
+  name: string;
+  columns: TabularColumn<T>[];
+  rows: AsyncIterable<T> | Iterable<T>;
+}
+
+/** Minimal view of the HTTP response, so callers can pass an Express response */
+export interface TabularExportTarget extends Writable {
+  setHeader(name: string, value: string): unknown;
+}
+
+const CONTENT_TYPES: Record<TabularFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Stream rows to the response as a CSV or XLSX download. Rows are written as
+ * they are produced, so exports are not limited by memory.
+ */
+export async function writeTabularExport<T>(
+  target: TabularExportTarget,
+  options: TabularExportOptions<T>,
+): Promise<void> {
+  setAttachmentHeaders(
+    target,
+    `${options.filename}.${options.format}`,
+    CONTENT_TYPES[options.format],
+  );
+
+  if (options.format === 'xlsx') {
+    await writeXlsx(target, [
+      { name: options.sheetName ?? 'Sheet1', columns: options.columns, rows: options.rows },
+    ]);
+  } else {
+    await writeCsv(target, options);
+  }
+}
+
+/**
+ * Stream several sheets to the response as one XLSX workbook
+ */
+export async function writeTabularWorkbook<T>(
+  target: TabularExportTarget,
+  options: { filename: string; sheets: TabularSheet<T>[] },
+): Promise<void> {
+  setAttachmentHeaders(target, `${options.filename}.xlsx`, CONTENT_TYPES.xlsx);
+  await writeXlsx(target, options.sheets);
+}
+
+export function setAttachmentHeaders(
+  target: Pick<TabularExportTarget, 'setHeader'>,
+  filename: string,
+  contentType: string,
+) {
+  target.setHeader('Content-Type', contentType);
+  target.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+  );
+}
+
+async function writeCsv<T>(target: Writable, options: TabularExportOptions<T>) {
+  // The BOM makes Excel open the file as UTF-8
+  await write(target, '\uFEFF' + toCsvLine(options.columns.map((c) => c.header)));
+  for await (const row of options.rows) {
+    await write(target, toCsvLine(options.columns.map((c) => formatCell(c.value(row)))));
+  }
+  target.end();
+}
+
+async function writeXlsx<T>(target: Writable, sheets: TabularSheet<T>[]) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: target,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+
+  for (const options of sheets) {
+    const sheet = workbook.addWorksheet(options.name);
+    sheet.columns = options.columns.map((c) => ({ header: c.header, key: c.key }));
+
+    for await (const row of options.rows) {
+      const values: Record<string, unknown> = {};
+      for (const column of options.columns) {
+        const value = column.value(row);
+        values[column.key] =
+          value instanceof Date || typeof value === 'number' || typeof value === 'boolean'
+            ? value
+            : formatCell(value);
+      }
+      sheet.addRow(values).commit();
+    }
+    sheet.commit();
+  }
+
+  await workbook.commit();
+}
+
+export function toCsvLine(cells: string[]): string {
+  return cells.map(escapeCsvCell).join(',') + '\r\n';
+}
+
+function escapeCsvCell(cell: string): string {
+  // Spreadsheet apps evaluate cells starting with these characters as formulas;
+  // plain numbers such as a negative point differential are left as they are
+  const isNumber = cell.trim() !== '' && Number.isFinite(Number(cell));
+  const safe = !isNumber && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+async function write(target: Writable, chunk: string) {
+  if (!target.write(chunk)) {
+    await once(target, 'drain');
+  }
+}
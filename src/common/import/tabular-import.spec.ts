@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { parseCsv, readCsvRecords, readXlsxRows } from './tabular-import';
+
+describe('tabular import', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted cells with commas, quotes and line breaks', () => {
+      const rows = parseCsv('name,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\nBob,\n');
+
+      expect(rows).toEqual([
+        ['name', 'note'],
+        ['Doe, Jane', 'said "hi"\nthen left'],
+        ['Bob', ''],
+      ]);
+    });
+
+    it('should split on a custom delimiter', () => {
+      expect(parseCsv('a;"b;c"\n', ';')).toEqual([['a', 'b;c']]);
+    });
+
+    it('should reject an unterminated quoted cell', () => {
+      expect(() => parseCsv('name\n"Jane')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('readCsvRecords', () => {
+    it('should key records by normalised header and skip blank lines', () => {
+      const { headers, records } = readCsvRecords(
+        Buffer.from('\uFEFF Username ,Email\njane,jane@example.com\n,\nbob,bob@example.com'),
+      );
+
+      expect(headers).toEqual(['username', 'email']);
+      expect(records).toEqual([
+        { row: 2, values: { username: 'jane', email: 'jane@example.com' } },
+        { row: 4, values: { username: 'bob', email: 'bob@example.com' } },
+      ]);
+    });
+
+    it('should reject a file without a header row', () => {
+      expect(() => readCsvRecords('')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('readXlsxRows', () => {
+    it('should read the first worksheet as cell text', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Teams');
+      sheet.addRow(['Team Name', 'Members']);
+      sheet.addRow(['Alpha', 3]);
+      const content = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      expect(await readXlsxRows(content)).toEqual([
+        ['Team Name', 'Members'],
+        ['Alpha', '3'],
+      ]);
+    });
+
+    it('should reject a file that is not XLSX', async () => {
+      await expect(readXlsxRows(Buffer.from('not a workbook'))).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+
+export interface TabularRecord {
+  /** 1-based row in the sheet, counting the header as row 1 */
+  row: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of cells. Handles quoted fields with
+ * embedded delimiters, quotes and line breaks, and strips a leading BOM.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new BadRequestException('CSV file has an unterminated quoted field');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read a CSV upload into records keyed by lower-cased header. Blank lines are
+ * skipped, and `row` keeps the sheet position for error reports.
+ */
+export function readCsvRecords(content: Buffer | string): {
+  headers: string[];
+  records: TabularRecord[];
+} {
+  const [headerRow, ...rows] = parseCsv(content.toString());
+  if (!headerRow || headerRow.every((header) => header.trim() === '')) {
+    throw new BadRequestException('CSV file is empty or has no header row');
+  }
+
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+  const records: TabularRecord[] = [];
+
+  rows.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) {
+      return;
+    }
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      values[header] = (cells[column] ?? '').trim();
+    });
+    records.push({ row: index + 2, values });
+  });
+
+  return { headers, records };
+}
+
+/**
+ * Read the first worksheet of an XLSX upload as rows of cell text, in the
+ * same shape as `parseCsv`
+ */
+export async function readXlsxRows(content: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content);
+  } catch {
+    throw new BadRequestException('XLSX file could not be read');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? '');
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
@@ -20,7 +20,15 @@ describe('DateValidationService', () => {
     numberOfFields: 2,
     maxTeams: null,
     maxTeamMembers: null,
-    minTeamMembers: null
+    minTeamMembers: null,
+    deletedAt: null,
+    status: 'REGISTRATION' as const,
+    statusChangedAt: new Date(),
+    teamNumberMode: 'SEQUENTIAL' as const,
+    teamNumberPrefix: null,
+    teamNumberPadding: 5,
+    teamNumberStart: 1,
+    nextTeamNumber: 1
   };
 
   const mockStage = {
@@ -47,6 +55,7 @@ describe('DateValidationService', () => {
     startTime: new Date('2024-06-01T10:30:00Z'),
     endTime: new Date('2024-06-01T11:00:00Z'),
     stageId: 'stage-1',
+    createdAt: new Date(),
     updatedAt: new Date(),
     roundNumber: null,
     scheduledTime: null,
@@ -58,7 +67,11 @@ describe('DateValidationService', () => {
     matchDuration: null,
     winningAlliance: null,
     roundType: null,
-    scheduleId: null
+    scheduleId: null,
+    bracketSlot: null,
+    feedsIntoMatchId: null,
+    loserFeedsIntoMatchId: null,
+    recordBucket: null
   };
 
   const mockTeam = {
@@ -70,7 +83,17 @@ describe('DateValidationService', () => {
     teamNumber: '000001',
     currentStageId: null,
     userId: 'user-1',
-    referralSource: 'test'
+    referralSource: 'test',
+    deletedAt: null,
+    registrationStatus: 'APPROVED' as const,
+    registrationStatusReason: null,
+    registrationStatusChangedAt: new Date('2024-05-29T10:00:00Z'),
+    robotName: null,
+    description: null,
+    logoKey: null,
+    primaryColor: null,
+    secondaryColor: null,
+    links: null
   };
 
   beforeEach(async () => {
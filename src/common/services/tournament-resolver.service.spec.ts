@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { TournamentResolverService } from './tournament-resolver.service';
+import { PrismaService } from '../../prisma.service';
+
+describe('TournamentResolverService', () => {
+  let service: TournamentResolverService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TournamentResolverService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<TournamentResolverService>(TournamentResolverService);
+  });
+
+  it('should use an explicit tournamentId parameter', async () => {
+    expect(await service.resolveTournamentId({ tournamentId: 't-1' }, {})).toBe('t-1');
+  });
+
+  it('should treat :id as the tournament when told to', async () => {
+    expect(await service.resolveTournamentId({ id: 't-1' }, {}, 'tournament')).toBe('t-1');
+  });
+
+  it('should resolve a stage id through its tournament', async () => {
+    mockPrisma.stage.findUnique.mockResolvedValue({ tournamentId: 't-2' } as any);
+
+    expect(await service.resolveTournamentId({ id: 'stage-1' }, {}, 'stage')).toBe('t-2');
+  });
+
+  it('should resolve a match in the body through its stage', async () => {
+    mockPrisma.match.findUnique.mockResolvedValue({
+      stage: { tournamentId: 't-3' },
+    } as any);
+
+    expect(await service.resolveTournamentId({}, { matchId: 'match-1' })).toBe('t-3');
+  });
+
+  it('should accept a body tournamentId that agrees with the route', async () => {
+    mockPrisma.stage.findUnique.mockResolvedValue({ tournamentId: 't-2' } as any);
+
+    expect(
+      await service.resolveTournamentId({ id: 'stage-1' }, { tournamentId: 't-2' }, 'stage'),
+    ).toBe('t-2');
+  });
+
+  it('should reject identifiers that point at different tournaments', async () => {
+    mockPrisma.stage.findUnique.mockResolvedValue({ tournamentId: 't-2' } as any);
+
+    expect(
+      await service.resolveTournamentId({}, { stageId: 'stage-1', tournamentId: 't-9' }),
+    ).toBeNull();
+  });
+
+  it('should reject ids that do not exist', async () => {
+    mockPrisma.match.findUnique.mockResolvedValue(null);
+
+    expect(await service.resolveTournamentId({ id: 'missing' }, {}, 'match')).toBeNull();
+  });
+
+  it('should fall back to a tournamentId in the body', async () => {
+    expect(await service.resolveTournamentId({}, { tournamentId: 't-4' })).toBe('t-4');
+  });
+
+  it('should return null when nothing identifies a tournament', async () => {
+    expect(await service.resolveTournamentId({ id: 'x' }, {})).toBeNull();
+  });
+});
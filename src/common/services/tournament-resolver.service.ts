@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma.service';
+
+/**
+ * What a route's `:id` parameter identifies. `:tournamentId`, `:stageId`,
+ * `:matchId`, and a `tournamentId`, `stageId` or `matchId` in the body are
+ * recognised without it.
+ */
+export type TournamentIdParam = 'tournament' | 'stage' | 'match';
+
+@Injectable()
+export class TournamentResolverService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Work out which tournament a request targets from its route params and
+   * body. Every identifier present must point at the same tournament, so a
+   * request cannot pass a check with one tournament and act on another.
+   * Returns null when the tournament cannot be determined or is ambiguous.
+   */
+  async resolveTournamentId(
+    params: Record<string, string | undefined>,
+    body: any,
+    idParam?: TournamentIdParam,
+  ): Promise<string | null> {
+    const fromBody = (field: string) =>
+      typeof body?.[field] === 'string' ? (body[field] as string) : undefined;
+    const routeId = (kind: TournamentIdParam) => (idParam === kind ? params.id : undefined);
+
+    const tournamentIds = [params.tournamentId, routeId('tournament'), fromBody('tournamentId')];
+    const stageIds = [params.stageId, routeId('stage'), fromBody('stageId')];
+    const matchIds = [params.matchId, routeId('match'), fromBody('matchId')];
+
+    const resolved = await Promise.all([
+      ...tournamentIds.filter(Boolean),
+      ...stageIds.filter(Boolean).map((id) => this.tournamentOfStage(id!)),
+      ...matchIds.filter(Boolean).map((id) => this.tournamentOfMatch(id!)),
+    ]);
+
+    const distinct = new Set(resolved);
+    if (distinct.size !== 1 || distinct.has(null)) {
+      return null;
+    }
+    return resolved[0] as string;
+  }
+
+  private async tournamentOfStage(stageId: string): Promise<string | null> {
+    const stage = await this.prisma.stage.findUnique({
+      where: { id: stageId },
+      select: { tournamentId: true },
+    });
+    return stage?.tournamentId ?? null;
+  }
+
+  private async tournamentOfMatch(matchId: string): Promise<string | null> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      select: { stage: { select: { tournamentId: true } } },
+    });
+    return match?.stage.tournamentId ?? null;
+  }
+}
@@ -0,0 +1,14 @@
+/** Injection token for the configured `FileStorage` */
+export const FILE_STORAGE = 'FILE_STORAGE';
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * `team-logos/<file>`; adapters decide how they map to storage.
+ */
+export interface FileStorage {
+  save(key: string, content: Buffer): Promise<void>;
+  /** File contents, or null when the key does not exist */
+  read(key: string): Promise<Buffer | null>;
+  /** Removing a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
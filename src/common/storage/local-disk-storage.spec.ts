@@ -0,0 +1,34 @@
+import { BadRequestException } from '@nestjs/common';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { LocalDiskStorage } from './local-disk-storage';
+
+describe('LocalDiskStorage', () => {
+  let root: string;
+  let storage: LocalDiskStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'storage-'));
+    storage = new LocalDiskStorage(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should save, read and delete files in nested folders', async () => {
+    await storage.save('team-logos/a.png', Buffer.from('logo'));
+
+    expect((await storage.read('team-logos/a.png'))?.toString()).toBe('logo');
+
+    await storage.delete('team-logos/a.png');
+    await storage.delete('team-logos/a.png');
+    expect(await storage.read('team-logos/a.png')).toBeNull();
+  });
+
+  it('should reject keys outside the root', async () => {
+    await expect(storage.read('../secret.txt')).rejects.toThrow(BadRequestException);
+    await expect(storage.save('/etc/passwd', Buffer.from(''))).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,51 @@
+import { BadRequestException, Provider } from '@nestjs/common';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { FILE_STORAGE, FileStorage } from './file-storage';
+
+/**
+ * Stores files under a root directory on the local disk
+ */
+export class LocalDiskStorage implements FileStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  /** Keys must stay inside the root, so `../` cannot reach other files */
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new BadRequestException('Invalid file key');
+    }
+    return file;
+  }
+}
+
+/** Local disk storage rooted at UPLOAD_DIR, `./uploads` by default */
+export const localDiskStorageProvider: Provider = {
+  provide: FILE_STORAGE,
+  useFactory: () => new LocalDiskStorage(process.env.UPLOAD_DIR || 'uploads'),
+};
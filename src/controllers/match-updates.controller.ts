@@ -7,6 +7,7 @@
 
 import { Controller, Get, Post, Query, Body, Logger } from '@nestjs/common';
 import { MatchChangeDetectionService } from '../matches/match-change-detection.service';
+import { Audited } from '../audit/audited.decorator';
 
 export interface RecentUpdatesQuery {
   tournamentId: string;
@@ -29,6 +30,7 @@ export interface ForceRecalculationRequest {
 }
 
 @Controller('matches')
+@Audited('ranking')
 export class MatchUpdatesController {
   private readonly logger = new Logger(MatchUpdatesController.name);
 
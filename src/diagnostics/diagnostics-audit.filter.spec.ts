@@ -0,0 +1,62 @@
+import { ArgumentsHost, ForbiddenException } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { AuditService } from '../audit/audit.service';
+import { DiagnosticsAuditFilter } from './diagnostics-audit.filter';
+import { DIAGNOSTICS_AUDITED } from './diagnostics-audit.interceptor';
+
+describe('DiagnosticsAuditFilter', () => {
+  let filter: DiagnosticsAuditFilter;
+  let auditService: DeepMockProxy<AuditService>;
+  let baseCatch: jest.SpyInstance;
+
+  const createHost = (request: any): ArgumentsHost =>
+    ({ switchToHttp: () => ({ getRequest: () => request }) }) as any;
+
+  beforeEach(() => {
+    auditService = mockDeep<AuditService>();
+    filter = new DiagnosticsAuditFilter(auditService);
+    baseCatch = jest.spyOn(BaseExceptionFilter.prototype, 'catch').mockImplementation();
+  });
+
+  afterEach(() => baseCatch.mockRestore());
+
+  it('should record calls a guard turned away', () => {
+    const request = {
+      method: 'GET',
+      originalUrl: '/api/diagnostics/debug-env',
+      user: { id: 'u1', username: 'organizer' },
+      ip: '10.0.0.1',
+      headers: { 'user-agent': 'curl' },
+    };
+    const exception = new ForbiddenException('Insufficient permissions');
+
+    filter.catch(exception, createHost(request));
+
+    expect(auditService.record).toHaveBeenCalledWith({
+      userId: 'u1',
+      username: 'organizer',
+      action: 'diagnostics.denied',
+      resource: 'diagnostics',
+      ipAddress: '10.0.0.1',
+      userAgent: 'curl',
+      metadata: {
+        method: 'GET',
+        path: '/api/diagnostics/debug-env',
+        outcome: 'denied',
+        error: 'Insufficient permissions',
+      },
+    });
+    expect(baseCatch).toHaveBeenCalledWith(exception, expect.anything());
+  });
+
+  it('should leave handler errors to the interceptor', () => {
+    const request = { method: 'GET', url: '/api/diagnostics/debug-admin', headers: {} };
+    request[DIAGNOSTICS_AUDITED] = true;
+
+    filter.catch(new Error('boom'), createHost(request));
+
+    expect(auditService.record).not.toHaveBeenCalled();
+    expect(baseCatch).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,26 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { AuditService } from '../audit/audit.service';
+import { DIAGNOSTICS_AUDITED, diagnosticsAuditEntry } from './diagnostics-audit.interceptor';
+
+/**
+ * Interceptors run after guards, so calls rejected by the throttler, JWT or
+ * role check never reach DiagnosticsAuditInterceptor. Record those here, then
+ * let Nest send the usual error response.
+ */
+@Catch()
+export class DiagnosticsAuditFilter extends BaseExceptionFilter {
+  constructor(private readonly auditService: AuditService) {
+    super();
+  }
+
+  catch(exception: any, host: ArgumentsHost) {
+    const request = host.switchToHttp().getRequest();
+    if (!request[DIAGNOSTICS_AUDITED]) {
+      void this.auditService.record(
+        diagnosticsAuditEntry(request, 'diagnostics.denied', 'denied', exception?.message),
+      );
+    }
+    super.catch(exception, host);
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { AuditEntry, AuditService } from '../audit/audit.service';
+
+/**
+ * Set on the request once the interceptor has taken over auditing, so the
+ * exception filter only records calls a guard turned away
+ */
+export const DIAGNOSTICS_AUDITED = Symbol('diagnosticsAudited');
+
+export function diagnosticsAuditEntry(
+  request: any,
+  action: string,
+  outcome: 'success' | 'error' | 'denied',
+  error?: string,
+): AuditEntry {
+  return {
+    userId: request.user?.id,
+    username: request.user?.username,
+    action,
+    resource: 'diagnostics',
+    ipAddress: request.ip,
+    userAgent: request.headers?.['user-agent'],
+    metadata: {
+      method: request.method,
+      path: request.originalUrl ?? request.url,
+      outcome,
+      ...(error ? { error } : {}),
+    },
+  };
+}
+
+/**
+ * Write an audit record for every diagnostics call that gets past the guards,
+ * successful or not
+ */
+@Injectable()
+export class DiagnosticsAuditInterceptor implements NestInterceptor {
+  constructor(private readonly auditService: AuditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    request[DIAGNOSTICS_AUDITED] = true;
+    const action = `diagnostics.${context.getHandler().name}`;
+    const record = (outcome: 'success' | 'error', error?: string) =>
+      this.auditService.record(diagnosticsAuditEntry(request, action, outcome, error));
+
+    return next.handle().pipe(
+      tap({
+        next: () => void record('success'),
+        error: (err) => void record('error', err?.message),
+      }),
+    );
+  }
+}
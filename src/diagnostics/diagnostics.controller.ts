@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Request,
+  Post,
+  UseGuards,
+  UseInterceptors,
+  UseFilters,
+  Body,
+  Get,
+  Res,
+  HttpCode,
+  ValidationPipe,
+  Ip,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from '../auth/auth.service';
+import { AuthCookieService } from '../auth/auth-cookie.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { LoginDto } from '../auth/dto/login.dto';
+import { UserRole } from '../utils/prisma-types';
+import { DiagnosticsService, scrubHeaders, scrubCookies } from './diagnostics.service';
+import { DiagnosticsAuditInterceptor } from './diagnostics-audit.interceptor';
+import { DiagnosticsAuditFilter } from './diagnostics-audit.filter';
+
+/**
+ * Auth troubleshooting endpoints. Only mounted when DIAGNOSTICS_ENABLED is on,
+ * restricted to ADMIN and audited on every call, including denied ones.
+ */
+@Controller('diagnostics')
+@UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@UseInterceptors(DiagnosticsAuditInterceptor)
+@UseFilters(DiagnosticsAuditFilter)
+export class DiagnosticsController {
+  private readonly logger = new Logger(DiagnosticsController.name);
+
+  constructor(
+    private readonly diagnosticsService: DiagnosticsService,
+    private readonly authService: AuthService,
+    private readonly authCookieService: AuthCookieService,
+  ) {}
+
+  @Get('debug-admin')
+  async debugAdmin() {
+    return this.diagnosticsService.debugAdmin();
+  }
+
+  @Get('force-recreate-admin')
+  @HttpCode(201)
+  async forceRecreateAdmin() {
+    // Temporarily disabled
+    return { message: 'Force recreate admin endpoint is temporarily disabled' };
+  }
+
+  @Get('debug-env')
+  debugEnvironment() {
+    return this.diagnosticsService.environment();
+  }
+
+  @Get('debug-cookies')
+  debugCookies(@Request() req) {
+    return this.diagnosticsService.cookies(req);
+  }
+
+  @Get('test-cookie')
+  testCookie(@Res({ passthrough: true }) res: Response) {
+    // Test cookie with various settings
+    const testToken = 'test-token-12345';
+
+    // Set multiple test cookies with different configurations
+    for (const sameSite of ['strict', 'none', 'lax'] as const) {
+      res.cookie(`test-token-${sameSite}`, testToken, {
+        httpOnly: true,
+        secure: true,
+        sameSite,
+        maxAge: 60 * 60 * 1000, // 1 hour
+      });
+    }
+
+    return {
+      message: 'Test cookies set',
+      instructions:
+        'Check your browser dev tools -> Application -> Cookies to see which cookies are set',
+    };
+  }
+
+  @Get('read-cookies')
+  readCookies(@Request() req) {
+    const cookies = scrubCookies(req.cookies);
+    return {
+      allCookies: cookies,
+      tokenCookie: cookies[this.authCookieService.cookieName],
+      testCookies: {
+        strict: req.cookies?.['test-token-strict'],
+        none: req.cookies?.['test-token-none'],
+        lax: req.cookies?.['test-token-lax'],
+      },
+      headers: scrubHeaders(req.headers),
+    };
+  }
+
+  @Post('login-debug')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  async loginDebug(
+    @Body(ValidationPipe) loginDto: LoginDto,
+    @Res({ passthrough: true }) res: Response,
+    @Ip() clientIp: string,
+    @Request() req,
+  ) {
+    try {
+      const user = await this.authService.validateUser(
+        loginDto.username,
+        loginDto.password,
+        clientIp,
+        loginDto.twoFactorCode,
+      );
+      const { access_token, refresh_token, user: userInfo } =
+        await this.authService.login(user, {
+          ipAddress: clientIp,
+          userAgent: req.headers['user-agent'],
+        });
+
+      const requestInfo = {
+        ...scrubHeaders(req.headers),
+        clientIp,
+      };
+      const cookieOptions = this.authCookieService.getCookieOptions();
+
+      this.authCookieService.setAuthCookies(res, access_token, refresh_token);
+
+      this.logger.log(`[LOGIN DEBUG] User logged in: ${userInfo.username}`);
+      this.logger.log(
+        `[LOGIN DEBUG] Cookie options: ${JSON.stringify(cookieOptions)}`,
+      );
+      this.logger.log(
+        `[LOGIN DEBUG] Request info: ${JSON.stringify(requestInfo)}`,
+      );
+
+      return {
+        user: userInfo,
+        message: 'Login successful',
+        debug: {
+          environment: process.env.NODE_ENV,
+          cookieOptions,
+          requestInfo,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`[LOGIN DEBUG] Login failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @Get('debug-headers')
+  debugHeaders(@Request() req) {
+    return this.diagnosticsService.headers(req);
+  }
+}
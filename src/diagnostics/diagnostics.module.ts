@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
+import { PrismaService } from '../prisma.service';
+import { DiagnosticsController } from './diagnostics.controller';
+import { DiagnosticsService } from './diagnostics.service';
+import { DiagnosticsAuditInterceptor } from './diagnostics-audit.interceptor';
+import { DiagnosticsAuditFilter } from './diagnostics-audit.filter';
+
+/**
+ * Diagnostics are opt-in: the module is only imported by AppModule when
+ * DIAGNOSTICS_ENABLED is set, so the routes do not exist otherwise.
+ */
+export function isDiagnosticsEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ['true', '1', 'yes', 'on'].includes(
+    (env.DIAGNOSTICS_ENABLED || '').trim().toLowerCase(),
+  );
+}
+
+@Module({
+  imports: [AuthModule, AuditModule],
+  controllers: [DiagnosticsController],
+  providers: [
+    DiagnosticsService,
+    PrismaService,
+    DiagnosticsAuditInterceptor,
+    DiagnosticsAuditFilter,
+  ],
+})
+export class DiagnosticsModule {}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import {
+  DiagnosticsService,
+  REDACTED,
+  scrubCookies,
+  scrubEnv,
+  scrubHeaders,
+} from './diagnostics.service';
+import { isDiagnosticsEnabled } from './diagnostics.module';
+import { PrismaService } from '../prisma.service';
+import { UserRole } from '../utils/prisma-types';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+
+describe('DiagnosticsService', () => {
+  let service: DiagnosticsService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DiagnosticsService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<DiagnosticsService>(DiagnosticsService);
+    jest.spyOn(service['logger'], 'error').mockImplementation();
+  });
+
+  describe('scrubEnv', () => {
+    it('should redact secret values and keep plain configuration', () => {
+      const result = scrubEnv(
+        {
+          NODE_ENV: 'production',
+          JWT_SECRET: 'super-secret',
+          ADMIN_PASSWORD: 'hunter2',
+          DATABASE_URL: 'postgresql://user:pass@db/rms',
+        },
+        ['NODE_ENV', 'JWT_SECRET', 'ADMIN_PASSWORD', 'DATABASE_URL', 'COOKIE_DOMAIN'],
+      );
+
+      expect(result).toEqual({
+        NODE_ENV: 'production',
+        JWT_SECRET: REDACTED,
+        ADMIN_PASSWORD: REDACTED,
+        DATABASE_URL: REDACTED,
+        COOKIE_DOMAIN: null,
+      });
+    });
+  });
+
+  describe('scrubCookies', () => {
+    it('should only report cookie lengths', () => {
+      expect(scrubCookies({ token: 'abc.def' })).toEqual({
+        token: `${REDACTED} (7 chars)`,
+      });
+      expect(scrubCookies(undefined)).toEqual({});
+    });
+  });
+
+  describe('scrubHeaders', () => {
+    it('should keep the auth scheme and cookie names only', () => {
+      const headers = scrubHeaders({
+        authorization: 'Bearer eyJhbGciOi',
+        cookie: 'token=abc; refresh_token=def',
+        origin: 'http://localhost:3000',
+      });
+
+      expect(headers.authorization).toBe(`Bearer ${REDACTED}`);
+      expect(headers.cookie).toEqual(['token', 'refresh_token']);
+      expect(headers.origin).toBe('http://localhost:3000');
+      expect(JSON.stringify(headers)).not.toContain('eyJhbGciOi');
+    });
+  });
+
+  describe('debugAdmin', () => {
+    it('should report a password match without exposing the password or hash', async () => {
+      const hash = await bcrypt.hash(process.env.ADMIN_PASSWORD || 'admin123', 4);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'admin-1',
+        username: 'admin',
+        role: UserRole.ADMIN,
+        password: hash,
+        createdAt: new Date(),
+      } as any);
+
+      const result = await service.debugAdmin();
+
+      expect(result).toMatchObject({ found: true, passwordTest: { passwordMatch: true } });
+      expect(JSON.stringify(result)).not.toContain(hash.substring(0, 10));
+      expect(JSON.stringify(result)).not.toContain('admin123');
+    });
+
+    it('should report a missing admin', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.debugAdmin()).resolves.toMatchObject({ found: false });
+    });
+  });
+
+  describe('isDiagnosticsEnabled', () => {
+    it('should only enable diagnostics for explicit truthy values', () => {
+      expect(isDiagnosticsEnabled({})).toBe(false);
+      expect(isDiagnosticsEnabled({ DIAGNOSTICS_ENABLED: 'false' })).toBe(false);
+      expect(isDiagnosticsEnabled({ DIAGNOSTICS_ENABLED: 'true' })).toBe(true);
+      expect(isDiagnosticsEnabled({ DIAGNOSTICS_ENABLED: '1' })).toBe(true);
+    });
+  });
+});
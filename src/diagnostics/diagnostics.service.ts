@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { Request } from 'express';
+import { PrismaService } from '../prisma.service';
+
+export const REDACTED = '[REDACTED]';
+
+// Environment variables reported by debug-env. Anything matching
+// SENSITIVE_ENV_KEY is reported as set/unset only, never by value.
+const REPORTED_ENV_KEYS = [
+  'NODE_ENV',
+  'FRONTEND_URL',
+  'COOKIE_DOMAIN',
+  'COOKIE_SAME_SITE',
+  'COOKIE_SECURE',
+  'AUTH_COOKIE_NAME',
+  'REFRESH_COOKIE_NAME',
+  'ACCESS_TOKEN_EXPIRES_IN',
+  'REFRESH_TOKEN_TTL',
+  'ADMIN_USERNAME',
+  'ADMIN_PASSWORD',
+  'JWT_SECRET',
+  'DATABASE_URL',
+  'DIAGNOSTICS_ENABLED',
+];
+const SENSITIVE_ENV_KEY = /SECRET|PASSWORD|PASSWD|PRIVATE|API_KEY|CREDENTIAL|DATABASE_URL/i;
+
+/**
+ * Replace secret environment values with a redaction marker
+ */
+export function scrubEnv(
+  env: NodeJS.ProcessEnv,
+  keys: string[] = REPORTED_ENV_KEYS,
+): Record<string, string | null> {
+  return keys.reduce(
+    (acc, key) => {
+      const value = env[key];
+      if (value === undefined || value === '') {
+        acc[key] = null;
+      } else {
+        acc[key] = SENSITIVE_ENV_KEY.test(key) ? REDACTED : value;
+      }
+      return acc;
+    },
+    {} as Record<string, string | null>,
+  );
+}
+
+/**
+ * Cookie values are credentials in their own right; only report that they
+ * arrived and how long they are
+ */
+export function scrubCookies(
+  cookies?: Record<string, string>,
+): Record<string, string> {
+  return Object.entries(cookies || {}).reduce(
+    (acc, [name, value]) => {
+      acc[name] = `${REDACTED} (${String(value ?? '').length} chars)`;
+      return acc;
+    },
+    {} as Record<string, string>,
+  );
+}
+
+/**
+ * Keep the auth scheme and cookie names from request headers, drop the values
+ */
+export function scrubHeaders(headers: Request['headers']) {
+  const authorization = headers.authorization;
+  const cookieNames = (headers.cookie || '')
+    .split(';')
+    .map((part) => part.trim().split('=')[0])
+    .filter(Boolean);
+
+  return {
+    authorization: authorization
+      ? `${authorization.split(' ')[0]} ${REDACTED}`
+      : undefined,
+    cookie: cookieNames.length ? cookieNames : undefined,
+    origin: headers.origin,
+    referer: headers.referer,
+    host: headers.host,
+    'user-agent': headers['user-agent'],
+    'x-forwarded-for': headers['x-forwarded-for'],
+  };
+}
+
+@Injectable()
+export class DiagnosticsService {
+  private readonly logger = new Logger(DiagnosticsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Check that the configured admin account exists and that ADMIN_PASSWORD
+   * still matches it
+   */
+  async debugAdmin() {
+    try {
+      const adminUsername = process.env.ADMIN_USERNAME || 'admin';
+      const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
+
+      const user = await this.prisma.user.findUnique({
+        where: { username: adminUsername },
+        select: {
+          id: true,
+          username: true,
+          role: true,
+          password: true,
+          createdAt: true,
+        },
+      });
+
+      if (!user) {
+        return {
+          found: false,
+          message: 'Admin user not found',
+          expectedUsername: adminUsername,
+        };
+      }
+
+      const passwordMatch = await bcrypt.compare(adminPassword, user.password);
+
+      return {
+        found: true,
+        user: {
+          id: user.id,
+          username: user.username,
+          role: user.role,
+          createdAt: user.createdAt,
+        },
+        passwordTest: {
+          usingDefaultPassword: !process.env.ADMIN_PASSWORD,
+          passwordMatch,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Admin diagnostics failed: ${error.message}`);
+      return {
+        error: true,
+        message: error.message,
+      };
+    }
+  }
+
+  environment() {
+    return {
+      nodeEnv: process.env.NODE_ENV,
+      hasJwtSecret: !!process.env.JWT_SECRET,
+      hasAdminPassword: !!process.env.ADMIN_PASSWORD,
+      variables: scrubEnv(process.env),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  cookies(req: Request) {
+    return {
+      cookies: scrubCookies(req.cookies),
+      headers: scrubHeaders(req.headers),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  headers(req: Request) {
+    return {
+      headers: scrubHeaders(req.headers),
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
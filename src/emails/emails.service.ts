@@ -1,5 +1,32 @@
 import { Injectable } from '@nestjs/common';
 import { MailerService } from '@nestjs-modules/mailer';
+import { TeamRegistrationStatus } from '../../generated/prisma';
+
+const TEAM_REGISTRATION_MESSAGES: Record<
+  TeamRegistrationStatus,
+  { headline: string; message: string }
+> = {
+  PENDING: {
+    headline: 'Registration Received',
+    message: 'is waiting for review by the organizers.',
+  },
+  APPROVED: {
+    headline: 'Registration Approved',
+    message: 'has been approved. See you at the event!',
+  },
+  WAITLISTED: {
+    headline: 'Registration Waitlisted',
+    message: 'is on the waitlist because the tournament is full. We will let you know if a spot opens.',
+  },
+  REJECTED: {
+    headline: 'Registration Rejected',
+    message: 'has been rejected.',
+  },
+  WITHDRAWN: {
+    headline: 'Registration Withdrawn',
+    message: 'has been withdrawn.',
+  },
+};
 
 @Injectable()
 export class EmailsService {
@@ -17,6 +44,42 @@ export class EmailsService {
   });
   }
 
+  async sendPasswordResetEmail(
+    to: string,
+    username: string,
+    resetUrl: string,
+    expiresInMinutes: number,
+  ) {
+    await this.mailerService.sendMail({
+      to,
+      subject: 'Reset your password',
+      template: 'password-reset',
+      context: {
+        username,
+        resetUrl,
+        expiresInMinutes,
+      },
+    });
+  }
+
+  async sendEmailChangeVerificationEmail(
+    to: string,
+    username: string,
+    verifyUrl: string,
+    expiresInMinutes: number,
+  ) {
+    await this.mailerService.sendMail({
+      to,
+      subject: 'Confirm your new email address',
+      template: 'email-change-verification',
+      context: {
+        username,
+        verifyUrl,
+        expiresInMinutes,
+      },
+    });
+  }
+
   async sendBulkUserCreationEmail(to: string, username: string, password: string, role: string, loginUrl: string) {
     console.log(`[EmailsService] Sending bulk creation email to: ${to} with template: bulk-user-creation`);
 
@@ -169,6 +232,7 @@ export class EmailsService {
     to: string,
     teamName: string,
     tournamentName: string,
+    invitation?: { acceptUrl: string; expiresInDays: number },
   ) {
     await this.mailerService.sendMail({
       to,
@@ -178,6 +242,29 @@ export class EmailsService {
         email: to,
         teamName,
         tournamentName,
+        ...invitation,
+      },
+    });
+  }
+
+  async sendTeamRegistrationStatusEmail(
+    to: string,
+    teamName: string,
+    tournamentName: string,
+    status: TeamRegistrationStatus,
+    reason?: string | null,
+  ) {
+    const { headline, message } = TEAM_REGISTRATION_MESSAGES[status];
+    await this.mailerService.sendMail({
+      to,
+      subject: `${headline}: ${teamName}`,
+      template: 'team-registration-status',
+      context: {
+        headline,
+        message,
+        teamName,
+        tournamentName,
+        reason,
       },
     });
   }
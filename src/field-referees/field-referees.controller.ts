@@ -18,8 +18,11 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { UserRole } from '../utils/prisma-types';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
 
 @Controller('field-referees')
+@Audited('field', { idParam: 'fieldId' })
 @UseGuards(JwtAuthGuard)
 export class FieldRefereesController {
   constructor(private readonly fieldRefereesService: FieldRefereesService) {}
@@ -50,11 +53,13 @@ export class FieldRefereesController {
   @HttpCode(HttpStatus.OK)
   async assignRefereesToField(
     @Param('fieldId') fieldId: string,
-    @Body() assignRefereesDto: AssignRefereesDto
+    @Body() assignRefereesDto: AssignRefereesDto,
+    @CurrentUser() user,
   ) {
     return this.fieldRefereesService.assignRefereesToField(
-      fieldId, 
-      assignRefereesDto.referees
+      fieldId,
+      assignRefereesDto.referees,
+      { adminOverride: user.role === UserRole.ADMIN },
     );
   }
 
@@ -64,11 +69,13 @@ export class FieldRefereesController {
   @HttpCode(HttpStatus.OK)
   async addRefereesToField(
     @Param('fieldId') fieldId: string,
-    @Body() assignRefereesDto: AssignRefereesDto
+    @Body() assignRefereesDto: AssignRefereesDto,
+    @CurrentUser() user,
   ) {
     return this.fieldRefereesService.addRefereesToField(
-      fieldId, 
-      assignRefereesDto.referees
+      fieldId,
+      assignRefereesDto.referees,
+      { adminOverride: user.role === UserRole.ADMIN },
     );
   }
 
@@ -76,8 +83,10 @@ export class FieldRefereesController {
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
   @HttpCode(HttpStatus.OK)
-  async batchAssignReferees(@Body() batchAssignDto: BatchAssignRefereesDto) {
-    return this.fieldRefereesService.batchAssignReferees(batchAssignDto.assignments);
+  async batchAssignReferees(@Body() batchAssignDto: BatchAssignRefereesDto, @CurrentUser() user) {
+    return this.fieldRefereesService.batchAssignReferees(batchAssignDto.assignments, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Delete('fields/:fieldId/referees/:userId')
@@ -86,9 +95,12 @@ export class FieldRefereesController {
   @HttpCode(HttpStatus.NO_CONTENT)
   async removeRefereeFromField(
     @Param('fieldId') fieldId: string,
-    @Param('userId') userId: string
+    @Param('userId') userId: string,
+    @CurrentUser() user,
   ) {
-    await this.fieldRefereesService.removeRefereeFromField(fieldId, userId);
+    await this.fieldRefereesService.removeRefereeFromField(fieldId, userId, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Post('fields/:fieldId/replace')
@@ -97,11 +109,13 @@ export class FieldRefereesController {
   @HttpCode(HttpStatus.OK)
   async replaceAllRefereesForField(
     @Param('fieldId') fieldId: string,
-    @Body() assignRefereesDto: AssignRefereesDto
+    @Body() assignRefereesDto: AssignRefereesDto,
+    @CurrentUser() user,
   ) {
     return this.fieldRefereesService.replaceAllRefereesForField(
-      fieldId, 
-      assignRefereesDto.referees
+      fieldId,
+      assignRefereesDto.referees,
+      { adminOverride: user.role === UserRole.ADMIN },
     );
   }
 
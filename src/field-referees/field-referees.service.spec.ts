@@ -35,7 +35,7 @@ describe('FieldRefereesService', () => {
       { id: 'user3', role: UserRole.ALLIANCE_REFEREE },
     ];
 
-    const mockField = { id: 'field1', name: 'Field 1', number: 1 };
+    const mockField = { id: 'field1', name: 'Field 1', number: 1, tournament: { status: 'LIVE' } };
     const mockFieldReferees = [
       { id: 'fr1', fieldId: 'field1', userId: 'user1', isHeadRef: true, user: mockUsers[0] },
       { id: 'fr2', fieldId: 'field1', userId: 'user2', isHeadRef: false, user: mockUsers[1] },
@@ -279,6 +279,30 @@ describe('FieldRefereesService', () => {
     });
   });
 
+  describe('tournament lifecycle', () => {
+    it('should refuse referee changes once the tournament is completed', async () => {
+      prisma.field.findUnique.mockResolvedValue({ id: 'field1', tournament: { status: 'COMPLETED' } } as any);
+
+      await expect(
+        service.assignRefereesToField('field1', [{ userId: 'user1', isHeadRef: true }]),
+      ).rejects.toThrow('Cannot change referees while the tournament is COMPLETED');
+      await expect(service.removeRefereeFromField('field1', 'user1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.fieldReferee.createMany).not.toHaveBeenCalled();
+      expect(prisma.fieldReferee.delete).not.toHaveBeenCalled();
+    });
+
+    it('should never let an admin change an archived tournament', async () => {
+      prisma.field.findUnique.mockResolvedValue({ id: 'field1', tournament: { status: 'ARCHIVED' } } as any);
+
+      await expect(
+        service.replaceAllRefereesForField('field1', [], { adminOverride: true }),
+      ).rejects.toThrow('Cannot change referees while the tournament is ARCHIVED');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getFieldReferees', () => {
     it('should return field referees ordered by head ref first', async () => {
       const mockFieldReferees = [
@@ -383,8 +407,8 @@ describe('FieldRefereesService', () => {
         { fieldId: 'field2', userId: 'user3', isHeadRef: true },
       ];
 
-      const mockField1 = { id: 'field1', name: 'Field 1', number: 1 };
-      const mockField2 = { id: 'field2', name: 'Field 2', number: 2 };
+      const mockField1 = { id: 'field1', name: 'Field 1', number: 1, tournament: { status: 'LIVE' } };
+      const mockField2 = { id: 'field2', name: 'Field 2', number: 2, tournament: { status: 'LIVE' } };
       
       const batchUsers = [
         { id: 'user1', role: UserRole.HEAD_REFEREE },
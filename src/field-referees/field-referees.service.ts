@@ -1,14 +1,19 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { RefereeAssignment, BatchRefereeAssignment } from './dto/referee-assignment.dto';
+import { assertTournamentStatus, EDITABLE_STATUSES } from '../tournaments/tournament-lifecycle';
 
 @Injectable()
 export class FieldRefereesService {
   constructor(private prisma: PrismaService) {}
 
-  async assignRefereesToField(fieldId: string, assignments: RefereeAssignment[]) {
+  async assignRefereesToField(
+    fieldId: string,
+    assignments: RefereeAssignment[],
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Validate: field exists
-    await this.validateFieldExists(fieldId);
+    await this.validateFieldExists(fieldId, options);
 
     // If no assignments provided, just clear existing assignments
     if (assignments.length === 0) {
@@ -74,9 +79,13 @@ export class FieldRefereesService {
     });
   }
 
-  async addRefereesToField(fieldId: string, assignments: RefereeAssignment[]) {
+  async addRefereesToField(
+    fieldId: string,
+    assignments: RefereeAssignment[],
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Validate: field exists
-    await this.validateFieldExists(fieldId);
+    await this.validateFieldExists(fieldId, options);
 
     if (assignments.length === 0) {
       throw new BadRequestException('At least one referee assignment is required');
@@ -158,7 +167,15 @@ export class FieldRefereesService {
     });
   }
 
-  async removeRefereeFromField(fieldId: string, userId: string) {
+  async removeRefereeFromField(fieldId: string, userId: string, options: { adminOverride?: boolean } = {}) {
+    const field = await this.prisma.field.findUnique({
+      where: { id: fieldId },
+      select: { tournament: { select: { status: true } } },
+    });
+    if (field) {
+      assertTournamentStatus(field.tournament, EDITABLE_STATUSES, 'change referees', options);
+    }
+
     // First check if the assignment exists
     const assignment = await this.prisma.fieldReferee.findUnique({
       where: {
@@ -200,10 +217,10 @@ export class FieldRefereesService {
     }
   }
 
-  async batchAssignReferees(assignments: BatchRefereeAssignment[]) {
+  async batchAssignReferees(assignments: BatchRefereeAssignment[], options: { adminOverride?: boolean } = {}) {
     // Validate all assignments
     for (const assignment of assignments) {
-      await this.validateFieldExists(assignment.fieldId);
+      await this.validateFieldExists(assignment.fieldId, options);
     }
 
     // Group assignments by field to validate field-level constraints
@@ -352,9 +369,13 @@ export class FieldRefereesService {
     return allReferees.filter(referee => !assignedUserIds.has(referee.id));
   }
 
-  async replaceAllRefereesForField(fieldId: string, assignments: RefereeAssignment[]) {
+  async replaceAllRefereesForField(
+    fieldId: string,
+    assignments: RefereeAssignment[],
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Validate: field exists
-    await this.validateFieldExists(fieldId);
+    await this.validateFieldExists(fieldId, options);
 
     // If no assignments provided, just clear existing assignments
     if (assignments.length === 0) {
@@ -468,14 +489,17 @@ export class FieldRefereesService {
     }
   }
 
-  private async validateFieldExists(fieldId: string) {
+  private async validateFieldExists(fieldId: string, options: { adminOverride?: boolean }) {
     const field = await this.prisma.field.findUnique({
-      where: { id: fieldId }
+      where: { id: fieldId },
+      include: { tournament: { select: { status: true } } }
     });
 
     if (!field) {
       throw new BadRequestException(`Field with ID ${fieldId} not found`);
     }
+    // Referees of a completed or archived tournament are read-only
+    assertTournamentStatus(field.tournament, EDITABLE_STATUSES, 'change referees', options);
 
     return field;
   }
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
-import { Match as PrismaMatch, MatchState, AllianceColor } from '../utils/prisma-types';
+import { Match as PrismaMatch, MatchState, AllianceColor, MatchType } from '../utils/prisma-types';
+import { loadTournamentSettings, matchDurationSeconds } from '../tournaments/tournament-settings';
 import { Match, Schedule } from './match-scheduler.types';
 import { FrcSchedulerConfig, DEFAULT_FRC_CONFIG, QUALITY_ITERATIONS, PRESET_CONFIGS } from './frc-scheduler.config';
 
@@ -116,6 +117,7 @@ export class FrcScheduler {
     let schedule = this.generateInitialSchedule(numTeams, this.config.rounds.count);
     schedule = this.optimizeSchedule(schedule, iterations, this.config.constraints.minMatchSeparation);
     
+    const settings = await loadTournamentSettings(this.prisma, stage.tournament.id);
     const createdMatches: PrismaMatch[] = [];
     let matchNumber = 1;
     
@@ -133,7 +135,7 @@ export class FrcScheduler {
       // Calculate scheduled time with field-based intervals
       const fieldNumber = chosenField.number || 1;
       const fieldOffset = (fieldNumber - 1) * 5 * 60 * 1000; // 5 minutes between fields
-      const matchOffset = (matchNumber - 1) * 10 * 60 * 1000; // 10 minutes between matches
+      const matchOffset = (matchNumber - 1) * settings.cycleTimeMinutes * 60 * 1000; // One cycle between matches
       const scheduledTime = new Date(Date.now() + matchOffset + fieldOffset);
 
       const dbMatch = await this.prisma.match.create({
@@ -142,6 +144,7 @@ export class FrcScheduler {
           matchNumber: matchNumber++,
           roundNumber: 1,
           scheduledTime,
+          matchDuration: matchDurationSeconds(settings, MatchType.FULL),
           status: MatchState.PENDING,
           fieldId: chosenField.id,
           // fieldNumber removed - can access via match.field.number relationship
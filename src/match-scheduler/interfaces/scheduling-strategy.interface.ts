@@ -48,7 +48,8 @@ export interface FrcSchedulingOptions {
  * Options for playoff tournament scheduling
  */
 export interface PlayoffSchedulingOptions {
-  numberOfRounds: number;
+  // Defaults to the playoff rounds in the tournament settings
+  numberOfRounds?: number;
   teamsPerAlliance?: number;
 }
 
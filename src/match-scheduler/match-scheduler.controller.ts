@@ -6,12 +6,14 @@ import { Roles } from '../auth/roles.decorator';
 import { UserRole, AllianceColor } from '../utils/prisma-types';
 import { FrcSchedulerConfig, PRESET_CONFIGS } from './frc-scheduler.config';
 import { StagesService } from '../stages/stages.service';
+import { Audited, SkipAudit } from '../audit/audited.decorator';
 
 /**
  * Controller for match scheduling operations.
  * Provides endpoints for generating different types of match schedules.
  */
 @Controller('match-scheduler')
+@Audited('schedule')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class MatchSchedulerController {
     constructor(
@@ -83,6 +85,7 @@ export class MatchSchedulerController {
      * Get available preset configurations for FRC scheduling.
      */
     @Post('get-frc-presets')
+    @SkipAudit()
     @Roles(UserRole.ADMIN)
     async getFrcPresets() {
         return {
@@ -133,6 +136,7 @@ export class MatchSchedulerController {
      * Gets Swiss-style rankings for a stage, ordered by all tiebreakers.
      */
     @Post('get-swiss-rankings/:stageId')
+    @SkipAudit()
     @Roles(UserRole.ADMIN)
     async getSwissRankings(@Param('stageId') stageId: string) {
         const rankings = await this.matchSchedulerService.getSwissRankings(stageId);
@@ -150,7 +154,7 @@ export class MatchSchedulerController {
     @Roles(UserRole.ADMIN)
     async generatePlayoffSchedule(@Body() data: { 
         stageId: string; 
-        numberOfRounds: number;
+        numberOfRounds?: number;
         teamsPerAlliance?: number;
     }) {
         const matches = await this.matchSchedulerService.generatePlayoffSchedule(
@@ -161,7 +165,7 @@ export class MatchSchedulerController {
         await this.stagesService.broadcastStageBracket(data.stageId);
         
         return {
-            message: `Successfully generated playoff tournament with ${data.numberOfRounds} rounds`,
+            message: `Successfully generated playoff tournament with ${matches.length} matches`,
             matches
         };
     }
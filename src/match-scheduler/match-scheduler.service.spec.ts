@@ -61,6 +61,7 @@ describe('MatchSchedulerService', () => {
       tournament: {
         id: 't1',
         name: 'T1',
+        status: 'REGISTRATION',
         description: '',
         location: '',
         startDate: new Date(),
@@ -183,7 +184,7 @@ describe('MatchSchedulerService', () => {
         teamsPerMatch: 4,
         createdAt: new Date(),
         updatedAt: new Date(),
-        tournament: { id: 't1', teams: [{ id: 'a' }, { id: 'b' }], fields: [] }
+        tournament: { id: 't1', status: 'REGISTRATION', teams: [{ id: 'a' }, { id: 'b' }], fields: [] }
       } as any);
       prisma.teamStats.findUnique.mockResolvedValue(null);
       prisma.teamStats.create.mockResolvedValue({
@@ -260,6 +261,7 @@ describe('MatchSchedulerService', () => {
       tournament: {
         id: 't1',
         name: 'T1',
+        status: 'REGISTRATION',
         description: '',
         location: '',
         startDate: new Date(),
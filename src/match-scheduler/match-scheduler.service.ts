@@ -1,9 +1,15 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
-import { PrismaService } from '../prisma.service';
+import { NOT_DELETED, PrismaService } from '../prisma.service';
+import { COMPETING_TEAMS_WHERE } from '../teams/team-registration';
 import { FrcScheduler } from './frc-scheduler';
 import { SwissScheduler } from './swiss-scheduler';
 import { PlayoffScheduler } from './playoff-scheduler';
-import { Match as PrismaMatch, Stage, StageType, StageStatus, MatchState, AllianceColor } from '../utils/prisma-types';
+import { Match as PrismaMatch, Stage, StageType, StageStatus, MatchState, AllianceColor, TournamentStatus } from '../utils/prisma-types';
+import {
+  assertTournamentStatus,
+  ROUND_SCHEDULING_STATUSES,
+  SCHEDULING_STATUSES,
+} from '../tournaments/tournament-lifecycle';
 import { SchedulingStrategyFactory } from './factories/scheduling-strategy.factory';
 import { FieldAssignmentService } from './services/field-assignment.service';
 import { MatchupHistoryService } from './services/matchup-history.service';
@@ -51,7 +57,7 @@ export class MatchSchedulerService {
     this.logger.log(`Generating matches for stage ${stageId}`);
     
     const stage = await this.getStageWithDetails(stageId);
-    this.validateStageForScheduling(stage);
+    this.validateStageForScheduling(stage, ROUND_SCHEDULING_STATUSES);
     
     const strategy = this.schedulingStrategyFactory.createStrategy(stage);
     this.logger.log(`Using ${strategy.getStrategyType()} scheduling strategy`);
@@ -90,7 +96,7 @@ export class MatchSchedulerService {
     
     // Get stage with teams and tournament details
     const stage = await this.getStageWithDetails(stageId);
-    this.validateStageForScheduling(stage);
+    this.validateStageForScheduling(stage, SCHEDULING_STATUSES);
     
     const effectiveTeamsPerAlliance = config?.teamsPerAlliance ?? teamsPerAlliance ?? stage.teamsPerAlliance ?? this.DEFAULT_TEAMS_PER_ALLIANCE;
     this.frcScheduler.setConfig({ teamsPerAlliance: effectiveTeamsPerAlliance });
@@ -116,7 +122,7 @@ export class MatchSchedulerService {
     
     // Get stage with teams and tournament details
     const stage = await this.getStageWithDetails(stageId);
-    this.validateStageForScheduling(stage);
+    this.validateStageForScheduling(stage, SCHEDULING_STATUSES);
 
     const mergedConfig: FrcSchedulerConfig = {
       ...config,
@@ -168,7 +174,7 @@ export class MatchSchedulerService {
    * Generates a playoff tournament bracket (Legacy method)
    * @deprecated Use generateMatches with PlayoffSchedulingOptions instead
    */
-  async generatePlayoffSchedule(stageId: string, numberOfRounds: number, teamsPerAlliance?: number): Promise<PrismaMatch[]> {
+  async generatePlayoffSchedule(stageId: string, numberOfRounds?: number, teamsPerAlliance?: number): Promise<PrismaMatch[]> {
     this.logger.warn('generatePlayoffSchedule is deprecated. Use generateMatches with PlayoffSchedulingOptions instead.');
     
     const options: PlayoffSchedulingOptions = {
@@ -273,11 +279,11 @@ export class MatchSchedulerService {
       include: {
         tournament: {
           include: {
-            teams: true,
+            teams: { where: COMPETING_TEAMS_WHERE },
             fields: true,
           },
         },
-        teams: true,
+        teams: { where: NOT_DELETED },
       },
     });
 
@@ -290,8 +296,12 @@ export class MatchSchedulerService {
   /**
    * Validates if a stage is ready for scheduling
    * @param stage Stage to validate
+   * @param allowedStatuses Tournament statuses this kind of schedule can be generated in
    */
-  private validateStageForScheduling(stage: Stage & { tournament: any }): void {
+  private validateStageForScheduling(
+    stage: Stage & { tournament: any },
+    allowedStatuses: TournamentStatus[],
+  ): void {
     if (stage.status === StageStatus.COMPLETED) {
       throw new BadRequestException(`Stage "${stage.name}" has already been completed`);
     }
@@ -299,6 +309,8 @@ export class MatchSchedulerService {
     if (!stage.tournament) {
       throw new BadRequestException(`Stage "${stage.name}" has no associated tournament`);
     }
+
+    assertTournamentStatus(stage.tournament, allowedStatuses, 'generate this schedule');
   }
 
   private resolveTeamsPerAlliance(
@@ -1,7 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
-import { Match as PrismaMatch, StageType, AllianceColor, MatchState } from '../utils/prisma-types';
-import { FRC_RANKING_ORDER } from '../constants/ranking.constants';
+import { Match as PrismaMatch, StageType, AllianceColor, MatchState, MatchType } from '../utils/prisma-types';
+import {
+  loadTournamentSettings,
+  matchDurationSeconds,
+  rankingOrderBy,
+} from '../tournaments/tournament-settings';
 /**
  * Playoff bracket generation and advancement logic.
  * Extracted from MatchSchedulerService for separation of concerns.
@@ -12,17 +16,23 @@ export class PlayoffScheduler {
 
   constructor(private readonly prisma: PrismaService) { }
 
-  async generatePlayoffSchedule(stage: any, numberOfRounds: number): Promise<PrismaMatch[]> {
+  /**
+   * @param numberOfRounds Defaults to the playoff rounds in the tournament settings
+   */
+  async generatePlayoffSchedule(stage: any, numberOfRounds?: number): Promise<PrismaMatch[]> {
     if (stage.type !== StageType.PLAYOFF) {
       throw new Error(`Stage with ID ${stage.id} is not a PLAYOFF stage`);
     }
 
+    const settings = await loadTournamentSettings(this.prisma, stage.tournament.id);
+    numberOfRounds ??= settings.playoff.rounds;
+
     const teamsPerAlliance = stage.teamsPerAlliance || 1;
     const numTeamsNeeded = Math.pow(2, numberOfRounds);
     const teamStats = await this.prisma.teamStats.findMany({
       where: { tournamentId: stage.tournament.id },
       include: { team: true },
-      orderBy: FRC_RANKING_ORDER
+      orderBy: rankingOrderBy(settings)
     });
 
     if (teamStats.length < numTeamsNeeded) {
@@ -56,7 +66,8 @@ export class PlayoffScheduler {
     const matchesByRound: Record<number, PrismaMatch[]> = {};
     const createdMatches: PrismaMatch[] = [];
     const kickoffTime = Date.now();
-    const slotDurationMinutes = 15;
+    const slotDurationMinutes = settings.cycleTimeMinutes;
+    const matchDuration = matchDurationSeconds(settings, MatchType.FULL);
 
     for (let round = 1; round <= numberOfRounds; round++) {
       const matchesInRound = Math.pow(2, numberOfRounds - round);
@@ -79,6 +90,7 @@ export class PlayoffScheduler {
             roundNumber: round,
             status: MatchState.PENDING,
             scheduledTime: new Date(kickoffTime + scheduledOffsetMinutes * 60 * 1000),
+            matchDuration,
             bracketSlot: nextBracketSlot,
             fieldId: assignedField.id,
             alliances: allianceCreate
@@ -1,10 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma.service';
 import { ISchedulingStrategy, SwissSchedulingOptions } from '../interfaces/scheduling-strategy.interface';
-import { Match, Stage, Team, StageType, MatchState, AllianceColor } from '../../utils/prisma-types';
+import { Match, Stage, Team, StageType, MatchState, AllianceColor, MatchType } from '../../utils/prisma-types';
 import { FieldAssignmentService } from '../services/field-assignment.service';
 import { MatchupHistoryService } from '../services/matchup-history.service';
 import { SwissScheduler } from '../swiss-scheduler';
+import { TournamentSettingsData } from '../../tournaments/dto/tournament-settings.dto';
+import {
+  compareRankings,
+  loadTournamentSettings,
+  matchDurationSeconds,
+} from '../../tournaments/tournament-settings';
 
 /**
  * Swiss tournament scheduling strategy
@@ -49,6 +55,7 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
     const shuffledFields = this.fieldAssignmentService.shuffleFields(stage.tournament.fields);
     let fieldAssignmentCounts = this.fieldAssignmentService.initializeFieldCounts(shuffledFields);    // Get team rankings
     const teamStats = await this.getOrCreateTeamStats(stage.id);
+    const settings = await loadTournamentSettings(this.prisma, stage.tournamentId);
     
     // Get previous matchup history
     const previousOpponents = await this.matchupHistoryService.getPreviousOpponents(stage.id);
@@ -62,7 +69,8 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
       shuffledFields,
       fieldAssignmentCounts,
       teamsPerAlliance,
-      teamsPerMatch
+      teamsPerMatch,
+      settings
     );
 
     return matches;
@@ -116,7 +124,8 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
     shuffledFields: any[],
     initialFieldCounts: number[],
     teamsPerAlliance: number,
-    teamsPerMatch: number
+    teamsPerMatch: number,
+    settings: TournamentSettingsData
   ): Promise<Match[]> {
     const matches: Match[] = [];
     const paired = new Set<string>();
@@ -133,7 +142,7 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
     let fieldAssignmentCounts = [...initialFieldCounts];
 
     // Sort teams by performance (best to worst)
-    const sortedTeams = this.sortTeamsByTiebreakers(teamStats);
+    const sortedTeams = this.sortTeamsByTiebreakers(teamStats, settings);
     
     console.log(`\nGenerating Swiss matches with closest performance pairing for ${sortedTeams.length} teams`);
 
@@ -177,7 +186,8 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
         nextRoundNumber,
         redTeams,
         blueTeams,
-        field
+        field,
+        settings
       );
       
       matches.push(dbMatch);
@@ -189,15 +199,10 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
     return matches;
   }
   /**
-   * Sorts teams by tiebreakers
+   * Sorts teams by ranking points, then the tournament's tiebreakers
    */
-  private sortTeamsByTiebreakers(teams: any[]): any[] {
-    return [...teams].sort((a, b) => {
-      if (b.rankingPoints !== a.rankingPoints) return b.rankingPoints - a.rankingPoints;
-      if (Math.abs(b.opponentWinPercentage - a.opponentWinPercentage) > 0.001) 
-        return b.opponentWinPercentage - a.opponentWinPercentage;
-      return b.pointDifferential - a.pointDifferential;
-    });
+  private sortTeamsByTiebreakers(teams: any[], settings: TournamentSettingsData): any[] {
+    return [...teams].sort(compareRankings(settings));
   }
 
   /**
@@ -209,14 +214,15 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
     roundNumber: number,
     redTeams: any[],
     blueTeams: any[],
-    field: any
+    field: any,
+    settings: TournamentSettingsData
   ): Promise<Match> {
     // Calculate scheduled time based on field number and match order
-    // Default: 5-minute intervals between fields, 10-minute intervals between rounds
+    // 5-minute intervals between fields, one cycle time between rounds
     const fieldNumber = field.number || 1;
     const baseTime = Date.now();
     const fieldOffset = (fieldNumber - 1) * 5 * 60 * 1000; // 5 minutes per field
-    const roundOffset = (roundNumber - 1) * 10 * 60 * 1000; // 10 minutes per round
+    const roundOffset = (roundNumber - 1) * settings.cycleTimeMinutes * 60 * 1000;
     const scheduledTime = new Date(baseTime + fieldOffset + roundOffset);
 
     return await this.prisma.match.create({
@@ -225,6 +231,7 @@ export class SwissSchedulingStrategy implements ISchedulingStrategy {
         matchNumber,
         roundNumber,
         scheduledTime,
+        matchDuration: matchDurationSeconds(settings, MatchType.FULL),
         status: MatchState.PENDING,
         fieldId: field.id,
         alliances: {
@@ -1,5 +1,12 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '../prisma.service';
+import { NOT_DELETED, PrismaService } from '../prisma.service';
+import { COMPETING_TEAMS_WHERE } from '../teams/team-registration';
+import {
+  compareRankings,
+  loadTournamentSettings,
+  rankingPointsFor,
+  tiebreakerValues,
+} from '../tournaments/tournament-settings';
 import { Match as PrismaMatch, AllianceColor, MatchState } from '../utils/prisma-types';
 
 /**
@@ -35,7 +42,7 @@ export class SwissScheduler {
     if (teamStats.length === 0) {
       const stageObj = await this.prisma.stage.findUnique({
         where: { id: stageId },
-        include: { tournament: { include: { teams: true } } }
+        include: { tournament: { include: { teams: { where: COMPETING_TEAMS_WHERE } } } }
       });
       if (stageObj?.tournament?.teams) {
         for (const team of stageObj.tournament.teams) {
@@ -156,6 +163,7 @@ export class SwissScheduler {
     if (!stage) {
       throw new Error(`Stage ${stageId} not found`);
     }
+    const settings = await loadTournamentSettings(this.prisma, stage.tournamentId);
     
     // Update team stats with calculated values
     const statsUpdates: Promise<any>[] = [];
@@ -163,7 +171,13 @@ export class SwissScheduler {
       const totalMatches = result.wins + result.losses + result.ties;
       const owp = totalMatches > 0 ? result.losses / totalMatches : 0;
       const pointDiff = result.pointsScored - result.pointsConceded;
-      const rankingPoints = result.wins * 2 + result.ties;
+      const rankingPoints = rankingPointsFor(settings, result);
+      const { tiebreaker1, tiebreaker2 } = tiebreakerValues(settings, {
+        opponentWinPercentage: owp,
+        pointDifferential: pointDiff,
+        pointsScored: result.pointsScored,
+        wins: result.wins,
+      });
       
       console.log(`🔍 SwissScheduler updating stats for team ${teamId}:`, {
         wins: result.wins, losses: result.losses, ties: result.ties,
@@ -187,8 +201,8 @@ export class SwissScheduler {
             rankingPoints,
             opponentWinPercentage: owp,
             pointDifferential: pointDiff,
-            tiebreaker1: result.pointsScored,
-            tiebreaker2: pointDiff
+            tiebreaker1,
+            tiebreaker2
           },
           update: {
             stageId, // Update stageId to current stage
@@ -201,8 +215,8 @@ export class SwissScheduler {
             rankingPoints,
             opponentWinPercentage: owp,
             pointDifferential: pointDiff,
-            tiebreaker1: result.pointsScored,
-            tiebreaker2: pointDiff
+            tiebreaker1,
+            tiebreaker2
           }
         })
       );
@@ -236,11 +250,11 @@ export class SwissScheduler {
       include: {
         tournament: {
           include: {
-            teams: true,
+            teams: { where: COMPETING_TEAMS_WHERE },
             fields: true,
           },
         },
-        teams: true,
+        teams: { where: NOT_DELETED },
       },
     });
 
@@ -319,12 +333,9 @@ export class SwissScheduler {
     let nextBracketSlot = existingBracketSlot.length > 0 && existingBracketSlot[0].bracketSlot
       ? (existingBracketSlot[0].bracketSlot as number) + 1
       : 1;
-      // Sort teams by ranking points, then by tiebreakers
-    const sortedTeams = [...rankings].sort((a, b) => {
-      if (b.rankingPoints !== a.rankingPoints) return b.rankingPoints - a.rankingPoints;
-      if (b.opponentWinPercentage !== a.opponentWinPercentage) return b.opponentWinPercentage - a.opponentWinPercentage;
-      return b.pointDifferential - a.pointDifferential;
-    });
+      // Sort teams by ranking points, then by the tournament's tiebreakers
+    const settings = await loadTournamentSettings(this.prisma, stage.tournamentId);
+    const sortedTeams = [...rankings].sort(compareRankings(settings));
 
     console.log(`\nGenerating Swiss matches with closest performance pairing for ${sortedTeams.length} teams`);
 
@@ -13,14 +13,21 @@ import {
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
 import { Public } from '../auth/public.decorator';
-import { UserRole } from '../utils/prisma-types';
+import {
+  TournamentRoles,
+  TOURNAMENT_OFFICIAL_ROLES,
+} from '../auth/tournament-roles.decorator';
+import { ApiKeyScope } from '../api-keys/api-key-scope.decorator';
 import { MatchScoresService } from './match-scores.service';
 import { CreateMatchScoresDto, UpdateMatchScoresDto } from './dto';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { UserRole } from '../utils/prisma-types';
 
 @ApiTags('match-scores')
 @Controller('match-scores')
+@Audited('matchScore', { tournament: 'match' })
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class MatchScoresController {
@@ -29,7 +36,9 @@ export class MatchScoresController {
   ) {}
 
   @Post()
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @Audited('matchScore', { idBody: 'matchId' })
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES, 'match')
+  @ApiKeyScope('write:scores')
   @ApiOperation({ summary: 'Create match scores (Admin/Head Referee only)' })
   @ApiResponse({ 
     status: HttpStatus.CREATED, 
@@ -43,8 +52,10 @@ export class MatchScoresController {
     status: HttpStatus.FORBIDDEN, 
     description: 'Insufficient permissions. Only Admin and Head Referee can create scores.'
   })
-  create(@Body() createMatchScoresDto: CreateMatchScoresDto) {
-    return this.matchScoresService.create(createMatchScoresDto);
+  create(@Body() createMatchScoresDto: CreateMatchScoresDto, @CurrentUser() user) {
+    return this.matchScoresService.create(createMatchScoresDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Get()
@@ -95,7 +106,8 @@ export class MatchScoresController {
   }
 
   @Patch(':id')
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES, 'match')
+  @ApiKeyScope('write:scores', 'match')
   @ApiOperation({ summary: 'Update match scores (Admin/Head Referee only)' })
   @ApiParam({ name: 'id', description: 'Match scores ID' })
   @ApiResponse({ 
@@ -114,12 +126,18 @@ export class MatchScoresController {
     status: HttpStatus.NOT_FOUND, 
     description: 'Match scores not found.'
   })
-  update(@Param('id') id: string, @Body() updateMatchScoresDto: UpdateMatchScoresDto) {
-    return this.matchScoresService.update(id, updateMatchScoresDto);
+  update(
+    @Param('id') id: string,
+    @Body() updateMatchScoresDto: UpdateMatchScoresDto,
+    @CurrentUser() user,
+  ) {
+    return this.matchScoresService.update(id, updateMatchScoresDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Delete(':id')
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES, 'match')
   @ApiOperation({ summary: 'Delete match scores' })
   @ApiParam({ name: 'id', description: 'Match scores ID' })
   @ApiResponse({ 
@@ -138,7 +156,9 @@ export class MatchScoresController {
     status: HttpStatus.NOT_FOUND, 
     description: 'Match scores not found.'
   })
-  remove(@Param('id') id: string) {
-    return this.matchScoresService.remove(id);
+  remove(@Param('id') id: string, @CurrentUser() user) {
+    return this.matchScoresService.remove(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 }
\ No newline at end of file
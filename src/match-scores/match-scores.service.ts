@@ -8,6 +8,7 @@ import { ScoreDataDto } from './dto/score-data.dto';
 import { PrismaService } from '../prisma.service';
 import { RankingUpdateService } from './ranking-update.service';
 import { StagesService } from '../stages/stages.service';
+import { assertTournamentStatus, SCORING_STATUSES } from '../tournaments/tournament-lifecycle';
 
 
 @Injectable()
@@ -25,13 +26,18 @@ export class MatchScoresService {
   ) {}
   /**
    * @param createMatchScoresDto - DTO with match score data
+   * @param options.adminOverride - Lets an admin correct scores after the tournament is completed
    * @returns Legacy format match scores for backward compatibility
    */
-  async create(createMatchScoresDto: CreateMatchScoresDto) {
+  async create(
+    createMatchScoresDto: CreateMatchScoresDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     try {
       // Step 1: Validate and extract score data
       const scoreData = ScoreDataDto.fromCreateDto(createMatchScoresDto);
       scoreData.validate();
+      await this.assertScoringOpen(scoreData.matchId, options);
 
       // Step 2: Validate match has required alliances
       const { red: redAlliance, blue: blueAlliance } =
@@ -191,17 +197,43 @@ export class MatchScoresService {
   /**
    * Updates match scores using the simplified Alliance-based scoring
    */
-  async update(id: string, updateMatchScoresDto: UpdateMatchScoresDto) {
-    return this.create({
-      ...updateMatchScoresDto,
-      matchId: updateMatchScoresDto.matchId || id,
-    } as CreateMatchScoresDto);
+  async update(
+    id: string,
+    updateMatchScoresDto: UpdateMatchScoresDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
+    return this.create(
+      {
+        ...updateMatchScoresDto,
+        matchId: updateMatchScoresDto.matchId || id,
+      } as CreateMatchScoresDto,
+      options,
+    );
   }
 
   /**
-   * Resets alliance scores to zero for a match
+   * Scores are only accepted while the tournament is live
    */
-  async remove(matchId: string) {
+  private async assertScoringOpen(
+    matchId: string,
+    options: { adminOverride?: boolean },
+    action = 'submit scores',
+  ) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      select: { stage: { select: { tournament: { select: { status: true } } } } },
+    });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+    assertTournamentStatus(match.stage.tournament, SCORING_STATUSES, action, options);
+  }
+
+  /**
+   * Resets alliance scores to zero for a match. Only while the tournament is live, like scoring
+   */
+  async remove(matchId: string, options: { adminOverride?: boolean } = {}) {
+    await this.assertScoringOpen(matchId, options, 'reset scores');
     try {
       // Validate match exists
       await this.allianceRepository.getAlliancesForMatch(matchId);
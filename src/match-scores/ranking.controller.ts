@@ -11,13 +11,18 @@ import {
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../utils/prisma-types';
+import {
+  TournamentRoles,
+  TOURNAMENT_OFFICIAL_ROLES,
+} from '../auth/tournament-roles.decorator';
+import { ApiKeyScope } from '../api-keys/api-key-scope.decorator';
 import { RankingUpdateService } from './ranking-update.service';
 import { TeamStatsApiService } from './team-stats-api.service';
+import { Audited } from '../audit/audited.decorator';
 
 @ApiTags('rankings')
 @Controller('rankings')
+@Audited('ranking')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class RankingController {
@@ -27,6 +32,7 @@ export class RankingController {
   ) {}
 
   @Get('live/:tournamentId')
+  @ApiKeyScope('read:rankings')
   @ApiOperation({ summary: 'Get live rankings for a tournament' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiQuery({ name: 'stageId', description: 'Stage ID (optional)', required: false })
@@ -58,6 +64,7 @@ export class RankingController {
   }
 
   @Get('live/:tournamentId/:stageId')
+  @ApiKeyScope('read:rankings')
   @ApiOperation({ summary: 'Get live rankings for a specific stage' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiParam({ name: 'stageId', description: 'Stage ID' })
@@ -85,7 +92,7 @@ export class RankingController {
   }
 
   @Post('recalculate/:tournamentId')
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES)
   @ApiOperation({ summary: 'Force recalculation of rankings for a tournament (Admin/Head Referee only)' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiQuery({ name: 'stageId', description: 'Stage ID (optional)', required: false })
@@ -123,7 +130,7 @@ export class RankingController {
   }
 
   @Post('recalculate/:tournamentId/:stageId')
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES)
   @ApiOperation({ summary: 'Force recalculation of rankings for a specific stage (Admin/Head Referee only)' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiParam({ name: 'stageId', description: 'Stage ID' })
@@ -153,6 +160,7 @@ export class RankingController {
   }
 
   @Get('leaderboard/:tournamentId')
+  @ApiKeyScope('read:rankings')
   @ApiOperation({ summary: 'Get formatted leaderboard for a tournament' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiQuery({ name: 'stageId', description: 'Stage ID (optional)', required: false })
@@ -182,6 +190,7 @@ export class RankingController {
   }
 
   @Get('stats/:tournamentId')
+  @ApiKeyScope('read:rankings')
   @ApiOperation({ summary: 'Get ranking statistics for a tournament' })
   @ApiParam({ name: 'tournamentId', description: 'Tournament ID' })
   @ApiQuery({ name: 'stageId', description: 'Stage ID (optional)', required: false })
@@ -4,8 +4,10 @@ import { TeamStatsFilterDto } from './dto/team-stats-filter.dto';
 import { TeamStatsResponseDto } from './dto/team-stats-response.dto';
 import { LeaderboardResponseDto } from './dto/leaderboard-response.dto';
 import { PrismaService } from '../prisma.service';
+import { Audited } from '../audit/audited.decorator';
 
 @Controller('team-stats')
+@Audited('ranking')
 export class TeamStatsApiController {
   constructor(
     private readonly teamStatsApiService: TeamStatsApiService,
@@ -4,6 +4,7 @@ import { TeamStatsService } from './team-stats.service';
 import { TeamStatsFilterDto } from './dto/team-stats-filter.dto';
 import { TeamStatsResponseDto } from './dto/team-stats-response.dto';
 import { LeaderboardResponseDto, LeaderboardEntryDto } from './dto/leaderboard-response.dto';
+import { compareRankings, loadTournamentSettings } from '../tournaments/tournament-settings';
 
 @Injectable()
 export class TeamStatsApiService {
@@ -110,7 +111,7 @@ export class TeamStatsApiService {
 
   /**
    * Calculates rankings for all teams in a tournament (optionally by stage) and writes them to the database.
-   * Ranking is by FRC standard rules: ranking points desc, opponent win percentage desc, point differential desc.
+   * Ranking is by ranking points, then the tiebreakers in the tournament settings.
    * Updates the 'rank' field in teamStats for each team.
    */
   async calculateAndWriteRankings(tournamentId: string, stageId?: string): Promise<void> {
@@ -121,13 +122,8 @@ export class TeamStatsApiService {
       include: { team: true }
     });
     
-    // Sort by FRC ranking rules: ranking points desc, then opponent win percentage desc, then point differential desc
-    const sorted = stats.slice().sort((a, b) => {
-      if (b.rankingPoints !== a.rankingPoints) return b.rankingPoints - a.rankingPoints;
-      if (b.opponentWinPercentage !== a.opponentWinPercentage) return b.opponentWinPercentage - a.opponentWinPercentage;
-      if (b.pointDifferential !== a.pointDifferential) return b.pointDifferential - a.pointDifferential;
-      return b.pointsScored - a.pointsScored; // Final tiebreaker: total points scored
-    });
+    const settings = await loadTournamentSettings(this.prisma, tournamentId);
+    const sorted = stats.slice().sort(compareRankings(settings));
     
     console.log(`🏆 Updating rankings for ${sorted.length} teams in tournament ${tournamentId}:`, 
       sorted.slice(0, 5).map(s => ({ 
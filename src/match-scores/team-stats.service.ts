@@ -2,6 +2,11 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { MatchState } from '../utils/prisma-types';
 import { ITeamStatsService } from './interfaces/team-stats.interface';
+import {
+  loadTournamentSettings,
+  rankingPointsFor,
+  tiebreakerValues,
+} from '../tournaments/tournament-settings';
 
 @Injectable()
 export class TeamStatsService implements ITeamStatsService {
@@ -31,6 +36,7 @@ export class TeamStatsService implements ITeamStatsService {
         },
       },
     });
+    const settings = await loadTournamentSettings(this.prisma, match.stage.tournament.id);
     
     console.log(`🔍 TeamStatsService found ${allTeamMatches.length} completed matches for ${teamIds.length} teams in tournament ${match?.stage?.tournament?.id}`);
     const matchesByTeam = new Map<string, any[]>();
@@ -97,7 +103,7 @@ export class TeamStatsService implements ITeamStatsService {
       
       // Calculate additional statistics
       const winPercentage = matchesPlayed > 0 ? wins / matchesPlayed : 0;
-      const rankingPoints = (wins * 2) + ties; // Standard FRC ranking: 2 points for win, 1 for tie
+      const rankingPoints = rankingPointsFor(settings, { wins, ties, losses });
       
       // Calculate opponent win percentage (tiebreaker)
       let opponentWinPercentage = 0;
@@ -106,14 +112,13 @@ export class TeamStatsService implements ITeamStatsService {
         opponentWinPercentage = opponentStats;
       }
       
-      // Tiebreakers (can be customized based on game rules)
-      // FRC Standard Ranking Tiebreakers:
-      // 1. Ranking Points (wins * 2 + ties) - already set above
-      // 2. Opponent Win Percentage (OWP) - already calculated above
-      // 3. Point Differential - already set above
-      // 4. Points Scored - used as final tiebreaker
-      const tiebreaker1 = opponentWinPercentage; // OWP as tiebreaker #1
-      const tiebreaker2 = pointsScored; // Points scored as final tiebreaker
+      // Tiebreakers come from the tournament settings; stored as the first two configured
+      const { tiebreaker1, tiebreaker2 } = tiebreakerValues(settings, {
+        opponentWinPercentage,
+        pointDifferential,
+        pointsScored,
+        wins,
+      });
       
       // Debug logging
       console.log(`🔍 TeamStatsService calculating stats for team ${teamId}:`, {
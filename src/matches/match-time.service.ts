@@ -2,6 +2,7 @@ import { Injectable, Logger, BadRequestException, NotFoundException } from '@nes
 import { PrismaService } from '../prisma.service';
 import { UpdateMatchTimeDto, BulkUpdateMatchTimesDto } from './dto/update-match-time.dto';
 import { MatchState } from '../utils/prisma-types';
+import { assertTournamentStatus, SCHEDULING_STATUSES } from '../tournaments/tournament-lifecycle';
 
 @Injectable()
 export class MatchTimeService {
@@ -14,7 +15,11 @@ export class MatchTimeService {
    * @param matchId The ID of the match to update
    * @param updateDto Update data including new time and options
    */
-  async updateMatchTime(matchId: string, updateDto: UpdateMatchTimeDto) {
+  async updateMatchTime(
+    matchId: string,
+    updateDto: UpdateMatchTimeDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     this.logger.log(`Updating time for match ${matchId}`);
 
     // Verify match exists and is in PENDING status
@@ -39,6 +44,9 @@ export class MatchTimeService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
+    // Schedules are fixed once the tournament goes live
+    assertTournamentStatus(match.stage.tournament, SCHEDULING_STATUSES, 'reschedule matches', options);
+
     if (match.status !== MatchState.PENDING) {
       throw new BadRequestException(`Cannot update time for match that is not in PENDING status`);
     }
@@ -166,7 +174,10 @@ export class MatchTimeService {
    * Bulk updates match times for an entire stage
    * @param updateDto Bulk update parameters
    */
-  async bulkUpdateMatchTimes(updateDto: BulkUpdateMatchTimesDto) {
+  async bulkUpdateMatchTimes(
+    updateDto: BulkUpdateMatchTimesDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     this.logger.log(`Bulk updating match times for stage ${updateDto.stageId}`);
 
     // Verify stage exists
@@ -186,6 +197,7 @@ export class MatchTimeService {
     if (!stage) {
       throw new NotFoundException(`Stage with ID ${updateDto.stageId} not found`);
     }
+    assertTournamentStatus(stage.tournament, SCHEDULING_STATUSES, 'reschedule matches', options);
 
     const fields = stage.tournament?.fields || [];
     if (fields.length === 0) {
@@ -8,8 +8,11 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { UserRole, MatchState } from '../utils/prisma-types';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
 
 @Controller('matches')
+@Audited('match', { tournament: 'match' })
 export class MatchesController {
   constructor(
     private readonly matchesService: MatchesService,
@@ -19,8 +22,10 @@ export class MatchesController {
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  create(@Body() createMatchDto: CreateMatchDto) {
-    return this.matchesService.create(createMatchDto);
+  create(@Body() createMatchDto: CreateMatchDto, @CurrentUser() user) {
+    return this.matchesService.create(createMatchDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Get()
@@ -48,47 +53,74 @@ export class MatchesController {
   @Patch(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  update(@Param('id') id: string, @Body() updateMatchDto: UpdateMatchDto) {
-    return this.matchesService.update(id, updateMatchDto);
+  update(
+    @Param('id') id: string,
+    @Body() updateMatchDto: UpdateMatchDto,
+    @CurrentUser() user,
+  ) {
+    return this.matchesService.update(id, updateMatchDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Patch('alliance/:id')
+  @Audited('alliance')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
   updateAlliance(
     @Param('id') id: string,
-    @Body() updateAllianceDto: UpdateAllianceDto
+    @Body() updateAllianceDto: UpdateAllianceDto,
+    @CurrentUser() user,
   ) {
-    return this.matchesService.updateAlliance(id, updateAllianceDto);
+    return this.matchesService.updateAlliance(id, updateAllianceDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
   @Patch(':id/status')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  updateStatus(@Param('id') id: string, @Body() body: { status: MatchState }) {
+  updateStatus(
+    @Param('id') id: string,
+    @Body() body: { status: MatchState },
+    @CurrentUser() user,
+  ) {
     // Only allow status update
-    return this.matchesService.update(id, { status: body.status });
+    return this.matchesService.update(
+      id,
+      { status: body.status },
+      { adminOverride: user.role === UserRole.ADMIN },
+    );
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  remove(@Param('id') id: string) {
-    return this.matchesService.remove(id);
+  remove(@Param('id') id: string, @CurrentUser() user) {
+    return this.matchesService.remove(id, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // New time management endpoints
   @Patch(':id/time')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  updateMatchTime(@Param('id') id: string, @Body() updateMatchTimeDto: UpdateMatchTimeDto) {
-    return this.matchTimeService.updateMatchTime(id, updateMatchTimeDto);
+  updateMatchTime(
+    @Param('id') id: string,
+    @Body() updateMatchTimeDto: UpdateMatchTimeDto,
+    @CurrentUser() user,
+  ) {
+    return this.matchTimeService.updateMatchTime(id, updateMatchTimeDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Post('bulk-update-times')
+  @Audited('schedule', { idBody: 'stageId' })
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  bulkUpdateMatchTimes(@Body() bulkUpdateDto: BulkUpdateMatchTimesDto) {
-    return this.matchTimeService.bulkUpdateMatchTimes(bulkUpdateDto);
+  bulkUpdateMatchTimes(@Body() bulkUpdateDto: BulkUpdateMatchTimesDto, @CurrentUser() user) {
+    return this.matchTimeService.bulkUpdateMatchTimes(bulkUpdateDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Get('stage/:stageId/schedule')
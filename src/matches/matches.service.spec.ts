@@ -6,6 +6,7 @@ import { MatchesController } from './matches.controller';
 import { PrismaService } from '../prisma.service';
 import { MatchScoresService } from '../match-scores/match-scores.service';
 import { MatchChangeDetectionService } from './match-change-detection.service';
+import { MatchTimeService } from './match-time.service';
 import { DateValidationService } from '../common/services/date-validation.service';
 import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
 import { MatchState, MatchType, AllianceColor } from '../utils/prisma-types';
@@ -74,6 +75,7 @@ describe('MatchesController', () => {
         { provide: MatchScoresService, useValue: matchScoresService },
         { provide: MatchChangeDetectionService, useValue: matchChangeDetectionService },
         { provide: DateValidationService, useValue: dateValidationService },
+        { provide: MatchTimeService, useValue: mockDeep<MatchTimeService>() },
       ],
     }).compile();
 
@@ -95,6 +97,7 @@ describe('MatchesController', () => {
       isValid: true,
       errors: []
     });
+    prisma.tournament.findFirst.mockResolvedValue({ status: 'LIVE' } as any);
   });
 
   it('should be defined', () => {
@@ -461,4 +464,38 @@ describe('MatchesController', () => {
       });
     });
   });
+
+  describe('tournament lifecycle', () => {
+    it('should refuse match changes once the tournament is completed', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ status: 'COMPLETED' } as any);
+
+      await expect(matchesService.remove('match1')).rejects.toThrow(
+        'Cannot change matches while the tournament is COMPLETED',
+      );
+      await expect(
+        matchesService.updateAlliance('alliance1', { score: 10 } as any),
+      ).rejects.toThrow('Cannot change matches while the tournament is COMPLETED');
+      expect(prisma.match.delete).not.toHaveBeenCalled();
+      expect(prisma.alliance.update).not.toHaveBeenCalled();
+    });
+
+    it('should never let an admin change an archived tournament', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ status: 'ARCHIVED' } as any);
+
+      await expect(
+        matchesService.create({ matchNumber: 1, stageId: 'stage1' } as any, { adminOverride: true }),
+      ).rejects.toThrow('Cannot change matches while the tournament is ARCHIVED');
+      expect(prisma.match.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to reschedule once the tournament is live', async () => {
+      await expect(
+        matchesService.update('match1', { scheduledTime: new Date() } as any),
+      ).rejects.toThrow('Cannot reschedule matches while the tournament is LIVE');
+
+      prisma.match.update.mockResolvedValue({ id: 'match1', alliances: [] } as any);
+      await matchesService.update('match1', { status: MatchState.IN_PROGRESS } as any);
+      expect(prisma.match.update).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,11 +1,17 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '../../generated/prisma';
 import { PrismaService } from '../prisma.service';
 import { CreateMatchDto, CreateAllianceDto } from './dto/create-match.dto';
 import { UpdateMatchDto, UpdateAllianceDto } from './dto/update-match.dto';
 import { MatchScoresService } from '../match-scores/match-scores.service';
 import { MatchChangeDetectionService } from './match-change-detection.service';
-import { MatchState, MatchType } from '../utils/prisma-types';
+import { MatchState, MatchType, TournamentStatus } from '../utils/prisma-types';
 import { DateValidationService } from '../common/services/date-validation.service';
+import {
+  assertTournamentStatus,
+  EDITABLE_STATUSES,
+  SCHEDULING_STATUSES,
+} from '../tournaments/tournament-lifecycle';
 
 @Injectable()
 export class MatchesService {
@@ -16,8 +22,14 @@ export class MatchesService {
     private dateValidationService: DateValidationService,
   ) {}
 
-  async create(createMatchDto: CreateMatchDto) {
+  async create(createMatchDto: CreateMatchDto, options: { adminOverride?: boolean } = {}) {
     const { alliances = [], matchType, ...matchData } = createMatchDto;
+    await this.assertTournamentAllows(
+      { stages: { some: { id: createMatchDto.stageId } } },
+      EDITABLE_STATUSES,
+      'change matches',
+      options,
+    );
 
     // Validate match dates against stage boundaries if times are provided
     if (matchData.startTime && matchData.endTime) {
@@ -160,8 +172,21 @@ export class MatchesService {
     });
   }
 
-  async update(id: string, updateMatchDto: UpdateMatchDto & { fieldId?: string; fieldNumber?: number }) {
+  async update(
+    id: string,
+    updateMatchDto: UpdateMatchDto & { fieldId?: string; fieldNumber?: number },
+    options: { adminOverride?: boolean } = {},
+  ) {
     const data: any = {};
+    // Schedules are fixed once the tournament goes live
+    const reschedules =
+      updateMatchDto.startTime || updateMatchDto.endTime || updateMatchDto.scheduledTime;
+    await this.assertTournamentAllows(
+      { stages: { some: { matches: { some: { id } } } } },
+      reschedules ? SCHEDULING_STATUSES : EDITABLE_STATUSES,
+      reschedules ? 'reschedule matches' : 'change matches',
+      options,
+    );
 
     // Validate date changes if provided
     if (updateMatchDto.startTime || updateMatchDto.endTime) {
@@ -349,7 +374,17 @@ export class MatchesService {
     return updatedMatch;
   }
 
-  async updateAlliance(id: string, updateAllianceDto: UpdateAllianceDto) {
+  async updateAlliance(
+    id: string,
+    updateAllianceDto: UpdateAllianceDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
+    await this.assertTournamentAllows(
+      { stages: { some: { matches: { some: { alliances: { some: { id } } } } } } },
+      EDITABLE_STATUSES,
+      'change matches',
+      options,
+    );
     const data: any = {};
     
     if (updateAllianceDto.score !== undefined) {
@@ -365,12 +400,32 @@ export class MatchesService {
       data,
     });
   }
-  remove(id: string) {
+  async remove(id: string, options: { adminOverride?: boolean } = {}) {
+    await this.assertTournamentAllows(
+      { stages: { some: { matches: { some: { id } } } } },
+      EDITABLE_STATUSES,
+      'change matches',
+      options,
+    );
     return this.prisma.match.delete({
       where: { id },
     });
   }
 
+  /** Completed and archived tournaments are read-only, unless an admin overrides a completed one */
+  private async assertTournamentAllows(
+    where: Prisma.TournamentWhereInput,
+    allowed: TournamentStatus[],
+    action: string,
+    options: { adminOverride?: boolean },
+  ) {
+    const tournament = await this.prisma.tournament.findFirst({ where, select: { status: true } });
+    if (!tournament) {
+      throw new NotFoundException('Tournament not found');
+    }
+    assertTournamentStatus(tournament, allowed, action, options);
+  }
+
   async assignMatchToField(matchId: string, fieldId: string): Promise<any> {
     // Get the head referee for this field
     const headReferee = await this.prisma.fieldReferee.findFirst({
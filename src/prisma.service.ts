@@ -2,6 +2,26 @@
 import { INestApplication, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { PrismaClient } from '../generated/prisma';
 
+/** Models with a `deletedAt` column. Soft-deleted rows are hidden from reads. */
+export const SOFT_DELETE_MODELS = new Set(['User', 'Team', 'Tournament']);
+
+/**
+ * The filter is only added to top-level queries; nested to-many relations and
+ * relation counts of these models need this `where` themselves
+ */
+export const NOT_DELETED = { deletedAt: null };
+
+const SOFT_DELETE_FILTERED_ACTIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+]);
+
 /**
  * Service for interacting with the database via Prisma
  */
@@ -25,6 +45,23 @@ export class PrismaService extends PrismaClient implements OnModuleInit {
         this.logger.warn(`Slow query: ${e.query} (${e.duration}ms)`);
       }
     });
+
+    // Hide soft-deleted rows unless the query names deletedAt itself:
+    // `deletedAt: { not: null }` finds deleted rows, `deletedAt: undefined`
+    // includes them (e.g. for unique checks)
+    this.$use(async (params, next) => {
+      if (
+        params.model &&
+        SOFT_DELETE_MODELS.has(params.model) &&
+        SOFT_DELETE_FILTERED_ACTIONS.has(params.action)
+      ) {
+        const where = params.args?.where ?? {};
+        if (!('deletedAt' in where)) {
+          params.args = { ...params.args, where: { ...where, deletedAt: null } };
+        }
+      }
+      return next(params);
+    });
   }
 
   /**
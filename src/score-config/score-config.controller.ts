@@ -18,9 +18,12 @@ import { UserRole } from '../utils/prisma-types';
 import { ScoreConfigService } from './score-config.service';
 import { ScoreCalculationService } from './score-calculation.service';
 import { CreateScoreConfigDto, CreateScoreElementDto, CreateBonusConditionDto, CreatePenaltyConditionDto, SubmitScoreDto, UpdateScoreElementDto, UpdateBonusConditionDto, UpdatePenaltyConditionDto } from './dto';
+import { Audited } from '../audit/audited.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
 
 @ApiTags('score-configs')
 @Controller('score-configs')
+@Audited('scoreConfig')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class ScoreConfigController {
@@ -65,8 +68,9 @@ export class ScoreConfigController {
   async addElement(
     @Param('id') id: string,
     @Body() createScoreElementDto: CreateScoreElementDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.addScoreElement(id, createScoreElementDto);
+    return this.scoreConfigService.addScoreElement(id, createScoreElementDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   @Post(':id/bonuses')
@@ -76,8 +80,9 @@ export class ScoreConfigController {
   async addBonus(
     @Param('id') id: string,
     @Body() createBonusConditionDto: CreateBonusConditionDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.addBonusCondition(id, createBonusConditionDto);
+    return this.scoreConfigService.addBonusCondition(id, createBonusConditionDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   @Post(':id/penalties')
@@ -87,11 +92,13 @@ export class ScoreConfigController {
   async addPenalty(
     @Param('id') id: string,
     @Body() createPenaltyConditionDto: CreatePenaltyConditionDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.addPenaltyCondition(id, createPenaltyConditionDto);
+    return this.scoreConfigService.addPenaltyCondition(id, createPenaltyConditionDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   @Post('calculate/:matchId/:allianceId')
+  @Audited('matchScore', { idParam: 'matchId' })
   @Roles(UserRole.ALLIANCE_REFEREE, UserRole.ADMIN)
   @ApiOperation({ summary: 'Calculate and submit scores for a match alliance' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Scores calculated and saved successfully' })
@@ -141,59 +148,68 @@ export class ScoreConfigController {
 
   // Update Score Element
   @Patch('elements/:elementId')
+  @Audited('scoreElement', { idParam: 'elementId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Update a score element' })
   async updateElement(
     @Param('elementId') elementId: string,
     @Body() updateScoreElementDto: UpdateScoreElementDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.updateScoreElement(elementId, updateScoreElementDto);
+    return this.scoreConfigService.updateScoreElement(elementId, updateScoreElementDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Delete Score Element
   @Delete('elements/:elementId')
+  @Audited('scoreElement', { idParam: 'elementId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Delete a score element' })
-  async removeElement(@Param('elementId') elementId: string) {
-    return this.scoreConfigService.deleteScoreElement(elementId);
+  async removeElement(@Param('elementId') elementId: string, @CurrentUser() user) {
+    return this.scoreConfigService.deleteScoreElement(elementId, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Update Bonus Condition
   @Patch('bonuses/:bonusId')
+  @Audited('bonusCondition', { idParam: 'bonusId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Update a bonus condition' })
   async updateBonus(
     @Param('bonusId') bonusId: string,
     @Body() updateBonusConditionDto: UpdateBonusConditionDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.updateBonusCondition(bonusId, updateBonusConditionDto);
+    return this.scoreConfigService.updateBonusCondition(bonusId, updateBonusConditionDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Delete Bonus Condition
   @Delete('bonuses/:bonusId')
+  @Audited('bonusCondition', { idParam: 'bonusId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Delete a bonus condition' })
-  async removeBonus(@Param('bonusId') bonusId: string) {
-    return this.scoreConfigService.deleteBonusCondition(bonusId);
+  async removeBonus(@Param('bonusId') bonusId: string, @CurrentUser() user) {
+    return this.scoreConfigService.deleteBonusCondition(bonusId, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Update Penalty Condition
   @Patch('penalties/:penaltyId')
+  @Audited('penaltyCondition', { idParam: 'penaltyId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Update a penalty condition' })
   async updatePenalty(
     @Param('penaltyId') penaltyId: string,
     @Body() updatePenaltyConditionDto: UpdatePenaltyConditionDto,
+    @CurrentUser() user,
   ) {
-    return this.scoreConfigService.updatePenaltyCondition(penaltyId, updatePenaltyConditionDto);
+    return this.scoreConfigService.updatePenaltyCondition(penaltyId, updatePenaltyConditionDto, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Delete Penalty Condition
   @Delete('penalties/:penaltyId')
+  @Audited('penaltyCondition', { idParam: 'penaltyId' })
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Delete a penalty condition' })
-  async removePenalty(@Param('penaltyId') penaltyId: string) {
-    return this.scoreConfigService.deletePenaltyCondition(penaltyId);
+  async removePenalty(@Param('penaltyId') penaltyId: string, @CurrentUser() user) {
+    return this.scoreConfigService.deletePenaltyCondition(penaltyId, { adminOverride: user.role === UserRole.ADMIN });
   }
 
   // Assign ScoreConfig to Tournament
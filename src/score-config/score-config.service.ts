@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
+import { assertTournamentStatus, EDITABLE_STATUSES } from '../tournaments/tournament-lifecycle';
 import { CreateScoreConfigDto, CreateScoreElementDto, CreateBonusConditionDto, CreatePenaltyConditionDto } from './dto';
 
 @Injectable()
@@ -100,7 +101,11 @@ export class ScoreConfigService {
     return scoreConfig;
   }
 
-  async addScoreElement(scoreConfigId: string, data: CreateScoreElementDto) {
+  async addScoreElement(
+    scoreConfigId: string,
+    data: CreateScoreElementDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Check if score config exists
     const scoreConfig = await this.prisma.scoreConfig.findUnique({
       where: { id: scoreConfigId },
@@ -109,6 +114,7 @@ export class ScoreConfigService {
     if (!scoreConfig) {
       throw new NotFoundException(`Score config with ID ${scoreConfigId} not found`);
     }
+    await this.assertTournamentEditable(scoreConfigId, options);
 
     // Get the current max display order
     const maxOrder = await this.prisma.scoreElement.findFirst({
@@ -125,7 +131,11 @@ export class ScoreConfigService {
     });
   }
 
-  async addBonusCondition(scoreConfigId: string, data: CreateBonusConditionDto) {
+  async addBonusCondition(
+    scoreConfigId: string,
+    data: CreateBonusConditionDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Check if score config exists
     const scoreConfig = await this.prisma.scoreConfig.findUnique({
       where: { id: scoreConfigId },
@@ -134,6 +144,7 @@ export class ScoreConfigService {
     if (!scoreConfig) {
       throw new NotFoundException(`Score config with ID ${scoreConfigId} not found`);
     }
+    await this.assertTournamentEditable(scoreConfigId, options);
 
     // Get the current max display order
     const maxOrder = await this.prisma.bonusCondition.findFirst({
@@ -150,7 +161,11 @@ export class ScoreConfigService {
     });
   }
 
-  async addPenaltyCondition(scoreConfigId: string, data: CreatePenaltyConditionDto) {
+  async addPenaltyCondition(
+    scoreConfigId: string,
+    data: CreatePenaltyConditionDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
     // Check if score config exists
     const scoreConfig = await this.prisma.scoreConfig.findUnique({
       where: { id: scoreConfigId },
@@ -159,6 +174,7 @@ export class ScoreConfigService {
     if (!scoreConfig) {
       throw new NotFoundException(`Score config with ID ${scoreConfigId} not found`);
     }
+    await this.assertTournamentEditable(scoreConfigId, options);
 
     // Get the current max display order
     const maxOrder = await this.prisma.penaltyCondition.findFirst({
@@ -176,47 +192,79 @@ export class ScoreConfigService {
   }
 
   // Update Score Element
-  async updateScoreElement(elementId: string, data: Partial<CreateScoreElementDto>) {
+  async updateScoreElement(
+    elementId: string,
+    data: Partial<CreateScoreElementDto>,
+    options: { adminOverride?: boolean } = {},
+  ) {
     const element = await this.prisma.scoreElement.findUnique({ where: { id: elementId } });
     if (!element) throw new NotFoundException(`Score element with ID ${elementId} not found`);
+    await this.assertTournamentEditable(element.scoreConfigId, options);
     return this.prisma.scoreElement.update({ where: { id: elementId }, data });
   }
 
   // Delete Score Element
-  async deleteScoreElement(elementId: string) {
+  async deleteScoreElement(elementId: string, options: { adminOverride?: boolean } = {}) {
     const element = await this.prisma.scoreElement.findUnique({ where: { id: elementId } });
     if (!element) throw new NotFoundException(`Score element with ID ${elementId} not found`);
+    await this.assertTournamentEditable(element.scoreConfigId, options);
     return this.prisma.scoreElement.delete({ where: { id: elementId } });
   }
 
   // Update Bonus Condition
-  async updateBonusCondition(bonusId: string, data: Partial<CreateBonusConditionDto>) {
+  async updateBonusCondition(
+    bonusId: string,
+    data: Partial<CreateBonusConditionDto>,
+    options: { adminOverride?: boolean } = {},
+  ) {
     const bonus = await this.prisma.bonusCondition.findUnique({ where: { id: bonusId } });
     if (!bonus) throw new NotFoundException(`Bonus condition with ID ${bonusId} not found`);
+    await this.assertTournamentEditable(bonus.scoreConfigId, options);
     return this.prisma.bonusCondition.update({ where: { id: bonusId }, data });
   }
 
   // Delete Bonus Condition
-  async deleteBonusCondition(bonusId: string) {
+  async deleteBonusCondition(bonusId: string, options: { adminOverride?: boolean } = {}) {
     const bonus = await this.prisma.bonusCondition.findUnique({ where: { id: bonusId } });
     if (!bonus) throw new NotFoundException(`Bonus condition with ID ${bonusId} not found`);
+    await this.assertTournamentEditable(bonus.scoreConfigId, options);
     return this.prisma.bonusCondition.delete({ where: { id: bonusId } });
   }
 
   // Update Penalty Condition
-  async updatePenaltyCondition(penaltyId: string, data: Partial<CreatePenaltyConditionDto>) {
+  async updatePenaltyCondition(
+    penaltyId: string,
+    data: Partial<CreatePenaltyConditionDto>,
+    options: { adminOverride?: boolean } = {},
+  ) {
     const penalty = await this.prisma.penaltyCondition.findUnique({ where: { id: penaltyId } });
     if (!penalty) throw new NotFoundException(`Penalty condition with ID ${penaltyId} not found`);
+    await this.assertTournamentEditable(penalty.scoreConfigId, options);
     return this.prisma.penaltyCondition.update({ where: { id: penaltyId }, data });
   }
 
   // Delete Penalty Condition
-  async deletePenaltyCondition(penaltyId: string) {
+  async deletePenaltyCondition(penaltyId: string, options: { adminOverride?: boolean } = {}) {
     const penalty = await this.prisma.penaltyCondition.findUnique({ where: { id: penaltyId } });
     if (!penalty) throw new NotFoundException(`Penalty condition with ID ${penaltyId} not found`);
+    await this.assertTournamentEditable(penalty.scoreConfigId, options);
     return this.prisma.penaltyCondition.delete({ where: { id: penaltyId } });
   }
 
+  /** Scoring rules of a completed or archived tournament are read-only; unassigned configs stay editable */
+  private async assertTournamentEditable(
+    scoreConfigId: string,
+    options: { adminOverride?: boolean },
+  ) {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { scoreConfigs: { some: { id: scoreConfigId } } },
+      select: { status: true },
+    });
+    if (tournament) {
+      assertTournamentStatus(tournament, EDITABLE_STATUSES, 'change scoring rules', options);
+    }
+  }
+
   // Assign ScoreConfig to Tournament
   async assignToTournament(scoreConfigId: string, tournamentId: string) {
     // Ensure both exist
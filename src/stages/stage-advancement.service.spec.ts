@@ -43,6 +43,7 @@ describe('StageAdvancementService', () => {
       tournament: { 
         id: 'tournament-1', 
         name: 'Test Tournament',
+        status: 'LIVE',
         description: null,
         startDate: new Date('2025-01-01'),
         endDate: new Date('2025-01-02'),
@@ -242,6 +243,7 @@ describe('StageAdvancementService', () => {
       tournament: { 
         id: 'tournament-1', 
         name: 'Test Tournament',
+        status: 'LIVE',
         description: null,
         startDate: new Date('2025-01-01'),
         endDate: new Date('2025-01-02'),
@@ -1,7 +1,9 @@
 import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
-import { PrismaService } from '../prisma.service';
-import { StageStatus, MatchState, Stage, Team } from '../utils/prisma-types';
-import { FRC_RANKING_ORDER } from '../constants/ranking.constants';
+import { NOT_DELETED, PrismaService } from '../prisma.service';
+import { COMPETING_TEAMS_WHERE } from '../teams/team-registration';
+import { StageStatus, MatchState, Stage, Team, Tournament } from '../utils/prisma-types';
+import { loadTournamentSettings, rankingOrderBy } from '../tournaments/tournament-settings';
+import { assertTournamentStatus, EDITABLE_STATUSES } from '../tournaments/tournament-lifecycle';
 
 /**
  * Interface defining the result of a stage advancement operation
@@ -50,6 +52,8 @@ export interface AdvancementOptions {
     endDate: Date;
     teamsPerAlliance?: number;
   };
+  /** Lets an admin advance teams in a completed tournament */
+  adminOverride?: boolean;
 }
 
 /**
@@ -80,6 +84,7 @@ export class StageAdvancementService {
 
     // Step 1: Validate stage and check if advancement is possible
     const stage = await this.validateStageForAdvancement(stageId);
+    assertTournamentStatus(stage.tournament, EDITABLE_STATUSES, 'advance teams', options);
     
     // Step 2: Verify all matches are completed
     await this.ensureAllMatchesCompleted(stageId);
@@ -89,7 +94,7 @@ export class StageAdvancementService {
     if (stage.teams.length === 0) {
       // For first stage, get teams from tournament
       availableTeams = await this.prisma.team.findMany({
-        where: { tournamentId: stage.tournamentId }
+        where: { tournamentId: stage.tournamentId, ...COMPETING_TEAMS_WHERE }
       });
       
       if (availableTeams.length === 0) {
@@ -122,13 +127,13 @@ export class StageAdvancementService {
    * Validates that a stage exists and can be advanced.
    * A stage can be advanced if it's currently ACTIVE.
    */
-  private async validateStageForAdvancement(stageId: string): Promise<Stage & { teams: Team[] }> {
+  private async validateStageForAdvancement(stageId: string): Promise<Stage & { teams: Team[]; tournament: Tournament }> {
     const stage = await this.prisma.stage.findUnique({
       where: { id: stageId },
       include: {
         tournament: true,
         matches: true,
-        teams: true
+        teams: { where: NOT_DELETED }
       }
     });
 
@@ -179,22 +184,25 @@ export class StageAdvancementService {
    * Uses TeamStats to get performance metrics and calculates final rankings.
    */
   private async getTeamRankingsForStage(stageId: string): Promise<TeamRanking[]> {
+    const stage = await this.prisma.stage.findUnique({
+      where: { id: stageId },
+      select: { tournamentId: true }
+    });
+    const orderBy = stage
+      ? rankingOrderBy(await loadTournamentSettings(this.prisma, stage.tournamentId))
+      : [];
+
     // First, try to get team stats for this specific stage
     let teamStats = await this.prisma.teamStats.findMany({
       where: { stageId },
       include: {
         team: true
       },
-      orderBy: FRC_RANKING_ORDER
+      orderBy
     });
 
     // If no team stats found for this stage, try to get stats from tournament
     if (teamStats.length === 0) {
-      const stage = await this.prisma.stage.findUnique({
-        where: { id: stageId },
-        select: { tournamentId: true }
-      });
-      
       if (stage) {
         teamStats = await this.prisma.teamStats.findMany({
           where: {
@@ -204,7 +212,7 @@ export class StageAdvancementService {
           include: {
             team: true
           },
-          orderBy: FRC_RANKING_ORDER
+          orderBy
         });
       }
     }
@@ -398,7 +406,7 @@ export class StageAdvancementService {
       if (stage.teams.length === 0) {
         // Check if this is the first stage by looking for teams in the tournament
         const tournamentTeams = await this.prisma.team.findMany({
-          where: { tournamentId: stage.tournamentId }
+          where: { tournamentId: stage.tournamentId, ...COMPETING_TEAMS_WHERE }
         });
         
         if (tournamentTeams.length === 0) {
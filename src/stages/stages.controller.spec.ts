@@ -22,6 +22,16 @@ function createMockTeam(overrides: Partial<any> = {}) {
     referralSource: 'Website',
     createdAt: now,
     updatedAt: now,
+    deletedAt: null,
+    registrationStatus: 'APPROVED' as const,
+    registrationStatusReason: null,
+    registrationStatusChangedAt: now,
+    robotName: null,
+    description: null,
+    logoKey: null,
+    primaryColor: null,
+    secondaryColor: null,
+    links: null,
     ...overrides,
   };
 }
@@ -48,6 +58,8 @@ function createMockStage(overrides: Partial<any> = {}) {
   };
 }
 
+const adminUser = { id: 'admin-1', role: UserRole.ADMIN };
+
 describe('StagesController - Stage Advancement', () => {
   let controller: StagesController;
   let stagesService: StagesService;
@@ -122,13 +134,14 @@ describe('StagesController - Stage Advancement', () => {
     it('should successfully advance teams to next stage', async () => {
       const advanceTeamsSpy = jest.spyOn(stageAdvancementService, 'advanceTeamsToNextStage').mockResolvedValue(mockAdvancementResult);
 
-      const result = await controller.advanceTeams('stage-1', advanceTeamsDto);
+      const result = await controller.advanceTeams('stage-1', advanceTeamsDto, adminUser);
 
       expect(advanceTeamsSpy).toHaveBeenCalledWith('stage-1', {
         teamsToAdvance: 2,
         nextStageId: 'stage-2',
         createNextStage: false,
         nextStageConfig: undefined,
+        adminOverride: true,
       });
 
       expect(result).toEqual({
@@ -181,7 +194,7 @@ describe('StagesController - Stage Advancement', () => {
 
       jest.spyOn(stageAdvancementService, 'advanceTeamsToNextStage').mockResolvedValue(resultWithNewStage);
 
-      const result = await controller.advanceTeams('stage-1', dtoWithNewStage);
+      const result = await controller.advanceTeams('stage-1', dtoWithNewStage, adminUser);
 
       expect(result.success).toBe(true);
       expect(result.data.nextStage?.name).toBe('Playoffs');
@@ -192,10 +205,10 @@ describe('StagesController - Stage Advancement', () => {
       const error = new Error('Stage has incomplete matches');
       jest.spyOn(stageAdvancementService, 'advanceTeamsToNextStage').mockRejectedValue(error);
 
-      await expect(controller.advanceTeams('stage-1', advanceTeamsDto)).rejects.toThrow(HttpException);
+      await expect(controller.advanceTeams('stage-1', advanceTeamsDto, adminUser)).rejects.toThrow(HttpException);
 
       try {
-        await controller.advanceTeams('stage-1', advanceTeamsDto);
+        await controller.advanceTeams('stage-1', advanceTeamsDto, adminUser);
       } catch (exception) {
         expect(exception).toBeInstanceOf(HttpException);
         expect(exception.getStatus()).toBe(HttpStatus.BAD_REQUEST);
@@ -430,7 +443,7 @@ describe('StagesController - Stage Advancement', () => {
         teamsToAdvance: 4,
         nextStageId: 'stage-2',
         createNextStage: false,
-      });
+      }, adminUser);
 
       expect(advancementResult.success).toBe(true);
       expect(advancementResult.data.totalTeamsAdvanced).toBe(4);
@@ -18,7 +18,13 @@ import { UpdateStageDto } from './dto/update-stage.dto';
 import { AdvanceTeamsDto } from './dto/advance-teams.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/roles.decorator';
+import {
+  TournamentRoles,
+  TOURNAMENT_MANAGER_ROLES,
+} from '../auth/tournament-roles.decorator';
+import { ApiKeyScope } from '../api-keys/api-key-scope.decorator';
+import { Audited, SkipAudit } from '../audit/audited.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
 import { UserRole } from '../utils/prisma-types';
 
 /**
@@ -26,6 +32,7 @@ import { UserRole } from '../utils/prisma-types';
  * Follows RESTful conventions and implements proper authorization.
  */
 @Controller('stages')
+@Audited('stage', { tournament: 'stage' })
 export class StagesController {
   constructor(
     private readonly stagesService: StagesService,
@@ -38,9 +45,11 @@ export class StagesController {
    */
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
-  create(@Body() createStageDto: CreateStageDto) {
-    return this.stagesService.create(createStageDto);
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES)
+  create(@Body() createStageDto: CreateStageDto, @CurrentUser() user) {
+    return this.stagesService.create(createStageDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   /**
@@ -84,9 +93,15 @@ export class StagesController {
    */
   @Patch(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
-  update(@Param('id') id: string, @Body() updateStageDto: UpdateStageDto) {
-    return this.stagesService.update(id, updateStageDto);
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'stage')
+  update(
+    @Param('id') id: string,
+    @Body() updateStageDto: UpdateStageDto,
+    @CurrentUser() user,
+  ) {
+    return this.stagesService.update(id, updateStageDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   /**
@@ -95,9 +110,11 @@ export class StagesController {
    */
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
-  remove(@Param('id') id: string) {
-    return this.stagesService.remove(id);
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'stage')
+  remove(@Param('id') id: string, @CurrentUser() user) {
+    return this.stagesService.remove(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   /**
@@ -112,8 +129,9 @@ export class StagesController {
    * Validate stage date update
    */
   @Post(':id/validate-date-update')
+  @SkipAudit()
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'stage')
   async validateDateUpdate(
     @Param('id') id: string,
     @Body() body: { startDate: string; endDate: string }
@@ -131,10 +149,11 @@ export class StagesController {
    */
   @Post(':id/advance')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'stage')
   async advanceTeams(
     @Param('id') id: string,
     @Body() advanceTeamsDto: AdvanceTeamsDto,
+    @CurrentUser() user,
   ) {
     try {
       const result = await this.stageAdvancementService.advanceTeamsToNextStage(
@@ -144,6 +163,7 @@ export class StagesController {
           nextStageId: advanceTeamsDto.nextStageId,
           createNextStage: advanceTeamsDto.createNextStage,
           nextStageConfig: advanceTeamsDto.nextStageConfig,
+          adminOverride: user.role === UserRole.ADMIN,
         },
       );
 
@@ -192,6 +212,7 @@ export class StagesController {
    */
   @Get(':id/rankings')
   @UseGuards(JwtAuthGuard)
+  @ApiKeyScope('read:rankings', 'stage')
   async getStageRankings(@Param('id') id: string) {
     try {
       const rankings = await this.stageAdvancementService.getStageRankings(id);
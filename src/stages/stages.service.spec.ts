@@ -44,6 +44,7 @@ describe('StagesService', () => {
     }).compile();
     service = module.get<StagesService>(StagesService);
     jest.clearAllMocks();
+    prisma.tournament.findFirst.mockResolvedValue({ status: 'REGISTRATION' } as any);
   });
   describe('create', () => {
     it('should create a stage', async () => {
@@ -144,6 +145,15 @@ describe('StagesService', () => {
       prisma.stage.update.mockRejectedValue(new Error('DB error'));
       await expect(service.update('s1', { name: 'fail' } as any)).rejects.toThrow('DB error');
     });
+    it('should refuse changes once the tournament is completed', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ status: 'COMPLETED' } as any);
+      await expect(service.update('s1', { name: 'Updated' } as any)).rejects.toThrow(
+        'Cannot change stages while the tournament is COMPLETED',
+      );
+      await expect(
+        service.update('s1', { name: 'Updated' } as any, { adminOverride: true }),
+      ).resolves.not.toThrow();
+    });
   });
   describe('remove', () => {
     it('should delete a stage', async () => {
@@ -157,5 +167,12 @@ describe('StagesService', () => {
       prisma.stage.delete.mockRejectedValue(new Error('DB error'));
       await expect(service.remove('s1')).rejects.toThrow('DB error');
     });
+    it('should refuse to delete stages of a completed tournament', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ status: 'COMPLETED' } as any);
+      await expect(service.remove('s1')).rejects.toThrow(
+        'Cannot change stages while the tournament is COMPLETED',
+      );
+      expect(prisma.stage.delete).not.toHaveBeenCalled();
+    });
   });
 });
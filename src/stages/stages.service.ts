@@ -1,10 +1,11 @@
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, BadRequestException, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { CreateStageDto } from './dto/create-stage.dto';
 import { UpdateStageDto } from './dto/update-stage.dto';
 import { DateValidationService } from '../common/services/date-validation.service';
 import { StageType } from '../utils/prisma-types';
 import { getGlobalEventsGateway } from '../match-scores/ranking-update.service';
+import { assertTournamentStatus, EDITABLE_STATUSES } from '../tournaments/tournament-lifecycle';
 
 @Injectable()
 export class StagesService {
@@ -15,7 +16,9 @@ export class StagesService {
     private dateValidationService: DateValidationService
   ) {}
 
-  async create(createStageDto: CreateStageDto) {
+  async create(createStageDto: CreateStageDto, options: { adminOverride?: boolean } = {}) {
+    await this.assertTournamentEditable({ id: createStageDto.tournamentId }, options);
+
     // Validate stage dates against tournament boundaries
     const stageRange = {
       startDate: new Date(createStageDto.startDate),
@@ -93,7 +96,12 @@ export class StagesService {
     });
   }
 
-  async update(id: string, updateStageDto: UpdateStageDto) {
+  async update(
+    id: string,
+    updateStageDto: UpdateStageDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
+    await this.assertTournamentEditable({ stages: { some: { id } } }, options);
     const data: any = {};
     let dateRangeChanged = false;
 
@@ -181,7 +189,20 @@ export class StagesService {
     });
   }
 
-  remove(id: string) {
+  /** Completed and archived tournaments are read-only, unless an admin overrides a completed one */
+  private async assertTournamentEditable(
+    where: { id: string } | { stages: { some: { id: string } } },
+    options: { adminOverride?: boolean },
+  ) {
+    const tournament = await this.prisma.tournament.findFirst({ where, select: { status: true } });
+    if (!tournament) {
+      throw new NotFoundException('Tournament not found');
+    }
+    assertTournamentStatus(tournament, EDITABLE_STATUSES, 'change stages', options);
+  }
+
+  async remove(id: string, options: { adminOverride?: boolean } = {}) {
+    await this.assertTournamentEditable({ stages: { some: { id } } }, options);
     return this.prisma.stage.delete({
       where: { id },
     });
@@ -24,8 +24,17 @@ export const CreateTeamMemberSchema = z.object({
   teamId: z.string().uuid('Team ID must be a valid UUID').optional(),
 });
 
+export const TeamNumberSchema = z
+  .string()
+  .trim()
+  .min(1, 'Team number is required')
+  .max(20, 'Team number must be at most 20 characters')
+  .regex(/^[A-Za-z0-9-]+$/, 'Team number can only contain letters, digits and hyphens');
+
 export const CreateTeamSchema = z.object({
   name: z.string().min(1, 'Team name is required'),
+  // Only for tournaments with manual team numbers
+  teamNumber: TeamNumberSchema.optional(),
   userId: z.string().uuid('User ID must be a valid UUID').optional(),
   tournamentId: z.string().uuid('Tournament ID must be a valid UUID'),
   referralSource: z.string(),
@@ -1,36 +1,43 @@
 import { z } from 'zod';
 import { createZodDto } from 'nestjs-zod';
+import { TEAM_IMPORT_FIELDS } from '../team-import';
+import { TeamNumberSchema } from './create-team.dto';
 
-// Schema for CSV text content with specific fields for quick team creation
+export const TEAM_IMPORT_MAX_ROWS = 500;
+
+// Schema for a CSV or XLSX team import
 export const ImportTeamsSchema = z.object({
+  // CSV text, or the base64-encoded file for xlsx
   content: z.string().min(1, 'Content is required'),
-  format: z.enum(['csv', 'text']).default('csv'),
+  format: z.enum(['csv', 'text', 'xlsx']).default('csv'),
   hasHeader: z.boolean().default(true),
-  delimiter: z.string().default(','),
+  delimiter: z.string().length(1, 'Delimiter must be a single character').default(','),
+  // Header name or 1-based column number per field; headers are matched by common names otherwise
+  columnMapping: z
+    .record(
+      z.enum(TEAM_IMPORT_FIELDS),
+      z.union([z.string().min(1), z.number().int().min(1)]),
+    )
+    .optional(),
+  // Validate and preview without creating anything
+  dryRun: z.boolean().default(false),
   tournamentId: z
     .string()
     .uuid('Invalid tournament ID format')
     .min(1, 'Tournament ID is required'),
 });
 
-// Schema for individual team data from CSV
+// Schema for one imported row, after column mapping
 export const TeamImportDataSchema = z.object({
-  teamName: z.string().min(1, 'Team name is required'),
-  email: z
-    .string()
-    .optional()
-    .refine((val) => !val || /\S+@\S+\.\S+/.test(val), {
-      message: 'Invalid email format',
-    }),
-  numberOfMembers: z
-    .string()
-    .transform((val) => {
-      const num = parseInt(val, 10);
-      if (isNaN(num) || num < 1) {
-        throw new Error('Number of members must be a positive integer');
-      }
-      return num;
-    }),
+  teamName: z.string().min(1, 'Team name is required').max(100),
+  // Required when the tournament uses manual team numbers
+  teamNumber: TeamNumberSchema.optional(),
+  leaderEmail: z.string().trim().toLowerCase().email('Invalid email format').optional(),
+  leaderName: z.string().max(100).optional(),
+  numberOfMembers: z.coerce
+    .number({ invalid_type_error: 'Number of members must be a positive integer' })
+    .int('Number of members must be a positive integer')
+    .min(1, 'Number of members must be a positive integer'),
   schoolOrganization: z.string().optional(),
   location: z.string().optional(),
 });
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { CreateUserSchema } from '../../users/dto/create-user.dto';
+
+export const CreateTeamInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email format'),
+  // Defaults to the team member with this email
+  teamMemberId: z.string().uuid('Team member ID must be a valid UUID').optional(),
+});
+
+export const AcceptTeamInvitationSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// Same account rules as user creation; the email comes from the invitation
+export const RegisterFromTeamInvitationSchema = AcceptTeamInvitationSchema.merge(
+  CreateUserSchema.pick({ username: true, password: true, name: true }),
+);
+
+export class CreateTeamInvitationDto extends createZodDto(CreateTeamInvitationSchema) {}
+export class AcceptTeamInvitationDto extends createZodDto(AcceptTeamInvitationSchema) {}
+export class RegisterFromTeamInvitationDto extends createZodDto(RegisterFromTeamInvitationSchema) {}
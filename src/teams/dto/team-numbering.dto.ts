@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { TeamNumberMode } from '../../../generated/prisma';
+
+export const UpdateTeamNumberingSchema = z.object({
+  mode: z.nativeEnum(TeamNumberMode).optional(),
+  // null goes back to the initials of the tournament name
+  prefix: z
+    .string()
+    .trim()
+    .max(10, 'Prefix must be at most 10 characters')
+    .regex(/^[A-Za-z0-9-]*$/, 'Prefix can only contain letters, digits and hyphens')
+    .nullable()
+    .optional(),
+  padding: z.number().int().min(1).max(10).optional(),
+  // Restarts the sequence; numbers already in use are skipped
+  start: z.number().int().min(0).max(1_000_000_000).optional(),
+});
+
+export class UpdateTeamNumberingDto extends createZodDto(UpdateTeamNumberingSchema) {}
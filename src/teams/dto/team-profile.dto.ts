@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+const HexColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #1E40AF');
+
+export const TeamLinkSchema = z.object({
+  label: z.string().trim().min(1, 'Link label is required').max(50),
+  url: z
+    .string()
+    .trim()
+    .url('Invalid URL')
+    .refine((url) => /^https?:\/\//i.test(url), { message: 'Links must use http or https' }),
+});
+
+// Every field is optional; null clears it
+export const UpdateTeamProfileSchema = z.object({
+  robotName: z.string().trim().min(1).max(100).nullable().optional(),
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').nullable().optional(),
+  primaryColor: HexColorSchema.nullable().optional(),
+  secondaryColor: HexColorSchema.nullable().optional(),
+  links: z.array(TeamLinkSchema).max(10, 'At most 10 links').nullable().optional(),
+});
+
+export class UpdateTeamProfileDto extends createZodDto(UpdateTeamProfileSchema) {}
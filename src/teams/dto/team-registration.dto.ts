@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const RejectTeamSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(5, 'Reason must be at least 5 characters')
+    .max(500, 'Reason must not exceed 500 characters'),
+});
+
+export const WithdrawTeamSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason must not exceed 500 characters').optional(),
+});
+
+export class RejectTeamDto extends createZodDto(RejectTeamSchema) {}
+export class WithdrawTeamDto extends createZodDto(WithdrawTeamSchema) {}
@@ -0,0 +1,24 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query, StreamableFile } from '@nestjs/common';
+import { TeamProfilesService } from './team-profiles.service';
+
+/**
+ * Unauthenticated team pages for displays and the public site
+ */
+@Controller('public/teams')
+export class PublicTeamsController {
+  constructor(private readonly teamProfilesService: TeamProfilesService) {}
+
+  @Get('logos/:fileName')
+  async getLogo(@Param('fileName') fileName: string) {
+    const { content, contentType } = await this.teamProfilesService.readLogo(fileName);
+    return new StreamableFile(content, { type: contentType });
+  }
+
+  @Get(':teamNumber')
+  getTeam(
+    @Param('teamNumber') teamNumber: string,
+    @Query('tournamentId', new ParseUUIDPipe({ optional: true })) tournamentId?: string,
+  ) {
+    return this.teamProfilesService.getPublicProfile(teamNumber, tournamentId);
+  }
+}
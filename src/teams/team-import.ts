@@ -0,0 +1,111 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const TEAM_IMPORT_FIELDS = [
+  'teamName',
+  'teamNumber',
+  'leaderEmail',
+  'leaderName',
+  'numberOfMembers',
+  'schoolOrganization',
+  'location',
+] as const;
+
+export type TeamImportField = (typeof TEAM_IMPORT_FIELDS)[number];
+
+/** Header name, or 1-based column number, for each field */
+export type TeamImportColumnMapping = Partial<Record<TeamImportField, string | number>>;
+
+/** 0-based column index of each field found in the file */
+export type TeamImportColumns = Partial<Record<TeamImportField, number>>;
+
+/** Headers recognised without a mapping, compared after `normalizeHeader` */
+const HEADER_ALIASES: Record<TeamImportField, string[]> = {
+  teamName: ['team name', 'teamname', 'team', 'name'],
+  teamNumber: ['team number', 'teamnumber', 'team no', 'number'],
+  leaderEmail: ['leader email', 'team leader email', 'email'],
+  leaderName: ['leader name', 'team leader', 'leader'],
+  numberOfMembers: ['number of members', 'number of member', 'members', 'member count'],
+  schoolOrganization: ['school/organization', 'school organization', 'organization', 'school'],
+  location: ['location', 'province', 'address'],
+};
+
+/** Column order of files without a header, as in the original import format */
+const POSITIONAL_FIELDS: TeamImportField[] = [
+  'teamName',
+  'leaderEmail',
+  'numberOfMembers',
+  'schoolOrganization',
+  'location',
+];
+
+const REQUIRED_FIELDS: TeamImportField[] = ['teamName', 'numberOfMembers'];
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * Work out which column holds each field. Explicit mappings win over header
+ * aliases; files without a header use the original five-column order.
+ */
+export function resolveTeamImportColumns(
+  header: string[] | null,
+  mapping: TeamImportColumnMapping = {},
+): TeamImportColumns {
+  const headers = header?.map(normalizeHeader);
+  const columns: TeamImportColumns = {};
+  const errors: string[] = [];
+
+  for (const field of TEAM_IMPORT_FIELDS) {
+    const mapped = mapping[field];
+
+    if (typeof mapped === 'number') {
+      columns[field] = mapped - 1;
+    } else if (typeof mapped === 'string') {
+      const index = headers?.indexOf(normalizeHeader(mapped)) ?? -1;
+      if (!headers) {
+        errors.push(`${field}: header names can only be mapped when the file has a header row`);
+      } else if (index === -1) {
+        errors.push(`${field}: column "${mapped}" not found in the header row`);
+      } else {
+        columns[field] = index;
+      }
+    } else if (headers) {
+      const index = headers.findIndex((name) => HEADER_ALIASES[field].includes(name));
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    } else if (POSITIONAL_FIELDS.includes(field)) {
+      columns[field] = POSITIONAL_FIELDS.indexOf(field);
+    }
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (columns[field] === undefined && !errors.some((error) => error.startsWith(`${field}:`))) {
+      errors.push(`${field}: no matching column; add a header or a column mapping`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestException(`Invalid import columns: ${errors.join('; ')}`);
+  }
+  return columns;
+}
+
+/**
+ * Pick the mapped cells of a row. Empty cells are left out so optional
+ * fields validate as missing.
+ */
+export function readTeamImportRow(
+  cells: string[],
+  columns: TeamImportColumns,
+): Partial<Record<TeamImportField, string>> {
+  const values: Partial<Record<TeamImportField, string>> = {};
+  for (const [field, index] of Object.entries(columns) as [TeamImportField, number][]) {
+    const value = (cells[index] ?? '').trim();
+    if (value) {
+      values[field] = value;
+    }
+  }
+  return values;
+}
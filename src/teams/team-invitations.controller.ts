@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { TeamInvitationsService } from './team-invitations.service';
+import {
+  AcceptTeamInvitationDto,
+  CreateTeamInvitationDto,
+  RegisterFromTeamInvitationDto,
+} from './dto/team-invitation.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { Audited } from '../audit/audited.decorator';
+
+@Controller('teams')
+export class TeamInvitationsController {
+  constructor(private readonly teamInvitationsService: TeamInvitationsService) {}
+
+  /**
+   * Send a team member an invitation to claim their record - team leader or admin
+   */
+  @Post(':id/invitations')
+  @UseGuards(JwtAuthGuard)
+  @Audited('team')
+  invite(
+    @Param('id') id: string,
+    @CurrentUser() user,
+    @Body() dto: CreateTeamInvitationDto,
+  ) {
+    return this.teamInvitationsService.invite(id, dto, user);
+  }
+
+  /**
+   * Show a pending invitation on the accept page. Public; the token identifies it.
+   */
+  @Get('invitations/lookup')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  lookup(@Query('token') token: string) {
+    return this.teamInvitationsService.lookup(token ?? '');
+  }
+
+  /**
+   * Claim the invited member record with the signed-in account
+   */
+  @Post('invitations/accept')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  accept(@CurrentUser() user, @Body() dto: AcceptTeamInvitationDto) {
+    return this.teamInvitationsService.acceptAsUser(dto.token, user.id);
+  }
+
+  /**
+   * Create an account from an invitation and claim the member record. Public,
+   * so invitees without an account can sign up from the link.
+   */
+  @Post('invitations/register')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  register(@Body() dto: RegisterFromTeamInvitationDto) {
+    return this.teamInvitationsService.acceptWithNewAccount(dto);
+  }
+}
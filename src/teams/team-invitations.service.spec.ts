@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { createHash } from 'crypto';
+import { TeamInvitationsService } from './team-invitations.service';
+import { PrismaService } from '../prisma.service';
+import { EmailsService } from '../emails/emails.service';
+import { UserRole } from '../../generated/prisma';
+
+describe('TeamInvitationsService', () => {
+  let service: TeamInvitationsService;
+  let prisma: DeepMockProxy<PrismaService>;
+  let emailsService: DeepMockProxy<EmailsService>;
+
+  const leader = { id: 'leader1', role: UserRole.TEAM_LEADER };
+
+  const createMockInvitation = (overrides: any = {}) => ({
+    id: 'inv1',
+    teamMemberId: 'member1',
+    email: 'jane@example.com',
+    tokenHash: 'hash',
+    invitedById: 'leader1',
+    expiresAt: new Date(Date.now() + 60_000),
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    teamMember: {
+      id: 'member1',
+      name: 'Jane',
+      teamId: 'team1',
+      userId: null,
+      team: {
+        id: 'team1',
+        name: 'Team 1',
+        teamNumber: '000001',
+        deletedAt: null,
+        tournament: { id: 't1', name: 'Tournament 1' },
+      },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    prisma = mockDeep<PrismaService>();
+    emailsService = mockDeep<EmailsService>();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TeamInvitationsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: EmailsService, useValue: emailsService },
+      ],
+    }).compile();
+    service = module.get<TeamInvitationsService>(TeamInvitationsService);
+    (prisma.$transaction as any).mockImplementation(async (arg: any) =>
+      typeof arg === 'function' ? arg(prisma) : Promise.all(arg),
+    );
+  });
+
+  describe('invite', () => {
+    beforeEach(() => {
+      prisma.team.findUnique.mockResolvedValue({
+        id: 'team1',
+        name: 'Team 1',
+        userId: 'leader1',
+        tournament: { name: 'Tournament 1' },
+      } as any);
+    });
+
+    it('should revoke earlier invitations and email a hashed-token accept link', async () => {
+      prisma.teamMember.findFirst.mockResolvedValue({ id: 'member1', userId: null } as any);
+      prisma.teamInvitation.create.mockResolvedValue({ id: 'inv1' } as any);
+
+      await service.invite('team1', { email: 'jane@example.com' }, leader);
+
+      expect(prisma.teamMember.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { teamId: 'team1', email: { equals: 'jane@example.com', mode: 'insensitive' } },
+        }),
+      );
+      expect(prisma.teamInvitation.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { teamMemberId: 'member1', acceptedAt: null, revokedAt: null },
+        }),
+      );
+      const [, , , invitation] = emailsService.sendTeamAssignmentInvitationEmail.mock.calls[0];
+      const token = invitation!.acceptUrl.split('token=')[1];
+      expect(prisma.teamInvitation.create.mock.calls[0][0].data.tokenHash).toBe(
+        createHash('sha256').update(token).digest('hex'),
+      );
+    });
+
+    it('should only let the team leader or an admin invite', async () => {
+      await expect(
+        service.invite('team1', { email: 'jane@example.com' }, { id: 'other', role: UserRole.TEAM_LEADER }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject members that are not on the team or already claimed', async () => {
+      prisma.teamMember.findFirst.mockResolvedValueOnce(null);
+      await expect(
+        service.invite('team1', { email: 'jane@example.com' }, leader),
+      ).rejects.toThrow(BadRequestException);
+
+      prisma.teamMember.findFirst.mockResolvedValueOnce({ id: 'member1', userId: 'u2' } as any);
+      await expect(
+        service.invite('team1', { email: 'jane@example.com' }, leader),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.teamInvitation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptAsUser', () => {
+    it('should link the member and promote a common account to team member', async () => {
+      prisma.teamInvitation.findUnique.mockResolvedValue(createMockInvitation() as any);
+      prisma.teamInvitation.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.findUnique.mockResolvedValue({ id: 'u1', role: UserRole.COMMON } as any);
+      prisma.teamMember.count.mockResolvedValue(0);
+
+      const result = await service.acceptAsUser('token', 'u1');
+
+      expect(prisma.teamMember.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { userId: 'u1' },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { role: UserRole.TEAM_MEMBER },
+      });
+      expect(result).toEqual(expect.objectContaining({ teamId: 'team1', teamMemberId: 'member1' }));
+    });
+
+    it('should reject expired or already used invitations', async () => {
+      prisma.teamInvitation.findUnique.mockResolvedValueOnce(
+        createMockInvitation({ expiresAt: new Date(Date.now() - 1000) }) as any,
+      );
+      await expect(service.acceptAsUser('token', 'u1')).rejects.toThrow(BadRequestException);
+
+      prisma.teamInvitation.findUnique.mockResolvedValueOnce(createMockInvitation() as any);
+      prisma.teamInvitation.updateMany.mockResolvedValueOnce({ count: 0 });
+      await expect(service.acceptAsUser('token', 'u1')).rejects.toThrow(BadRequestException);
+      expect(prisma.teamMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let a second account claim a linked member', async () => {
+      const invitation = createMockInvitation();
+      invitation.teamMember.userId = 'u2' as any;
+      prisma.teamInvitation.findUnique.mockResolvedValue(invitation as any);
+      prisma.teamInvitation.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.findUnique.mockResolvedValue({ id: 'u1', role: UserRole.COMMON } as any);
+
+      await expect(service.acceptAsUser('token', 'u1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('acceptWithNewAccount', () => {
+    const dto = { token: 'token', username: 'jane', password: 'Secret123', name: 'Jane' };
+
+    it('should create a verified team member account with the invited email', async () => {
+      prisma.teamInvitation.findUnique.mockResolvedValue(createMockInvitation() as any);
+      prisma.teamInvitation.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.count.mockResolvedValue(0);
+      prisma.user.create.mockResolvedValue({ id: 'u1', role: UserRole.TEAM_MEMBER } as any);
+      prisma.teamMember.count.mockResolvedValue(0);
+
+      await service.acceptWithNewAccount(dto);
+
+      const { data } = prisma.user.create.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          username: 'jane',
+          email: 'jane@example.com',
+          emailVerified: true,
+          role: UserRole.TEAM_MEMBER,
+        }),
+      );
+      expect(data.password).not.toBe('Secret123');
+      expect(prisma.teamMember.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { userId: 'u1' },
+      });
+    });
+
+    it('should ask existing account holders to log in instead', async () => {
+      prisma.teamInvitation.findUnique.mockResolvedValue(createMockInvitation() as any);
+      prisma.teamInvitation.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.count.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+      await expect(service.acceptWithNewAccount(dto)).rejects.toThrow(ConflictException);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+});
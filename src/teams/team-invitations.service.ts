@@ -0,0 +1,253 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { EmailsService } from '../emails/emails.service';
+import { Prisma, UserRole } from '../../generated/prisma';
+import {
+  CreateTeamInvitationDto,
+  RegisterFromTeamInvitationDto,
+} from './dto/team-invitation.dto';
+
+type InvitationWithTeam = Prisma.TeamInvitationGetPayload<{
+  include: {
+    teamMember: {
+      include: { team: { include: { tournament: { select: { id: true; name: true } } } } };
+    };
+  };
+}>;
+
+@Injectable()
+export class TeamInvitationsService {
+  private readonly logger = new Logger(TeamInvitationsService.name);
+  private readonly invitationTtlDays = 7;
+  private readonly bcryptRounds = 12;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailsService,
+  ) {}
+
+  /**
+   * Email a team member a single-use link to claim their member record.
+   * A new invitation replaces any earlier pending one for the same member.
+   */
+  async invite(
+    teamId: string,
+    dto: CreateTeamInvitationDto,
+    actor: { id: string; role: UserRole },
+  ) {
+    const team = await this.prisma.team.findUnique({
+      where: { id: teamId },
+      select: { id: true, name: true, userId: true, tournament: { select: { name: true } } },
+    });
+    if (!team) {
+      throw new NotFoundException(`Team with ID ${teamId} not found`);
+    }
+    if (team.userId !== actor.id && actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the team leader can invite members');
+    }
+
+    const member = await this.prisma.teamMember.findFirst({
+      where: dto.teamMemberId
+        ? { id: dto.teamMemberId, teamId }
+        : { teamId, email: { equals: dto.email, mode: 'insensitive' } },
+      select: { id: true, userId: true },
+    });
+    if (!member) {
+      throw new BadRequestException('Add this person to the team before inviting them');
+    }
+    if (member.userId) {
+      throw new BadRequestException('This team member is already linked to an account');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.teamInvitation.updateMany({
+        where: { teamMemberId: member.id, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.prisma.teamInvitation.create({
+        data: {
+          teamMemberId: member.id,
+          email: dto.email,
+          tokenHash: this.hashToken(token),
+          invitedById: actor.id,
+          expiresAt: new Date(now.getTime() + this.invitationTtlDays * 24 * 60 * 60 * 1000),
+        },
+        select: { id: true, teamMemberId: true, email: true, expiresAt: true, createdAt: true },
+      }),
+    ]);
+
+    await this.emailService.sendTeamAssignmentInvitationEmail(
+      dto.email,
+      team.name,
+      team.tournament.name,
+      {
+        acceptUrl: `${process.env.FRONTEND_URL}/team-invitations/accept?token=${token}`,
+        expiresInDays: this.invitationTtlDays,
+      },
+    );
+    this.logger.log(`Invitation ${invitation.id} sent for member ${member.id} of team ${team.id}`);
+
+    return invitation;
+  }
+
+  /**
+   * Public details of a pending invitation, for the accept page
+   */
+  async lookup(token: string) {
+    const invitation = await this.findPendingInvitation(this.prisma, token);
+    const { team } = invitation.teamMember;
+
+    return {
+      email: invitation.email,
+      expiresAt: invitation.expiresAt,
+      memberName: invitation.teamMember.name,
+      team: { id: team.id, teamNumber: team.teamNumber, name: team.name },
+      tournament: team.tournament,
+    };
+  }
+
+  /**
+   * Claim the invited member record with the signed-in account
+   */
+  async acceptAsUser(token: string, userId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const invitation = await this.consumeInvitation(tx, token);
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { id: true, role: true },
+      });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      return this.linkMember(tx, invitation, user);
+    });
+  }
+
+  /**
+   * Create a TEAM_MEMBER account for the invited email and claim the member
+   * record with it. Following the link proves the email, so it is verified.
+   */
+  async acceptWithNewAccount(dto: RegisterFromTeamInvitationDto) {
+    const password = await bcrypt.hash(dto.password, this.bcryptRounds);
+
+    return this.prisma.$transaction(async (tx) => {
+      const invitation = await this.consumeInvitation(tx, dto.token);
+
+      // Deleted accounts keep their username and email until purged
+      if (await tx.user.count({ where: { username: dto.username, deletedAt: undefined } })) {
+        throw new ConflictException('Username already exists');
+      }
+      if (await tx.user.count({ where: { email: invitation.email, deletedAt: undefined } })) {
+        throw new ConflictException(
+          'An account with this email already exists. Log in to accept the invitation.',
+        );
+      }
+
+      const user = await tx.user.create({
+        data: {
+          username: dto.username,
+          name: dto.name,
+          password,
+          email: invitation.email,
+          emailVerified: true,
+          role: UserRole.TEAM_MEMBER,
+        },
+        select: { id: true, role: true },
+      });
+      return this.linkMember(tx, invitation, user);
+    });
+  }
+
+  private async findPendingInvitation(
+    client: Prisma.TransactionClient,
+    token: string,
+  ): Promise<InvitationWithTeam> {
+    const invitation = await client.teamInvitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: {
+        teamMember: {
+          include: { team: { include: { tournament: { select: { id: true, name: true } } } } },
+        },
+      },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt <= new Date() ||
+      invitation.teamMember.team.deletedAt
+    ) {
+      throw new BadRequestException('Invitation link is invalid or has expired.');
+    }
+    return invitation;
+  }
+
+  private async consumeInvitation(tx: Prisma.TransactionClient, token: string) {
+    const invitation = await this.findPendingInvitation(tx, token);
+
+    // Conditional update keeps the link single-use under concurrent requests
+    const consumed = await tx.teamInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (consumed.count === 0) {
+      throw new BadRequestException('Invitation link is invalid or has expired.');
+    }
+    return invitation;
+  }
+
+  private async linkMember(
+    tx: Prisma.TransactionClient,
+    invitation: InvitationWithTeam,
+    user: { id: string; role: UserRole },
+  ) {
+    const { teamMember } = invitation;
+
+    if (teamMember.userId && teamMember.userId !== user.id) {
+      throw new ConflictException('This team member has already been claimed by another account');
+    }
+    const otherClaims = await tx.teamMember.count({
+      where: { teamId: teamMember.teamId, userId: user.id, id: { not: teamMember.id } },
+    });
+    if (otherClaims > 0) {
+      throw new ConflictException('Your account is already linked to another member of this team');
+    }
+
+    await tx.teamMember.update({
+      where: { id: teamMember.id },
+      data: { userId: user.id },
+    });
+
+    // Plain accounts become team members; other roles keep their access
+    if (user.role === UserRole.COMMON) {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { role: UserRole.TEAM_MEMBER },
+      });
+    }
+
+    return {
+      message: 'Invitation accepted',
+      userId: user.id,
+      teamMemberId: teamMember.id,
+      teamId: teamMember.teamId,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
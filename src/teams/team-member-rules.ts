@@ -0,0 +1,79 @@
+export interface MemberLimits {
+  minTeamMembers: number | null;
+  maxTeamMembers: number | null;
+}
+
+export interface MemberContact {
+  id?: string;
+  name?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  teamId?: string;
+}
+
+export type MemberContactField = 'email' | 'phoneNumber';
+
+export interface DuplicateMemberGroup<T extends MemberContact = MemberContact> {
+  field: MemberContactField;
+  /** Normalised value shared by every member in the group */
+  value: string;
+  members: T[];
+}
+
+export function normalizeEmail(email?: string | null): string | null {
+  const value = email?.trim().toLowerCase();
+  return value || null;
+}
+
+/** Compare phone numbers by digits only, keeping a leading + */
+export function normalizePhone(phoneNumber?: string | null): string | null {
+  const trimmed = phoneNumber?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const digits = trimmed.replace(/\D/g, '');
+  return digits ? `${trimmed.startsWith('+') ? '+' : ''}${digits}` : null;
+}
+
+/**
+ * Describe why a member count breaks the tournament's limits, or return null
+ */
+export function checkMemberCount(count: number, limits: MemberLimits): string | null {
+  if (limits.minTeamMembers != null && count < limits.minTeamMembers) {
+    return `Team must have at least ${limits.minTeamMembers} members (has ${count})`;
+  }
+  if (limits.maxTeamMembers != null && count > limits.maxTeamMembers) {
+    return `Team can have at most ${limits.maxTeamMembers} members (has ${count})`;
+  }
+  return null;
+}
+
+/**
+ * Group members that share an email or phone number. Each returned group has
+ * at least two members.
+ */
+export function findDuplicateMembers<T extends MemberContact>(
+  members: T[],
+): DuplicateMemberGroup<T>[] {
+  const groups: DuplicateMemberGroup<T>[] = [];
+
+  for (const field of ['email', 'phoneNumber'] as const) {
+    const normalize = field === 'email' ? normalizeEmail : normalizePhone;
+    const byValue = new Map<string, T[]>();
+
+    for (const member of members) {
+      const value = normalize(member[field]);
+      if (value) {
+        byValue.set(value, [...(byValue.get(value) ?? []), member]);
+      }
+    }
+
+    for (const [value, group] of byValue) {
+      if (group.length > 1) {
+        groups.push({ field, value, members: group });
+      }
+    }
+  }
+
+  return groups;
+}
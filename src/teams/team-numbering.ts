@@ -0,0 +1,20 @@
+export interface TeamNumberFormat {
+  name: string;
+  teamNumberPrefix: string | null;
+  teamNumberPadding: number;
+}
+
+/** The configured prefix, or the initials of the tournament name */
+export function resolveTeamNumberPrefix(tournament: TeamNumberFormat): string {
+  if (tournament.teamNumberPrefix != null) {
+    return tournament.teamNumberPrefix;
+  }
+  return tournament.name
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase())
+    .join('');
+}
+
+export function formatTeamNumber(tournament: TeamNumberFormat, value: number): string {
+  return `${resolveTeamNumberPrefix(tournament)}${String(value).padStart(tournament.teamNumberPadding, '0')}`;
+}
@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Param,
+  Patch,
+  Post,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { TeamProfilesService, TEAM_LOGO_MAX_BYTES } from './team-profiles.service';
+import { UpdateTeamProfileDto } from './dto/team-profile.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { Audited } from '../audit/audited.decorator';
+
+@Controller('teams')
+@Audited('team')
+@UseGuards(JwtAuthGuard)
+export class TeamProfilesController {
+  constructor(private readonly teamProfilesService: TeamProfilesService) {}
+
+  /**
+   * Update the public team profile - team owner or admin
+   */
+  @Patch(':id/profile')
+  updateProfile(
+    @Param('id') id: string,
+    @CurrentUser() user,
+    @Body() dto: UpdateTeamProfileDto,
+  ) {
+    return this.teamProfilesService.updateProfile(id, dto, user);
+  }
+
+  /**
+   * Upload a PNG, JPEG or WebP logo in the "file" field - team owner or admin
+   */
+  @Post(':id/logo')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: TEAM_LOGO_MAX_BYTES } }))
+  uploadLogo(
+    @Param('id') id: string,
+    @CurrentUser() user,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.teamProfilesService.uploadLogo(id, file, user);
+  }
+
+  @Delete(':id/logo')
+  removeLogo(@Param('id') id: string, @CurrentUser() user) {
+    return this.teamProfilesService.removeLogo(id, user);
+  }
+}
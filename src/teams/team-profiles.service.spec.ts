@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { TeamProfilesService } from './team-profiles.service';
+import { PrismaService } from '../prisma.service';
+import { FILE_STORAGE, FileStorage } from '../common/storage/file-storage';
+import { UserRole } from '../../generated/prisma';
+
+describe('TeamProfilesService', () => {
+  let service: TeamProfilesService;
+  let prisma: DeepMockProxy<PrismaService>;
+  let storage: DeepMockProxy<FileStorage>;
+
+  const owner = { id: 'user1', role: UserRole.TEAM_LEADER };
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+  const createMockProfile = (overrides: any = {}) => ({
+    id: 'team1',
+    teamNumber: 'RC00001',
+    name: 'Team 1',
+    robotName: null,
+    description: null,
+    logoKey: null,
+    primaryColor: null,
+    secondaryColor: null,
+    links: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    prisma = mockDeep<PrismaService>();
+    storage = mockDeep<FileStorage>();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TeamProfilesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: FILE_STORAGE, useValue: storage },
+      ],
+    }).compile();
+    service = module.get<TeamProfilesService>(TeamProfilesService);
+    prisma.team.findUnique.mockResolvedValue({ id: 'team1', userId: 'user1', logoKey: null } as any);
+  });
+
+  describe('updateProfile', () => {
+    it('should only let the team owner or an admin edit the profile', async () => {
+      await expect(
+        service.updateProfile('team1', { robotName: 'Bolt' }, { id: 'other', role: UserRole.TEAM_LEADER }),
+      ).rejects.toThrow(ForbiddenException);
+
+      prisma.team.update.mockResolvedValue(createMockProfile({ robotName: 'Bolt' }) as any);
+      const profile = await service.updateProfile('team1', { robotName: 'Bolt', links: null }, owner);
+
+      expect(prisma.team.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ robotName: 'Bolt' }) }),
+      );
+      expect(profile).toEqual(expect.objectContaining({ robotName: 'Bolt', logoUrl: null }));
+      expect(profile).not.toHaveProperty('logoKey');
+    });
+  });
+
+  describe('uploadLogo', () => {
+    it('should store a PNG under a new key and delete the previous logo', async () => {
+      prisma.team.findUnique.mockResolvedValue({
+        id: 'team1',
+        userId: 'user1',
+        logoKey: 'team-logos/team1-0000000000000000.jpg',
+      } as any);
+      prisma.team.update.mockImplementation(((args: any) =>
+        Promise.resolve(createMockProfile({ logoKey: args.data.logoKey }))) as any);
+
+      const profile = await service.uploadLogo(
+        'team1',
+        { buffer: png, size: png.length, mimetype: 'image/png' } as any,
+        owner,
+      );
+
+      const [key] = storage.save.mock.calls[0];
+      expect(key).toMatch(/^team-logos\/team1-[0-9a-f]{16}\.png$/);
+      expect(profile.logoUrl).toBe(`/api/public/teams/logos/${key.split('/')[1]}`);
+      expect(storage.delete).toHaveBeenCalledWith('team-logos/team1-0000000000000000.jpg');
+    });
+
+    it('should reject files that are not PNG, JPEG or WebP whatever their mimetype', async () => {
+      const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+
+      await expect(
+        service.uploadLogo('team1', { buffer: svg, size: svg.length, mimetype: 'image/png' } as any, owner),
+      ).rejects.toThrow(BadRequestException);
+      expect(storage.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readLogo', () => {
+    it('should not read file names outside the logo folder', async () => {
+      await expect(service.readLogo('../../.env')).rejects.toThrow(NotFoundException);
+      expect(storage.read).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPublicProfile', () => {
+    it('should return the profile, ranking and match history from the team point of view', async () => {
+      prisma.team.findFirst.mockResolvedValue({
+        ...createMockProfile(),
+        tournament: { id: 't1', name: 'Robot Cup', startDate: new Date(), endDate: new Date() },
+      } as any);
+      prisma.teamStats.findUnique.mockResolvedValue({ rank: 3, wins: 1, losses: 0, ties: 0 } as any);
+      const alliance = (id: string, color: string, score: number, teams: string[]) => ({
+        id,
+        color,
+        score,
+        teamAlliances: teams.map((teamId) => ({
+          teamId,
+          team: { id: teamId, teamNumber: teamId.toUpperCase(), name: teamId },
+        })),
+      });
+      prisma.match.findMany.mockResolvedValue([
+        {
+          id: 'm1',
+          matchNumber: 1,
+          status: 'COMPLETED',
+          winningAlliance: 'BLUE',
+          stage: { id: 's1', name: 'Qualification' },
+          alliances: [
+            alliance('a1', 'RED', 40, ['team2', 'team3']),
+            alliance('a2', 'BLUE', 55, ['team1', 'team4']),
+          ],
+        },
+        {
+          id: 'm2',
+          matchNumber: 2,
+          status: 'PENDING',
+          winningAlliance: null,
+          stage: { id: 's1', name: 'Qualification' },
+          alliances: [alliance('a3', 'RED', 0, ['team1']), alliance('a4', 'BLUE', 0, ['team5'])],
+        },
+      ] as any);
+
+      const result = await service.getPublicProfile('RC00001');
+
+      expect(prisma.team.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ teamNumber: 'RC00001', registrationStatus: 'APPROVED' }),
+        }),
+      );
+      expect(result.ranking).toEqual(expect.objectContaining({ rank: 3, wins: 1 }));
+      expect(result.matches[0]).toEqual(
+        expect.objectContaining({
+          alliance: 'BLUE',
+          score: 55,
+          opponentScore: 40,
+          result: 'WIN',
+          partners: [{ teamNumber: 'TEAM4', name: 'team4' }],
+          opponents: [
+            { teamNumber: 'TEAM2', name: 'team2' },
+            { teamNumber: 'TEAM3', name: 'team3' },
+          ],
+        }),
+      );
+      expect(result.matches[1]).toEqual(
+        expect.objectContaining({ score: null, opponentScore: null, result: null }),
+      );
+    });
+
+    it('should return 404 for unknown or unapproved teams', async () => {
+      prisma.team.findFirst.mockResolvedValue(null);
+
+      await expect(service.getPublicProfile('X1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import { PrismaService } from '../prisma.service';
+import { FILE_STORAGE, FileStorage } from '../common/storage/file-storage';
+import {
+  AllianceColor,
+  MatchState,
+  Prisma,
+  TeamRegistrationStatus,
+  UserRole,
+} from '../../generated/prisma';
+import { UpdateTeamProfileDto } from './dto/team-profile.dto';
+
+export const TEAM_LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+const LOGO_FOLDER = 'team-logos';
+const LOGO_CONTENT_TYPES = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+} as const;
+type LogoExtension = keyof typeof LOGO_CONTENT_TYPES;
+
+const PROFILE_SELECT = {
+  id: true,
+  teamNumber: true,
+  name: true,
+  robotName: true,
+  description: true,
+  logoKey: true,
+  primaryColor: true,
+  secondaryColor: true,
+  links: true,
+} satisfies Prisma.TeamSelect;
+
+type TeamProfileRecord = Prisma.TeamGetPayload<{ select: typeof PROFILE_SELECT }>;
+
+/**
+ * Detect the image type from the file's magic bytes, since the uploaded
+ * mimetype and file name are chosen by the client
+ */
+function detectLogoType(content: Buffer): LogoExtension | null {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  if (content.subarray(0, 8).equals(png)) {
+    return 'png';
+  }
+  if (content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) {
+    return 'jpg';
+  }
+  if (content.toString('ascii', 0, 4) === 'RIFF' && content.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+@Injectable()
+export class TeamProfilesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(FILE_STORAGE) private readonly storage: FileStorage,
+  ) {}
+
+  /**
+   * Update the robot name, description, colours and links - team owner or admin
+   */
+  async updateProfile(
+    teamId: string,
+    dto: UpdateTeamProfileDto,
+    actor: { id: string; role: UserRole },
+  ) {
+    await this.findEditableTeam(teamId, actor);
+
+    const team = await this.prisma.team.update({
+      where: { id: teamId },
+      data: {
+        robotName: dto.robotName,
+        description: dto.description,
+        primaryColor: dto.primaryColor,
+        secondaryColor: dto.secondaryColor,
+        links: dto.links === null ? Prisma.DbNull : dto.links,
+      },
+      select: PROFILE_SELECT,
+    });
+    return this.toProfile(team);
+  }
+
+  /**
+   * Replace the team logo with a PNG, JPEG or WebP image of at most 2 MB
+   */
+  async uploadLogo(
+    teamId: string,
+    file: Express.Multer.File | undefined,
+    actor: { id: string; role: UserRole },
+  ) {
+    if (!file) {
+      throw new BadRequestException('A logo image is required in the "file" field');
+    }
+    if (file.size > TEAM_LOGO_MAX_BYTES) {
+      throw new BadRequestException('Logo must be at most 2 MB');
+    }
+    const extension = detectLogoType(file.buffer);
+    if (!extension) {
+      throw new BadRequestException('Logo must be a PNG, JPEG or WebP image');
+    }
+
+    const existing = await this.findEditableTeam(teamId, actor);
+
+    // A new key per upload, so cached copies of the old logo are not served
+    const logoKey = `${LOGO_FOLDER}/${teamId}-${randomBytes(8).toString('hex')}.${extension}`;
+    await this.storage.save(logoKey, file.buffer);
+
+    const team = await this.prisma.team.update({
+      where: { id: teamId },
+      data: { logoKey },
+      select: PROFILE_SELECT,
+    });
+    if (existing.logoKey) {
+      await this.storage.delete(existing.logoKey);
+    }
+    return this.toProfile(team);
+  }
+
+  async removeLogo(teamId: string, actor: { id: string; role: UserRole }) {
+    const existing = await this.findEditableTeam(teamId, actor);
+
+    const team = await this.prisma.team.update({
+      where: { id: teamId },
+      data: { logoKey: null },
+      select: PROFILE_SELECT,
+    });
+    if (existing.logoKey) {
+      await this.storage.delete(existing.logoKey);
+    }
+    return this.toProfile(team);
+  }
+
+  /**
+   * Read a stored logo by the file name in its public URL
+   */
+  async readLogo(fileName: string) {
+    const match = /^[0-9a-f-]+-[0-9a-f]{16}\.(png|jpg|webp)$/.exec(fileName);
+    const content = match ? await this.storage.read(`${LOGO_FOLDER}/${fileName}`) : null;
+    if (!match || !content) {
+      throw new NotFoundException('Logo not found');
+    }
+    return { content, contentType: LOGO_CONTENT_TYPES[match[1] as LogoExtension] };
+  }
+
+  /**
+   * Public team page: profile, match history and current ranking. Team
+   * numbers are unique per tournament, so without `tournamentId` the team in
+   * the most recent tournament is returned. Only approved teams are listed.
+   */
+  async getPublicProfile(teamNumber: string, tournamentId?: string) {
+    const team = await this.prisma.team.findFirst({
+      where: {
+        teamNumber,
+        registrationStatus: TeamRegistrationStatus.APPROVED,
+        tournament: { deletedAt: null },
+        ...(tournamentId ? { tournamentId } : {}),
+      },
+      orderBy: { tournament: { startDate: 'desc' } },
+      select: {
+        ...PROFILE_SELECT,
+        tournament: { select: { id: true, name: true, startDate: true, endDate: true } },
+      },
+    });
+    if (!team) {
+      throw new NotFoundException(`Team ${teamNumber} not found`);
+    }
+
+    const [stats, matches] = await Promise.all([
+      this.prisma.teamStats.findUnique({
+        where: { teamId_tournamentId: { teamId: team.id, tournamentId: team.tournament.id } },
+      }),
+      this.prisma.match.findMany({
+        where: { alliances: { some: { teamAlliances: { some: { teamId: team.id } } } } },
+        include: {
+          stage: { select: { id: true, name: true } },
+          alliances: {
+            include: {
+              teamAlliances: {
+                orderBy: { stationPosition: 'asc' },
+                include: { team: { select: { id: true, teamNumber: true, name: true } } },
+              },
+            },
+          },
+        },
+        orderBy: [{ scheduledTime: 'asc' }, { matchNumber: 'asc' }],
+      }),
+    ]);
+
+    const { tournament, ...profile } = team;
+    return {
+      team: this.toProfile(profile),
+      tournament,
+      ranking: stats
+        ? {
+            rank: stats.rank,
+            wins: stats.wins,
+            losses: stats.losses,
+            ties: stats.ties,
+            matchesPlayed: stats.matchesPlayed,
+            rankingPoints: stats.rankingPoints,
+            pointsScored: stats.pointsScored,
+            pointsConceded: stats.pointsConceded,
+            pointDifferential: stats.pointDifferential,
+            opponentWinPercentage: stats.opponentWinPercentage,
+          }
+        : null,
+      matches: matches.map((match) => {
+        const own = match.alliances.find((alliance) =>
+          alliance.teamAlliances.some((entry) => entry.teamId === team.id),
+        )!;
+        const opponents = match.alliances.filter((alliance) => alliance.id !== own.id);
+        const toTeams = (alliance: (typeof match.alliances)[number]) =>
+          alliance.teamAlliances
+            .filter((entry) => entry.team.id !== team.id)
+            .map((entry) => ({ teamNumber: entry.team.teamNumber, name: entry.team.name }));
+
+        return {
+          id: match.id,
+          matchNumber: match.matchNumber,
+          roundType: match.roundType,
+          status: match.status,
+          scheduledTime: match.scheduledTime,
+          stage: match.stage,
+          alliance: own.color,
+          score: match.status === MatchState.COMPLETED ? own.score : null,
+          opponentScore:
+            match.status === MatchState.COMPLETED ? (opponents[0]?.score ?? null) : null,
+          result: this.matchResult(match.status, match.winningAlliance, own.color),
+          partners: toTeams(own),
+          opponents: opponents.flatMap(toTeams),
+        };
+      }),
+    };
+  }
+
+  private matchResult(
+    status: MatchState,
+    winningAlliance: AllianceColor | null,
+    color: AllianceColor,
+  ): 'WIN' | 'LOSS' | 'TIE' | null {
+    if (status !== MatchState.COMPLETED) {
+      return null;
+    }
+    if (!winningAlliance) {
+      return 'TIE';
+    }
+    return winningAlliance === color ? 'WIN' : 'LOSS';
+  }
+
+  private async findEditableTeam(teamId: string, actor: { id: string; role: UserRole }) {
+    const team = await this.prisma.team.findUnique({
+      where: { id: teamId },
+      select: { id: true, userId: true, logoKey: true },
+    });
+    if (!team) {
+      throw new NotFoundException(`Team with ID ${teamId} not found`);
+    }
+    if (team.userId !== actor.id && actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the team owner or an admin can edit the team profile');
+    }
+    return team;
+  }
+
+  private toProfile({ logoKey, ...team }: TeamProfileRecord) {
+    return {
+      ...team,
+      logoUrl: logoKey ? `/api/public/teams/logos/${path.basename(logoKey)}` : null,
+    };
+  }
+}
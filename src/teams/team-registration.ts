@@ -0,0 +1,25 @@
+import { Prisma, TeamRegistrationStatus } from '../../generated/prisma';
+
+/**
+ * Registration changes an admin or the team may make. Waitlisted teams also
+ * move to PENDING on their own when a slot opens.
+ */
+export const REGISTRATION_TRANSITIONS: Record<TeamRegistrationStatus, TeamRegistrationStatus[]> = {
+  PENDING: ['APPROVED', 'REJECTED', 'WITHDRAWN'],
+  WAITLISTED: ['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN'],
+  APPROVED: ['REJECTED', 'WITHDRAWN'],
+  REJECTED: ['APPROVED'],
+  WITHDRAWN: [],
+};
+
+/** Registrations that take up one of the tournament's `maxTeams` slots */
+export const SLOT_HOLDING_STATUSES: TeamRegistrationStatus[] = ['PENDING', 'APPROVED'];
+
+/** Registrations still in the running, whose members cannot join another team */
+export const ACTIVE_REGISTRATION_STATUSES: TeamRegistrationStatus[] = ['PENDING', 'APPROVED', 'WAITLISTED'];
+
+/** Teams that are scheduled, ranked and advanced between stages */
+export const COMPETING_TEAMS_WHERE = {
+  registrationStatus: TeamRegistrationStatus.APPROVED,
+  deletedAt: null,
+} satisfies Prisma.TeamWhereInput;
@@ -8,19 +8,24 @@ import {
   Delete,
   UseGuards,
   Query,
+  ParseEnumPipe,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { TeamsService } from './teams.service';
 import { CreateTeamDto } from './dto/create-team.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
 import { ImportTeamsDto } from './dto/import-teams.dto';
 import { CreateBulkTeamsDto } from './dto/create-bulk-teams.dto';
+import { RejectTeamDto, WithdrawTeamDto } from './dto/team-registration.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../utils/prisma-types';
+import { TeamRegistrationStatus, UserRole } from '../utils/prisma-types';
 import { CurrentUser } from '../auth/current-user.decorator';
+import { Audited } from '../audit/audited.decorator';
 
 @Controller('teams')
+@Audited('team')
 export class TeamsController {
   constructor(private readonly teamsService: TeamsService) {}
 
@@ -28,7 +33,9 @@ export class TeamsController {
   @UseGuards(JwtAuthGuard)
   create(@CurrentUser() user, @Body() createTeamDto: CreateTeamDto) {
     createTeamDto.userId = user.id;
-    return this.teamsService.createTeam(createTeamDto);
+    return this.teamsService.createTeam(createTeamDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 
   @Post('bulk-create')
@@ -41,13 +48,17 @@ export class TeamsController {
   @Post('import')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  importTeams(@Body() importTeamsDto: ImportTeamsDto) {
-    return this.teamsService.importTeams(importTeamsDto);
+  importTeams(@CurrentUser() user, @Body() importTeamsDto: ImportTeamsDto) {
+    return this.teamsService.importTeams(importTeamsDto, user.id);
   }
 
   @Get()
-  findAll(@Query('tournamentId') tournamentId?: string) {
-    return this.teamsService.findAll(tournamentId);
+  findAll(
+    @Query('tournamentId') tournamentId?: string,
+    @Query('status', new ParseEnumPipe(TeamRegistrationStatus, { optional: true }))
+    status?: TeamRegistrationStatus,
+  ) {
+    return this.teamsService.findAll(tournamentId, status);
   }
 
   @Get('user/my-teams')
@@ -56,20 +67,82 @@ export class TeamsController {
     return this.teamsService.findTeamsByUserId(user.id);
   }
 
+  @Get('member-violations')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  getMemberViolations(@Query('tournamentId', ParseUUIDPipe) tournamentId: string) {
+    return this.teamsService.getMemberViolations(tournamentId);
+  }
+
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.teamsService.findOne(id);
   }
 
   @Patch()
+  @Audited('team', { idBody: 'id' })
   update(@CurrentUser() user, @Body() updateTeamDto: UpdateTeamDto) {
-    return this.teamsService.update(updateTeamDto);
+    return this.teamsService.update(updateTeamDto, {
+      adminOverride: user?.role === UserRole.ADMIN,
+    });
+  }
+
+  @Post(':id/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  approve(@CurrentUser() user, @Param('id') id: string) {
+    return this.teamsService.approve(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+  }
+
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  reject(
+    @CurrentUser() user,
+    @Param('id') id: string,
+    @Body() rejectTeamDto: RejectTeamDto,
+  ) {
+    return this.teamsService.reject(id, rejectTeamDto.reason, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+  }
+
+  @Post(':id/withdraw')
+  @UseGuards(JwtAuthGuard)
+  withdraw(
+    @CurrentUser() user,
+    @Param('id') id: string,
+    @Body() withdrawTeamDto: WithdrawTeamDto,
+  ) {
+    return this.teamsService.withdraw(id, user, withdrawTeamDto.reason);
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
-  remove(@Param('id') id: string) {
-    return this.teamsService.remove(id);
+  remove(@CurrentUser() user, @Param('id') id: string) {
+    return this.teamsService.remove(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+  }
+
+  @Post(':id/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  restore(@CurrentUser() user, @Param('id') id: string) {
+    return this.teamsService.restore(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+  }
+
+  @Delete(':id/purge')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  purge(@CurrentUser() user, @Param('id') id: string) {
+    return this.teamsService.purge(id, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 }
@@ -1,14 +1,32 @@
 import { Module } from '@nestjs/common';
 import { TeamsService } from './teams.service';
 import { TeamsController } from './teams.controller';
+import { TeamInvitationsService } from './team-invitations.service';
+import { TeamInvitationsController } from './team-invitations.controller';
+import { TeamProfilesService } from './team-profiles.service';
+import { TeamProfilesController } from './team-profiles.controller';
+import { PublicTeamsController } from './public-teams.controller';
+import { localDiskStorageProvider } from '../common/storage/local-disk-storage';
 import { PrismaService } from '../prisma.service';
 import { EmailsModule } from '../emails/emails.module';
 import { DateValidationService } from '../common/services/date-validation.service';
 
 @Module({
   imports: [EmailsModule],
-  controllers: [TeamsController],
-  providers: [TeamsService, PrismaService, DateValidationService],
+  controllers: [
+    TeamsController,
+    TeamInvitationsController,
+    TeamProfilesController,
+    PublicTeamsController,
+  ],
+  providers: [
+    TeamsService,
+    TeamInvitationsService,
+    TeamProfilesService,
+    PrismaService,
+    DateValidationService,
+    localDiskStorageProvider,
+  ],
   exports: [TeamsService],
 })
 export class TeamsModule {}
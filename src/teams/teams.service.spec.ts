@@ -1,7 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TeamsService } from './teams.service';
 import { PrismaService } from '../prisma.service';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
 import { EmailsService } from '../emails/emails.service';
 import { DateValidationService } from '../common/services/date-validation.service';
@@ -10,6 +10,7 @@ describe('TeamsService', () => {
   let service: TeamsService;
   let prisma: DeepMockProxy<PrismaService>;
   let dateValidationService: DeepMockProxy<DateValidationService>;
+  let emailsService: DeepMockProxy<EmailsService>;
 
   const createMockTeam = (overrides: any = {}) => {
     const now = new Date();
@@ -30,7 +31,7 @@ describe('TeamsService', () => {
 
   beforeEach(async () => {
     prisma = mockDeep<PrismaService>();
-    const emailsService = mockDeep<EmailsService>();
+    emailsService = mockDeep<EmailsService>();
     dateValidationService = mockDeep<DateValidationService>();
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -42,6 +43,16 @@ describe('TeamsService', () => {
     }).compile();
     service = module.get<TeamsService>(TeamsService);
     jest.clearAllMocks();
+    prisma.tournament.update.mockResolvedValue({
+      name: 'Tournament 1',
+      teamNumberPrefix: null,
+      teamNumberPadding: 5,
+      nextTeamNumber: 2,
+    } as any);
+    prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'LIVE' } as any);
+    (prisma.$transaction as any).mockImplementation(async (fn: any) => fn(prisma));
+    // The tournament row lock in capacity checks
+    prisma.$queryRaw.mockResolvedValue([{ maxTeams: null }] as any);
   });
 
   describe('create', () => {
@@ -49,6 +60,7 @@ describe('TeamsService', () => {
       const team = createMockTeam();
       prisma.tournament.findUnique.mockResolvedValue({
         id: 't1',
+        status: 'REGISTRATION',
         name: 'Tournament 1'
       } as any);
       prisma.team.findFirst.mockResolvedValue(null);
@@ -93,6 +105,7 @@ describe('TeamsService', () => {
     it('should throw BadRequestException on prisma error', async () => {
       prisma.tournament.findUnique.mockResolvedValue({
         id: 't1',
+        status: 'REGISTRATION',
         name: 'Tournament 1'
       } as any);
       prisma.team.findFirst.mockResolvedValue(null);
@@ -168,7 +181,7 @@ describe('TeamsService', () => {
       const team = createMockTeam();
       prisma.team.findUnique.mockResolvedValue({
         ...team,
-        tournament: { id: 't1', name: 'Tournament 1' },
+        tournament: { id: 't1', name: 'Tournament 1', status: 'LIVE' },
       } as any);
       prisma.teamMember.findMany.mockResolvedValue([]);
       prisma.team.update.mockResolvedValue(
@@ -186,11 +199,22 @@ describe('TeamsService', () => {
       ).rejects.toThrow('Team not found');
     });
 
+    it('should refuse changes once the tournament is completed', async () => {
+      prisma.team.findUnique.mockResolvedValue({
+        ...createMockTeam(),
+        tournament: { id: 't1', name: 'Tournament 1', status: 'COMPLETED' },
+      } as any);
+      await expect(
+        service.update({ id: 'team1', name: 'Late' } as any),
+      ).rejects.toThrow('Cannot change teams while the tournament is COMPLETED');
+      expect(prisma.team.update).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException on prisma error', async () => {
       const team = createMockTeam();
       prisma.team.findUnique.mockResolvedValue({
         ...team,
-        tournament: { id: 't1', name: 'Tournament 1' },
+        tournament: { id: 't1', name: 'Tournament 1', status: 'LIVE' },
       } as any);
       prisma.teamMember.findMany.mockResolvedValue([]);
       prisma.team.update.mockRejectedValue(
@@ -203,15 +227,17 @@ describe('TeamsService', () => {
   });
 
   describe('remove', () => {
-    it('should delete a team', async () => {
+    it('should soft delete a team and keep its history', async () => {
       const team = createMockTeam();
       prisma.team.findUnique.mockResolvedValue(team as any);
-      prisma.team.delete.mockResolvedValue(team as any);
+      prisma.team.update.mockResolvedValue({ ...team, deletedAt: new Date() } as any);
       const result = await service.remove('team1');
       expect(result).toHaveProperty('id', 'team1');
-      expect(prisma.team.delete).toHaveBeenCalledWith({
+      expect(prisma.team.update).toHaveBeenCalledWith({
         where: { id: 'team1' },
+        data: { deletedAt: expect.any(Date) },
       });
+      expect(prisma.team.delete).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException if team does not exist', async () => {
@@ -221,10 +247,26 @@ describe('TeamsService', () => {
       );
     });
 
-    it('should throw BadRequestException on prisma error', async () => {
+    it('should refuse to remove teams of a completed tournament', async () => {
+      prisma.team.findUnique.mockResolvedValue(createMockTeam() as any);
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'COMPLETED' } as any);
+      await expect(service.remove('team1')).rejects.toThrow(BadRequestException);
+      expect(prisma.team.update).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin override a completed tournament', async () => {
       const team = createMockTeam();
       prisma.team.findUnique.mockResolvedValue(team as any);
-      prisma.team.delete.mockRejectedValue(
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'COMPLETED' } as any);
+      prisma.team.update.mockResolvedValue({ ...team, deletedAt: new Date() } as any);
+      await service.remove('team1', { adminOverride: true });
+      expect(prisma.team.update).toHaveBeenCalled();
+    });
+
+    it('should propagate prisma errors', async () => {
+      const team = createMockTeam();
+      prisma.team.findUnique.mockResolvedValue(team as any);
+      prisma.team.update.mockRejectedValue(
         new Error('Failed to delete team: DB error'),
       );
       await expect(service.remove('team1')).rejects.toThrow(
@@ -233,5 +275,598 @@ describe('TeamsService', () => {
     });
   });
 
-  
+  describe('restore', () => {
+    it('should clear deletedAt on a deleted team', async () => {
+      const team = createMockTeam({ deletedAt: new Date() });
+      prisma.team.findFirst.mockResolvedValue(team as any);
+      prisma.team.update.mockResolvedValue({ ...team, deletedAt: null } as any);
+
+      await service.restore('team1');
+
+      expect(prisma.team.findFirst).toHaveBeenCalledWith({
+        where: { id: 'team1', deletedAt: { not: null } },
+      });
+      expect(prisma.team.update).toHaveBeenCalledWith({
+        where: { id: 'team1' },
+        data: { deletedAt: null },
+      });
+    });
+
+    it('should throw NotFoundException for a team that is not deleted', async () => {
+      prisma.team.findFirst.mockResolvedValue(null);
+      await expect(service.restore('team1')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should put the team on the waitlist when the tournament filled up', async () => {
+      const team = createMockTeam({ deletedAt: new Date(), registrationStatus: 'APPROVED' });
+      prisma.team.findFirst.mockResolvedValue(team as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      prisma.team.count.mockResolvedValue(2);
+      prisma.team.update.mockResolvedValue({ ...team, registrationStatus: 'WAITLISTED' } as any);
+
+      await service.restore('team1');
+
+      expect(prisma.team.update).toHaveBeenCalledWith({
+        where: { id: 'team1' },
+        data: expect.objectContaining({ deletedAt: null, registrationStatus: 'WAITLISTED' }),
+      });
+    });
+
+    it('should refuse the restore when the tournament is full and keeps no waitlist', async () => {
+      prisma.team.findFirst.mockResolvedValue(
+        createMockTeam({ deletedAt: new Date(), registrationStatus: 'PENDING' }) as any,
+      );
+      prisma.tournamentSettings.findUnique.mockResolvedValue({
+        settings: { registration: { waitlist: false } },
+      } as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      prisma.team.count.mockResolvedValue(2);
+
+      await expect(service.restore('team1')).rejects.toThrow(BadRequestException);
+      expect(prisma.team.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registration', () => {
+    // Team number checks count too; only the capacity count filters by status
+    const mockSlotHoldingTeams = (count: number) =>
+      prisma.team.count.mockImplementation(
+        ((args: any) => Promise.resolve(args?.where?.registrationStatus ? count : 0)) as any,
+      );
+
+    it('should waitlist new teams once the tournament is full', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Tournament 1', maxTeams: 2 } as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      dateValidationService.validateTeamRegistrationTiming.mockResolvedValue({ isValid: true, errors: [] });
+      mockSlotHoldingTeams(2);
+      prisma.team.create.mockResolvedValue(createMockTeam({ registrationStatus: 'WAITLISTED' }) as any);
+
+      await service.createTeam({
+        name: 'Team 3',
+        teamMembers: [],
+        tournamentId: 't1',
+        userId: 'user1',
+        referralSource: 'Website',
+      } as any);
+
+      expect(prisma.team.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ registrationStatus: 'WAITLISTED' }),
+        }),
+      );
+      // The count and the insert happen under the tournament row lock
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+    });
+
+    it('should follow the tournament registration settings', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Tournament 1', maxTeams: 2 } as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      dateValidationService.validateTeamRegistrationTiming.mockResolvedValue({ isValid: true, errors: [] });
+      prisma.tournamentSettings.findUnique.mockResolvedValue({
+        settings: { registration: { autoApprove: true, waitlist: false } },
+      } as any);
+      prisma.team.create.mockResolvedValue(createMockTeam() as any);
+      const dto = {
+        name: 'Team 3',
+        teamMembers: [],
+        tournamentId: 't1',
+        userId: 'user1',
+        referralSource: 'Website',
+      } as any;
+
+      mockSlotHoldingTeams(1);
+      await service.createTeam(dto);
+      expect(prisma.team.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ registrationStatus: 'APPROVED' }),
+        }),
+      );
+
+      mockSlotHoldingTeams(2);
+      await expect(service.createTeam(dto)).rejects.toThrow(BadRequestException);
+      expect(prisma.team.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not approve a waitlisted team while the tournament is full', async () => {
+      prisma.team.findUnique.mockResolvedValue(createMockTeam({ registrationStatus: 'WAITLISTED' }) as any);
+      prisma.tournament.findUnique.mockResolvedValue({ status: 'REGISTRATION' } as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      prisma.team.count.mockResolvedValue(2);
+
+      await expect(service.approve('team1')).rejects.toThrow(
+        'Tournament has reached its maximum limit of 2 teams',
+      );
+      expect(prisma.team.update).not.toHaveBeenCalled();
+    });
+
+    it('should promote the oldest waitlisted team when a slot opens', async () => {
+      prisma.team.findUnique.mockResolvedValue(createMockTeam({ registrationStatus: 'APPROVED' }) as any);
+      prisma.team.update.mockResolvedValue(createMockTeam({ registrationStatus: 'REJECTED' }) as any);
+      prisma.tournament.findUnique.mockResolvedValue({ status: 'LIVE' } as any);
+      prisma.$queryRaw.mockResolvedValue([{ maxTeams: 2 }] as any);
+      prisma.team.count.mockResolvedValue(1);
+      prisma.team.findMany.mockResolvedValue([{ id: 'team9' }] as any);
+
+      await service.reject('team1', 'Missing safety forms');
+
+      expect(prisma.team.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'team1' },
+          data: expect.objectContaining({
+            registrationStatus: 'REJECTED',
+            registrationStatusReason: 'Missing safety forms',
+          }),
+        }),
+      );
+      expect(prisma.team.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tournamentId: 't1', registrationStatus: 'WAITLISTED' },
+          take: 1,
+        }),
+      );
+      expect(prisma.team.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ['team9'] } },
+          data: expect.objectContaining({ registrationStatus: 'PENDING' }),
+        }),
+      );
+    });
+
+    it('should email the team owner on each transition', async () => {
+      prisma.team.findUnique
+        .mockResolvedValueOnce(createMockTeam({ registrationStatus: 'PENDING' }) as any)
+        .mockResolvedValueOnce({
+          name: 'Team 1',
+          registrationStatus: 'APPROVED',
+          registrationStatusReason: null,
+          tournament: { name: 'Tournament 1' },
+          user: { email: 'owner@example.com' },
+        } as any);
+      prisma.team.update.mockResolvedValue(createMockTeam({ registrationStatus: 'APPROVED' }) as any);
+
+      await service.approve('team1');
+
+      expect(emailsService.sendTeamRegistrationStatusEmail).toHaveBeenCalledWith(
+        'owner@example.com',
+        'Team 1',
+        'Tournament 1',
+        'APPROVED',
+        null,
+      );
+    });
+
+    it('should reject transitions out of WITHDRAWN', async () => {
+      prisma.team.findUnique.mockResolvedValue(createMockTeam({ registrationStatus: 'WITHDRAWN' }) as any);
+
+      await expect(service.approve('team1')).rejects.toThrow(
+        'Cannot change registration from WITHDRAWN to APPROVED',
+      );
+    });
+
+    it('should only let the owner or an admin withdraw a team', async () => {
+      prisma.team.findUnique.mockResolvedValue(createMockTeam({ registrationStatus: 'PENDING' }) as any);
+
+      await expect(
+        service.withdraw('team1', { id: 'someone-else', role: 'TEAM_LEADER' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('member rules', () => {
+    const member = (overrides: any = {}) => ({
+      name: 'Member',
+      province: 'Hà Nội',
+      ward: 'Phường 1',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      dateValidationService.validateTeamRegistrationTiming.mockResolvedValue({ isValid: true, errors: [] });
+    });
+
+    it('should enforce the tournament member limits on create', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({
+        id: 't1',
+        status: 'REGISTRATION',
+        name: 'Tournament 1',
+        minTeamMembers: 2,
+        maxTeamMembers: 4,
+      } as any);
+
+      await expect(
+        service.createTeam({
+          name: 'Team 1',
+          teamMembers: [member()],
+          tournamentId: 't1',
+          userId: 'user1',
+          referralSource: 'Website',
+        } as any),
+      ).rejects.toThrow('Team must have at least 2 members (has 1)');
+      expect(prisma.team.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject members already on another team in the tournament', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Tournament 1' } as any);
+      prisma.teamMember.findMany.mockResolvedValue([
+        { id: 'm9', email: 'JANE@example.com', phoneNumber: null, team: { teamNumber: 'T00002' } },
+      ] as any);
+
+      await expect(
+        service.createTeam({
+          name: 'Team 1',
+          teamMembers: [member({ email: ' jane@example.com ' })],
+          tournamentId: 't1',
+          userId: 'user1',
+          referralSource: 'Website',
+        } as any),
+      ).rejects.toThrow('Email jane@example.com already belongs to a member of team T00002');
+    });
+
+    it('should reject the same phone number twice in one team', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Tournament 1' } as any);
+      prisma.teamMember.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.createTeam({
+          name: 'Team 1',
+          teamMembers: [member({ phoneNumber: '0912 345 678' }), member({ phoneNumber: '0912-345-678' })],
+          tournamentId: 't1',
+          userId: 'user1',
+          referralSource: 'Website',
+        } as any),
+      ).rejects.toThrow('Phone number 0912345678 is used by more than one member of this team');
+    });
+
+    it('should check the final member list on update', async () => {
+      prisma.team.findUnique.mockResolvedValue({
+        ...createMockTeam(),
+        tournament: { id: 't1', name: 'Tournament 1', status: 'LIVE', minTeamMembers: null, maxTeamMembers: 1 },
+      } as any);
+      prisma.teamMember.findMany.mockResolvedValue([
+        { id: 'm1', name: 'Kept', email: null, phoneNumber: null },
+      ] as any);
+
+      await expect(
+        service.update({
+          id: 'team1',
+          teamMembers: [{ id: 'm1' }, member({ name: 'New' })],
+        } as any),
+      ).rejects.toThrow('Team can have at most 1 members (has 2)');
+      expect(prisma.teamMember.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep members when an update does not send them', async () => {
+      prisma.team.findUnique.mockResolvedValue({
+        ...createMockTeam(),
+        tournament: { id: 't1', name: 'Tournament 1', status: 'LIVE', minTeamMembers: 2 },
+      } as any);
+      prisma.teamMember.findMany.mockResolvedValue([{ id: 'm1' }] as any);
+      prisma.team.update.mockResolvedValue(createMockTeam({ name: 'Renamed' }) as any);
+
+      await service.update({ id: 'team1', name: 'Renamed' } as any);
+
+      expect(prisma.teamMember.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should report size violations and duplicate members', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', minTeamMembers: 2, maxTeamMembers: null } as any);
+      prisma.team.findMany.mockResolvedValue([
+        {
+          id: 'team1',
+          teamNumber: 'T00001',
+          name: 'Team 1',
+          teamMembers: [
+            { id: 'm1', name: 'A', email: 'a@example.com', phoneNumber: null, teamId: 'team1' },
+            { id: 'm2', name: 'B', email: null, phoneNumber: null, teamId: 'team1' },
+          ],
+        },
+        {
+          id: 'team2',
+          teamNumber: 'T00002',
+          name: 'Team 2',
+          teamMembers: [{ id: 'm3', name: 'A2', email: 'A@example.com', phoneNumber: null, teamId: 'team2' }],
+        },
+      ] as any);
+
+      const report = await service.getMemberViolations('t1');
+
+      expect(report.memberCountViolations).toEqual([
+        expect.objectContaining({ teamId: 'team2', memberCount: 1 }),
+      ]);
+      expect(report.duplicateMembers).toEqual([
+        {
+          field: 'email',
+          value: 'a@example.com',
+          members: [
+            expect.objectContaining({ id: 'm1', teamNumber: 'T00001' }),
+            expect.objectContaining({ id: 'm3', teamNumber: 'T00002' }),
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove the members before the team', async () => {
+      prisma.team.findFirst.mockResolvedValue(createMockTeam({ deletedAt: new Date() }) as any);
+      (prisma.$transaction as any).mockImplementation(async (fn: any) => fn(prisma));
+      prisma.team.delete.mockResolvedValue(createMockTeam() as any);
+
+      await service.purge('team1');
+
+      expect(prisma.teamMember.deleteMany).toHaveBeenCalledWith({ where: { teamId: 'team1' } });
+      expect(prisma.team.delete).toHaveBeenCalledWith({ where: { id: 'team1' } });
+    });
+  });
+
+
+  describe('team numbering', () => {
+    const register = (overrides: any = {}) =>
+      service.createTeam({
+        name: 'Team 1',
+        teamMembers: [],
+        tournamentId: 't1',
+        userId: 'user1',
+        referralSource: 'Website',
+        ...overrides,
+      } as any);
+
+    beforeEach(() => {
+      dateValidationService.validateTeamRegistrationTiming.mockResolvedValue({ isValid: true, errors: [] });
+      prisma.team.create.mockResolvedValue(createMockTeam() as any);
+    });
+
+    it('should draw the number from the tournament sequence and skip numbers in use', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Robot Cup', teamNumberMode: 'SEQUENTIAL' } as any);
+      prisma.tournament.update
+        .mockResolvedValueOnce({ name: 'Robot Cup', teamNumberPrefix: null, teamNumberPadding: 3, nextTeamNumber: 8 } as any)
+        .mockResolvedValueOnce({ name: 'Robot Cup', teamNumberPrefix: null, teamNumberPadding: 3, nextTeamNumber: 9 } as any);
+      prisma.team.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await register();
+
+      expect(prisma.tournament.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { nextTeamNumber: { increment: 1 } } }),
+      );
+      expect(prisma.team.count).toHaveBeenCalledWith({
+        where: { tournamentId: 't1', teamNumber: 'RC007', deletedAt: undefined },
+      });
+      expect(prisma.team.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ teamNumber: 'RC008' }) }),
+      );
+    });
+
+    it('should only accept a chosen number when the tournament uses manual numbers', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Cup', teamNumberMode: 'SEQUENTIAL' } as any);
+      await expect(register({ teamNumber: '42' })).rejects.toThrow(
+        'Team numbers are assigned automatically for this tournament',
+      );
+
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'REGISTRATION', name: 'Cup', teamNumberMode: 'MANUAL' } as any);
+      await expect(register()).rejects.toThrow(BadRequestException);
+
+      prisma.team.count.mockResolvedValueOnce(1);
+      await expect(register({ teamNumber: '42' })).rejects.toThrow('Team with number 42 already exists');
+
+      await register({ teamNumber: '43' });
+      expect(prisma.team.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ teamNumber: '43' }) }),
+      );
+      expect(prisma.tournament.update).not.toHaveBeenCalled();
+    });
+
+    it('should restart the sequence when a new start is configured', async () => {
+      const numbering = {
+        id: 't1',
+        status: 'REGISTRATION',
+        name: 'Robot Cup',
+        teamNumberMode: 'SEQUENTIAL',
+        teamNumberPrefix: 'RBC-',
+        teamNumberPadding: 4,
+        teamNumberStart: 100,
+        nextTeamNumber: 100,
+      };
+      prisma.tournament.findUnique.mockResolvedValue({ ...numbering, teamNumberPrefix: null } as any);
+      prisma.tournament.update.mockResolvedValue(numbering as any);
+
+      const result = await service.updateTeamNumbering('t1', { prefix: 'RBC-', padding: 4, start: 100 });
+
+      expect(prisma.tournament.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ teamNumberStart: 100, nextTeamNumber: 100, teamNumberPrefix: 'RBC-' }),
+        }),
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ prefix: 'RBC-', nextTeamNumber: 'RBC-0100' }),
+      );
+    });
+  });
+
+  describe('importTeams', () => {
+    const tournamentId = '123e4567-e89b-12d3-a456-426614174000';
+    const importDto = (overrides: any = {}) => ({
+      format: 'csv' as const,
+      hasHeader: true,
+      delimiter: ',',
+      dryRun: false,
+      tournamentId,
+      content: '',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      prisma.tournament.findUnique.mockResolvedValue({
+        id: tournamentId,
+        status: 'REGISTRATION',
+        name: 'Tournament 1',
+        minTeamMembers: null,
+        maxTeamMembers: 4,
+      } as any);
+      prisma.teamMember.findMany.mockResolvedValue([]);
+      prisma.user.findMany.mockResolvedValue([]);
+    });
+
+    it('should preview quoted CSV rows matched by header without creating anything', async () => {
+      prisma.user.findMany.mockResolvedValueOnce([
+        { id: 'leader1', email: 'lead@example.com', role: 'TEAM_LEADER', isActive: true, deletedAt: null },
+      ] as any);
+      const createTeam = jest.spyOn(service, 'createTeam');
+
+      const report = await service.importTeams(
+        importDto({
+          dryRun: true,
+          content:
+            'Location,Team Name,Members,Email\n' +
+            'Hà Nội,"Bolts, Nuts & Co",2,lead@example.com\n' +
+            'Huế,Gears,2,new@example.com\n' +
+            ',Too Big,9,\n',
+        }),
+        'admin1',
+      );
+
+      expect(report).toEqual(
+        expect.objectContaining({ dryRun: true, total: 3, valid: 2, invalid: 1 }),
+      );
+      expect(report.rows).toEqual([
+        expect.objectContaining({ row: 2, teamName: 'Bolts, Nuts & Co', owner: 'existing', errors: [] }),
+        expect.objectContaining({ row: 3, teamName: 'Gears', owner: 'new', errors: [] }),
+        expect.objectContaining({
+          row: 4,
+          owner: 'importer',
+          errors: ['Team can have at most 4 members (has 9)'],
+        }),
+      ]);
+      expect(createTeam).not.toHaveBeenCalled();
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply the column mapping and flag leader emails used twice', async () => {
+      const report = await service.importTeams(
+        importDto({
+          dryRun: true,
+          content: 'Squad;Contact;Size\nAlpha;a@example.com;2\nBeta;A@example.com;2\n',
+          delimiter: ';',
+          columnMapping: { teamName: 'Squad', leaderEmail: 'contact', numberOfMembers: 3 },
+        }),
+        'admin1',
+      );
+
+      expect(report.rows[0].errors).toEqual([]);
+      expect(report.rows[1].errors).toEqual([
+        'Email a@example.com already belongs to a member of team Alpha',
+      ]);
+    });
+
+    it('should require unused team numbers when the tournament numbers teams manually', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({
+        id: tournamentId,
+        status: 'REGISTRATION',
+        name: 'Tournament 1',
+        teamNumberMode: 'MANUAL',
+      } as any);
+      prisma.team.findMany.mockResolvedValue([{ teamNumber: '7' }] as any);
+
+      const report = await service.importTeams(
+        importDto({
+          dryRun: true,
+          content: 'Team Number,Team Name,Members\n7,Alpha,1\n8,Beta,1\n8,Gamma,1\n,Delta,1\n',
+        }),
+        'admin1',
+      );
+
+      expect(report.rows.map((row) => row.errors)).toEqual([
+        ['teamNumber: 7 is already in use'],
+        [],
+        ['teamNumber: 8 is already in use'],
+        ['teamNumber: required because the tournament uses manual team numbers'],
+      ]);
+    });
+
+    it('should reject a mapping to a missing header', async () => {
+      await expect(
+        service.importTeams(
+          importDto({ content: 'Name,Members\nAlpha,2\n', columnMapping: { location: 'City' } }),
+          'admin1',
+        ),
+      ).rejects.toThrow('location: column "City" not found in the header row');
+    });
+
+    it('should create leader accounts for unknown emails and give other teams to the importer', async () => {
+      prisma.user.create.mockResolvedValue({
+        id: 'leader2',
+        email: 'new@example.com',
+        role: 'TEAM_LEADER',
+        isActive: true,
+        deletedAt: null,
+      } as any);
+      const createTeam = jest
+        .spyOn(service, 'createTeam')
+        .mockImplementation(async (dto: any) => ({ id: `team-${dto.name}`, teamMembers: dto.teamMembers }) as any);
+
+      const report = await service.importTeams(
+        importDto({ hasHeader: false, content: 'Alpha,new@example.com,2,School,City\nBeta,,1,,\n' }),
+        'admin1',
+      );
+
+      expect(prisma.user.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ username: 'new', email: 'new@example.com', role: 'TEAM_LEADER' }),
+        }),
+      );
+      expect(emailsService.sendBulkUserCreationEmail).toHaveBeenCalledWith(
+        'new@example.com',
+        'new',
+        expect.any(String),
+        'TEAM_LEADER',
+        expect.any(String),
+      );
+      expect(createTeam).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Alpha', userId: 'leader2' }),
+        { approve: true },
+      );
+      expect(createTeam.mock.calls[0][0].teamMembers[0]).toEqual(
+        expect.objectContaining({ email: 'new@example.com', organization: 'School' }),
+      );
+      expect(createTeam).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Beta', userId: 'admin1' }),
+        { approve: true },
+      );
+      expect(report).toEqual(expect.objectContaining({ success: true, totalCreated: 2 }));
+    });
+
+    it('should remove a new leader account when its team cannot be created', async () => {
+      prisma.user.create.mockResolvedValue({ id: 'leader2', email: 'new@example.com' } as any);
+      prisma.user.delete.mockResolvedValue({} as any);
+      jest.spyOn(service, 'createTeam').mockRejectedValue(new BadRequestException('Registration is closed'));
+
+      const report = await service.importTeams(
+        importDto({ content: 'Team Name,Email,Members\nAlpha,new@example.com,1\n' }),
+        'admin1',
+      );
+
+      expect(prisma.user.delete).toHaveBeenCalledWith({ where: { id: 'leader2' } });
+      expect(report.errors).toEqual(['Team "Alpha" (row 2): Registration is closed']);
+      expect(report.success).toBe(false);
+    });
+  });
 });
@@ -1,20 +1,99 @@
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { CreateTeamDto, CreateTeamMemberDto } from './dto/create-team.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
-import { ImportTeamsDto } from './dto/import-teams.dto';
+import {
+  ImportTeamsDto,
+  TEAM_IMPORT_MAX_ROWS,
+  TeamImportDataDto,
+  TeamImportDataSchema,
+} from './dto/import-teams.dto';
 import { CreateBulkTeamsDto } from './dto/create-bulk-teams.dto';
+import { UpdateTeamNumberingDto } from './dto/team-numbering.dto';
 import { DateValidationService } from '../common/services/date-validation.service';
-import { Gender, TeamMember } from '../../generated/prisma';
+import {
+  Gender,
+  TeamMember,
+  TeamNumberMode,
+  TeamRegistrationStatus,
+  UserRole,
+} from '../../generated/prisma';
 import { Prisma } from '../../generated/prisma';
 import { EmailsService } from '../emails/emails.service';
+import { loadTournamentSettings } from '../tournaments/tournament-settings';
+import {
+  assertTournamentStatus,
+  EDITABLE_STATUSES,
+  TEAM_REGISTRATION_STATUSES,
+} from '../tournaments/tournament-lifecycle';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { parseCsv, readXlsxRows } from '../common/import/tabular-import';
+import { readTeamImportRow, resolveTeamImportColumns } from './team-import';
+import { formatTeamNumber, resolveTeamNumberPrefix } from './team-numbering';
+import {
+  ACTIVE_REGISTRATION_STATUSES,
+  REGISTRATION_TRANSITIONS,
+  SLOT_HOLDING_STATUSES,
+} from './team-registration';
+import {
+  MemberContact,
+  MemberLimits,
+  checkMemberCount,
+  findDuplicateMembers,
+  normalizeEmail,
+  normalizePhone,
+} from './team-member-rules';
+
+const TEAM_NUMBERING_SELECT = {
+  id: true,
+  name: true,
+  teamNumberMode: true,
+  teamNumberPrefix: true,
+  teamNumberPadding: true,
+  teamNumberStart: true,
+  nextTeamNumber: true,
+} satisfies Prisma.TournamentSelect;
+
+export interface TeamImportRowResult {
+  row: number;
+  teamName: string;
+  /** Only set for manual numbering; sequential numbers are assigned on import */
+  teamNumber: string | null;
+  leaderEmail: string | null;
+  /** Who will own the team: an existing user, a new leader account or the importing admin */
+  owner: 'existing' | 'new' | 'importer';
+  memberCount: number | null;
+  errors: string[];
+}
+
+export interface TeamImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: TeamImportRowResult[];
+  success?: boolean;
+  message?: string;
+  teams?: any[];
+  totalParsed?: number;
+  totalCreated?: number;
+  errors?: string[];
+}
 
 @Injectable()
 export class TeamsService {
+  private readonly logger = new Logger(TeamsService.name);
+  private readonly bcryptRounds = 12;
+  private readonly maxTeamNumberAttempts = 100;
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly emailService: EmailsService,
@@ -22,43 +101,47 @@ export class TeamsService {
   ) {}
 
   /**
-   * Generate a sequential team number in the format 000001, 000002, etc.
+   * Allocate the next free number from the tournament's sequence. The
+   * increment is a single atomic update, so concurrent registrations never
+   * draw the same value. Values already taken by manual numbers are skipped.
    */
-  private async generateNextTeamNumber(tournamentId: string): Promise<string> {
-    try {
-      const tournament = await this.prisma.tournament.findUnique({
+  private async allocateTeamNumber(tournamentId: string): Promise<string> {
+    for (let attempt = 0; attempt < this.maxTeamNumberAttempts; attempt++) {
+      const tournament = await this.prisma.tournament.update({
         where: { id: tournamentId },
-        select: { id: true, name: true },
+        data: { nextTeamNumber: { increment: 1 } },
+        select: { name: true, teamNumberPrefix: true, teamNumberPadding: true, nextTeamNumber: true },
       });
 
-      if (!tournament || !tournament.name) {
-        throw new Error(`Tournament not found for ID: ${tournamentId}`);
+      const teamNumber = formatTeamNumber(tournament, tournament.nextTeamNumber - 1);
+      if (!(await this.isTeamNumberTaken(tournamentId, teamNumber))) {
+        return teamNumber;
       }
+    }
+    throw new ConflictException(
+      'Could not allocate a free team number; check the tournament team numbering settings',
+    );
+  }
 
-      const prefix = tournament.name
-        .split(/\s+/)
-        .map((word) => word.charAt(0).toUpperCase())
-        .join('');
-
-      const latestTeam = await this.prisma.team.findFirst({
-        where: {
-          tournamentId: tournament.id,
-          teamNumber: { startsWith: prefix },
-        },
-        orderBy: { teamNumber: 'desc' },
-      });
-
-      const latestNumber = latestTeam?.teamNumber
-        ? parseInt(latestTeam.teamNumber.replace(prefix, ''), 10) || 0
-        : 0;
-
-      const newTeamNumber = `${prefix}${String(latestNumber + 1).padStart(5, '0')}`;
-      return newTeamNumber;
-    } catch (error) {
-      console.error('Error generating team number:', error);
-      // Generate a fallback random 6-digit number
-      return `TMP${Math.floor(100000 + Math.random() * 900000)}`;
+  /**
+   * Number for a new team: the requested one when the tournament uses manual
+   * numbers, otherwise the next one in sequence
+   */
+  private async resolveNewTeamNumber(
+    tournament: { id: string; teamNumberMode: TeamNumberMode },
+    requested?: string,
+  ): Promise<string> {
+    if (tournament.teamNumberMode === TeamNumberMode.MANUAL) {
+      if (!requested) {
+        throw new BadRequestException('This tournament uses manual team numbers; a team number is required');
+      }
+      await this.ensureTeamNumberUnique(tournament.id, requested);
+      return requested;
     }
+    if (requested) {
+      throw new BadRequestException('Team numbers are assigned automatically for this tournament');
+    }
+    return this.allocateTeamNumber(tournament.id);
   }
 
   /**
@@ -73,20 +156,57 @@ export class TeamsService {
   }
 
   /**
-   * Check if a team number is unique (not used by another team).
-   * Throws BadRequestException if not unique.
+   * Teams of a completed or archived tournament are read-only
    */
-  private async ensureTeamNumberUnique(teamNumber: string, excludeId?: string) {
-    const existingTeam = await this.prisma.team.findUnique({
-      where: { teamNumber },
+  private async assertTournamentEditable(
+    tournamentId: string,
+    options: { adminOverride?: boolean },
+  ) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { status: true },
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+    assertTournamentStatus(tournament, EDITABLE_STATUSES, 'change teams', options);
+  }
+
+  private async ensureDeletedTeamExistsById(id: string) {
+    const team = await this.prisma.team.findFirst({
+      where: { id, deletedAt: { not: null } },
     });
-    if (existingTeam && existingTeam.id !== excludeId) {
+    if (!team) {
+      throw new NotFoundException(`Deleted team with ID ${id} not found`);
+    }
+    return team;
+  }
+
+  /**
+   * Check if a team number is unique within the tournament.
+   * Throws BadRequestException if not unique.
+   */
+  private async ensureTeamNumberUnique(tournamentId: string, teamNumber: string, excludeId?: string) {
+    if (await this.isTeamNumberTaken(tournamentId, teamNumber, excludeId)) {
       throw new BadRequestException(
         `Team with number ${teamNumber} already exists`,
       );
     }
   }
 
+  private async isTeamNumberTaken(tournamentId: string, teamNumber: string, excludeId?: string) {
+    // Deleted teams keep their number until they are purged
+    const count = await this.prisma.team.count({
+      where: {
+        tournamentId,
+        teamNumber,
+        deletedAt: undefined,
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+    });
+    return count > 0;
+  }
+
   /**
    * Parse teamMembers from DTO, handling string/array/object.
    */
@@ -143,7 +263,16 @@ export class TeamsService {
     }
   }
 
-  async createTeam(createTeamDto: CreateTeamDto) {
+  /**
+   * Register a team. It waits for admin approval unless the tournament approves
+   * automatically, and joins the waitlist once the tournament is full. Admin
+   * imports can skip the approval step. The tournament must be open for
+   * registration.
+   */
+  async createTeam(
+    createTeamDto: CreateTeamDto,
+    options: { approve?: boolean; adminOverride?: boolean } = {},
+  ) {
     const tournament = await this.prisma.tournament.findUnique({
       where: { id: createTeamDto.tournamentId },
       select: {
@@ -153,11 +282,10 @@ export class TeamsService {
         endDate: true,
         registrationDeadline: true,
         maxTeams: true,
-        _count: {
-          select: {
-            teams: true
-          }
-        }
+        minTeamMembers: true,
+        maxTeamMembers: true,
+        teamNumberMode: true,
+        status: true,
       }
     });
 
@@ -166,6 +294,7 @@ export class TeamsService {
         `Tournament with ID ${createTeamDto.tournamentId} does not exist.`,
       );
     }
+    assertTournamentStatus(tournament, TEAM_REGISTRATION_STATUSES, 'register teams', options);
 
     // Validate team registration timing
     const registrationDate = new Date();
@@ -187,33 +316,50 @@ export class TeamsService {
       );
     }
 
-    // Check maximum teams limit if set
-    if (tournament.maxTeams && tournament._count.teams >= tournament.maxTeams) {
-      throw new BadRequestException(
-        `Tournament has reached its maximum limit of ${tournament.maxTeams} teams. No new teams can be registered.`
-      );
-    }
+    await this.assertMemberRules(tournament, createTeamDto.teamMembers);
 
-    const teamNumber = await this.generateNextTeamNumber(tournament.id);
+    const { registration } = await loadTournamentSettings(this.prisma, tournament.id);
+    const teamNumber = await this.resolveNewTeamNumber(tournament, createTeamDto.teamNumber);
 
-    try {
-      const createdTeam = await this.prisma.team.create({
-        data: {
-          teamNumber,
-          name: createTeamDto.name,
-          referralSource: createTeamDto.referralSource,
-          tournament: {
-            connect: { id: tournament.id },
+    // Past the maximum teams limit, new registrations join the waitlist if the
+    // tournament keeps one
+    const createdTeam = await this.prisma.$transaction(async (tx) => {
+      const { isFull, maxTeams } = await this.lockAndCheckFull(tx, tournament.id);
+      if (isFull && !registration.waitlist) {
+        throw new BadRequestException(
+          `Tournament has reached its maximum limit of ${maxTeams} teams`,
+        );
+      }
+      const registrationStatus = isFull
+        ? TeamRegistrationStatus.WAITLISTED
+        : options.approve || registration.autoApprove
+          ? TeamRegistrationStatus.APPROVED
+          : TeamRegistrationStatus.PENDING;
+
+      try {
+        return await tx.team.create({
+          data: {
+            teamNumber,
+            name: createTeamDto.name,
+            referralSource: createTeamDto.referralSource,
+            registrationStatus,
+            tournament: {
+              connect: { id: tournament.id },
+            },
+            user: {
+              connect: { id: createTeamDto.userId },
+            },
           },
-          user: {
-            connect: { id: createTeamDto.userId },
+          include: {
+            tournament: true,
           },
-        },
-        include: {
-          tournament: true,
-        },
-      });
+        });
+      } catch (error) {
+        throw new BadRequestException(`Failed to create team: ${error.message}`);
+      }
+    });
 
+    try {
       const createdMembers = await Promise.all(
         createTeamDto.teamMembers.map((memberDto) =>
           this.createTeamMember(
@@ -227,6 +373,8 @@ export class TeamsService {
         ),
       );
 
+      await this.notifyRegistrationStatus(createdTeam.id);
+
       return {
         ...createdTeam,
         teamMembers: createdMembers,
@@ -236,8 +384,11 @@ export class TeamsService {
     }
   }
 
-  async findAll(tournamentId?: string) {
-    const where = tournamentId ? { tournamentId } : {};
+  async findAll(tournamentId?: string, registrationStatus?: TeamRegistrationStatus) {
+    const where: Prisma.TeamWhereInput = {
+      ...(tournamentId ? { tournamentId } : {}),
+      ...(registrationStatus ? { registrationStatus } : {}),
+    };
 
     const teams = await this.prisma.team.findMany({
       where,
@@ -274,8 +425,9 @@ export class TeamsService {
    */
   async findTeamsByUserId(userId: string) {
     const teams = await this.prisma.team.findMany({
+      // Teams the user leads, plus teams where they claimed a member record
       where: {
-        userId: userId,
+        OR: [{ userId }, { teamMembers: { some: { userId } } }],
       },
       include: {
         tournament: true,
@@ -334,7 +486,7 @@ export class TeamsService {
     };
   }
 
-  async update(updateTeamDto: UpdateTeamDto) {
+  async update(updateTeamDto: UpdateTeamDto, options: { adminOverride?: boolean } = {}) {
     if (!updateTeamDto.id) {
       throw new Error('Team ID is required');
     }
@@ -347,21 +499,45 @@ export class TeamsService {
     if (!team) {
       throw new Error('Team not found');
     }
+    assertTournamentStatus(team.tournament, EDITABLE_STATUSES, 'change teams', options);
+
+    if (updateTeamDto.teamNumber !== undefined && updateTeamDto.teamNumber !== team.teamNumber) {
+      if (team.tournament.teamNumberMode !== TeamNumberMode.MANUAL) {
+        throw new BadRequestException('Team numbers are assigned automatically for this tournament');
+      }
+      await this.ensureTeamNumberUnique(team.tournamentId, updateTeamDto.teamNumber, team.id);
+    }
 
+    // Members are only synced when the request sends the full member list
     const teamMemberUpdates = updateTeamDto.teamMembers ?? [];
 
     const existingMembers = await this.prisma.teamMember.findMany({
       where: { teamId: updateTeamDto.id },
-      select: { id: true },
+      select: { id: true, name: true, email: true, phoneNumber: true },
     });
 
+    if (updateTeamDto.teamMembers !== undefined) {
+      const updatesById = new Map(
+        teamMemberUpdates.filter((member) => member.id).map((member) => [member.id, member]),
+      );
+      const finalMembers: MemberContact[] = [
+        ...existingMembers
+          .filter((member) => updatesById.has(member.id))
+          .map((member) => ({ ...member, ...this.definedFields(updatesById.get(member.id)!) })),
+        ...teamMemberUpdates.filter((member) => !member.id),
+      ];
+      await this.assertMemberRules(team.tournament, finalMembers, team.id);
+    }
+
     const incomingIds = teamMemberUpdates
       .filter((member) => member.id)
       .map((member) => member.id);
 
-    const idsToDelete = existingMembers
-      .map((member) => member.id)
-      .filter((id) => !incomingIds.includes(id));
+    const idsToDelete = updateTeamDto.teamMembers === undefined
+      ? []
+      : existingMembers
+          .map((member) => member.id)
+          .filter((id) => !incomingIds.includes(id));
 
     if (idsToDelete.length > 0) {
       await this.prisma.teamMember.deleteMany({
@@ -372,9 +548,7 @@ export class TeamsService {
     for (const member of teamMemberUpdates) {
       const { id, ...fields } = member;
 
-      const data = Object.fromEntries(
-        Object.entries(fields).filter(([_, v]) => v !== undefined),
-      );
+      const data = this.definedFields(fields);
 
       if (id) {
         if (Object.keys(data).length > 0) {
@@ -403,6 +577,7 @@ export class TeamsService {
 
     const teamData: any = {};
     if (updateTeamDto.name !== undefined) teamData.name = updateTeamDto.name;
+    if (updateTeamDto.teamNumber !== undefined) teamData.teamNumber = updateTeamDto.teamNumber;
     if (updateTeamDto.referralSource !== undefined)
       teamData.referralSource = updateTeamDto.referralSource;
 
@@ -417,168 +592,719 @@ export class TeamsService {
     }
   }
 
-  async remove(id: string) {
-    await this.ensureTeamExistsById(id);
-    return this.prisma.team.delete({ where: { id } });
+  /**
+   * Soft delete a team. Its alliances and stats history are kept.
+   */
+  async remove(id: string, options: { adminOverride?: boolean } = {}) {
+    const team = await this.ensureTeamExistsById(id);
+    await this.assertTournamentEditable(team.tournamentId, options);
+    const removed = await this.prisma.team.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    if (SLOT_HOLDING_STATUSES.includes(team.registrationStatus)) {
+      await this.promoteWaitlistedTeams(team.tournamentId);
+    }
+    return removed;
   }
 
   /**
-   * Import multiple teams from CSV content for quick team creation
-   * CSV format: Team Name,Email,Number of member,School/Organization,Location
+   * Undo a soft delete. Deleting the team freed its slot, so if the
+   * tournament has filled up since, the team goes back on the waitlist, or is
+   * refused when the tournament keeps none.
    */
-  async importTeams(importTeamsDto: ImportTeamsDto) {
-    const {
-      content,
-      hasHeader = true,
-      delimiter = ',',
-      tournamentId,
-    } = importTeamsDto;
+  async restore(id: string, options: { adminOverride?: boolean } = {}) {
+    const team = await this.ensureDeletedTeamExistsById(id);
+    await this.assertTournamentEditable(team.tournamentId, options);
+    const { registration } = await loadTournamentSettings(this.prisma, team.tournamentId);
+
+    const restored = await this.prisma.$transaction(async (tx) => {
+      const wantsSlot = SLOT_HOLDING_STATUSES.includes(team.registrationStatus);
+      if (!wantsSlot || !(await this.lockAndCheckFull(tx, team.tournamentId)).isFull) {
+        return tx.team.update({ where: { id }, data: { deletedAt: null } });
+      }
+      if (!registration.waitlist) {
+        throw new BadRequestException(
+          'Tournament has reached its maximum number of teams; the team cannot be restored',
+        );
+      }
+      return tx.team.update({
+        where: { id },
+        data: {
+          deletedAt: null,
+          registrationStatus: TeamRegistrationStatus.WAITLISTED,
+          registrationStatusReason: null,
+          registrationStatusChangedAt: new Date(),
+        },
+      });
+    });
 
-    try {
-      const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
-      const dataLines = hasHeader ? lines.slice(1) : lines;
+    if (restored.registrationStatus !== team.registrationStatus) {
+      await this.notifyRegistrationStatus(id);
+    }
+    return restored;
+  }
+
+  /**
+   * Permanently remove a soft-deleted team with its members, alliances and stats
+   */
+  async purge(id: string, options: { adminOverride?: boolean } = {}) {
+    const team = await this.ensureDeletedTeamExistsById(id);
+    await this.assertTournamentEditable(team.tournamentId, options);
+    return this.prisma.$transaction(async (tx) => {
+      await tx.teamMember.deleteMany({ where: { teamId: id } });
+      return tx.team.delete({ where: { id } });
+    });
+  }
+
+  /**
+   * Approve a pending, waitlisted or previously rejected registration
+   */
+  async approve(id: string, options: { adminOverride?: boolean } = {}) {
+    const team = await this.ensureTeamExistsById(id);
+    await this.assertTournamentEditable(team.tournamentId, options);
+    return this.changeRegistrationStatus(team, TeamRegistrationStatus.APPROVED);
+  }
+
+  async reject(id: string, reason: string, options: { adminOverride?: boolean } = {}) {
+    const team = await this.ensureTeamExistsById(id);
+    await this.assertTournamentEditable(team.tournamentId, options);
+    return this.changeRegistrationStatus(team, TeamRegistrationStatus.REJECTED, reason);
+  }
+
+  /**
+   * Withdraw a registration. Only the team owner or an admin may do this.
+   */
+  async withdraw(id: string, user: { id: string; role: UserRole }, reason?: string) {
+    const team = await this.ensureTeamExistsById(id);
+
+    if (team.userId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the team owner can withdraw this team');
+    }
+    await this.assertTournamentEditable(team.tournamentId, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+
+    return this.changeRegistrationStatus(team, TeamRegistrationStatus.WITHDRAWN, reason);
+  }
+
+  /**
+   * Move the longest-waiting waitlisted teams back to PENDING while the
+   * tournament has free slots. Returns the promoted team IDs.
+   */
+  async promoteWaitlistedTeams(tournamentId: string): Promise<string[]> {
+    const promoted = await this.prisma.$transaction(async (tx) => {
+      const { maxTeams } = await this.lockTournament(tx, tournamentId);
+      if (!maxTeams) {
+        return [];
+      }
 
-      if (dataLines.length === 0) {
-        throw new BadRequestException('No team data found in the content');
+      const freeSlots = maxTeams - (await this.countSlotHoldingTeams(tournamentId, tx));
+      if (freeSlots <= 0) {
+        return [];
       }
 
-      // Verify tournament exists
-      const tournament = await this.prisma.tournament.findUnique({
-        where: { id: tournamentId },
-        select: { id: true, name: true },
+      const waitlisted = await tx.team.findMany({
+        where: { tournamentId, registrationStatus: TeamRegistrationStatus.WAITLISTED },
+        orderBy: [{ registrationStatusChangedAt: 'asc' }, { createdAt: 'asc' }],
+        take: freeSlots,
+        select: { id: true },
       });
+      await tx.team.updateMany({
+        where: { id: { in: waitlisted.map(({ id }) => id) } },
+        data: {
+          registrationStatus: TeamRegistrationStatus.PENDING,
+          registrationStatusReason: null,
+          registrationStatusChangedAt: new Date(),
+        },
+      });
+      return waitlisted.map(({ id }) => id);
+    });
 
-      if (!tournament) {
-        throw new BadRequestException(`Tournament with ID ${tournamentId} not found`);
-      }
+    for (const id of promoted) {
+      await this.notifyRegistrationStatus(id);
+    }
+    return promoted;
+  }
 
-      // Get an admin user to assign as team owner
-      const adminUser = await this.prisma.user.findFirst({
-        where: { role: 'ADMIN' }
+  private async changeRegistrationStatus(
+    team: { id: string; tournamentId: string; registrationStatus: TeamRegistrationStatus },
+    status: TeamRegistrationStatus,
+    reason?: string,
+  ) {
+    if (!REGISTRATION_TRANSITIONS[team.registrationStatus].includes(status)) {
+      throw new BadRequestException(
+        `Cannot change registration from ${team.registrationStatus} to ${status}`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const takesSlot =
+        !SLOT_HOLDING_STATUSES.includes(team.registrationStatus) &&
+        SLOT_HOLDING_STATUSES.includes(status);
+      if (takesSlot) {
+        const { isFull, maxTeams } = await this.lockAndCheckFull(tx, team.tournamentId);
+        if (isFull) {
+          throw new BadRequestException(
+            `Tournament has reached its maximum limit of ${maxTeams} teams`,
+          );
+        }
+      }
+      return tx.team.update({
+        where: { id: team.id },
+        data: {
+          registrationStatus: status,
+          registrationStatusReason: reason ?? null,
+          registrationStatusChangedAt: new Date(),
+        },
+        include: { tournament: true },
       });
+    });
+    await this.notifyRegistrationStatus(team.id);
+
+    // A rejected or withdrawn team frees its slot for the waitlist
+    if (
+      SLOT_HOLDING_STATUSES.includes(team.registrationStatus) &&
+      !SLOT_HOLDING_STATUSES.includes(status)
+    ) {
+      await this.promoteWaitlistedTeams(team.tournamentId);
+    }
 
-      if (!adminUser) {
-        throw new BadRequestException('No admin user found to assign as team owner');
+    return updated;
+  }
+
+  private countSlotHoldingTeams(tournamentId: string, client: Prisma.TransactionClient = this.prisma) {
+    return client.team.count({
+      where: { tournamentId, registrationStatus: { in: SLOT_HOLDING_STATUSES } },
+    });
+  }
+
+  /**
+   * Lock the tournament row until the transaction ends. Capacity checks take
+   * this lock before counting, so concurrent registrations and approvals
+   * cannot all claim the last slot.
+   */
+  private async lockTournament(
+    tx: Prisma.TransactionClient,
+    tournamentId: string,
+  ): Promise<{ maxTeams: number | null }> {
+    const [tournament] = await tx.$queryRaw<{ maxTeams: number | null }[]>`
+      SELECT "maxTeams" FROM "Tournament" WHERE "id" = ${tournamentId} FOR UPDATE`;
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+    return tournament;
+  }
+
+  /** Lock the tournament and check whether every slot is taken */
+  private async lockAndCheckFull(tx: Prisma.TransactionClient, tournamentId: string) {
+    const { maxTeams } = await this.lockTournament(tx, tournamentId);
+    const isFull = !!maxTeams && (await this.countSlotHoldingTeams(tournamentId, tx)) >= maxTeams;
+    return { isFull, maxTeams };
+  }
+
+  /**
+   * Email the team owner about the current registration status. A failed
+   * email never fails the status change itself.
+   */
+  private async notifyRegistrationStatus(teamId: string) {
+    try {
+      const team = await this.prisma.team.findUnique({
+        where: { id: teamId },
+        select: {
+          name: true,
+          registrationStatus: true,
+          registrationStatusReason: true,
+          tournament: { select: { name: true } },
+          user: { select: { email: true } },
+        },
+      });
+      if (!team?.user?.email) {
+        return;
       }
 
-      const teamsToCreate: any[] = [];
-      const errors: string[] = [];
+      await this.emailService.sendTeamRegistrationStatusEmail(
+        team.user.email,
+        team.name,
+        team.tournament.name,
+        team.registrationStatus,
+        team.registrationStatusReason,
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to send registration email for team ${teamId}: ${error.message}`);
+    }
+  }
 
-      for (let i = 0; i < dataLines.length; i++) {
-        const line = dataLines[i];
-        const lineNumber = hasHeader ? i + 2 : i + 1; // Account for header row
+  /**
+   * The tournament's team numbering scheme, with a preview of the next number
+   */
+  async getTeamNumbering(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: TEAM_NUMBERING_SELECT,
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+    return this.toTeamNumbering(tournament);
+  }
 
-        try {
-          const parts = line.split(delimiter).map((part) => part.trim());
+  /**
+   * Change how new teams are numbered. Existing team numbers are kept; a new
+   * `start` restarts the sequence, skipping numbers already in use.
+   */
+  async updateTeamNumbering(tournamentId: string, dto: UpdateTeamNumberingDto) {
+    await this.getTeamNumbering(tournamentId);
 
-          if (parts.length < 5) {
-            errors.push(`Line ${lineNumber}: Expected 5 columns, got ${parts.length}`);
-            continue;
-          }
+    const tournament = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        teamNumberMode: dto.mode,
+        teamNumberPrefix: dto.prefix,
+        teamNumberPadding: dto.padding,
+        ...(dto.start !== undefined ? { teamNumberStart: dto.start, nextTeamNumber: dto.start } : {}),
+      },
+      select: TEAM_NUMBERING_SELECT,
+    });
+    return this.toTeamNumbering(tournament);
+  }
 
-          const [teamName, email, numberOfMembersStr, schoolOrganization, location] = parts;
+  private toTeamNumbering(
+    tournament: Prisma.TournamentGetPayload<{ select: typeof TEAM_NUMBERING_SELECT }>,
+  ) {
+    return {
+      tournamentId: tournament.id,
+      mode: tournament.teamNumberMode,
+      prefix: resolveTeamNumberPrefix(tournament),
+      customPrefix: tournament.teamNumberPrefix,
+      padding: tournament.teamNumberPadding,
+      start: tournament.teamNumberStart,
+      nextTeamNumber:
+        tournament.teamNumberMode === TeamNumberMode.SEQUENTIAL
+          ? formatTeamNumber(tournament, tournament.nextTeamNumber)
+          : null,
+    };
+  }
 
-          // Validate required fields
-          if (!teamName) {
-            errors.push(`Line ${lineNumber}: Team name is required`);
-            continue;
-          }
+  /**
+   * List teams and members of a tournament that break its member limits or
+   * share an email or phone number with another team's member
+   */
+  async getMemberViolations(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { id: true, minTeamMembers: true, maxTeamMembers: true },
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
 
-          const numberOfMembers = parseInt(numberOfMembersStr, 10);
-          if (isNaN(numberOfMembers) || numberOfMembers < 1) {
-            errors.push(`Line ${lineNumber}: Number of members must be a positive integer`);
-            continue;
-          }
+    const teams = await this.prisma.team.findMany({
+      where: { tournamentId, registrationStatus: { in: ACTIVE_REGISTRATION_STATUSES } },
+      select: {
+        id: true,
+        teamNumber: true,
+        name: true,
+        teamMembers: { select: { id: true, name: true, email: true, phoneNumber: true, teamId: true } },
+      },
+      orderBy: { teamNumber: 'asc' },
+    });
 
-          // Validate email if provided
-          if (email && !/\S+@\S+\.\S+/.test(email)) {
-            errors.push(`Line ${lineNumber}: Invalid email format`);
-            continue;
-          }
+    const memberCountViolations = teams.flatMap((team) => {
+      const error = checkMemberCount(team.teamMembers.length, tournament);
+      return error
+        ? [{ teamId: team.id, teamNumber: team.teamNumber, name: team.name, memberCount: team.teamMembers.length, error }]
+        : [];
+    });
 
-          teamsToCreate.push({
-            teamName,
-            email,
-            numberOfMembers,
-            schoolOrganization,
-            location,
-            lineNumber,
-          });
+    const teamNumbers = new Map(teams.map((team) => [team.id, team.teamNumber]));
+    const duplicateMembers = findDuplicateMembers(teams.flatMap((team) => team.teamMembers)).map(
+      (group) => ({
+        ...group,
+        members: group.members.map((member) => ({
+          ...member,
+          teamNumber: teamNumbers.get(member.teamId),
+        })),
+      }),
+    );
+
+    return {
+      tournamentId,
+      minTeamMembers: tournament.minTeamMembers,
+      maxTeamMembers: tournament.maxTeamMembers,
+      memberCountViolations,
+      duplicateMembers,
+    };
+  }
+
+  /**
+   * Check a team's complete member list against the tournament's size limits,
+   * and make sure nobody is listed twice or already sits on another team
+   */
+  private async assertMemberRules(
+    tournament: { id: string } & MemberLimits,
+    members: MemberContact[],
+    teamId?: string,
+  ) {
+    const hasContacts = members.some(
+      (member) => normalizeEmail(member.email) || normalizePhone(member.phoneNumber),
+    );
+    const otherMembers = hasContacts ? await this.loadOtherTeamMembers(tournament.id, teamId) : [];
+
+    const errors = this.memberRuleErrors(tournament, members, otherMembers);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join('; '));
+    }
+  }
+
+  /**
+   * Members of the tournament's other active teams. Contacts are normalised in
+   * memory, so they are loaded rather than matched in the query.
+   */
+  private async loadOtherTeamMembers(tournamentId: string, teamId?: string) {
+    const members = await this.prisma.teamMember.findMany({
+      where: {
+        team: {
+          tournamentId,
+          registrationStatus: { in: ACTIVE_REGISTRATION_STATUSES },
+          deletedAt: null,
+          ...(teamId ? { id: { not: teamId } } : {}),
+        },
+      },
+      select: {
+        id: true,
+        email: true,
+        phoneNumber: true,
+        team: { select: { teamNumber: true } },
+      },
+    });
+    return members.map(({ team, ...member }): MemberContact & { teamNumber: string } => ({
+      ...member,
+      teamNumber: team.teamNumber,
+    }));
+  }
 
-        } catch (error) {
-          errors.push(`Line ${lineNumber}: ${error.message}`);
+  private memberRuleErrors(
+    limits: MemberLimits,
+    members: MemberContact[],
+    otherMembers: Array<MemberContact & { teamNumber: string }>,
+  ): string[] {
+    const errors: string[] = [];
+    const countError = checkMemberCount(members.length, limits);
+    if (countError) {
+      errors.push(countError);
+    }
+
+    const incoming = members.map((member) => ({ ...member, teamNumber: null as string | null }));
+
+    for (const group of findDuplicateMembers([...incoming, ...otherMembers])) {
+      if (!group.members.some((member) => incoming.includes(member))) {
+        continue;
+      }
+      const label = group.field === 'email' ? 'Email' : 'Phone number';
+      const otherTeam = group.members.find((member) => member.teamNumber)?.teamNumber;
+      errors.push(
+        otherTeam
+          ? `${label} ${group.value} already belongs to a member of team ${otherTeam}`
+          : `${label} ${group.value} is used by more than one member of this team`,
+      );
+    }
+    return errors;
+  }
+
+  private definedFields<T extends object>(fields: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(fields).filter(([_, v]) => v !== undefined),
+    ) as Partial<T>;
+  }
+
+  /**
+   * Import teams from a CSV or XLSX sheet. Columns are matched by header name
+   * or `columnMapping`; files without a header use the original order: team
+   * name, leader email, number of members, school/organization, location.
+   *
+   * A leader email makes that user the team owner, creating a TEAM_LEADER
+   * account when none exists. Other teams are owned by the importing admin.
+   * With `dryRun` nothing is created; otherwise valid rows are imported and
+   * invalid ones are reported.
+   */
+  async importTeams(importTeamsDto: ImportTeamsDto, importedById: string): Promise<TeamImportReport> {
+    const {
+      content,
+      format = 'csv',
+      hasHeader = true,
+      delimiter = ',',
+      columnMapping,
+      dryRun = false,
+      tournamentId,
+    } = importTeamsDto;
+
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: {
+        id: true,
+        name: true,
+        minTeamMembers: true,
+        maxTeamMembers: true,
+        teamNumberMode: true,
+        status: true,
+      },
+    });
+
+    if (!tournament) {
+      throw new BadRequestException(`Tournament with ID ${tournamentId} not found`);
+    }
+    assertTournamentStatus(tournament, TEAM_REGISTRATION_STATUSES, 'import teams');
+    const manualNumbers = tournament.teamNumberMode === TeamNumberMode.MANUAL;
+
+    const table =
+      format === 'xlsx'
+        ? await readXlsxRows(Buffer.from(content, 'base64'))
+        : parseCsv(content, delimiter);
+    const dataRows = table
+      .map((cells, index) => ({ row: index + 1, cells }))
+      .slice(hasHeader ? 1 : 0)
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+    if (dataRows.length === 0) {
+      throw new BadRequestException('No team data found in the content');
+    }
+    if (dataRows.length > TEAM_IMPORT_MAX_ROWS) {
+      throw new BadRequestException(`Cannot import more than ${TEAM_IMPORT_MAX_ROWS} teams at once`);
+    }
+
+    const columns = resolveTeamImportColumns(hasHeader ? table[0] : null, columnMapping);
+    const rows = dataRows.map(({ row, cells }) => {
+      const values = readTeamImportRow(cells, columns);
+      const parsed = TeamImportDataSchema.safeParse(values);
+      return {
+        row,
+        values,
+        data: parsed.success ? parsed.data : undefined,
+        errors: parsed.success
+          ? []
+          : parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      };
+    });
+
+    const leaderEmails = [
+      ...new Set(rows.map((row) => row.data?.leaderEmail).filter((email): email is string => !!email)),
+    ];
+    // Deleted accounts keep their email until purged, so they are looked up too
+    const leaders =
+      leaderEmails.length > 0
+        ? await this.prisma.user.findMany({
+            where: { email: { in: leaderEmails, mode: 'insensitive' }, deletedAt: undefined },
+            select: { id: true, email: true, role: true, isActive: true, deletedAt: true },
+          })
+        : [];
+    const leadersByEmail = new Map(leaders.map((leader) => [leader.email!.toLowerCase(), leader]));
+
+    // Rows are checked in order, so later rows also clash with earlier ones
+    const otherMembers = await this.loadOtherTeamMembers(tournament.id);
+    const usedNumbers = new Set(
+      manualNumbers
+        ? (
+            await this.prisma.team.findMany({
+              where: { tournamentId: tournament.id, deletedAt: undefined },
+              select: { teamNumber: true },
+            })
+          ).map((team) => team.teamNumber)
+        : [],
+    );
+    const previewRows: TeamImportRowResult[] = rows.map(({ row, values, data, errors }) => {
+      const leader = data?.leaderEmail ? leadersByEmail.get(data.leaderEmail) : undefined;
+
+      if (data) {
+        const members = this.buildImportedMembers(data);
+        errors.push(...this.memberRuleErrors(tournament, members, otherMembers));
+        if (manualNumbers && !data.teamNumber) {
+          errors.push('teamNumber: required because the tournament uses manual team numbers');
+        } else if (!manualNumbers && data.teamNumber) {
+          errors.push('teamNumber: numbers are assigned automatically for this tournament');
+        } else if (data.teamNumber && usedNumbers.has(data.teamNumber)) {
+          errors.push(`teamNumber: ${data.teamNumber} is already in use`);
+        }
+        if (leader && (leader.deletedAt || !leader.isActive)) {
+          errors.push(`Leader email ${data.leaderEmail} belongs to a deleted or deactivated account`);
+        }
+        if (errors.length === 0) {
+          otherMembers.push(...members.map((member) => ({ ...member, teamNumber: data.teamName })));
+          if (data.teamNumber) {
+            usedNumbers.add(data.teamNumber);
+          }
         }
       }
 
-      if (teamsToCreate.length === 0) {
-        throw new BadRequestException(`No valid teams to import. Errors: ${errors.join('; ')}`);
+      return {
+        row,
+        teamName: data?.teamName ?? values.teamName ?? '',
+        teamNumber: data?.teamNumber ?? null,
+        leaderEmail: data?.leaderEmail ?? values.leaderEmail ?? null,
+        owner: !data?.leaderEmail ? 'importer' : leader ? 'existing' : 'new',
+        memberCount: data?.numberOfMembers ?? null,
+        errors,
+      };
+    });
+
+    const invalid = previewRows.filter((row) => row.errors.length > 0).length;
+    const report: TeamImportReport = {
+      dryRun,
+      total: previewRows.length,
+      valid: previewRows.length - invalid,
+      invalid,
+      rows: previewRows,
+    };
+
+    if (dryRun) {
+      return report;
+    }
+    if (report.valid === 0) {
+      throw new BadRequestException({ message: 'No valid teams to import', ...report });
+    }
+
+    const createdTeams: any[] = [];
+    const creationErrors: string[] = [];
+
+    for (const [index, { row, data }] of rows.entries()) {
+      if (previewRows[index].errors.length > 0 || !data) {
+        continue;
       }
 
-      const createdTeams: any[] = [];
-      const creationErrors: string[] = [];
-
-      for (const teamData of teamsToCreate) {
-        try {
-          // Create team members based on numberOfMembers
-          const teamMembers: any[] = [];
-          for (let i = 1; i <= teamData.numberOfMembers; i++) {
-            // Create dummy team member data
-            const memberName = i === 1 && teamData.email
-              ? `Team Leader ${teamData.teamName}`
-              : `Member ${i} - ${teamData.teamName}`;
-
-            teamMembers.push({
-              name: memberName,
-              email: i === 1 ? teamData.email : undefined, // Only first member gets the email
-              phoneNumber: undefined,
-              gender: i % 2 === 0 ? 'MALE' : 'FEMALE', // Alternate genders for variety
-              province: teamData.location || 'Unknown',
-              ward: 'Default Ward',
-              organization: teamData.schoolOrganization || 'Unknown Organization',
-              organizationAddress: teamData.location || 'Unknown Address',
+      let newLeaderId: string | undefined;
+      try {
+        let ownerId = importedById;
+        const leader = data.leaderEmail ? leadersByEmail.get(data.leaderEmail) : undefined;
+
+        if (leader) {
+          ownerId = leader.id;
+          if (leader.role === UserRole.COMMON) {
+            await this.prisma.user.update({
+              where: { id: leader.id },
+              data: { role: UserRole.TEAM_LEADER },
             });
+            leader.role = UserRole.TEAM_LEADER;
           }
+        } else if (data.leaderEmail) {
+          const account = await this.createLeaderAccount(data.leaderEmail, data.leaderName, importedById);
+          ownerId = newLeaderId = account.id;
+          leadersByEmail.set(data.leaderEmail, account);
+        }
 
-          // Create team using the normal registration process
-          const createTeamDto: CreateTeamDto = {
-            name: teamData.teamName,
-            userId: adminUser.id,
-            tournamentId: tournamentId,
+        const createdTeam = await this.createTeam(
+          {
+            name: data.teamName,
+            teamNumber: data.teamNumber,
+            userId: ownerId,
+            tournamentId: tournament.id,
             referralSource: 'CSV Import',
-            teamMembers: teamMembers,
-          };
-
-          const createdTeam = await this.createTeam(createTeamDto);
-
-          createdTeams.push({
-            ...createdTeam,
-            teamMemberCount: createdTeam.teamMembers?.length || 0,
-          });
+            teamMembers: this.buildImportedMembers(data),
+          },
+          { approve: true },
+        );
 
-        } catch (error) {
-          creationErrors.push(`Team "${teamData.teamName}" (line ${teamData.lineNumber}): ${error.message}`);
+        createdTeams.push({
+          ...createdTeam,
+          teamMemberCount: createdTeam.teamMembers?.length || 0,
+        });
+      } catch (error) {
+        // Do not leave behind a leader account for a team that was not created
+        if (newLeaderId) {
+          await this.prisma.user.delete({ where: { id: newLeaderId } }).catch(() => undefined);
+          leadersByEmail.delete(data.leaderEmail!);
         }
+        creationErrors.push(`Team "${data.teamName}" (row ${row}): ${error.message}`);
       }
+    }
 
-      const result = {
-        success: creationErrors.length === 0,
-        message: `Successfully imported ${createdTeams.length} teams${creationErrors.length > 0 ? ` with ${creationErrors.length} errors` : ''}`,
-        teams: createdTeams,
-        totalParsed: teamsToCreate.length,
-        totalCreated: createdTeams.length,
-        errors: [...errors, ...creationErrors],
-      };
+    const errors = [
+      ...previewRows.flatMap((row) => row.errors.map((error) => `Row ${row.row}: ${error}`)),
+      ...creationErrors,
+    ];
+    return {
+      ...report,
+      success: errors.length === 0,
+      message: `Successfully imported ${createdTeams.length} teams${errors.length > 0 ? ` with ${errors.length} errors` : ''}`,
+      teams: createdTeams,
+      totalParsed: report.valid,
+      totalCreated: createdTeams.length,
+      errors,
+    };
+  }
 
-      if (creationErrors.length > 0) {
-        result.message += `. Errors: ${creationErrors.join('; ')}`;
-      }
+  /**
+   * Placeholder members for an imported team. The leader email, when given,
+   * goes to the first member.
+   */
+  private buildImportedMembers(data: TeamImportDataDto): CreateTeamMemberDto[] {
+    return Array.from({ length: data.numberOfMembers }, (_, index): CreateTeamMemberDto => {
+      const isLeader = index === 0 && !!data.leaderEmail;
+      return {
+        name: isLeader
+          ? data.leaderName || `Team Leader ${data.teamName}`
+          : `Member ${index + 1} - ${data.teamName}`,
+        email: isLeader ? data.leaderEmail : undefined,
+        phoneNumber: undefined,
+        gender: index % 2 === 0 ? Gender.FEMALE : Gender.MALE, // Alternate genders for variety
+        province: data.location || 'Unknown',
+        ward: 'Default Ward',
+        organization: data.schoolOrganization || 'Unknown Organization',
+        organizationAddress: data.location || 'Unknown Address',
+      };
+    });
+  }
 
-      return result;
+  /**
+   * Create a TEAM_LEADER account for an imported team and email the
+   * generated credentials
+   */
+  private async createLeaderAccount(email: string, name: string | undefined, createdById: string) {
+    const username = await this.generateLeaderUsername(email);
+    const password = randomBytes(9).toString('base64url') + 'Aa1';
+
+    const account = await this.prisma.user.create({
+      data: {
+        username,
+        name: name || username,
+        email,
+        password: await bcrypt.hash(password, this.bcryptRounds),
+        role: UserRole.TEAM_LEADER,
+        createdById,
+      },
+      select: { id: true, email: true, role: true, isActive: true, deletedAt: true },
+    });
 
+    try {
+      await this.emailService.sendBulkUserCreationEmail(
+        email,
+        username,
+        password,
+        UserRole.TEAM_LEADER,
+        `${process.env.FRONTEND_URL || 'http://localhost:3000'}/login`,
+      );
     } catch (error) {
-      if (error instanceof BadRequestException) throw error;
-      throw new BadRequestException(`Failed to import teams: ${error.message}`);
+      this.logger.warn(`Failed to send account email to imported team leader ${email}: ${error.message}`);
     }
+    return account;
+  }
+
+  /** Username from the email's local part, with a number added when taken */
+  private async generateLeaderUsername(email: string): Promise<string> {
+    const base = (email.split('@')[0].replace(/[^a-zA-Z0-9_-]/g, '') || 'leader')
+      .slice(0, 40)
+      .padEnd(3, '0');
+    const taken = await this.prisma.user.findMany({
+      where: { username: { startsWith: base }, deletedAt: undefined },
+      select: { username: true },
+    });
+    const usernames = new Set(taken.map((user) => user.username));
+
+    let username = base;
+    for (let suffix = 2; usernames.has(username); suffix++) {
+      username = `${base}${suffix}`;
+    }
+    return username;
   }
 
   /**
@@ -590,12 +1316,29 @@ export class TeamsService {
     // Verify tournament exists
     const tournament = await this.prisma.tournament.findUnique({
       where: { id: tournamentId },
-      select: { id: true, name: true },
+      select: { id: true, name: true, minTeamMembers: true, maxTeamMembers: true, status: true },
     });
 
     if (!tournament) {
       throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
     }
+    assertTournamentStatus(tournament, TEAM_REGISTRATION_STATUSES, 'create teams');
+
+    // 2-4 members per team, kept within the tournament's limits
+    const minMembers = Math.max(tournament.minTeamMembers ?? 2, 1);
+    const maxMembers = Math.max(tournament.maxTeamMembers ?? Math.max(minMembers, 4), minMembers);
+
+    // Generated contacts must not clash with members already in the tournament
+    const existingMembers = await this.prisma.teamMember.findMany({
+      where: { team: { tournamentId } },
+      select: { email: true, phoneNumber: true },
+    });
+    const usedContacts = new Set(
+      existingMembers.flatMap((member) => [
+        normalizeEmail(member.email),
+        normalizePhone(member.phoneNumber),
+      ]),
+    );
 
     // Random data generators
     const teamNamePrefixes = [
@@ -660,11 +1403,11 @@ export class TeamsService {
       for (let i = 0; i < numberOfTeams; i++) {
         // Generate random team data
         const teamName = `${teamNamePrefixes[Math.floor(Math.random() * teamNamePrefixes.length)]} ${Math.floor(Math.random() * 1000)}`;
-        const teamNumber = await this.generateNextTeamNumber(tournamentId);
+        const teamNumber = await this.allocateTeamNumber(tournamentId);
         const referralSource = referralSources[Math.floor(Math.random() * referralSources.length)];
 
-        // Generate random team members (2-4 members per team)
-        const memberCount = Math.floor(Math.random() * 3) + 2; // 2-4 members
+        // Generate random team members
+        const memberCount = minMembers + Math.floor(Math.random() * (maxMembers - minMembers + 1));
         const teamMembers: any[] = [];
 
         for (let j = 0; j < memberCount; j++) {
@@ -676,11 +1419,20 @@ export class TeamsService {
           const organization = organizations[Math.floor(Math.random() * organizations.length)];
           const gender = Math.random() > 0.5 ? 'MALE' : 'FEMALE';
 
+          let phoneNumber: string;
+          let email: string;
+          do {
+            phoneNumber = `09${Math.floor(Math.random() * 100000000).toString().padStart(8, '0')}`;
+            email = `${firstName.toLowerCase()}${lastName.toLowerCase()}${Math.floor(Math.random() * 100000)}@email.com`;
+          } while (usedContacts.has(normalizePhone(phoneNumber)) || usedContacts.has(normalizeEmail(email)));
+          usedContacts.add(normalizePhone(phoneNumber));
+          usedContacts.add(normalizeEmail(email));
+
           teamMembers.push({
             name: fullName,
             gender: gender as Gender,
-            phoneNumber: `09${Math.floor(Math.random() * 100000000).toString().padStart(8, '0')}`,
-            email: `${firstName.toLowerCase()}${lastName.toLowerCase()}${Math.floor(Math.random() * 1000)}@email.com`,
+            phoneNumber,
+            email,
             province: province,
             ward: ward,
             organization: organization,
@@ -696,6 +1448,7 @@ export class TeamsService {
             tournamentId,
             userId: adminUser.id,
             referralSource,
+            registrationStatus: TeamRegistrationStatus.APPROVED,
             teamMembers: {
               create: teamMembers,
             },
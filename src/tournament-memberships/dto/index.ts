@@ -0,0 +1 @@
+export * from './tournament-membership.dto';
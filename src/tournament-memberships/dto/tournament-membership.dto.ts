@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { TournamentRole } from '../../utils/prisma-types';
+
+export const AddTournamentMemberSchema = z.object({
+  userId: z.string().uuid('User ID must be a valid UUID'),
+  role: z.nativeEnum(TournamentRole),
+});
+
+export const UpdateTournamentMemberSchema = z.object({
+  role: z.nativeEnum(TournamentRole),
+});
+
+export class AddTournamentMemberDto extends createZodDto(AddTournamentMemberSchema) {}
+export class UpdateTournamentMemberDto extends createZodDto(UpdateTournamentMemberSchema) {}
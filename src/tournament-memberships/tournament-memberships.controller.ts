@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { TournamentRoles } from '../auth/tournament-roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { TournamentRole } from '../utils/prisma-types';
+import { TournamentMembershipsService, MembershipActor } from './tournament-memberships.service';
+import { AddTournamentMemberDto, UpdateTournamentMemberDto } from './dto';
+import { Audited } from '../audit/audited.decorator';
+
+@Controller('tournaments/:tournamentId/members')
+@Audited('tournamentMembership', { idParam: 'userId' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@TournamentRoles([TournamentRole.OWNER, TournamentRole.ORGANIZER])
+export class TournamentMembershipsController {
+  constructor(private readonly membershipsService: TournamentMembershipsService) {}
+
+  @Get()
+  findAll(@Param('tournamentId', ParseUUIDPipe) tournamentId: string) {
+    return this.membershipsService.findAll(tournamentId);
+  }
+
+  @Post()
+  add(
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+    @Body() addMemberDto: AddTournamentMemberDto,
+    @CurrentUser() user: MembershipActor,
+  ) {
+    return this.membershipsService.add(tournamentId, addMemberDto, user);
+  }
+
+  @Patch(':userId')
+  updateRole(
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() updateMemberDto: UpdateTournamentMemberDto,
+    @CurrentUser() user: MembershipActor,
+  ) {
+    return this.membershipsService.updateRole(tournamentId, userId, updateMemberDto, user);
+  }
+
+  @Delete(':userId')
+  remove(
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: MembershipActor,
+  ) {
+    return this.membershipsService.remove(tournamentId, userId, user);
+  }
+}
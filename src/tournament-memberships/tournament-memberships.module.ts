@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { TournamentResolverService } from '../common/services/tournament-resolver.service';
+import { TournamentMembershipsService } from './tournament-memberships.service';
+import { TournamentMembershipsController } from './tournament-memberships.controller';
+
+/**
+ * Global so RolesGuard and JwtAuthGuard can check tournament access in every module
+ */
+@Global()
+@Module({
+  controllers: [TournamentMembershipsController],
+  providers: [TournamentMembershipsService, TournamentResolverService, PrismaService],
+  exports: [TournamentMembershipsService, TournamentResolverService],
+})
+export class TournamentMembershipsModule {}
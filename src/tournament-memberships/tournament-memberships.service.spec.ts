@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { TournamentMembershipsService } from './tournament-memberships.service';
+import { PrismaService } from '../prisma.service';
+import { TournamentRole, UserRole } from '../utils/prisma-types';
+
+describe('TournamentMembershipsService', () => {
+  let service: TournamentMembershipsService;
+  let mockPrisma: DeepMockProxy<PrismaService>;
+
+  const tournament = { id: 't1', adminId: 'owner-1' };
+  const organizer = { id: 'org-1', role: UserRole.COMMON };
+  const membership = (userId: string, role: TournamentRole) => ({
+    id: `m-${userId}`,
+    tournamentId: 't1',
+    userId,
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    mockPrisma = mockDeep<PrismaService>();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TournamentMembershipsService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<TournamentMembershipsService>(TournamentMembershipsService);
+    mockPrisma.tournament.findUnique.mockResolvedValue(tournament as any);
+  });
+
+  describe('add', () => {
+    it('should add a co-organizer', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u2' } as any);
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(null);
+
+      await service.add('t1', { userId: 'u2', role: TournamentRole.ORGANIZER }, organizer);
+
+      expect(mockPrisma.tournamentMembership.create).toHaveBeenCalledWith({
+        data: { tournamentId: 't1', userId: 'u2', role: TournamentRole.ORGANIZER },
+      });
+    });
+
+    it('should not let organizers grant ownership', async () => {
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('org-1', TournamentRole.ORGANIZER) as any,
+      );
+
+      await expect(
+        service.add('t1', { userId: 'u2', role: TournamentRole.OWNER }, organizer),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject users who are already members', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u2' } as any);
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('u2', TournamentRole.HEAD_REFEREE) as any,
+      );
+
+      await expect(
+        service.add('t1', { userId: 'u2', role: TournamentRole.ORGANIZER }, organizer),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('remove', () => {
+    const admin = { id: 'admin', role: UserRole.ADMIN };
+
+    it('should refuse to remove the last owner', async () => {
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('owner-1', TournamentRole.OWNER) as any,
+      );
+      mockPrisma.tournamentMembership.findFirst.mockResolvedValue(null);
+
+      await expect(service.remove('t1', 'owner-1', admin)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.tournamentMembership.delete).not.toHaveBeenCalled();
+    });
+
+    it('should hand adminId to another owner when the admin leaves', async () => {
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('owner-1', TournamentRole.OWNER) as any,
+      );
+      mockPrisma.tournamentMembership.findFirst.mockResolvedValue(
+        membership('owner-2', TournamentRole.OWNER) as any,
+      );
+
+      await service.remove('t1', 'owner-1', admin);
+
+      expect(mockPrisma.tournament.update).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        data: { adminId: 'owner-2' },
+      });
+      expect(mockPrisma.tournamentMembership.delete).toHaveBeenCalledWith({
+        where: { id: 'm-owner-1' },
+      });
+    });
+  });
+
+  describe('transferAdmin', () => {
+    it('should make the new admin an owner alongside the adminId change', async () => {
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('owner-1', TournamentRole.OWNER) as any,
+      );
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'org-2' } as any);
+
+      await service.transferAdmin('t1', 'org-2', { id: 'owner-1', role: UserRole.COMMON });
+
+      expect(mockPrisma.tournamentMembership.upsert).toHaveBeenCalledWith({
+        where: { tournamentId_userId: { tournamentId: 't1', userId: 'org-2' } },
+        update: { role: TournamentRole.OWNER },
+        create: { tournamentId: 't1', userId: 'org-2', role: TournamentRole.OWNER },
+      });
+      expect(mockPrisma.tournament.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 't1' }, data: { adminId: 'org-2' } }),
+      );
+    });
+
+    it('should not let organizers take over the tournament', async () => {
+      mockPrisma.tournamentMembership.findUnique.mockResolvedValue(
+        membership('org-1', TournamentRole.ORGANIZER) as any,
+      );
+
+      await expect(service.transferAdmin('t1', 'org-1', organizer)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrisma.tournament.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { Prisma } from '../../generated/prisma';
+import { TournamentRole, UserRole } from '../utils/prisma-types';
+import { AddTournamentMemberDto, UpdateTournamentMemberDto } from './dto';
+
+export interface MembershipActor {
+  id: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class TournamentMembershipsService {
+  constructor(private prisma: PrismaService) {}
+
+  async getRole(tournamentId: string, userId: string): Promise<TournamentRole | null> {
+    const membership = await this.prisma.tournamentMembership.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId } },
+      select: { role: true },
+    });
+    return membership?.role ?? null;
+  }
+
+  async findAll(tournamentId: string) {
+    await this.getTournamentOrThrow(tournamentId);
+
+    return this.prisma.tournamentMembership.findMany({
+      where: { tournamentId },
+      include: {
+        user: { select: { id: true, username: true, email: true, role: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async add(tournamentId: string, dto: AddTournamentMemberDto, actor: MembershipActor) {
+    await this.getTournamentOrThrow(tournamentId);
+    if (dto.role === TournamentRole.OWNER) {
+      await this.assertCanManageOwners(tournamentId, actor);
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: dto.userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    }
+
+    const existing = await this.getRole(tournamentId, dto.userId);
+    if (existing) {
+      throw new ConflictException(`User is already a ${existing} of this tournament`);
+    }
+
+    return this.prisma.tournamentMembership.create({
+      data: { tournamentId, userId: dto.userId, role: dto.role },
+    });
+  }
+
+  async updateRole(
+    tournamentId: string,
+    userId: string,
+    dto: UpdateTournamentMemberDto,
+    actor: MembershipActor,
+  ) {
+    const tournament = await this.getTournamentOrThrow(tournamentId);
+    const current = await this.getMembershipOrThrow(tournamentId, userId);
+
+    if (current.role === dto.role) {
+      return current;
+    }
+    if (current.role === TournamentRole.OWNER || dto.role === TournamentRole.OWNER) {
+      await this.assertCanManageOwners(tournamentId, actor);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (current.role === TournamentRole.OWNER) {
+        await this.handOverOwnership(tx, tournament, userId);
+      }
+      return tx.tournamentMembership.update({
+        where: { id: current.id },
+        data: { role: dto.role },
+      });
+    });
+  }
+
+  async remove(tournamentId: string, userId: string, actor: MembershipActor) {
+    const tournament = await this.getTournamentOrThrow(tournamentId);
+    const current = await this.getMembershipOrThrow(tournamentId, userId);
+
+    if (current.role === TournamentRole.OWNER) {
+      await this.assertCanManageOwners(tournamentId, actor);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (current.role === TournamentRole.OWNER) {
+        await this.handOverOwnership(tx, tournament, userId);
+      }
+      await tx.tournamentMembership.delete({ where: { id: current.id } });
+    });
+
+    return { message: 'Member removed from tournament' };
+  }
+
+  /**
+   * Point Tournament.adminId at `userId`, making them an owner in the same
+   * transaction. The previous admin keeps their membership.
+   */
+  async transferAdmin(tournamentId: string, userId: string, actor: MembershipActor) {
+    const tournament = await this.getTournamentOrThrow(tournamentId);
+    if (tournament.adminId === userId) {
+      return tournament;
+    }
+    await this.assertCanManageOwners(tournamentId, actor);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.tournamentMembership.upsert({
+        where: { tournamentId_userId: { tournamentId, userId } },
+        update: { role: TournamentRole.OWNER },
+        create: { tournamentId, userId, role: TournamentRole.OWNER },
+      });
+      return tx.tournament.update({
+        where: { id: tournamentId },
+        data: { adminId: userId },
+        select: { id: true, adminId: true },
+      });
+    });
+  }
+
+  /**
+   * An owner is stepping down. Refuse if they are the last one, and point
+   * Tournament.adminId at another owner if it referenced them.
+   */
+  private async handOverOwnership(
+    tx: Prisma.TransactionClient,
+    tournament: { id: string; adminId: string },
+    userId: string,
+  ) {
+    const successor = await tx.tournamentMembership.findFirst({
+      where: {
+        tournamentId: tournament.id,
+        role: TournamentRole.OWNER,
+        userId: { not: userId },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!successor) {
+      throw new BadRequestException('A tournament must keep at least one owner');
+    }
+
+    if (tournament.adminId === userId) {
+      await tx.tournament.update({
+        where: { id: tournament.id },
+        data: { adminId: successor.userId },
+      });
+    }
+  }
+
+  private async assertCanManageOwners(tournamentId: string, actor: MembershipActor) {
+    if (actor.role === UserRole.ADMIN) {
+      return;
+    }
+    if ((await this.getRole(tournamentId, actor.id)) !== TournamentRole.OWNER) {
+      throw new ForbiddenException('Only tournament owners can manage owners');
+    }
+  }
+
+  private async getTournamentOrThrow(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { id: true, adminId: true },
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+    return tournament;
+  }
+
+  private async getMembershipOrThrow(tournamentId: string, userId: string) {
+    const membership = await this.prisma.tournamentMembership.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId } },
+    });
+    if (!membership) {
+      throw new NotFoundException('User is not a member of this tournament');
+    }
+    return membership;
+  }
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const DuplicateTournamentSchema = z.object({
+  name: z.string().trim().min(1, 'Tournament name is required').max(200),
+  // Days to move every date by, e.g. 364 to keep the weekdays a year later
+  dateOffsetDays: z.number().int().min(-3660).max(3660).default(0),
+  // Copy the teams and their members too; stats and stage progress are not copied
+  includeTeams: z.boolean().default(false),
+});
+
+export class DuplicateTournamentDto extends createZodDto(DuplicateTournamentSchema) {}
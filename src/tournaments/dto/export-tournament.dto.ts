@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { TOURNAMENT_EXPORT_SECTIONS } from '../tournament-export';
+
+export const ExportTournamentQuerySchema = z.object({
+  // excel and xlsx are the same workbook; json is the re-importable archive
+  format: z.enum(['csv', 'excel', 'xlsx', 'json']).default('csv'),
+  // A CSV file holds one section; the workbook has a sheet for each
+  section: z.enum(TOURNAMENT_EXPORT_SECTIONS).default('teams'),
+});
+
+export class ExportTournamentQueryDto extends createZodDto(ExportTournamentQuerySchema) {}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import {
+  AllianceColor,
+  ElementType,
+  Gender,
+  MatchRoundType,
+  MatchState,
+  MatchType,
+  StageStatus,
+  StageType,
+  TeamNumberMode,
+  TeamRegistrationStatus,
+  TournamentStatus,
+  UserRole,
+} from '../../utils/prisma-types';
+import { TOURNAMENT_ARCHIVE_FORMAT } from '../tournament-archive';
+
+// Form fields sent next to the uploaded archive file
+export const ImportTournamentSchema = z.object({
+  // Import into this existing tournament instead of creating a new one
+  tournamentId: z.string().uuid('Invalid tournament ID format').optional(),
+  // Name of the new tournament; defaults to the name in the archive
+  name: z.string().trim().min(1).max(200).optional(),
+  // Check the archive and report conflicts without importing anything.
+  // Multipart fields arrive as strings.
+  dryRun: z.preprocess((value) => value === true || value === 'true', z.boolean()),
+});
+
+export class ImportTournamentDto extends createZodDto(ImportTournamentSchema) {}
+
+// Read before the full schema, so an unsupported version gets a clear error
+export const TournamentArchiveHeaderSchema = z.object({
+  format: z.literal(TOURNAMENT_ARCHIVE_FORMAT, {
+    errorMap: () => ({ message: `Not a tournament archive; expected format "${TOURNAMENT_ARCHIVE_FORMAT}"` }),
+  }),
+  version: z.number().int().positive(),
+});
+
+const id = z.string().min(1);
+const date = z.coerce.date();
+const nullableDate = z.coerce.date().nullable();
+const json = z.unknown();
+
+const conditionSchema = z.object({
+  id,
+  name: z.string(),
+  code: z.string(),
+  description: z.string().nullable(),
+  condition: json,
+  displayOrder: z.number().int(),
+});
+
+// Version 1 of the archive written by TournamentArchiveService.exportArchive
+export const TournamentArchiveV1Schema = TournamentArchiveHeaderSchema.extend({
+  exportedAt: date,
+  tournament: z.object({
+    id,
+    name: z.string().min(1),
+    description: z.string().nullable(),
+    startDate: date,
+    endDate: date,
+    registrationDeadline: nullableDate,
+    numberOfFields: z.number().int(),
+    maxTeams: z.number().int().nullable(),
+    maxTeamMembers: z.number().int().nullable(),
+    minTeamMembers: z.number().int().nullable(),
+    teamNumberMode: z.nativeEnum(TeamNumberMode),
+    teamNumberPrefix: z.string().nullable(),
+    teamNumberPadding: z.number().int(),
+    teamNumberStart: z.number().int(),
+    nextTeamNumber: z.number().int(),
+    // Missing from archives written before the tournament lifecycle existed
+    status: z.nativeEnum(TournamentStatus).optional(),
+    statusChangedAt: date.optional(),
+    // Missing from archives written before tournament settings existed
+    settings: z.object({ settings: json }).nullable().optional(),
+  }),
+  users: z.array(
+    z.object({ id, username: z.string(), email: z.string().nullable(), name: z.string() }),
+  ),
+  scoreConfigs: z.array(
+    z.object({
+      id,
+      name: z.string(),
+      description: z.string().nullable(),
+      scoreElements: z.array(
+        z.object({
+          id,
+          name: z.string(),
+          code: z.string(),
+          description: z.string().nullable(),
+          pointsPerUnit: z.number().int(),
+          category: z.string().nullable(),
+          elementType: z.nativeEnum(ElementType),
+          displayOrder: z.number().int(),
+          icon: z.string().nullable(),
+          color: z.string().nullable(),
+        }),
+      ),
+      bonusConditions: z.array(conditionSchema.extend({ bonusPoints: z.number().int() })),
+      penaltyConditions: z.array(conditionSchema.extend({ penaltyPoints: z.number().int() })),
+    }),
+  ),
+  fields: z.array(
+    z.object({
+      id,
+      name: z.string(),
+      number: z.number().int(),
+      location: z.string().nullable(),
+      description: z.string().nullable(),
+      fieldReferees: z.array(z.object({ userId: id, isHeadRef: z.boolean() })),
+    }),
+  ),
+  stages: z.array(
+    z.object({
+      id,
+      name: z.string(),
+      description: z.string().nullable(),
+      type: z.nativeEnum(StageType),
+      status: z.nativeEnum(StageStatus),
+      startDate: date,
+      endDate: date,
+      teamsPerAlliance: z.number().int(),
+      maxTeams: z.number().int().nullable(),
+      isElimination: z.boolean(),
+      advancementRules: z.string().nullable(),
+    }),
+  ),
+  teams: z.array(
+    z.object({
+      id,
+      teamNumber: z.string().min(1),
+      name: z.string(),
+      userId: id,
+      currentStageId: id.nullable(),
+      referralSource: z.string(),
+      registrationStatus: z.nativeEnum(TeamRegistrationStatus),
+      registrationStatusReason: z.string().nullable(),
+      registrationStatusChangedAt: date,
+      robotName: z.string().nullable(),
+      description: z.string().nullable(),
+      primaryColor: z.string().nullable(),
+      secondaryColor: z.string().nullable(),
+      links: json,
+      createdAt: date,
+      deletedAt: nullableDate,
+      teamMembers: z.array(
+        z.object({
+          id,
+          name: z.string(),
+          gender: z.nativeEnum(Gender).nullable(),
+          phoneNumber: z.string().nullable(),
+          email: z.string().nullable(),
+          province: z.string(),
+          ward: z.string(),
+          organization: z.string().nullable(),
+          organizationAddress: z.string().nullable(),
+          userId: id.nullable(),
+        }),
+      ),
+    }),
+  ),
+  matches: z.array(
+    z.object({
+      id,
+      stageId: id,
+      matchNumber: z.number().int(),
+      roundNumber: z.number().int().nullable(),
+      roundType: z.nativeEnum(MatchRoundType).nullable(),
+      matchType: z.nativeEnum(MatchType),
+      status: z.nativeEnum(MatchState),
+      scheduledTime: nullableDate,
+      startTime: nullableDate,
+      endTime: nullableDate,
+      duration: z.number().int().nullable(),
+      matchDuration: z.number().int().nullable(),
+      winningAlliance: z.nativeEnum(AllianceColor).nullable(),
+      fieldId: id.nullable(),
+      scoredById: id.nullable(),
+      bracketSlot: z.number().int().nullable(),
+      feedsIntoMatchId: id.nullable(),
+      loserFeedsIntoMatchId: id.nullable(),
+      recordBucket: z.string().nullable(),
+      alliances: z.array(
+        z.object({
+          id,
+          color: z.nativeEnum(AllianceColor),
+          score: z.number().int(),
+          autoScore: z.number().int(),
+          driveScore: z.number().int(),
+          teamAlliances: z.array(
+            z.object({ teamId: id, stationPosition: z.number().int(), isSurrogate: z.boolean() }),
+          ),
+          matchScores: z.array(
+            z.object({ scoreElementId: id, units: z.number().int(), totalPoints: z.number().int() }),
+          ),
+        }),
+      ),
+      scoreDetails: z.object({ scoreDetails: json }).nullable(),
+      referees: z.array(
+        z.object({ userId: id, role: z.nativeEnum(UserRole), position: z.string().nullable() }),
+      ),
+    }),
+  ),
+  teamStats: z.array(
+    z.object({
+      teamId: id,
+      stageId: id.nullable(),
+      wins: z.number().int(),
+      losses: z.number().int(),
+      ties: z.number().int(),
+      pointsScored: z.number().int(),
+      pointsConceded: z.number().int(),
+      matchesPlayed: z.number().int(),
+      rankingPoints: z.number().int(),
+      opponentWinPercentage: z.number(),
+      pointDifferential: z.number().int(),
+      rank: z.number().int().nullable(),
+      tiebreaker1: z.number(),
+      tiebreaker2: z.number(),
+    }),
+  ),
+});
+
+export type TournamentArchiveV1 = z.infer<typeof TournamentArchiveV1Schema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+
+export const TIEBREAKERS = [
+  'OPPONENT_WIN_PERCENTAGE',
+  'POINT_DIFFERENTIAL',
+  'POINTS_SCORED',
+  'WINS',
+] as const;
+
+export const PLAYOFF_FORMATS = ['SINGLE_ELIMINATION'] as const;
+
+const seconds = z.number().int().min(10).max(900);
+const points = z.number().int().min(-10).max(10);
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #1E40AF')
+  .nullable();
+
+// Every field is required here; stored settings are merged over the defaults first
+export const TournamentSettingsSchema = z.object({
+  // Match length in seconds per match type
+  matchDurations: z.object({
+    FULL: seconds,
+    TELEOP_ENDGAME: seconds,
+  }),
+  // Minutes from the start of one scheduled match to the next
+  cycleTimeMinutes: z.number().int().min(1).max(120),
+  rankingPoints: z.object({ win: points, tie: points, loss: points }),
+  // Applied in order after ranking points
+  tiebreakers: z
+    .array(z.enum(TIEBREAKERS))
+    .min(1)
+    .refine((list) => new Set(list).size === list.length, {
+      message: 'Each tiebreaker may appear only once',
+    }),
+  playoff: z.object({
+    format: z.enum(PLAYOFF_FORMATS),
+    // Used when a playoff is generated without a round count
+    rounds: z.number().int().min(1).max(6),
+  }),
+  branding: z.object({
+    displayName: z.string().trim().min(1).max(100).nullable(),
+    logoUrl: z.string().trim().url('Invalid URL').nullable(),
+    primaryColor: hexColor,
+    secondaryColor: hexColor,
+  }),
+  registration: z.object({
+    // Approve new teams on registration instead of waiting for an admin
+    autoApprove: z.boolean(),
+    // Waitlist teams once `maxTeams` is reached; otherwise refuse them
+    waitlist: z.boolean(),
+  }),
+});
+
+export const UpdateTournamentSettingsSchema = TournamentSettingsSchema.deepPartial().extend({
+  // Version the client last read; a mismatch means someone else saved in between
+  version: z.number().int().min(0).optional(),
+});
+
+export type TournamentSettingsData = z.infer<typeof TournamentSettingsSchema>;
+export type Tiebreaker = (typeof TIEBREAKERS)[number];
+
+export class UpdateTournamentSettingsDto extends createZodDto(UpdateTournamentSettingsSchema) {}
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { createZodDto } from 'nestjs-zod';
+import { TournamentStatus } from '../../utils/prisma-types';
+
+export const ChangeTournamentStatusSchema = z.object({
+  status: z.nativeEnum(TournamentStatus),
+  // Shown to clients with the broadcast transition
+  reason: z.string().trim().max(500).optional(),
+  // ADMIN only: skip the transition table and its checks
+  force: z.boolean().default(false),
+});
+
+export class ChangeTournamentStatusDto extends createZodDto(ChangeTournamentStatusSchema) {}
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
+import { TournamentArchiveService } from './tournament-archive.service';
+import { PrismaService } from '../prisma.service';
+import { TOURNAMENT_ARCHIVE_FORMAT, TOURNAMENT_ARCHIVE_VERSION } from './tournament-archive';
+
+describe('TournamentArchiveService', () => {
+  let service: TournamentArchiveService;
+  let prisma: DeepMockProxy<PrismaService>;
+
+  beforeEach(async () => {
+    prisma = mockDeep<PrismaService>();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TournamentArchiveService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+    service = module.get<TournamentArchiveService>(TournamentArchiveService);
+
+    prisma.scoreConfig.findMany.mockResolvedValue([]);
+    prisma.stage.findMany.mockResolvedValue([]);
+    prisma.teamStats.findMany.mockResolvedValue([]);
+    prisma.user.findMany.mockResolvedValue([]);
+  });
+
+  it('should throw when the tournament does not exist', async () => {
+    prisma.tournament.findUnique.mockResolvedValue(null);
+
+    await expect(service.exportArchive('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should include deleted teams and every referenced account', async () => {
+    prisma.tournament.findUnique.mockResolvedValue({ id: 't1', name: 'Robot Cup' } as any);
+    prisma.field.findMany.mockResolvedValue([
+      { id: 'f1', fieldReferees: [{ userId: 'ref1', isHeadRef: true }] },
+    ] as any);
+    prisma.team.findMany.mockResolvedValue([
+      { id: 'team1', userId: 'owner1', teamMembers: [{ id: 'm1', userId: 'member1' }, { id: 'm2', userId: null }] },
+    ] as any);
+    prisma.match.findMany.mockResolvedValue([
+      { id: 'match1', scoredById: 'owner1', referees: [{ userId: 'ref2', role: 'ALLIANCE_REFEREE' }] },
+    ] as any);
+
+    const archive = await service.exportArchive('t1');
+
+    expect(prisma.team.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tournamentId: 't1', deletedAt: undefined } }),
+    );
+    const userQuery = prisma.user.findMany.mock.calls[0][0] as any;
+    expect(userQuery.where.id.in.sort()).toEqual(['member1', 'owner1', 'ref1', 'ref2']);
+    expect(archive).toEqual(
+      expect.objectContaining({
+        format: TOURNAMENT_ARCHIVE_FORMAT,
+        version: TOURNAMENT_ARCHIVE_VERSION,
+        tournament: { id: 't1', name: 'Robot Cup' },
+      }),
+    );
+    expect(archive.teams).toHaveLength(1);
+    expect(archive.matches).toHaveLength(1);
+  });
+
+  describe('importArchive', () => {
+    const archive = {
+      format: TOURNAMENT_ARCHIVE_FORMAT,
+      version: TOURNAMENT_ARCHIVE_VERSION,
+      exportedAt: '2026-10-19T10:00:00.000Z',
+      tournament: {
+        id: 'old-t',
+        name: 'Robot Cup',
+        description: null,
+        startDate: '2026-10-01T00:00:00.000Z',
+        endDate: '2026-10-02T00:00:00.000Z',
+        registrationDeadline: null,
+        numberOfFields: 1,
+        maxTeams: null,
+        maxTeamMembers: null,
+        minTeamMembers: null,
+        teamNumberMode: 'SEQUENTIAL',
+        teamNumberPrefix: 'RC',
+        teamNumberPadding: 3,
+        teamNumberStart: 1,
+        status: 'COMPLETED',
+        statusChangedAt: '2026-10-02T18:00:00.000Z',
+        nextTeamNumber: 2,
+      },
+      users: [
+        { id: 'old-lead', username: 'lead', email: 'lead@example.com', name: 'Lead' },
+        { id: 'old-ref', username: 'gone', email: null, name: 'Gone' },
+      ],
+      scoreConfigs: [],
+      fields: [
+        {
+          id: 'old-f',
+          name: 'Field 1',
+          number: 1,
+          location: null,
+          description: null,
+          fieldReferees: [{ userId: 'old-ref', isHeadRef: true }],
+        },
+      ],
+      stages: [
+        {
+          id: 'old-s',
+          name: 'Qualification',
+          description: null,
+          type: 'SWISS',
+          status: 'ACTIVE',
+          startDate: '2026-10-01T00:00:00.000Z',
+          endDate: '2026-10-02T00:00:00.000Z',
+          teamsPerAlliance: 1,
+          maxTeams: null,
+          isElimination: false,
+          advancementRules: null,
+        },
+      ],
+      teams: [
+        {
+          id: 'old-team',
+          teamNumber: 'RC001',
+          name: 'Alpha',
+          userId: 'old-lead',
+          currentStageId: 'old-s',
+          referralSource: 'import',
+          registrationStatus: 'APPROVED',
+          registrationStatusReason: null,
+          registrationStatusChangedAt: '2026-09-01T00:00:00.000Z',
+          robotName: null,
+          description: null,
+          primaryColor: null,
+          secondaryColor: null,
+          links: null,
+          createdAt: '2026-09-01T00:00:00.000Z',
+          deletedAt: null,
+          teamMembers: [],
+        },
+      ],
+      matches: [
+        {
+          id: 'old-m',
+          stageId: 'old-s',
+          matchNumber: 1,
+          roundNumber: 1,
+          roundType: 'SWISS',
+          matchType: 'FULL',
+          status: 'COMPLETED',
+          scheduledTime: null,
+          startTime: null,
+          endTime: null,
+          duration: null,
+          matchDuration: null,
+          winningAlliance: 'RED',
+          fieldId: 'old-f',
+          scoredById: 'old-ref',
+          bracketSlot: null,
+          feedsIntoMatchId: null,
+          loserFeedsIntoMatchId: null,
+          recordBucket: null,
+          alliances: [
+            {
+              id: 'old-a',
+              color: 'RED',
+              score: 10,
+              autoScore: 0,
+              driveScore: 10,
+              teamAlliances: [{ teamId: 'old-team', stationPosition: 1, isSurrogate: false }],
+              matchScores: [],
+            },
+          ],
+          scoreDetails: { scoreDetails: { fouls: 0 } },
+          referees: [],
+        },
+      ],
+      teamStats: [],
+    };
+    const upload = (content: unknown) =>
+      ({ buffer: Buffer.from(JSON.stringify(content)) }) as Express.Multer.File;
+
+    beforeEach(() => {
+      prisma.user.findMany.mockResolvedValue([
+        { id: 'lead', username: 'lead', email: 'lead@example.com' },
+      ] as any);
+      prisma.$transaction.mockImplementation((fn: any) => fn(prisma));
+    });
+
+    it('should reject archives of another version', async () => {
+      await expect(
+        service.importArchive(upload({ ...archive, version: 99 }), { dryRun: false }, 'admin'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report team numbers already used in the target tournament', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 'target' } as any);
+      prisma.team.findMany.mockResolvedValue([{ teamNumber: 'RC001' }] as any);
+      prisma.field.findMany.mockResolvedValue([]);
+
+      const report = await service.importArchive(
+        upload(archive),
+        { tournamentId: 'target', dryRun: true },
+        'admin',
+      );
+
+      expect(report.conflicts).toEqual(['Team number RC001 already exists in the tournament']);
+      expect(report.warnings).toHaveLength(1);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+
+      await expect(
+        service.importArchive(upload(archive), { tournamentId: 'target', dryRun: false }, 'admin'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should recreate the tournament with new IDs and local accounts', async () => {
+      const report = await service.importArchive(upload(archive), { dryRun: false }, 'admin');
+
+      const created = prisma.tournament.create.mock.calls[0][0].data as any;
+      expect(created).toEqual(
+        expect.objectContaining({
+          name: 'Robot Cup',
+          adminId: 'admin',
+          status: 'COMPLETED',
+          statusChangedAt: new Date('2026-10-02T18:00:00.000Z'),
+        }),
+      );
+      expect(created.id).not.toBe('old-t');
+      expect(report.tournamentId).toBe(created.id);
+
+      const team = (prisma.team.createMany.mock.calls[0][0] as any).data[0];
+      const stage = (prisma.stage.createMany.mock.calls[0][0] as any).data[0];
+      expect(team).toEqual(
+        expect.objectContaining({ tournamentId: created.id, userId: 'lead', currentStageId: stage.id }),
+      );
+      const match = (prisma.match.createMany.mock.calls[0][0] as any).data[0];
+      expect(match).toEqual(expect.objectContaining({ stageId: stage.id, scoredById: null }));
+      expect((prisma.teamAlliance.createMany.mock.calls[0][0] as any).data[0].teamId).toBe(team.id);
+      // The referee's account does not exist here
+      expect((prisma.fieldReferee.createMany.mock.calls[0][0] as any).data).toEqual([]);
+    });
+  });
+
+  describe('duplicateTournament', () => {
+    const source = {
+      tournament: {
+        id: 't1',
+        name: 'League 2026',
+        startDate: new Date('2026-01-10T00:00:00Z'),
+        endDate: new Date('2026-01-11T00:00:00Z'),
+        registrationDeadline: null,
+        teamNumberStart: 1,
+        nextTeamNumber: 12,
+        status: 'COMPLETED',
+        statusChangedAt: new Date('2026-01-11T18:00:00Z'),
+      },
+      users: [{ id: 'ref1', username: 'ref', email: null, name: 'Ref' }],
+      scoreConfigs: [],
+      fields: [{ id: 'f1', number: 1, name: 'Field 1', fieldReferees: [{ userId: 'ref1', isHeadRef: true }] }],
+      stages: [
+        {
+          id: 's1',
+          name: 'Qualification',
+          status: 'COMPLETED',
+          startDate: new Date('2026-01-10T00:00:00Z'),
+          endDate: new Date('2026-01-10T12:00:00Z'),
+        },
+      ],
+      teams: [
+        { id: 'team1', teamNumber: 'L001', userId: 'ref1', currentStageId: 's1', deletedAt: null, teamMembers: [] },
+        { id: 'team2', teamNumber: 'L002', userId: 'ref1', currentStageId: null, deletedAt: new Date(), teamMembers: [] },
+      ],
+      matches: [{ id: 'm1' }],
+      teamStats: [{ teamId: 'team1' }],
+    };
+
+    beforeEach(() => {
+      jest.spyOn(service, 'exportArchive').mockResolvedValue(source as any);
+      prisma.$transaction.mockImplementation((fn: any) => fn(prisma));
+    });
+
+    it('should copy the structure with shifted dates and without results', async () => {
+      await service.duplicateTournament(
+        't1',
+        { name: 'League 2027', dateOffsetDays: 364, includeTeams: false },
+        'manager1',
+      );
+
+      const created = prisma.tournament.create.mock.calls[0][0].data as any;
+      expect(created).toEqual(
+        expect.objectContaining({
+          name: 'League 2027',
+          adminId: 'manager1',
+          memberships: { create: { userId: 'manager1', role: 'OWNER' } },
+          startDate: new Date('2027-01-09T00:00:00Z'),
+          nextTeamNumber: 1,
+          status: 'DRAFT',
+        }),
+      );
+      expect(created.statusChangedAt.getTime()).toBeGreaterThan(source.tournament.statusChangedAt.getTime());
+      expect((prisma.stage.createMany.mock.calls[0][0] as any).data[0]).toEqual(
+        expect.objectContaining({ status: 'ACTIVE', startDate: new Date('2027-01-09T00:00:00Z') }),
+      );
+      expect((prisma.fieldReferee.createMany.mock.calls[0][0] as any).data).toEqual([
+        expect.objectContaining({ userId: 'ref1', isHeadRef: true }),
+      ]);
+      expect((prisma.team.createMany.mock.calls[0][0] as any).data).toEqual([]);
+      expect((prisma.match.createMany.mock.calls[0][0] as any).data).toEqual([]);
+      expect((prisma.teamStats.createMany.mock.calls[0][0] as any).data).toEqual([]);
+    });
+
+    it('should copy active teams outside any stage when asked', async () => {
+      await service.duplicateTournament(
+        't1',
+        { name: 'League 2027', dateOffsetDays: 0, includeTeams: true },
+        'manager1',
+      );
+
+      const teams = (prisma.team.createMany.mock.calls[0][0] as any).data;
+      expect(teams).toEqual([expect.objectContaining({ teamNumber: 'L001', currentStageId: null })]);
+      expect((prisma.tournament.create.mock.calls[0][0].data as any).nextTeamNumber).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,656 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../prisma.service';
+import { StageStatus, TournamentRole, TournamentStatus } from '../utils/prisma-types';
+import {
+  ImportTournamentDto,
+  TournamentArchiveHeaderSchema,
+  TournamentArchiveV1,
+  TournamentArchiveV1Schema,
+} from './dto/import-tournament.dto';
+import { DuplicateTournamentDto } from './dto/duplicate-tournament.dto';
+import {
+  ARCHIVE_FIELD_SELECT,
+  ARCHIVE_MATCH_SELECT,
+  ARCHIVE_SCORE_CONFIG_SELECT,
+  ARCHIVE_STAGE_SELECT,
+  ARCHIVE_TEAM_SELECT,
+  ARCHIVE_TEAM_STATS_SELECT,
+  ARCHIVE_TOURNAMENT_SELECT,
+  ARCHIVE_USER_SELECT,
+  TOURNAMENT_ARCHIVE_FORMAT,
+  TOURNAMENT_ARCHIVE_VERSION,
+  TournamentArchive,
+} from './tournament-archive';
+import {
+  resolveTournamentSettings,
+  TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+} from './tournament-settings';
+
+// Large events write tens of thousands of rows
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TournamentImportReport {
+  dryRun: boolean;
+  /** The created tournament, or the one imported into; null for a dry run of a new one */
+  tournamentId: string | null;
+  version: number;
+  counts: {
+    scoreConfigs: number;
+    fields: number;
+    stages: number;
+    teams: number;
+    teamMembers: number;
+    matches: number;
+    teamStats: number;
+  };
+  /** Problems that stop the import */
+  conflicts: string[];
+  /** Data that is imported differently, e.g. accounts that do not exist here */
+  warnings: string[];
+}
+
+@Injectable()
+export class TournamentArchiveService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Collect the whole tournament into a versioned archive. Soft-deleted teams
+   * are included, since past matches and stats still reference them.
+   */
+  async exportArchive(tournamentId: string): Promise<TournamentArchive> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: ARCHIVE_TOURNAMENT_SELECT,
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+
+    const [scoreConfigs, fields, stages, teams, matches, teamStats] = await Promise.all([
+      this.prisma.scoreConfig.findMany({
+        where: { tournamentId },
+        select: ARCHIVE_SCORE_CONFIG_SELECT,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.field.findMany({
+        where: { tournamentId },
+        select: ARCHIVE_FIELD_SELECT,
+        orderBy: { number: 'asc' },
+      }),
+      this.prisma.stage.findMany({
+        where: { tournamentId },
+        select: ARCHIVE_STAGE_SELECT,
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.team.findMany({
+        where: { tournamentId, deletedAt: undefined },
+        select: ARCHIVE_TEAM_SELECT,
+        orderBy: { teamNumber: 'asc' },
+      }),
+      this.prisma.match.findMany({
+        where: { stage: { tournamentId } },
+        select: ARCHIVE_MATCH_SELECT,
+        orderBy: [{ stage: { startDate: 'asc' } }, { matchNumber: 'asc' }],
+      }),
+      this.prisma.teamStats.findMany({
+        where: { tournamentId },
+        select: ARCHIVE_TEAM_STATS_SELECT,
+        orderBy: [{ stageId: 'asc' }, { rank: 'asc' }],
+      }),
+    ]);
+
+    const userIds = new Set<string>();
+    const addUser = (id: string | null) => id && userIds.add(id);
+    teams.forEach((team) => {
+      addUser(team.userId);
+      team.teamMembers.forEach((member) => addUser(member.userId));
+    });
+    fields.forEach((field) => field.fieldReferees.forEach((referee) => addUser(referee.userId)));
+    matches.forEach((match) => {
+      addUser(match.scoredById);
+      match.referees.forEach((referee) => addUser(referee.userId));
+    });
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [...userIds] }, deletedAt: undefined },
+      select: ARCHIVE_USER_SELECT,
+      orderBy: { username: 'asc' },
+    });
+
+    return {
+      format: TOURNAMENT_ARCHIVE_FORMAT,
+      version: TOURNAMENT_ARCHIVE_VERSION,
+      exportedAt: new Date(),
+      tournament,
+      users,
+      scoreConfigs,
+      fields,
+      stages,
+      teams,
+      matches,
+      teamStats,
+    };
+  }
+
+  /**
+   * Rebuild a tournament from an archive in one transaction, as a new
+   * tournament or into an existing one. Every record gets a new ID. Accounts
+   * are matched by username, then email; the archive carries no passwords.
+   */
+  async importArchive(
+    file: Express.Multer.File | undefined,
+    dto: ImportTournamentDto,
+    importedById: string,
+  ): Promise<TournamentImportReport> {
+    if (!file) {
+      throw new BadRequestException('A tournament archive is required in the "file" field');
+    }
+    const archive = this.parseArchive(file.buffer);
+
+    let targetId: string | null = null;
+    if (dto.tournamentId) {
+      const target = await this.prisma.tournament.findUnique({
+        where: { id: dto.tournamentId },
+        select: { id: true },
+      });
+      if (!target) {
+        throw new NotFoundException(`Tournament with ID ${dto.tournamentId} not found`);
+      }
+      targetId = target.id;
+    }
+
+    const conflicts = this.findReferenceConflicts(archive);
+    if (targetId) {
+      conflicts.push(...(await this.findTargetConflicts(targetId, archive)));
+    }
+    const warnings: string[] = [];
+    const users = await this.matchUsers(archive.users, warnings);
+
+    const report: TournamentImportReport = {
+      dryRun: dto.dryRun,
+      tournamentId: targetId,
+      version: archive.version,
+      counts: {
+        scoreConfigs: archive.scoreConfigs.length,
+        fields: archive.fields.length,
+        stages: archive.stages.length,
+        teams: archive.teams.length,
+        teamMembers: archive.teams.reduce((sum, team) => sum + team.teamMembers.length, 0),
+        matches: archive.matches.length,
+        teamStats: archive.teamStats.length,
+      },
+      conflicts,
+      warnings,
+    };
+
+    if (dto.dryRun) {
+      return report;
+    }
+    if (conflicts.length > 0) {
+      throw new ConflictException({ message: 'The archive conflicts with existing data', ...report });
+    }
+
+    const tournamentId = await this.prisma.$transaction(
+      (tx) =>
+        this.writeArchive(tx, archive, users, {
+          targetId,
+          name: dto.name,
+          ownerId: importedById,
+        }),
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+    );
+    return { ...report, tournamentId };
+  }
+
+  /**
+   * Copy a tournament as a template for its next edition: settings, score
+   * configs, fields with their referees, and stages, with every date moved by
+   * `dateOffsetDays`. Matches, stats and results are left behind; the team
+   * roster is copied only on request. Whoever makes the copy owns it.
+   */
+  async duplicateTournament(
+    tournamentId: string,
+    dto: DuplicateTournamentDto,
+    duplicatedById: string,
+  ) {
+    const source = await this.exportArchive(tournamentId);
+
+    const shift = (date: Date) => new Date(date.getTime() + dto.dateOffsetDays * DAY_MS);
+    const teams = dto.includeTeams
+      ? source.teams
+          .filter((team) => !team.deletedAt)
+          .map((team) => ({ ...team, currentStageId: null }))
+      : [];
+    const template: TournamentArchiveV1 = {
+      ...source,
+      tournament: {
+        ...source.tournament,
+        startDate: shift(source.tournament.startDate),
+        endDate: shift(source.tournament.endDate),
+        registrationDeadline:
+          source.tournament.registrationDeadline && shift(source.tournament.registrationDeadline),
+        // Without teams the sequence starts over
+        nextTeamNumber: dto.includeTeams
+          ? source.tournament.nextTeamNumber
+          : source.tournament.teamNumberStart,
+        // The next edition starts over, even when the source is completed
+        status: TournamentStatus.DRAFT,
+        statusChangedAt: new Date(),
+      },
+      stages: source.stages.map((stage) => ({
+        ...stage,
+        status: StageStatus.ACTIVE,
+        startDate: shift(stage.startDate),
+        endDate: shift(stage.endDate),
+      })),
+      teams,
+      matches: [],
+      teamStats: [],
+    };
+
+    // Same server, so every account maps to itself
+    const users = new Map(source.users.map((user) => [user.id, user.id]));
+    const id = await this.prisma.$transaction(
+      (tx) =>
+        this.writeArchive(tx, template, users, {
+          targetId: null,
+          name: dto.name,
+          ownerId: duplicatedById,
+        }),
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+    );
+    return this.prisma.tournament.findUnique({ where: { id } });
+  }
+
+  private parseArchive(buffer: Buffer): TournamentArchiveV1 {
+    let data: unknown;
+    try {
+      data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    } catch {
+      throw new BadRequestException('The archive is not valid JSON');
+    }
+
+    const header = TournamentArchiveHeaderSchema.safeParse(data);
+    if (!header.success) {
+      throw new BadRequestException({
+        message: 'Invalid tournament archive',
+        errors: header.error.issues.map((issue) => issue.message),
+      });
+    }
+    if (header.data.version !== TOURNAMENT_ARCHIVE_VERSION) {
+      throw new BadRequestException(
+        `Archive version ${header.data.version} is not supported; this server reads version ${TOURNAMENT_ARCHIVE_VERSION}`,
+      );
+    }
+
+    const parsed = TournamentArchiveV1Schema.safeParse(data);
+    if (!parsed.success) {
+      throw new BadRequestException({
+        message: 'Invalid tournament archive',
+        errors: parsed.error.issues
+          .slice(0, 20)
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Duplicate numbers and references to records missing from the archive
+   */
+  private findReferenceConflicts(archive: TournamentArchiveV1): string[] {
+    const conflicts: string[] = [];
+    const stageIds = new Set(archive.stages.map((stage) => stage.id));
+    const fieldIds = new Set(archive.fields.map((field) => field.id));
+    const teamIds = new Set(archive.teams.map((team) => team.id));
+    const matchIds = new Set(archive.matches.map((match) => match.id));
+    const elementIds = new Set(
+      archive.scoreConfigs.flatMap((config) => config.scoreElements.map((element) => element.id)),
+    );
+    const stageNames = new Map(archive.stages.map((stage) => [stage.id, stage.name]));
+
+    const duplicates = (values: (string | number)[]) =>
+      [...new Set(values.filter((value, index) => values.indexOf(value) !== index))];
+    for (const number of duplicates(archive.teams.map((team) => team.teamNumber))) {
+      conflicts.push(`Team number ${number} appears more than once in the archive`);
+    }
+    for (const number of duplicates(archive.fields.map((field) => field.number))) {
+      conflicts.push(`Field number ${number} appears more than once in the archive`);
+    }
+
+    for (const team of archive.teams) {
+      if (team.currentStageId && !stageIds.has(team.currentStageId)) {
+        conflicts.push(`Team ${team.teamNumber} is in a stage missing from the archive`);
+      }
+    }
+    for (const match of archive.matches) {
+      const label = `Match ${match.matchNumber}${stageNames.has(match.stageId) ? ` of ${stageNames.get(match.stageId)}` : ''}`;
+      const missing = [
+        !stageIds.has(match.stageId) && 'stage',
+        match.fieldId && !fieldIds.has(match.fieldId) && 'field',
+        match.feedsIntoMatchId && !matchIds.has(match.feedsIntoMatchId) && 'next match',
+        match.loserFeedsIntoMatchId && !matchIds.has(match.loserFeedsIntoMatchId) && 'loser match',
+        match.alliances.some((alliance) =>
+          alliance.teamAlliances.some((entry) => !teamIds.has(entry.teamId)),
+        ) && 'team',
+        match.alliances.some((alliance) =>
+          alliance.matchScores.some((score) => !elementIds.has(score.scoreElementId)),
+        ) && 'score element',
+      ].filter(Boolean);
+      if (missing.length > 0) {
+        conflicts.push(`${label} references a ${missing.join(', ')} missing from the archive`);
+      }
+    }
+    for (const stats of archive.teamStats) {
+      if (!teamIds.has(stats.teamId) || (stats.stageId && !stageIds.has(stats.stageId))) {
+        conflicts.push('Team stats reference a team or stage missing from the archive');
+        break;
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Team and field numbers already used in the tournament being imported into.
+   * Deleted teams count, since they keep their number until purged.
+   */
+  private async findTargetConflicts(
+    tournamentId: string,
+    archive: TournamentArchiveV1,
+  ): Promise<string[]> {
+    const [teams, fields] = await Promise.all([
+      this.prisma.team.findMany({
+        where: {
+          tournamentId,
+          teamNumber: { in: archive.teams.map((team) => team.teamNumber) },
+          deletedAt: undefined,
+        },
+        select: { teamNumber: true },
+      }),
+      this.prisma.field.findMany({
+        where: { tournamentId, number: { in: archive.fields.map((field) => field.number) } },
+        select: { number: true },
+      }),
+    ]);
+    return [
+      ...teams.map((team) => `Team number ${team.teamNumber} already exists in the tournament`),
+      ...fields.map((field) => `Field number ${field.number} already exists in the tournament`),
+    ];
+  }
+
+  /**
+   * Map archived account IDs to accounts on this server
+   */
+  private async matchUsers(
+    archived: TournamentArchiveV1['users'],
+    warnings: string[],
+  ): Promise<Map<string, string>> {
+    const matches = new Map<string, string>();
+    if (archived.length === 0) {
+      return matches;
+    }
+
+    const emails = archived.map((user) => user.email).filter((email): email is string => !!email);
+    const local = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { username: { in: archived.map((user) => user.username) } },
+          { email: { in: emails, mode: 'insensitive' } },
+        ],
+      },
+      select: { id: true, username: true, email: true },
+    });
+    const byUsername = new Map(local.map((user) => [user.username, user.id]));
+    const byEmail = new Map(
+      local.filter((user) => user.email).map((user) => [user.email!.toLowerCase(), user.id]),
+    );
+
+    for (const user of archived) {
+      const id = byUsername.get(user.username) ?? (user.email && byEmail.get(user.email.toLowerCase()));
+      if (id) {
+        matches.set(user.id, id);
+      } else {
+        warnings.push(
+          `No account matches ${user.username}${user.email ? ` (${user.email})` : ''}: ` +
+            'its teams are assigned to the importer, and its referee assignments and member links are dropped',
+        );
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Create every record in the archive under a new ID. `users` maps archived
+   * account IDs to local ones; teams of unmapped accounts go to the owner.
+   */
+  private async writeArchive(
+    tx: Prisma.TransactionClient,
+    archive: TournamentArchiveV1,
+    users: Map<string, string>,
+    options: { targetId: string | null; name?: string; ownerId: string },
+  ): Promise<string> {
+    const newIds = (records: { id: string }[]) =>
+      new Map(records.map((record) => [record.id, randomUUID()]));
+    const configIds = newIds(archive.scoreConfigs);
+    const elementIds = newIds(archive.scoreConfigs.flatMap((config) => config.scoreElements));
+    const fieldIds = newIds(archive.fields);
+    const stageIds = newIds(archive.stages);
+    const teamIds = newIds(archive.teams);
+    const matchIds = newIds(archive.matches);
+    const allianceIds = newIds(archive.matches.flatMap((match) => match.alliances));
+    const remap = (ids: Map<string, string>, id: string | null) => (id ? ids.get(id)! : null);
+
+    let tournamentId = options.targetId;
+    if (!tournamentId) {
+      const { id: _id, settings, ...tournament } = archive.tournament;
+      tournamentId = randomUUID();
+      await tx.tournament.create({
+        data: {
+          ...tournament,
+          id: tournamentId,
+          name: options.name ?? tournament.name,
+          adminId: options.ownerId,
+          memberships: {
+            create: { userId: options.ownerId, role: TournamentRole.OWNER },
+          },
+          ...(settings && {
+            settings: {
+              create: {
+                settings: resolveTournamentSettings(settings.settings),
+                schemaVersion: TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+              },
+            },
+          }),
+        },
+      });
+    }
+
+    await tx.scoreConfig.createMany({
+      data: archive.scoreConfigs.map((config) => ({
+        id: configIds.get(config.id)!,
+        tournamentId,
+        name: config.name,
+        description: config.description,
+      })),
+    });
+    await tx.scoreElement.createMany({
+      data: archive.scoreConfigs.flatMap((config) =>
+        config.scoreElements.map(({ id, ...element }) => ({
+          ...element,
+          id: elementIds.get(id)!,
+          scoreConfigId: configIds.get(config.id)!,
+        })),
+      ),
+    });
+    await tx.bonusCondition.createMany({
+      data: archive.scoreConfigs.flatMap((config) =>
+        config.bonusConditions.map(({ id: _id, condition, ...bonus }) => ({
+          ...bonus,
+          condition: condition as Prisma.InputJsonValue,
+          scoreConfigId: configIds.get(config.id)!,
+        })),
+      ),
+    });
+    await tx.penaltyCondition.createMany({
+      data: archive.scoreConfigs.flatMap((config) =>
+        config.penaltyConditions.map(({ id: _id, condition, ...penalty }) => ({
+          ...penalty,
+          condition: condition as Prisma.InputJsonValue,
+          scoreConfigId: configIds.get(config.id)!,
+        })),
+      ),
+    });
+
+    await tx.field.createMany({
+      data: archive.fields.map(({ id, fieldReferees: _referees, ...field }) => ({
+        ...field,
+        id: fieldIds.get(id)!,
+        tournamentId,
+      })),
+    });
+    await tx.fieldReferee.createMany({
+      data: archive.fields.flatMap((field) =>
+        field.fieldReferees
+          .filter((referee) => users.has(referee.userId))
+          .map((referee) => ({
+            fieldId: fieldIds.get(field.id)!,
+            userId: users.get(referee.userId)!,
+            isHeadRef: referee.isHeadRef,
+          })),
+      ),
+      // Two archived accounts may match the same local one
+      skipDuplicates: true,
+    });
+
+    await tx.stage.createMany({
+      data: archive.stages.map(({ id, ...stage }) => ({
+        ...stage,
+        id: stageIds.get(id)!,
+        tournamentId,
+      })),
+    });
+
+    await tx.team.createMany({
+      data: archive.teams.map(({ id, teamMembers: _members, links, ...team }) => ({
+        ...team,
+        id: teamIds.get(id)!,
+        tournamentId,
+        userId: users.get(team.userId) ?? options.ownerId,
+        currentStageId: remap(stageIds, team.currentStageId),
+        links: links == null ? Prisma.DbNull : (links as Prisma.InputJsonValue),
+      })),
+    });
+    await tx.teamMember.createMany({
+      data: archive.teams.flatMap((team) =>
+        team.teamMembers.map(({ id: _id, ...member }) => ({
+          ...member,
+          teamId: teamIds.get(team.id)!,
+          userId: member.userId ? (users.get(member.userId) ?? null) : null,
+        })),
+      ),
+    });
+
+    // Bracket links point at other imported matches, so they are set once all exist
+    await tx.match.createMany({
+      data: archive.matches.map(
+        ({
+          id,
+          alliances: _alliances,
+          scoreDetails: _scoreDetails,
+          referees: _referees,
+          feedsIntoMatchId: _feedsInto,
+          loserFeedsIntoMatchId: _loserFeedsInto,
+          ...match
+        }) => ({
+          ...match,
+          id: matchIds.get(id)!,
+          stageId: stageIds.get(match.stageId)!,
+          fieldId: remap(fieldIds, match.fieldId),
+          scoredById: match.scoredById ? (users.get(match.scoredById) ?? null) : null,
+        }),
+      ),
+    });
+    for (const match of archive.matches) {
+      if (match.feedsIntoMatchId || match.loserFeedsIntoMatchId) {
+        await tx.match.update({
+          where: { id: matchIds.get(match.id)! },
+          data: {
+            feedsIntoMatchId: remap(matchIds, match.feedsIntoMatchId),
+            loserFeedsIntoMatchId: remap(matchIds, match.loserFeedsIntoMatchId),
+          },
+        });
+      }
+    }
+
+    const alliances = archive.matches.flatMap((match) =>
+      match.alliances.map((alliance) => ({ match, alliance })),
+    );
+    await tx.alliance.createMany({
+      data: alliances.map(({ match, alliance: { id, teamAlliances: _teams, matchScores: _scores, ...alliance } }) => ({
+        ...alliance,
+        id: allianceIds.get(id)!,
+        matchId: matchIds.get(match.id)!,
+      })),
+    });
+    await tx.teamAlliance.createMany({
+      data: alliances.flatMap(({ alliance }) =>
+        alliance.teamAlliances.map((entry) => ({
+          ...entry,
+          teamId: teamIds.get(entry.teamId)!,
+          allianceId: allianceIds.get(alliance.id)!,
+        })),
+      ),
+    });
+    await tx.matchScore.createMany({
+      data: alliances.flatMap(({ match, alliance }) =>
+        alliance.matchScores.map((score) => ({
+          matchId: matchIds.get(match.id)!,
+          allianceId: allianceIds.get(alliance.id)!,
+          scoreElementId: elementIds.get(score.scoreElementId)!,
+          units: score.units,
+          totalPoints: score.totalPoints,
+        })),
+      ),
+    });
+    await tx.matchScoreDetail.createMany({
+      data: archive.matches
+        .filter((match) => match.scoreDetails)
+        .map((match) => ({
+          matchId: matchIds.get(match.id)!,
+          scoreDetails: match.scoreDetails!.scoreDetails as Prisma.InputJsonValue,
+        })),
+    });
+    await tx.matchReferee.createMany({
+      data: archive.matches.flatMap((match) =>
+        match.referees
+          .filter((referee) => users.has(referee.userId))
+          .map((referee) => ({
+            ...referee,
+            matchId: matchIds.get(match.id)!,
+            userId: users.get(referee.userId)!,
+          })),
+      ),
+      skipDuplicates: true,
+    });
+
+    await tx.teamStats.createMany({
+      data: archive.teamStats.map((stats) => ({
+        ...stats,
+        tournamentId,
+        teamId: teamIds.get(stats.teamId)!,
+        stageId: remap(stageIds, stats.stageId),
+      })),
+    });
+
+    return tournamentId;
+  }
+}
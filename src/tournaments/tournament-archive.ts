@@ -0,0 +1,223 @@
+import { Prisma } from '../../generated/prisma';
+
+export const TOURNAMENT_ARCHIVE_FORMAT = 'rms-tournament-archive';
+
+/**
+ * Bump when the archive layout changes in a way older importers cannot read,
+ * and keep the importer able to read every version still in circulation
+ */
+export const TOURNAMENT_ARCHIVE_VERSION = 1;
+
+export const TOURNAMENT_ARCHIVE_MAX_BYTES = 50 * 1024 * 1024;
+
+export const ARCHIVE_TOURNAMENT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  startDate: true,
+  endDate: true,
+  registrationDeadline: true,
+  numberOfFields: true,
+  maxTeams: true,
+  maxTeamMembers: true,
+  minTeamMembers: true,
+  teamNumberMode: true,
+  teamNumberPrefix: true,
+  teamNumberPadding: true,
+  teamNumberStart: true,
+  nextTeamNumber: true,
+  status: true,
+  statusChangedAt: true,
+  settings: { select: { settings: true } },
+} satisfies Prisma.TournamentSelect;
+
+export const ARCHIVE_USER_SELECT = {
+  id: true,
+  username: true,
+  email: true,
+  name: true,
+} satisfies Prisma.UserSelect;
+
+const CONDITION_SELECT = {
+  id: true,
+  name: true,
+  code: true,
+  description: true,
+  condition: true,
+  displayOrder: true,
+} as const;
+
+export const ARCHIVE_SCORE_CONFIG_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  scoreElements: {
+    select: {
+      id: true,
+      name: true,
+      code: true,
+      description: true,
+      pointsPerUnit: true,
+      category: true,
+      elementType: true,
+      displayOrder: true,
+      icon: true,
+      color: true,
+    },
+    orderBy: { displayOrder: 'asc' },
+  },
+  bonusConditions: {
+    select: { ...CONDITION_SELECT, bonusPoints: true },
+    orderBy: { displayOrder: 'asc' },
+  },
+  penaltyConditions: {
+    select: { ...CONDITION_SELECT, penaltyPoints: true },
+    orderBy: { displayOrder: 'asc' },
+  },
+} satisfies Prisma.ScoreConfigSelect;
+
+export const ARCHIVE_FIELD_SELECT = {
+  id: true,
+  name: true,
+  number: true,
+  location: true,
+  description: true,
+  fieldReferees: {
+    select: { userId: true, isHeadRef: true },
+    orderBy: [{ isHeadRef: 'desc' }, { createdAt: 'asc' }],
+  },
+} satisfies Prisma.FieldSelect;
+
+export const ARCHIVE_STAGE_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  type: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  teamsPerAlliance: true,
+  maxTeams: true,
+  isElimination: true,
+  advancementRules: true,
+} satisfies Prisma.StageSelect;
+
+// Logos are not included: the archive carries data, not uploaded files
+export const ARCHIVE_TEAM_SELECT = {
+  id: true,
+  teamNumber: true,
+  name: true,
+  userId: true,
+  currentStageId: true,
+  referralSource: true,
+  registrationStatus: true,
+  registrationStatusReason: true,
+  registrationStatusChangedAt: true,
+  robotName: true,
+  description: true,
+  primaryColor: true,
+  secondaryColor: true,
+  links: true,
+  createdAt: true,
+  deletedAt: true,
+  teamMembers: {
+    select: {
+      id: true,
+      name: true,
+      gender: true,
+      phoneNumber: true,
+      email: true,
+      province: true,
+      ward: true,
+      organization: true,
+      organizationAddress: true,
+      userId: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.TeamSelect;
+
+export const ARCHIVE_MATCH_SELECT = {
+  id: true,
+  stageId: true,
+  matchNumber: true,
+  roundNumber: true,
+  roundType: true,
+  matchType: true,
+  status: true,
+  scheduledTime: true,
+  startTime: true,
+  endTime: true,
+  duration: true,
+  matchDuration: true,
+  winningAlliance: true,
+  fieldId: true,
+  scoredById: true,
+  bracketSlot: true,
+  feedsIntoMatchId: true,
+  loserFeedsIntoMatchId: true,
+  recordBucket: true,
+  alliances: {
+    select: {
+      id: true,
+      color: true,
+      score: true,
+      autoScore: true,
+      driveScore: true,
+      teamAlliances: {
+        select: { teamId: true, stationPosition: true, isSurrogate: true },
+        orderBy: { stationPosition: 'asc' },
+      },
+      matchScores: {
+        select: {
+          scoreElementId: true,
+          units: true,
+          totalPoints: true,
+          scoreElement: { select: { code: true, name: true } },
+        },
+      },
+    },
+    orderBy: { color: 'asc' },
+  },
+  scoreDetails: { select: { scoreDetails: true } },
+  referees: {
+    select: { userId: true, role: true, position: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.MatchSelect;
+
+export const ARCHIVE_TEAM_STATS_SELECT = {
+  teamId: true,
+  stageId: true,
+  wins: true,
+  losses: true,
+  ties: true,
+  pointsScored: true,
+  pointsConceded: true,
+  matchesPlayed: true,
+  rankingPoints: true,
+  opponentWinPercentage: true,
+  pointDifferential: true,
+  rank: true,
+  tiebreaker1: true,
+  tiebreaker2: true,
+} satisfies Prisma.TeamStatsSelect;
+
+/**
+ * Everything needed to rebuild a tournament elsewhere. Records keep their
+ * original IDs so references between them can be remapped on import; `users`
+ * lists every account referenced, so they can be matched by username or email.
+ */
+export interface TournamentArchive {
+  format: typeof TOURNAMENT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  tournament: Prisma.TournamentGetPayload<{ select: typeof ARCHIVE_TOURNAMENT_SELECT }>;
+  users: Prisma.UserGetPayload<{ select: typeof ARCHIVE_USER_SELECT }>[];
+  scoreConfigs: Prisma.ScoreConfigGetPayload<{ select: typeof ARCHIVE_SCORE_CONFIG_SELECT }>[];
+  fields: Prisma.FieldGetPayload<{ select: typeof ARCHIVE_FIELD_SELECT }>[];
+  stages: Prisma.StageGetPayload<{ select: typeof ARCHIVE_STAGE_SELECT }>[];
+  teams: Prisma.TeamGetPayload<{ select: typeof ARCHIVE_TEAM_SELECT }>[];
+  matches: Prisma.MatchGetPayload<{ select: typeof ARCHIVE_MATCH_SELECT }>[];
+  teamStats: Prisma.TeamStatsGetPayload<{ select: typeof ARCHIVE_TEAM_STATS_SELECT }>[];
+}
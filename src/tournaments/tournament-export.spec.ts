@@ -0,0 +1,71 @@
+import { buildTournamentExportSheets } from './tournament-export';
+import { TournamentArchive } from './tournament-archive';
+
+describe('buildTournamentExportSheets', () => {
+  const archive = {
+    users: [{ id: 'u1', username: 'lead', email: 'lead@example.com', name: 'Lead' }],
+    stages: [{ id: 's1', name: 'Qualification' }],
+    fields: [{ id: 'f1', name: 'Field 1', number: 1, fieldReferees: [{ userId: 'u1', isHeadRef: true }] }],
+    teams: [
+      { id: 't1', teamNumber: 'RC001', name: 'Alpha', userId: 'u1', currentStageId: 's1', teamMembers: [] },
+      { id: 't2', teamNumber: 'RC002', name: 'Beta', userId: 'u1', currentStageId: null, teamMembers: [] },
+    ],
+    matches: [
+      {
+        id: 'm1',
+        stageId: 's1',
+        matchNumber: 3,
+        fieldId: 'f1',
+        winningAlliance: 'RED',
+        alliances: [
+          {
+            color: 'RED',
+            score: 30,
+            teamAlliances: [{ teamId: 't1', stationPosition: 1, isSurrogate: false }],
+            matchScores: [{ units: 3, totalPoints: 30, scoreElement: { code: 'BALL', name: 'Ball' } }],
+          },
+          { color: 'BLUE', score: 10, teamAlliances: [{ teamId: 't2', stationPosition: 1 }], matchScores: [] },
+        ],
+        scoreDetails: { scoreDetails: { fouls: 1 } },
+        referees: [],
+      },
+    ],
+    teamStats: [{ teamId: 't1', stageId: 's1', rank: 1, wins: 1 }],
+  } as unknown as TournamentArchive;
+
+  const rowsOf = (sheet: { columns: { key: string; value: (row: any) => unknown }[]; rows: any }) =>
+    [...sheet.rows].map((row) =>
+      Object.fromEntries(sheet.columns.map((column) => [column.key, column.value(row)])),
+    );
+
+  it('should show teams, stages and fields by name instead of ID', () => {
+    const sheets = buildTournamentExportSheets(archive);
+
+    expect(rowsOf(sheets.teams)[0]).toEqual(
+      expect.objectContaining({ teamNumber: 'RC001', leaderUsername: 'lead', currentStage: 'Qualification' }),
+    );
+    expect(rowsOf(sheets.matches)[0]).toEqual(
+      expect.objectContaining({
+        stage: 'Qualification',
+        field: 'Field 1',
+        redTeams: 'RC001',
+        blueTeams: 'RC002',
+        redScore: 30,
+        blueScore: 10,
+      }),
+    );
+    expect(rowsOf(sheets.rankings)[0]).toEqual(expect.objectContaining({ rank: 1, teamName: 'Alpha' }));
+  });
+
+  it('should break scores down per element and keep score details as JSON', () => {
+    const sheets = buildTournamentExportSheets(archive);
+
+    expect(rowsOf(sheets.scores)).toEqual([
+      { stage: 'Qualification', matchNumber: 3, color: 'RED', code: 'BALL', element: 'Ball', units: 3, totalPoints: 30 },
+    ]);
+    expect(rowsOf(sheets['score-details'])[0].details).toBe('{"fouls":1}');
+    expect(rowsOf(sheets.referees)[0]).toEqual(
+      expect.objectContaining({ assignment: 'field', field: 'Field 1', username: 'lead', headReferee: true }),
+    );
+  });
+});
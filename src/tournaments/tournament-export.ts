@@ -0,0 +1,262 @@
+import { TabularColumn, TabularSheet } from '../common/export/tabular-export';
+import { TournamentArchive } from './tournament-archive';
+
+export const TOURNAMENT_EXPORT_SECTIONS = [
+  'teams',
+  'members',
+  'matches',
+  'alliances',
+  'scores',
+  'score-details',
+  'rankings',
+  'fields',
+  'referees',
+] as const;
+
+export type TournamentExportSection = (typeof TOURNAMENT_EXPORT_SECTIONS)[number];
+
+type ExportRow = Record<string, unknown>;
+
+function columns(pairs: [key: string, header: string][]): TabularColumn<ExportRow>[] {
+  return pairs.map(([key, header]) => ({ key, header, value: (row) => row[key] }));
+}
+
+/**
+ * Flatten an archive into one sheet per section, for the CSV and XLSX
+ * exports. Teams and users are shown by number and username instead of ID.
+ */
+export function buildTournamentExportSheets(
+  archive: TournamentArchive,
+): Record<TournamentExportSection, TabularSheet<ExportRow>> {
+  const users = new Map(archive.users.map((user) => [user.id, user]));
+  const teams = new Map(archive.teams.map((team) => [team.id, team]));
+  const stages = new Map(archive.stages.map((stage) => [stage.id, stage]));
+  const fields = new Map(archive.fields.map((field) => [field.id, field]));
+
+  const matchRef = (match: TournamentArchive['matches'][number]) => ({
+    stage: stages.get(match.stageId)?.name,
+    matchNumber: match.matchNumber,
+  });
+  const teamNumbers = (alliance?: TournamentArchive['matches'][number]['alliances'][number]) =>
+    alliance?.teamAlliances.map((entry) => teams.get(entry.teamId)?.teamNumber).join(' ');
+
+  return {
+    teams: {
+      name: 'Teams',
+      columns: columns([
+        ['teamNumber', 'Team Number'],
+        ['name', 'Team Name'],
+        ['registrationStatus', 'Registration Status'],
+        ['robotName', 'Robot Name'],
+        ['leaderUsername', 'Leader Username'],
+        ['leaderEmail', 'Leader Email'],
+        ['memberCount', 'Members'],
+        ['currentStage', 'Current Stage'],
+        ['referralSource', 'Referral Source'],
+        ['createdAt', 'Registered At'],
+        ['deletedAt', 'Deleted At'],
+      ]),
+      rows: archive.teams.map((team) => ({
+        ...team,
+        leaderUsername: users.get(team.userId)?.username,
+        leaderEmail: users.get(team.userId)?.email,
+        memberCount: team.teamMembers.length,
+        currentStage: team.currentStageId ? stages.get(team.currentStageId)?.name : null,
+      })),
+    },
+    members: {
+      name: 'Members',
+      columns: columns([
+        ['teamNumber', 'Team Number'],
+        ['teamName', 'Team Name'],
+        ['name', 'Name'],
+        ['gender', 'Gender'],
+        ['email', 'Email'],
+        ['phoneNumber', 'Phone Number'],
+        ['province', 'Province'],
+        ['ward', 'Ward'],
+        ['organization', 'Organization'],
+        ['organizationAddress', 'Organization Address'],
+        ['account', 'Linked Account'],
+      ]),
+      rows: archive.teams.flatMap((team) =>
+        team.teamMembers.map((member) => ({
+          ...member,
+          teamNumber: team.teamNumber,
+          teamName: team.name,
+          account: member.userId ? users.get(member.userId)?.username : null,
+        })),
+      ),
+    },
+    matches: {
+      name: 'Schedule',
+      columns: columns([
+        ['stage', 'Stage'],
+        ['matchNumber', 'Match'],
+        ['roundNumber', 'Round'],
+        ['roundType', 'Round Type'],
+        ['matchType', 'Match Type'],
+        ['status', 'Status'],
+        ['field', 'Field'],
+        ['scheduledTime', 'Scheduled Time'],
+        ['startTime', 'Start Time'],
+        ['endTime', 'End Time'],
+        ['redTeams', 'Red Teams'],
+        ['blueTeams', 'Blue Teams'],
+        ['redScore', 'Red Score'],
+        ['blueScore', 'Blue Score'],
+        ['winningAlliance', 'Winner'],
+      ]),
+      rows: archive.matches.map((match) => {
+        const red = match.alliances.find((alliance) => alliance.color === 'RED');
+        const blue = match.alliances.find((alliance) => alliance.color === 'BLUE');
+        return {
+          ...match,
+          ...matchRef(match),
+          field: match.fieldId ? fields.get(match.fieldId)?.name : null,
+          redTeams: teamNumbers(red),
+          blueTeams: teamNumbers(blue),
+          redScore: red?.score,
+          blueScore: blue?.score,
+        };
+      }),
+    },
+    alliances: {
+      name: 'Alliances',
+      columns: columns([
+        ['stage', 'Stage'],
+        ['matchNumber', 'Match'],
+        ['color', 'Alliance'],
+        ['stationPosition', 'Station'],
+        ['teamNumber', 'Team Number'],
+        ['teamName', 'Team Name'],
+        ['isSurrogate', 'Surrogate'],
+        ['score', 'Alliance Score'],
+        ['autoScore', 'Auto Score'],
+        ['driveScore', 'Drive Score'],
+      ]),
+      rows: archive.matches.flatMap((match) =>
+        match.alliances.flatMap((alliance) =>
+          alliance.teamAlliances.map((entry) => ({
+            ...matchRef(match),
+            ...alliance,
+            ...entry,
+            teamNumber: teams.get(entry.teamId)?.teamNumber,
+            teamName: teams.get(entry.teamId)?.name,
+          })),
+        ),
+      ),
+    },
+    scores: {
+      name: 'Scores',
+      columns: columns([
+        ['stage', 'Stage'],
+        ['matchNumber', 'Match'],
+        ['color', 'Alliance'],
+        ['code', 'Element Code'],
+        ['element', 'Element'],
+        ['units', 'Units'],
+        ['totalPoints', 'Points'],
+      ]),
+      rows: archive.matches.flatMap((match) =>
+        match.alliances.flatMap((alliance) =>
+          alliance.matchScores.map((score) => ({
+            ...matchRef(match),
+            color: alliance.color,
+            code: score.scoreElement.code,
+            element: score.scoreElement.name,
+            units: score.units,
+            totalPoints: score.totalPoints,
+          })),
+        ),
+      ),
+    },
+    'score-details': {
+      name: 'Score Details',
+      columns: columns([
+        ['stage', 'Stage'],
+        ['matchNumber', 'Match'],
+        ['details', 'Score Details (JSON)'],
+      ]),
+      rows: archive.matches
+        .filter((match) => match.scoreDetails)
+        .map((match) => ({
+          ...matchRef(match),
+          details: JSON.stringify(match.scoreDetails!.scoreDetails),
+        })),
+    },
+    rankings: {
+      name: 'Rankings',
+      columns: columns([
+        ['stage', 'Stage'],
+        ['rank', 'Rank'],
+        ['teamNumber', 'Team Number'],
+        ['teamName', 'Team Name'],
+        ['wins', 'Wins'],
+        ['losses', 'Losses'],
+        ['ties', 'Ties'],
+        ['matchesPlayed', 'Matches Played'],
+        ['rankingPoints', 'Ranking Points'],
+        ['pointsScored', 'Points Scored'],
+        ['pointsConceded', 'Points Conceded'],
+        ['pointDifferential', 'Point Differential'],
+        ['opponentWinPercentage', 'Opponent Win %'],
+        ['tiebreaker1', 'Tiebreaker 1'],
+        ['tiebreaker2', 'Tiebreaker 2'],
+      ]),
+      rows: archive.teamStats.map((stats) => ({
+        ...stats,
+        stage: stats.stageId ? stages.get(stats.stageId)?.name : null,
+        teamNumber: teams.get(stats.teamId)?.teamNumber,
+        teamName: teams.get(stats.teamId)?.name,
+      })),
+    },
+    fields: {
+      name: 'Fields',
+      columns: columns([
+        ['number', 'Number'],
+        ['name', 'Name'],
+        ['location', 'Location'],
+        ['description', 'Description'],
+        ['refereeCount', 'Referees'],
+      ]),
+      rows: archive.fields.map((field) => ({
+        ...field,
+        refereeCount: field.fieldReferees.length,
+      })),
+    },
+    referees: {
+      name: 'Referees',
+      columns: columns([
+        ['assignment', 'Assignment'],
+        ['field', 'Field'],
+        ['stage', 'Stage'],
+        ['matchNumber', 'Match'],
+        ['username', 'Username'],
+        ['name', 'Name'],
+        ['email', 'Email'],
+        ['role', 'Role'],
+        ['headReferee', 'Head Referee'],
+      ]),
+      rows: [
+        ...archive.fields.flatMap((field) =>
+          field.fieldReferees.map((referee) => ({
+            assignment: 'field',
+            field: field.name,
+            ...users.get(referee.userId),
+            headReferee: referee.isHeadRef,
+          })),
+        ),
+        ...archive.matches.flatMap((match) =>
+          match.referees.map((referee) => ({
+            assignment: 'match',
+            ...matchRef(match),
+            field: match.fieldId ? fields.get(match.fieldId)?.name : null,
+            ...users.get(referee.userId),
+            role: referee.position ? `${referee.role} (${referee.position})` : referee.role,
+          })),
+        ),
+      ],
+    },
+  };
+}
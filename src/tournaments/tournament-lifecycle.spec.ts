@@ -0,0 +1,34 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  assertTournamentStatus,
+  EDITABLE_STATUSES,
+  SCORING_STATUSES,
+} from './tournament-lifecycle';
+
+describe('tournament lifecycle', () => {
+  it('should pass a tournament in an allowed status', () => {
+    expect(() =>
+      assertTournamentStatus({ status: 'LIVE' }, SCORING_STATUSES, 'submit scores'),
+    ).not.toThrow();
+  });
+
+  it('should name the action and status when refusing', () => {
+    expect(() =>
+      assertTournamentStatus({ status: 'SCHEDULED' }, SCORING_STATUSES, 'submit scores'),
+    ).toThrow(new BadRequestException('Cannot submit scores while the tournament is SCHEDULED'));
+  });
+
+  it('should let an admin override a completed tournament but never an archived one', () => {
+    const override = { adminOverride: true };
+
+    expect(() =>
+      assertTournamentStatus({ status: 'COMPLETED' }, EDITABLE_STATUSES, 'edit', override),
+    ).not.toThrow();
+    expect(() =>
+      assertTournamentStatus({ status: 'ARCHIVED' }, EDITABLE_STATUSES, 'edit', override),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      assertTournamentStatus({ status: 'SCHEDULED' }, SCORING_STATUSES, 'submit scores', override),
+    ).toThrow(BadRequestException);
+  });
+});
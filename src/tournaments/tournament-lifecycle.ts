@@ -0,0 +1,58 @@
+import { BadRequestException } from '@nestjs/common';
+import { TournamentStatus } from '../utils/prisma-types';
+
+/**
+ * Status changes a tournament manager may make. Global ADMINs can force any
+ * other change, e.g. reopening a completed tournament.
+ */
+export const TOURNAMENT_STATUS_TRANSITIONS: Record<TournamentStatus, TournamentStatus[]> = {
+  DRAFT: ['REGISTRATION'],
+  REGISTRATION: ['DRAFT', 'SCHEDULED'],
+  SCHEDULED: ['REGISTRATION', 'LIVE'],
+  LIVE: ['COMPLETED'],
+  COMPLETED: ['ARCHIVED'],
+  ARCHIVED: [],
+};
+
+/** Teams can be registered */
+export const TEAM_REGISTRATION_STATUSES: TournamentStatus[] = ['REGISTRATION'];
+
+/** Full schedules can be generated */
+export const SCHEDULING_STATUSES: TournamentStatus[] = ['DRAFT', 'REGISTRATION', 'SCHEDULED'];
+
+/** Swiss rounds and playoff brackets follow results, so they are also generated live */
+export const ROUND_SCHEDULING_STATUSES: TournamentStatus[] = [...SCHEDULING_STATUSES, 'LIVE'];
+
+/** Scores can be submitted */
+export const SCORING_STATUSES: TournamentStatus[] = ['LIVE'];
+
+/** Nothing about the tournament can change, unless an admin overrides a completed one */
+export const READ_ONLY_STATUSES: TournamentStatus[] = ['COMPLETED', 'ARCHIVED'];
+
+/** Anything except the read-only statuses */
+export const EDITABLE_STATUSES = Object.values(TournamentStatus).filter(
+  (status) => !READ_ONLY_STATUSES.includes(status),
+);
+
+/**
+ * Throw unless the tournament is in one of the `allowed` statuses. An admin
+ * override also lets a COMPLETED tournament through; ARCHIVED never is.
+ *
+ * @param action What is being attempted, e.g. "register teams"
+ */
+export function assertTournamentStatus(
+  tournament: { status: TournamentStatus },
+  allowed: TournamentStatus[],
+  action: string,
+  options: { adminOverride?: boolean } = {},
+): void {
+  if (allowed.includes(tournament.status)) {
+    return;
+  }
+  if (options.adminOverride && tournament.status === TournamentStatus.COMPLETED) {
+    return;
+  }
+  throw new BadRequestException(
+    `Cannot ${action} while the tournament is ${tournament.status}`,
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  compareRankings,
+  DEFAULT_TOURNAMENT_SETTINGS,
+  mergeSettings,
+  rankingOrderBy,
+  rankingPointsFor,
+  resolveTournamentSettings,
+  tiebreakerValues,
+} from './tournament-settings';
+
+describe('tournament settings', () => {
+  const stats = (overrides: Record<string, number>) => ({
+    rankingPoints: 4,
+    opponentWinPercentage: 0.5,
+    pointDifferential: 10,
+    pointsScored: 100,
+    wins: 2,
+    ...overrides,
+  });
+
+  describe('resolveTournamentSettings', () => {
+    it('should fill missing fields in with the defaults', () => {
+      const settings = resolveTournamentSettings({ cycleTimeMinutes: 7, rankingPoints: { win: 3 } });
+
+      expect(settings.cycleTimeMinutes).toBe(7);
+      expect(settings.rankingPoints).toEqual({ win: 3, tie: 1, loss: 0 });
+      expect(settings.tiebreakers).toEqual(DEFAULT_TOURNAMENT_SETTINGS.tiebreakers);
+    });
+
+    it('should fall back to the defaults for an invalid record', () => {
+      expect(resolveTournamentSettings({ cycleTimeMinutes: -1 })).toEqual(DEFAULT_TOURNAMENT_SETTINGS);
+      expect(resolveTournamentSettings(null)).toEqual(DEFAULT_TOURNAMENT_SETTINGS);
+    });
+  });
+
+  it('should replace arrays instead of merging them', () => {
+    const merged = mergeSettings(DEFAULT_TOURNAMENT_SETTINGS, { tiebreakers: ['WINS'] });
+
+    expect(merged.tiebreakers).toEqual(['WINS']);
+    expect(merged.playoff).toEqual(DEFAULT_TOURNAMENT_SETTINGS.playoff);
+  });
+
+  it('should score records with the configured ranking points', () => {
+    const settings = mergeSettings(DEFAULT_TOURNAMENT_SETTINGS, { rankingPoints: { win: 3, tie: 1, loss: -1 } });
+
+    expect(rankingPointsFor(settings, { wins: 2, ties: 1, losses: 1 })).toBe(6);
+  });
+
+  it('should rank and order by the configured tiebreakers', () => {
+    const settings = mergeSettings(DEFAULT_TOURNAMENT_SETTINGS, {
+      tiebreakers: ['POINTS_SCORED', 'WINS'],
+    });
+    const first = stats({ pointsScored: 120, opponentWinPercentage: 0.1 });
+    const second = stats({ pointsScored: 90, opponentWinPercentage: 0.9 });
+
+    expect([second, first].sort(compareRankings(settings))).toEqual([first, second]);
+    expect(rankingOrderBy(settings)).toEqual([
+      { rankingPoints: 'desc' },
+      { pointsScored: 'desc' },
+      { wins: 'desc' },
+    ]);
+    expect(tiebreakerValues(settings, first)).toEqual({ tiebreaker1: 120, tiebreaker2: 2 });
+  });
+});
@@ -0,0 +1,133 @@
+import { Logger } from '@nestjs/common';
+import { Prisma } from '../../generated/prisma';
+import { MatchType } from '../utils/prisma-types';
+import {
+  Tiebreaker,
+  TournamentSettingsData,
+  TournamentSettingsSchema,
+} from './dto/tournament-settings.dto';
+
+/**
+ * Bump when the settings layout changes in a way that needs stored records
+ * upgraded; new fields with a default do not need a bump
+ */
+export const TOURNAMENT_SETTINGS_SCHEMA_VERSION = 1;
+
+/** What a tournament uses until its settings are saved */
+export const DEFAULT_TOURNAMENT_SETTINGS: TournamentSettingsData = {
+  matchDurations: { FULL: 150, TELEOP_ENDGAME: 120 },
+  cycleTimeMinutes: 10,
+  rankingPoints: { win: 2, tie: 1, loss: 0 },
+  tiebreakers: ['OPPONENT_WIN_PERCENTAGE', 'POINT_DIFFERENTIAL', 'POINTS_SCORED'],
+  playoff: { format: 'SINGLE_ELIMINATION', rounds: 3 },
+  branding: { displayName: null, logoUrl: null, primaryColor: null, secondaryColor: null },
+  registration: { autoApprove: false, waitlist: true },
+};
+
+/** TeamStats column compared for each tiebreaker, highest first */
+export const TIEBREAKER_FIELDS = {
+  OPPONENT_WIN_PERCENTAGE: 'opponentWinPercentage',
+  POINT_DIFFERENTIAL: 'pointDifferential',
+  POINTS_SCORED: 'pointsScored',
+  WINS: 'wins',
+} as const satisfies Record<Tiebreaker, string>;
+
+export type RankedStats = { rankingPoints: number } & Record<
+  (typeof TIEBREAKER_FIELDS)[Tiebreaker],
+  number
+>;
+
+const logger = new Logger('TournamentSettings');
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge `patch` over `base`. Arrays and scalars replace; undefined keeps the base value.
+ */
+export function mergeSettings<T>(base: T, patch: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(patch)) {
+    return (patch === undefined ? base : patch) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = mergeSettings(merged[key], value);
+  }
+  return merged as T;
+}
+
+/**
+ * Fill a stored settings record in with the defaults. A record that no longer
+ * validates falls back to the defaults rather than breaking scheduling.
+ */
+export function resolveTournamentSettings(stored: unknown): TournamentSettingsData {
+  const parsed = TournamentSettingsSchema.safeParse(
+    mergeSettings(DEFAULT_TOURNAMENT_SETTINGS, stored ?? {}),
+  );
+  if (!parsed.success) {
+    logger.warn(`Ignoring invalid stored tournament settings: ${parsed.error.message}`);
+    return DEFAULT_TOURNAMENT_SETTINGS;
+  }
+  return parsed.data;
+}
+
+export async function loadTournamentSettings(
+  prisma: { tournamentSettings: Pick<Prisma.TournamentSettingsDelegate, 'findUnique'> },
+  tournamentId: string,
+): Promise<TournamentSettingsData> {
+  const record = await prisma.tournamentSettings.findUnique({
+    where: { tournamentId },
+    select: { settings: true },
+  });
+  return resolveTournamentSettings(record?.settings);
+}
+
+export function rankingPointsFor(
+  settings: TournamentSettingsData,
+  record: { wins: number; ties: number; losses: number },
+): number {
+  const { win, tie, loss } = settings.rankingPoints;
+  return record.wins * win + record.ties * tie + record.losses * loss;
+}
+
+/**
+ * Values stored in `tiebreaker1` and `tiebreaker2`: the first two configured tiebreakers
+ */
+export function tiebreakerValues(settings: TournamentSettingsData, stats: Omit<RankedStats, 'rankingPoints'>) {
+  const [first, second] = settings.tiebreakers;
+  return {
+    tiebreaker1: stats[TIEBREAKER_FIELDS[first]],
+    tiebreaker2: second ? stats[TIEBREAKER_FIELDS[second]] : 0,
+  };
+}
+
+/** Sort comparator putting the best-ranked team first */
+export function compareRankings(settings: TournamentSettingsData) {
+  return (a: RankedStats, b: RankedStats): number => {
+    if (b.rankingPoints !== a.rankingPoints) {
+      return b.rankingPoints - a.rankingPoints;
+    }
+    for (const tiebreaker of settings.tiebreakers) {
+      const field = TIEBREAKER_FIELDS[tiebreaker];
+      if (b[field] !== a[field]) {
+        return b[field] - a[field];
+      }
+    }
+    return 0;
+  };
+}
+
+/** The same order as `compareRankings`, for TeamStats queries */
+export function rankingOrderBy(
+  settings: TournamentSettingsData,
+): Prisma.TeamStatsOrderByWithRelationInput[] {
+  return [
+    { rankingPoints: 'desc' },
+    ...settings.tiebreakers.map((tiebreaker) => ({ [TIEBREAKER_FIELDS[tiebreaker]]: 'desc' as const })),
+  ];
+}
+
+export function matchDurationSeconds(settings: TournamentSettingsData, matchType: MatchType): number {
+  return settings.matchDurations[matchType];
+}
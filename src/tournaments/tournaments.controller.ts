@@ -8,12 +8,31 @@ import {
   Delete,
   UseGuards,
   Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import { TournamentsService } from './tournaments.service';
 import { FieldRefereesService } from '../field-referees/field-referees.service';
 import { TeamsService } from '../teams/teams.service';
 import { CreateTournamentDto } from './dto/create-tournament.dto';
 import { UpdateTournamentDto } from './dto/update-tournament.dto';
+import { UpdateTeamNumberingDto } from '../teams/dto/team-numbering.dto';
+import { ExportTournamentQueryDto } from './dto/export-tournament.dto';
+import { ImportTournamentDto } from './dto/import-tournament.dto';
+import { DuplicateTournamentDto } from './dto/duplicate-tournament.dto';
+import { UpdateTournamentSettingsDto } from './dto/tournament-settings.dto';
+import { ChangeTournamentStatusDto } from './dto/tournament-status.dto';
+import { TournamentArchiveService } from './tournament-archive.service';
+import { TOURNAMENT_ARCHIVE_MAX_BYTES } from './tournament-archive';
+import { buildTournamentExportSheets } from './tournament-export';
+import {
+  setAttachmentHeaders,
+  writeTabularExport,
+  writeTabularWorkbook,
+} from '../common/export/tabular-export';
 import {
   AssignRefereesDto,
   BatchAssignRefereesDto,
@@ -21,15 +40,24 @@ import {
 import { JwtAuthGuard, OptionalJwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
-import { UserRole } from '../utils/prisma-types';
+import { UserRole, TournamentRole } from '../utils/prisma-types';
+import {
+  TournamentRoles,
+  TOURNAMENT_MANAGER_ROLES,
+  TOURNAMENT_OFFICIAL_ROLES,
+} from '../auth/tournament-roles.decorator';
+import { ApiKeyScope } from '../api-keys/api-key-scope.decorator';
 import { CurrentUser } from '../auth/current-user.decorator';
+import { Audited, SkipAudit } from '../audit/audited.decorator';
 
 @Controller('tournaments')
+@Audited('tournament', { tournament: 'tournament' })
 export class TournamentsController {
   constructor(
     private readonly tournamentsService: TournamentsService,
     private readonly fieldRefereesService: FieldRefereesService,
     private readonly teamsService: TeamsService,
+    private readonly tournamentArchiveService: TournamentArchiveService,
   ) {}
 
   @Post()
@@ -39,6 +67,21 @@ export class TournamentsController {
     return this.tournamentsService.create(createTournamentDto);
   }
 
+  /**
+   * Rebuild a tournament from an archive downloaded with `GET :id/export?format=json`
+   */
+  @Post('import')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: TOURNAMENT_ARCHIVE_MAX_BYTES } }))
+  importTournament(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importTournamentDto: ImportTournamentDto,
+    @CurrentUser() user,
+  ) {
+    return this.tournamentArchiveService.importArchive(file, importTournamentDto, user.id);
+  }
+
   @Get()
   findAll() {
     return this.tournamentsService.findAll();
@@ -66,7 +109,7 @@ export class TournamentsController {
 
   @Get(':id/details')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async getTournamentDetails(@Param('id') id: string) {
     return this.tournamentsService.findOneWithFullDetails(id);
   }
@@ -87,12 +130,15 @@ export class TournamentsController {
   }
 
   @Post(':id/fields/:fieldId/referees')
+  @Audited('field', { idParam: 'fieldId', tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async assignFieldReferees(
+    @Param('id') id: string,
     @Param('fieldId') fieldId: string,
     @Body() assignmentDto: AssignRefereesDto,
   ) {
+    await this.tournamentsService.assertFieldsInTournament(id, [fieldId]);
     return this.fieldRefereesService.assignRefereesToField(
       fieldId,
       assignmentDto.referees,
@@ -100,29 +146,45 @@ export class TournamentsController {
   }
 
   @Delete(':id/fields/:fieldId/referees/:userId')
+  @Audited('field', { idParam: 'fieldId', tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async removeFieldReferee(
+    @Param('id') id: string,
     @Param('fieldId') fieldId: string,
     @Param('userId') userId: string,
   ) {
+    await this.tournamentsService.assertFieldsInTournament(id, [fieldId]);
     return this.fieldRefereesService.removeRefereeFromField(fieldId, userId);
   }
 
   @Post(':id/referees/batch')
+  @Audited('field', { tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
-  async batchAssignReferees(@Body() batchDto: BatchAssignRefereesDto) {
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
+  async batchAssignReferees(
+    @Param('id') id: string,
+    @Body() batchDto: BatchAssignRefereesDto,
+  ) {
+    await this.tournamentsService.assertFieldsInTournament(
+      id,
+      batchDto.assignments.map((assignment) => assignment.fieldId),
+    );
     return this.fieldRefereesService.batchAssignReferees(batchDto.assignments);
   }
 
   @Post(':id/fields/:fieldId/assign-to-match/:matchId')
+  @Audited('match', { idParam: 'matchId', tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async assignMatchToField(
+    @Param('id') id: string,
     @Param('fieldId') fieldId: string,
     @Param('matchId') matchId: string,
   ) {
+    await this.tournamentsService.assertFieldsInTournament(id, [fieldId]);
+    await this.tournamentsService.assertMatchInTournament(id, matchId);
+
     // This will use the MatchesService method that auto-assigns head referee
     const MatchesService = await import('../matches/matches.service');
     const DateValidationService = await import('../common/services/date-validation.service');
@@ -140,29 +202,67 @@ export class TournamentsController {
 
   @Patch(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   update(
     @Param('id') id: string,
     @Body() updateTournamentDto: UpdateTournamentDto,
+    @CurrentUser() user,
+  ) {
+    return this.tournamentsService.update(id, updateTournamentDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+      actor: user,
+    });
+  }
+
+  @Get(':id/status')
+  getStatus(@Param('id') id: string) {
+    return this.tournamentsService.getStatus(id);
+  }
+
+  /**
+   * Move the tournament to another lifecycle status; see TOURNAMENT_STATUS_TRANSITIONS
+   */
+  @Patch(':id/status')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
+  changeStatus(
+    @Param('id') id: string,
+    @Body() dto: ChangeTournamentStatusDto,
+    @CurrentUser() user,
   ) {
-    return this.tournamentsService.update(id, updateTournamentDto);
+    return this.tournamentsService.changeStatus(id, dto, user);
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles([TournamentRole.OWNER], 'tournament')
   remove(@Param('id') id: string) {
     return this.tournamentsService.remove(id);
   }
 
+  @Post(':id/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @TournamentRoles([TournamentRole.OWNER], 'tournament')
+  restore(@Param('id') id: string) {
+    return this.tournamentsService.restore(id);
+  }
+
+  @Delete(':id/purge')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  purge(@Param('id') id: string) {
+    return this.tournamentsService.purge(id);
+  }
+
   @Get(':id/date-boundaries')
   async getDateBoundaries(@Param('id') id: string) {
     return this.tournamentsService.getDateBoundaries(id);
   }
 
   @Post(':id/validate-date-update')
+  @SkipAudit()
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async validateDateUpdate(
     @Param('id') id: string,
     @Body() body: { startDate: string; endDate: string }
@@ -174,43 +274,92 @@ export class TournamentsController {
     );
   }
 
+  /**
+   * Download the tournament as a JSON archive, an XLSX workbook with a sheet
+   * per section, or one section as CSV
+   */
   @Get(':id/export')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async exportTournamentData(
     @Param('id') id: string,
-    @Query('format') format: 'csv' | 'excel' | 'json' = 'csv'
+    @Query() query: ExportTournamentQueryDto,
+    @Res() res: Response
   ) {
-    return this.tournamentsService.exportData(id, format);
+    const archive = await this.tournamentArchiveService.exportArchive(id);
+    const filename = `${archive.tournament.name.replace(/[^\w-]+/g, '-')}-${archive.exportedAt
+      .toISOString()
+      .slice(0, 10)}`;
+
+    if (query.format === 'json') {
+      setAttachmentHeaders(res, `${filename}.json`, 'application/json; charset=utf-8');
+      res.json(archive);
+      return;
+    }
+
+    const sheets = buildTournamentExportSheets(archive);
+    if (query.format === 'csv') {
+      const sheet = sheets[query.section];
+      await writeTabularExport(res, {
+        format: 'csv',
+        filename: `${filename}-${query.section}`,
+        columns: sheet.columns,
+        rows: sheet.rows,
+      });
+      return;
+    }
+    await writeTabularWorkbook(res, { filename, sheets: Object.values(sheets) });
   }
 
   @Get(':id/settings')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async getTournamentSettings(@Param('id') id: string) {
     return this.tournamentsService.getSettings(id);
   }
 
   @Patch(':id/settings')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async updateTournamentSettings(
     @Param('id') id: string,
-    @Body() settings: any
+    @Body() settings: UpdateTournamentSettingsDto,
+    @CurrentUser() user,
   ) {
-    return this.tournamentsService.updateSettings(id, settings);
+    return this.tournamentsService.updateSettings(id, settings, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
+  }
+
+  @Get(':id/team-numbering')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
+  async getTeamNumbering(@Param('id') id: string) {
+    return this.teamsService.getTeamNumbering(id);
+  }
+
+  @Patch(':id/team-numbering')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
+  async updateTeamNumbering(
+    @Param('id') id: string,
+    @Body() dto: UpdateTeamNumberingDto
+  ) {
+    return this.teamsService.updateTeamNumbering(id, dto);
   }
 
   @Get(':id/next-match')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES, 'tournament')
+  @ApiKeyScope('read:matches', 'tournament')
   async getNextMatch(@Param('id') id: string) {
     return this.tournamentsService.getNextMatch(id);
   }
 
   @Post(':id/matches/:matchId/start')
+  @Audited('match', { idParam: 'matchId', tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.HEAD_REFEREE)
+  @TournamentRoles(TOURNAMENT_OFFICIAL_ROLES, 'tournament')
   async startMatch(
     @Param('id') tournamentId: string,
     @Param('matchId') matchId: string
@@ -220,21 +369,26 @@ export class TournamentsController {
 
   @Post(':id/duplicate')
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async duplicateTournament(
     @Param('id') id: string,
-    @Body() body: { name: string }
+    @Body() dto: DuplicateTournamentDto,
+    @CurrentUser() user,
   ) {
-    return this.tournamentsService.duplicate(id, body.name);
+    return this.tournamentArchiveService.duplicateTournament(id, dto, user.id);
   }
 
   @Post(':id/stages')
+  @Audited('stage', { idParam: null, tournament: 'tournament' })
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @TournamentRoles(TOURNAMENT_MANAGER_ROLES, 'tournament')
   async createStage(
     @Param('id') tournamentId: string,
-    @Body() createStageDto: any
+    @Body() createStageDto: any,
+    @CurrentUser() user,
   ) {
-    return this.tournamentsService.createStage(tournamentId, createStageDto);
+    return this.tournamentsService.createStage(tournamentId, createStageDto, {
+      adminOverride: user.role === UserRole.ADMIN,
+    });
   }
 }
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { TournamentsService } from './tournaments.service';
 import { TournamentsController } from './tournaments.controller';
+import { TournamentArchiveService } from './tournament-archive.service';
 import { FieldRefereesModule } from '../field-referees/field-referees.module';
 import { TeamsModule } from '../teams/teams.module';
 import { PrismaService } from '../prisma.service';
@@ -9,7 +10,7 @@ import { DateValidationService } from '../common/services/date-validation.servic
 @Module({
   imports: [FieldRefereesModule, TeamsModule],
   controllers: [TournamentsController],
-  providers: [TournamentsService, PrismaService, DateValidationService],
+  providers: [TournamentsService, TournamentArchiveService, PrismaService, DateValidationService],
   exports: [TournamentsService],
 })
 export class TournamentsModule {}
@@ -3,12 +3,14 @@ import { TournamentsService } from './tournaments.service';
 import { PrismaService } from '../prisma.service';
 import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
 import { DateValidationService } from '../common/services/date-validation.service';
-import { BadRequestException } from '@nestjs/common';
+import { TournamentMembershipsService } from '../tournament-memberships/tournament-memberships.service';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
 
 describe('TournamentsService', () => {
   let service: TournamentsService;
   let prisma: DeepMockProxy<PrismaService>;
   let dateValidationService: DeepMockProxy<DateValidationService>;
+  let membershipsService: DeepMockProxy<TournamentMembershipsService>;
 
   const createMockTournament = (overrides: any = {}) => {
     const now = new Date();
@@ -26,6 +28,7 @@ describe('TournamentsService', () => {
       maxTeams: null,
       maxTeamMembers: null,
       minTeamMembers: null,
+      status: 'DRAFT',
       ...overrides,
     };
   };
@@ -33,12 +36,14 @@ describe('TournamentsService', () => {
   beforeEach(async () => {
     prisma = mockDeep<PrismaService>();
     dateValidationService = mockDeep<DateValidationService>();
+    membershipsService = mockDeep<TournamentMembershipsService>();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TournamentsService,
         { provide: PrismaService, useValue: prisma },
         { provide: DateValidationService, useValue: dateValidationService },
+        { provide: TournamentMembershipsService, useValue: membershipsService },
       ],
     }).compile();
 
@@ -78,6 +83,9 @@ describe('TournamentsService', () => {
           endDate: new Date(dto.endDate),
           adminId: dto.adminId,
           numberOfFields: dto.numberOfFields,
+          memberships: {
+            create: { userId: dto.adminId, role: 'OWNER' },
+          },
         },
       });
       // Should create 2 fields
@@ -138,6 +146,15 @@ describe('TournamentsService', () => {
       expect(Array.isArray(result)).toBe(true);
       expect(result[0]).toHaveProperty('id', 't1');
     });
+    it('should not count soft-deleted teams', async () => {
+      prisma.tournament.findMany.mockResolvedValue([]);
+      await service.findAll();
+      expect(prisma.tournament.findMany).toHaveBeenCalledWith({
+        include: expect.objectContaining({
+          _count: { select: { teams: { where: { deletedAt: null } } } },
+        }),
+      });
+    });
     it('should handle empty result', async () => {
       prisma.tournament.findMany.mockResolvedValue([]);
       const result = await service.findAll();
@@ -168,6 +185,10 @@ describe('TournamentsService', () => {
   });
 
   describe('update', () => {
+    beforeEach(() => {
+      prisma.tournament.findUnique.mockResolvedValue(createMockTournament());
+    });
+
     it('should update a tournament', async () => {
       const tournament = createMockTournament({ name: 'Updated' });
       prisma.tournament.update.mockResolvedValue(tournament);
@@ -184,9 +205,172 @@ describe('TournamentsService', () => {
         service.update('t1', { name: 'fail' } as any),
       ).rejects.toThrow('DB error');
     });
+    it('should hand the tournament to a new admin through the memberships', async () => {
+      prisma.tournament.update.mockResolvedValue(createMockTournament());
+      const actor = { id: 'admin1', role: 'COMMON' } as any;
+
+      await service.update('t1', { adminId: 'owner2' } as any, { actor });
+
+      expect(membershipsService.transferAdmin).toHaveBeenCalledWith('t1', 'owner2', actor);
+      expect(prisma.tournament.update).toHaveBeenCalledWith({ where: { id: 't1' }, data: {} });
+    });
+  });
+
+  describe('settings', () => {
+    const record = (overrides: any = {}) => ({
+      tournamentId: 't1',
+      schemaVersion: 1,
+      version: 2,
+      settings: { cycleTimeMinutes: 8 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'DRAFT' } as any);
+    });
+
+    it('should return the defaults before anything is saved', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(null);
+      const result = await service.getSettings('t1');
+      expect(result).toEqual(expect.objectContaining({ version: 0, updatedAt: null }));
+      expect(result.settings.cycleTimeMinutes).toBe(10);
+    });
+
+    it('should throw NotFoundException for an unknown tournament', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(null);
+      await expect(service.getSettings('missing')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should merge the change and save it as the next version', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(record());
+      prisma.tournamentSettings.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.updateSettings('t1', { version: 2, rankingPoints: { win: 3 } });
+
+      const { where, data } = prisma.tournamentSettings.updateMany.mock.calls[0][0] as any;
+      expect(where).toEqual({ tournamentId: 't1', version: 2 });
+      expect(data.version).toEqual({ increment: 1 });
+      expect(data.settings).toEqual(
+        expect.objectContaining({ cycleTimeMinutes: 8, rankingPoints: { win: 3, tie: 1, loss: 0 } }),
+      );
+    });
+
+    it('should create the record on the first save', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(null);
+      await service.updateSettings('t1', { registration: { autoApprove: true } });
+      expect(prisma.tournamentSettings.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tournamentId: 't1' }),
+      });
+    });
+
+    it('should reject a stale version', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(record());
+      await expect(service.updateSettings('t1', { version: 1, cycleTimeMinutes: 5 })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prisma.tournamentSettings.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a save that lost the race', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(record());
+      prisma.tournamentSettings.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.updateSettings('t1', { cycleTimeMinutes: 5 })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should reject settings that do not validate', async () => {
+      prisma.tournamentSettings.findUnique.mockResolvedValue(null);
+      await expect(
+        service.updateSettings('t1', { tiebreakers: ['WINS', 'WINS'] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.tournamentSettings.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse changes to a completed tournament unless an admin overrides', async () => {
+      prisma.tournament.findUnique.mockResolvedValue({ id: 't1', status: 'COMPLETED' } as any);
+      prisma.tournamentSettings.findUnique.mockResolvedValue(null);
+      await expect(service.updateSettings('t1', { cycleTimeMinutes: 5 })).rejects.toThrow(
+        'Cannot edit the tournament while the tournament is COMPLETED',
+      );
+      await expect(
+        service.updateSettings('t1', { cycleTimeMinutes: 5 }, { adminOverride: true }),
+      ).resolves.toEqual(expect.objectContaining({ tournamentId: 't1' }));
+    });
+  });
+
+  describe('status', () => {
+    const manager = { role: 'TOURNAMENT_MANAGER' } as any;
+    const admin = { role: 'ADMIN' } as any;
+    const changedAt = new Date('2025-05-13T09:00:00Z');
+
+    beforeEach(() => {
+      prisma.tournament.findUnique.mockResolvedValue({
+        id: 't1',
+        status: 'REGISTRATION',
+        statusChangedAt: changedAt,
+      } as any);
+      prisma.tournament.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should report the status and where it can go next', async () => {
+      await expect(service.getStatus('t1')).resolves.toEqual({
+        tournamentId: 't1',
+        status: 'REGISTRATION',
+        statusChangedAt: changedAt,
+        allowedTransitions: ['DRAFT', 'SCHEDULED'],
+      });
+    });
+
+    it('should make an allowed transition once its checks pass', async () => {
+      prisma.team.count.mockResolvedValue(0);
+      await service.changeStatus('t1', { status: 'SCHEDULED', force: false }, manager);
+      expect(prisma.tournament.updateMany).toHaveBeenCalledWith({
+        where: { id: 't1', status: 'REGISTRATION' },
+        data: { status: 'SCHEDULED', statusChangedAt: expect.any(Date) },
+      });
+    });
+
+    it('should refuse to schedule while registrations are pending', async () => {
+      prisma.team.count.mockResolvedValue(2);
+      await expect(
+        service.changeStatus('t1', { status: 'SCHEDULED', force: false }, manager),
+      ).rejects.toThrow('2 team registration(s) are still pending');
+      expect(prisma.tournament.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a transition outside the table', async () => {
+      await expect(
+        service.changeStatus('t1', { status: 'COMPLETED', force: false }, manager),
+      ).rejects.toThrow('Cannot change tournament status from REGISTRATION to COMPLETED');
+    });
+
+    it('should only let admins force a transition', async () => {
+      await expect(
+        service.changeStatus('t1', { status: 'COMPLETED', force: true }, manager),
+      ).rejects.toThrow(ForbiddenException);
+
+      await service.changeStatus('t1', { status: 'COMPLETED', force: true }, admin);
+      expect(prisma.match.count).not.toHaveBeenCalled();
+      expect(prisma.tournament.updateMany).toHaveBeenCalled();
+    });
+
+    it('should reject a change that lost the race', async () => {
+      prisma.team.count.mockResolvedValue(0);
+      prisma.tournament.updateMany.mockResolvedValue({ count: 0 });
+      await expect(
+        service.changeStatus('t1', { status: 'SCHEDULED', force: false }, manager),
+      ).rejects.toThrow(ConflictException);
+    });
   });
 
   describe('update (numberOfFields logic)', () => {
+    beforeEach(() => {
+      prisma.tournament.findUnique.mockResolvedValue(createMockTournament());
+    });
+
     it('should create new fields when numberOfFields increases', async () => {
       const tournament = createMockTournament({
         name: 'T',
@@ -268,21 +452,53 @@ describe('TournamentsService', () => {
   });
 
   describe('remove', () => {
-    it('should delete a tournament', async () => {
+    it('should soft delete a tournament', async () => {
       const tournament = createMockTournament();
-      prisma.tournament.delete.mockResolvedValue(tournament);
+      prisma.tournament.update.mockResolvedValue(tournament);
       const result = await service.remove('t1');
       expect(result).toHaveProperty('id', 't1');
-      expect(prisma.tournament.delete).toHaveBeenCalledWith({
-        where: { id: 't1' },
+      expect(prisma.tournament.update).toHaveBeenCalledWith({
+        where: { id: 't1', deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
       });
+      expect(prisma.tournament.delete).not.toHaveBeenCalled();
     });
     it('should throw if prisma throws', async () => {
-      prisma.tournament.delete.mockRejectedValue(new Error('DB error'));
+      prisma.tournament.update.mockRejectedValue(new Error('DB error'));
       await expect(service.remove('t1')).rejects.toThrow('DB error');
     });
   });
 
+  describe('restore', () => {
+    it('should clear deletedAt on a deleted tournament', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ id: 't1' } as any);
+      prisma.tournament.update.mockResolvedValue(createMockTournament());
+      await service.restore('t1');
+      expect(prisma.tournament.update).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        data: { deletedAt: null },
+      });
+    });
+    it('should throw NotFoundException for a tournament that is not deleted', async () => {
+      prisma.tournament.findFirst.mockResolvedValue(null);
+      await expect(service.restore('t1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove teams before the tournament', async () => {
+      prisma.tournament.findFirst.mockResolvedValue({ id: 't1' } as any);
+      (prisma.$transaction as any).mockImplementation(async (fn: any) => fn(prisma));
+      prisma.tournament.delete.mockResolvedValue(createMockTournament());
+      await service.purge('t1');
+      expect(prisma.teamMember.deleteMany).toHaveBeenCalledWith({
+        where: { team: { tournamentId: 't1' } },
+      });
+      expect(prisma.team.deleteMany).toHaveBeenCalledWith({ where: { tournamentId: 't1' } });
+      expect(prisma.tournament.delete).toHaveBeenCalledWith({ where: { id: 't1' } });
+    });
+  });
+
   describe('findOneWithFullDetails', () => {
     it('should return tournament with full nested details', async () => {
       const now = new Date();
@@ -393,6 +609,7 @@ describe('TournamentsService', () => {
             orderBy: { number: 'asc' },
           },
           teams: {
+            where: { deletedAt: null },
             select: {
               id: true,
               teamNumber: true,
@@ -403,7 +620,7 @@ describe('TournamentsService', () => {
             select: {
               stages: true,
               fields: true,
-              teams: true,
+              teams: { where: { deletedAt: null } },
             },
           },
         },
@@ -606,6 +823,7 @@ describe('TournamentsService', () => {
         // Mock current tournament
         prisma.tournament.findUnique.mockResolvedValue({
           id: tournamentId,
+          status: 'DRAFT',
           startDate: new Date('2024-06-01T10:00:00Z'),
           endDate: new Date('2024-06-02T17:00:00Z')
         } as any);
@@ -656,6 +874,7 @@ describe('TournamentsService', () => {
         // Mock current tournament
         prisma.tournament.findUnique.mockResolvedValue({
           id: tournamentId,
+          status: 'DRAFT',
           startDate: new Date('2024-06-01T10:00:00Z'),
           endDate: new Date('2024-06-02T17:00:00Z')
         } as any);
@@ -681,6 +900,7 @@ describe('TournamentsService', () => {
         // Mock current tournament
         prisma.tournament.findUnique.mockResolvedValue({
           id: tournamentId,
+          status: 'DRAFT',
           startDate: new Date('2024-06-01T10:00:00Z'),
           endDate: new Date('2024-06-02T17:00:00Z')
         } as any);
@@ -1,15 +1,50 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
-import { PrismaService } from '../prisma.service';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { NOT_DELETED, PrismaService } from '../prisma.service';
 import { CreateTournamentDto } from './dto/create-tournament.dto';
 import { UpdateTournamentDto } from './dto/update-tournament.dto';
-import { Team, UserRole } from '../../generated/prisma';
+import {
+  Team,
+  UserRole,
+  TournamentRole,
+  TournamentStatus,
+  TeamRegistrationStatus,
+  MatchState,
+} from '../../generated/prisma';
 import { DateValidationService } from '../common/services/date-validation.service';
+import {
+  TournamentSettingsSchema,
+  UpdateTournamentSettingsDto,
+} from './dto/tournament-settings.dto';
+import {
+  mergeSettings,
+  resolveTournamentSettings,
+  TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+} from './tournament-settings';
+import { ChangeTournamentStatusDto } from './dto/tournament-status.dto';
+import {
+  assertTournamentStatus,
+  EDITABLE_STATUSES,
+  SCORING_STATUSES,
+  TOURNAMENT_STATUS_TRANSITIONS,
+} from './tournament-lifecycle';
+import { getGlobalEventsGateway } from '../match-scores/ranking-update.service';
+import {
+  MembershipActor,
+  TournamentMembershipsService,
+} from '../tournament-memberships/tournament-memberships.service';
 
 @Injectable()
 export class TournamentsService {
   constructor(
     private prisma: PrismaService,
-    private dateValidationService: DateValidationService
+    private dateValidationService: DateValidationService,
+    private tournamentMembershipsService: TournamentMembershipsService
   ) {}
   async create(createTournamentDto: CreateTournamentDto) {
     // Create the tournament first
@@ -23,6 +58,9 @@ export class TournamentsService {
         numberOfFields: createTournamentDto.numberOfFields,
         maxTeams: createTournamentDto.maxTeams,
         maxTeamMembers: createTournamentDto.maxTeamMembers,
+        memberships: {
+          create: { userId: createTournamentDto.adminId, role: TournamentRole.OWNER },
+        },
       },
     });
 
@@ -55,7 +93,7 @@ export class TournamentsService {
           },
         },
         _count: {
-          select: { teams: true },
+          select: { teams: { where: NOT_DELETED } },
         },
       },
     });
@@ -113,7 +151,12 @@ export class TournamentsService {
     });
   }
 
-  async update(id: string, updateTournamentDto: UpdateTournamentDto) {
+  async update(
+    id: string,
+    updateTournamentDto: UpdateTournamentDto,
+    options: { adminOverride?: boolean; actor?: MembershipActor } = {},
+  ) {
+    await this.assertEditable(id, options);
     const data: any = {};
     let numberOfFieldsChanged = false;
     let newNumberOfFields: number | undefined;
@@ -194,6 +237,18 @@ export class TournamentsService {
       data.maxTeamMembers = updateTournamentDto.maxTeamMembers;
     }
 
+    // Handing the tournament to another admin also makes them an owner
+    if (updateTournamentDto.adminId) {
+      if (!options.actor) {
+        throw new ForbiddenException('Only tournament owners can change the tournament admin');
+      }
+      await this.tournamentMembershipsService.transferAdmin(
+        id,
+        updateTournamentDto.adminId,
+        options.actor,
+      );
+    }
+
     // Update tournament first
     const updatedTournament = await this.prisma.tournament.update({
       where: { id },
@@ -241,12 +296,48 @@ export class TournamentsService {
     return updatedTournament;
   }
 
+  /**
+   * Soft delete a tournament. Its stages, teams and results are kept.
+   */
   remove(id: string) {
-    return this.prisma.tournament.delete({
+    return this.prisma.tournament.update({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  async restore(id: string) {
+    await this.getDeletedTournamentOrThrow(id);
+    return this.prisma.tournament.update({
       where: { id },
+      data: { deletedAt: null },
     });
   }
 
+  /**
+   * Permanently remove a soft-deleted tournament and everything in it
+   */
+  async purge(id: string) {
+    await this.getDeletedTournamentOrThrow(id);
+    return this.prisma.$transaction(async (tx) => {
+      // Teams do not cascade from their tournament, and members not from their team
+      await tx.teamMember.deleteMany({ where: { team: { tournamentId: id } } });
+      await tx.team.deleteMany({ where: { tournamentId: id } });
+      return tx.tournament.delete({ where: { id } });
+    });
+  }
+
+  private async getDeletedTournamentOrThrow(id: string) {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true },
+    });
+    if (!tournament) {
+      throw new NotFoundException(`Deleted tournament with ID ${id} not found`);
+    }
+    return tournament;
+  }
+
   async getFieldsByTournament(tournamentId: string) {
     return this.prisma.field.findMany({
       where: { tournamentId },
@@ -287,10 +378,11 @@ export class TournamentsService {
           orderBy: { number: 'asc' },
         },
         teams: {
+          where: NOT_DELETED,
           select: { id: true, teamNumber: true, name: true },
         },
         _count: {
-          select: { stages: true, fields: true, teams: true },
+          select: { stages: true, fields: true, teams: { where: NOT_DELETED } },
         },
       },
     });
@@ -361,82 +453,204 @@ export class TournamentsService {
   }
 
   /**
-   * Export tournament data
+   * Current lifecycle status and the statuses it can move to next
    */
-  async exportData(tournamentId: string, format: 'csv' | 'excel' | 'json' = 'csv') {
-    const tournament = await this.findOneWithFullDetails(tournamentId);
-    
+  async getStatus(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { id: true, status: true, statusChangedAt: true },
+    });
     if (!tournament) {
-      throw new BadRequestException('Tournament not found');
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
     }
-
-    // For now, return JSON data. In a real implementation, you'd format this properly
-    const exportData = {
-      tournament: {
-        id: tournament.id,
-        name: tournament.name,
-        description: tournament.description,
-        startDate: tournament.startDate,
-        endDate: tournament.endDate,
-      },
-      teams: tournament.teams?.map(team => ({
-        id: team.id,
-        teamNumber: team.teamNumber,
-        name: team.name,
-      })) || [],
-      stages: tournament.stages?.map(stage => ({
-        id: stage.id,
-        name: stage.name,
-        type: stage.type,
-        status: stage.status,
-        startDate: stage.startDate,
-        endDate: stage.endDate,
-      })) || [],
-      fields: tournament.fields?.map(field => ({
-        id: field.id,
-        name: field.name,
-        number: field.number,
-        location: field.location,
-        referees: field.fieldReferees?.length || 0,
-      })) || [],
+    return {
+      tournamentId: tournament.id,
+      status: tournament.status,
+      statusChangedAt: tournament.statusChangedAt,
+      allowedTransitions: TOURNAMENT_STATUS_TRANSITIONS[tournament.status],
     };
-
-    return exportData;
   }
 
   /**
-   * Get tournament settings
+   * Move the tournament along its lifecycle and tell connected clients. Admins
+   * may force a change the transition table or its checks would refuse.
    */
-  async getSettings(tournamentId: string) {
-    const tournament = await this.prisma.tournament.findUnique({
-      where: { id: tournamentId },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        startDate: true,
-        endDate: true,
-        numberOfFields: true,
-        maxTeams: true,
-        maxTeamMembers: true,
-      },
+  async changeStatus(
+    tournamentId: string,
+    dto: ChangeTournamentStatusDto,
+    user: { role: UserRole },
+  ) {
+    const { status: from } = await this.getTournamentOrThrow(tournamentId);
+    const to = dto.status;
+    if (dto.force && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can force a status change');
+    }
+    if (from === to) {
+      throw new BadRequestException(`Tournament is already ${to}`);
+    }
+    if (!dto.force) {
+      if (!TOURNAMENT_STATUS_TRANSITIONS[from].includes(to)) {
+        throw new BadRequestException(`Cannot change tournament status from ${from} to ${to}`);
+      }
+      await this.assertReadyFor(tournamentId, to);
+    }
+
+    // Only succeeds if nobody changed the status since we read it
+    const changedAt = new Date();
+    const { count } = await this.prisma.tournament.updateMany({
+      where: { id: tournamentId, status: from },
+      data: { status: to, statusChangedAt: changedAt },
     });
+    if (count === 0) {
+      throw new ConflictException('Tournament status was changed by someone else; reload and try again');
+    }
 
-    if (!tournament) {
-      throw new BadRequestException('Tournament not found');
+    const gateway = getGlobalEventsGateway();
+    if (gateway?.server) {
+      gateway.broadcastToTournament(tournamentId, 'tournament_status', {
+        tournamentId,
+        from,
+        to,
+        reason: dto.reason ?? null,
+        forced: dto.force,
+        changedAt,
+      });
     }
 
-    return tournament;
+    return this.getStatus(tournamentId);
   }
 
   /**
-   * Update tournament settings
+   * Checks a transition must pass besides being in the transition table
    */
-  async updateSettings(tournamentId: string, settings: any) {
-    return this.prisma.tournament.update({
+  private async assertReadyFor(tournamentId: string, to: TournamentStatus) {
+    if (to === TournamentStatus.SCHEDULED) {
+      const pending = await this.prisma.team.count({
+        where: { tournamentId, registrationStatus: TeamRegistrationStatus.PENDING },
+      });
+      if (pending > 0) {
+        throw new BadRequestException(
+          `${pending} team registration(s) are still pending; approve or reject them first`,
+        );
+      }
+    }
+    if (to === TournamentStatus.LIVE) {
+      const matches = await this.prisma.match.count({ where: { stage: { tournamentId } } });
+      if (matches === 0) {
+        throw new BadRequestException('Generate a schedule before the tournament goes live');
+      }
+    }
+    if (to === TournamentStatus.COMPLETED) {
+      const running = await this.prisma.match.count({
+        where: { stage: { tournamentId }, status: MatchState.IN_PROGRESS },
+      });
+      if (running > 0) {
+        throw new BadRequestException(
+          `${running} match(es) are still in progress; finish them first`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Get tournament settings, with defaults for anything never saved. Version 0
+   * means the settings have not been saved yet.
+   */
+  async getSettings(tournamentId: string) {
+    await this.getTournamentOrThrow(tournamentId);
+    const record = await this.prisma.tournamentSettings.findUnique({ where: { tournamentId } });
+    return this.toSettingsResponse(tournamentId, record);
+  }
+
+  /**
+   * Merge a partial change into the tournament settings and save them as a new version
+   */
+  async updateSettings(
+    tournamentId: string,
+    dto: UpdateTournamentSettingsDto,
+    options: { adminOverride?: boolean } = {},
+  ) {
+    await this.assertEditable(tournamentId, options);
+    const { version, ...patch } = dto;
+    const current = await this.prisma.tournamentSettings.findUnique({ where: { tournamentId } });
+    const currentVersion = current?.version ?? 0;
+    if (version !== undefined && version !== currentVersion) {
+      throw new ConflictException(
+        `Settings were changed since version ${version}; reload them and try again`,
+      );
+    }
+
+    const parsed = TournamentSettingsSchema.safeParse(
+      mergeSettings(resolveTournamentSettings(current?.settings), patch),
+    );
+    if (!parsed.success) {
+      throw new BadRequestException({
+        message: 'Invalid tournament settings',
+        errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    try {
+      if (current) {
+        // Only succeeds if nobody saved since we read
+        const { count } = await this.prisma.tournamentSettings.updateMany({
+          where: { tournamentId, version: currentVersion },
+          data: {
+            settings: parsed.data,
+            schemaVersion: TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+            version: { increment: 1 },
+          },
+        });
+        if (count === 0) {
+          throw new ConflictException('Settings were changed by someone else; reload them and try again');
+        }
+      } else {
+        await this.prisma.tournamentSettings.create({
+          data: {
+            tournamentId,
+            settings: parsed.data,
+            schemaVersion: TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+          },
+        });
+      }
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('Settings were changed by someone else; reload them and try again');
+      }
+      throw error;
+    }
+
+    return this.getSettings(tournamentId);
+  }
+
+  private async getTournamentOrThrow(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
       where: { id: tournamentId },
-      data: settings,
+      select: { id: true, status: true },
     });
+    if (!tournament) {
+      throw new NotFoundException(`Tournament with ID ${tournamentId} not found`);
+    }
+    return tournament;
+  }
+
+  /** Completed and archived tournaments are read-only, unless an admin overrides a completed one */
+  private async assertEditable(tournamentId: string, options: { adminOverride?: boolean }) {
+    const tournament = await this.getTournamentOrThrow(tournamentId);
+    assertTournamentStatus(tournament, EDITABLE_STATUSES, 'edit the tournament', options);
+  }
+
+  private toSettingsResponse(
+    tournamentId: string,
+    record: { version: number; schemaVersion: number; settings: unknown; updatedAt: Date } | null,
+  ) {
+    return {
+      tournamentId,
+      version: record?.version ?? 0,
+      schemaVersion: record?.schemaVersion ?? TOURNAMENT_SETTINGS_SCHEMA_VERSION,
+      updatedAt: record?.updatedAt ?? null,
+      settings: resolveTournamentSettings(record?.settings),
+    };
   }
 
   /**
@@ -471,6 +685,32 @@ export class TournamentsService {
     return nextMatch;
   }
 
+  /**
+   * Reject field IDs from another tournament, so tournament-scoped roles
+   * cannot reach fields they do not manage
+   */
+  async assertFieldsInTournament(tournamentId: string, fieldIds: string[]) {
+    const uniqueFieldIds = [...new Set(fieldIds)];
+    const count = await this.prisma.field.count({
+      where: { id: { in: uniqueFieldIds }, tournamentId },
+    });
+
+    if (count !== uniqueFieldIds.length) {
+      throw new BadRequestException('Field not found in this tournament');
+    }
+  }
+
+  async assertMatchInTournament(tournamentId: string, matchId: string) {
+    const match = await this.prisma.match.findFirst({
+      where: { id: matchId, stage: { tournamentId } },
+      select: { id: true },
+    });
+
+    if (!match) {
+      throw new BadRequestException('Match not found in this tournament');
+    }
+  }
+
   /**
    * Start a match
    */
@@ -483,11 +723,13 @@ export class TournamentsService {
           tournamentId: tournamentId,
         },
       },
+      include: { stage: { select: { tournament: { select: { status: true } } } } },
     });
 
     if (!match) {
       throw new BadRequestException('Match not found in this tournament');
     }
+    assertTournamentStatus(match.stage.tournament, SCORING_STATUSES, 'start matches');
 
     return this.prisma.match.update({
       where: { id: matchId },
@@ -498,56 +740,15 @@ export class TournamentsService {
     });
   }
 
-  /**
-   * Duplicate tournament
-   */
-  async duplicate(tournamentId: string, newName: string) {
-    const originalTournament = await this.prisma.tournament.findUnique({
-      where: { id: tournamentId },
-      include: {
-        stages: true,
-        fields: true,
-      },
-    });
-
-    if (!originalTournament) {
-      throw new BadRequestException('Tournament not found');
-    }
-
-    // Create new tournament
-    const newTournament = await this.prisma.tournament.create({
-      data: {
-        name: newName,
-        description: originalTournament.description,
-        startDate: originalTournament.startDate,
-        endDate: originalTournament.endDate,
-        adminId: originalTournament.adminId,
-        numberOfFields: originalTournament.numberOfFields,
-        maxTeams: originalTournament.maxTeams,
-        maxTeamMembers: originalTournament.maxTeamMembers,
-      },
-    });
-
-    // Duplicate fields
-    for (const field of originalTournament.fields) {
-      await this.prisma.field.create({
-        data: {
-          name: field.name,
-          number: field.number,
-          location: field.location,
-          description: field.description,
-          tournamentId: newTournament.id,
-        },
-      });
-    }
-
-    return newTournament;
-  }
-
   /**
    * Create a new stage for tournament
    */
-  async createStage(tournamentId: string, createStageDto: any) {
+  async createStage(
+    tournamentId: string,
+    createStageDto: any,
+    options: { adminOverride?: boolean } = {},
+  ) {
+    await this.assertEditable(tournamentId, options);
     return this.prisma.stage.create({
       data: {
         ...createStageDto,
@@ -12,7 +12,11 @@ export type {
   ChangeRoleDto,
   BulkOperationDto,
   PasswordResetDto,
+  ChangePasswordDto,
+  EmailChangeRequestDto,
+  EmailChangeConfirmDto,
   UserStatusDto,
+  UserStatusReasonDto,
   ProfileUpdateDto,
 } from './update-user.dto';
 
@@ -99,6 +99,47 @@ export const PasswordResetSchema = z
     path: ['confirmPassword'],
   });
 
+// Define the Zod schema for a user changing their own password
+export const ChangePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: z
+      .string()
+      .min(6, 'Password must be at least 6 characters')
+      .max(100, 'Password must not exceed 100 characters')
+      .regex(
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+        'Password must contain at least one lowercase letter, one uppercase letter, and one number',
+      ),
+    confirmPassword: z.string(),
+  })
+  .strict()
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  });
+
+// Define the Zod schema for requesting an email change (confirmed via link)
+export const EmailChangeRequestSchema = z
+  .object({
+    newEmail: z
+      .string()
+      .email('Invalid email format')
+      .max(255, 'Email must not exceed 255 characters'),
+    currentPassword: z.string().min(1, 'Current password is required'),
+  })
+  .strict();
+
+export const EmailChangeConfirmSchema = z
+  .object({
+    token: z.string().min(1, 'Token is required'),
+  })
+  .strict();
+
 // Define the Zod schema for user activation/deactivation
 export const UserStatusSchema = z
   .object({
@@ -110,6 +151,9 @@ export const UserStatusSchema = z
   })
   .strict();
 
+// Deactivate/reactivate endpoints carry the direction in the route
+export const UserStatusReasonSchema = UserStatusSchema.omit({ isActive: true });
+
 // Define the Zod schema for profile updates (limited fields for self-updates)
 export const ProfileUpdateSchema = z
   .object({
@@ -153,5 +197,9 @@ const BulkEmailSchema = z.object({
 
 export class BulkEmailDto extends createZodDto(BulkEmailSchema) {}
 export class PasswordResetDto extends createZodDto(PasswordResetSchema) {}
+export class ChangePasswordDto extends createZodDto(ChangePasswordSchema) {}
+export class EmailChangeRequestDto extends createZodDto(EmailChangeRequestSchema) {}
+export class EmailChangeConfirmDto extends createZodDto(EmailChangeConfirmSchema) {}
 export class UserStatusDto extends createZodDto(UserStatusSchema) {}
+export class UserStatusReasonDto extends createZodDto(UserStatusReasonSchema) {}
 export class ProfileUpdateDto extends createZodDto(ProfileUpdateSchema) {}
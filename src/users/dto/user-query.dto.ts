@@ -1,6 +1,39 @@
 import { z } from 'zod';
 import { createZodDto } from 'nestjs-zod';
 import { UserRole } from '../../utils/prisma-types';
+import { CommonValidations } from './validation.utils';
+
+// Filters shared by the user list and the export, so both select the same users
+export const UserFilterFields = {
+  role: z
+    .nativeEnum(UserRole, {
+      errorMap: () => ({ message: 'Invalid user role filter' }),
+    })
+    .optional(),
+  search: z
+    .string()
+    .min(1, 'Search query cannot be empty')
+    .max(100, 'Search query cannot exceed 100 characters')
+    .optional(),
+  isActive: z.boolean().default(true).optional(),
+  sortBy: z
+    .enum(['username', 'role', 'createdAt', 'email', 'lastLoginAt'], {
+      errorMap: () => ({ message: 'Invalid sort field' }),
+    })
+    .default('createdAt')
+    .optional(),
+  sortOrder: z
+    .enum(['asc', 'desc'], {
+      errorMap: () => ({ message: 'Sort order must be "asc" or "desc"' }),
+    })
+    .default('desc')
+    .optional(),
+  createdAfter: z.coerce.date().optional(), // Filter users created after this date
+  createdBefore: z.coerce.date().optional(), // Filter users created before this date
+  lastLoginAfter: z.coerce.date().optional(), // Filter users who logged in after this date
+  hasEmail: z.boolean().optional(), // Filter users with/without email
+  emailVerified: z.boolean().optional(), // Filter by email verification status
+};
 
 // Define the Zod schema for user search/query parameters with enhanced validation
 export const UserQuerySchema = z
@@ -18,34 +51,7 @@ export const UserQuerySchema = z
       .max(100, 'Limit cannot exceed 100')
       .default(10)
       .optional(),
-    role: z
-      .nativeEnum(UserRole, {
-        errorMap: () => ({ message: 'Invalid user role filter' }),
-      })
-      .optional(),
-    search: z
-      .string()
-      .min(1, 'Search query cannot be empty')
-      .max(100, 'Search query cannot exceed 100 characters')
-      .optional(),
-    isActive: z.boolean().default(true).optional(),
-    sortBy: z
-      .enum(['username', 'role', 'createdAt', 'email', 'lastLoginAt'], {
-        errorMap: () => ({ message: 'Invalid sort field' }),
-      })
-      .default('createdAt')
-      .optional(),
-    sortOrder: z
-      .enum(['asc', 'desc'], {
-        errorMap: () => ({ message: 'Sort order must be "asc" or "desc"' }),
-      })
-      .default('desc')
-      .optional(),
-    createdAfter: z.date().optional(), // Filter users created after this date
-    createdBefore: z.date().optional(), // Filter users created before this date
-    lastLoginAfter: z.date().optional(), // Filter users who logged in after this date
-    hasEmail: z.boolean().optional(), // Filter users with/without email
-    emailVerified: z.boolean().optional(), // Filter by email verification status
+    ...UserFilterFields,
   })
   .strict()
   .refine(
@@ -84,19 +90,30 @@ export const UserSearchSchema = z
   })
   .strict();
 
-// Define the Zod schema for export parameters with enhanced options
+export const USER_EXPORT_FIELDS = [
+  'id',
+  'username',
+  'name',
+  'email',
+  'role',
+  'phoneNumber',
+  'gender',
+  'dateOfBirth',
+  'isActive',
+  'emailVerified',
+  'createdAt',
+  'updatedAt',
+  'lastLoginAt',
+  'createdBy',
+] as const;
+
+export type UserExportField = (typeof USER_EXPORT_FIELDS)[number];
+
+// Define the Zod schema for export parameters: the list filters plus file options.
+// `excel` produces an .xlsx workbook.
 export const UserExportSchema = z
   .object({
-    role: z
-      .nativeEnum(UserRole, {
-        errorMap: () => ({ message: 'Invalid user role for export' }),
-      })
-      .optional(),
-    search: z
-      .string()
-      .max(100, 'Search query cannot exceed 100 characters')
-      .optional(),
-    isActive: z.boolean().default(true).optional(),
+    ...UserFilterFields,
     format: z
       .enum(['csv', 'excel', 'json'], {
         errorMap: () => ({
@@ -107,30 +124,12 @@ export const UserExportSchema = z
       .optional(),
     fields: z
       .array(
-        z.enum(
-          [
-            'id',
-            'username',
-            'email',
-            'role',
-            'phoneNumber',
-            'gender',
-            'dateOfBirth',
-            'isActive',
-            'emailVerified',
-            'createdAt',
-            'updatedAt',
-            'lastLoginAt',
-            'createdBy',
-          ],
-          {
-            errorMap: () => ({ message: 'Invalid field name for export' }),
-          },
-        ),
+        z.enum(USER_EXPORT_FIELDS, {
+          errorMap: () => ({ message: 'Invalid field name for export' }),
+        }),
       )
+      .min(1, 'At least one field is required')
       .optional(),
-    createdAfter: z.date().optional(),
-    createdBefore: z.date().optional(),
     includeStats: z.boolean().default(false).optional(), // Include summary statistics
   })
   .strict()
@@ -191,6 +190,31 @@ export const UserImportSchema = z
   })
   .strict();
 
+// Define the Zod schema for one row of a CSV user import. Cells arrive as
+// strings, so empty optional cells are treated as missing.
+export const USER_IMPORT_MAX_ROWS = 200;
+
+const optionalCell = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema.optional());
+
+export const UserImportRowSchema = z.object({
+  username: CommonValidations.username,
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(100, 'Name must not exceed 100 characters'),
+  email: CommonValidations.email,
+  role: z.preprocess(
+    (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+    z.nativeEnum(UserRole, {
+      errorMap: () => ({ message: 'Invalid user role' }),
+    }),
+  ),
+  phoneNumber: optionalCell(CommonValidations.phoneNumber),
+});
+
+export type UserImportRow = z.infer<typeof UserImportRowSchema>;
+
 // Define the Zod schema for user statistics request
 export const UserStatsSchema = z
   .object({
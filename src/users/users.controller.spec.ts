@@ -7,6 +7,7 @@ import { UsersService } from './users.service';
 import { PrismaService } from '../prisma.service';
 import { UserRole } from '../utils/prisma-types';
 import { Request } from 'express';
+import { ThrottlerGuard } from '@nestjs/throttler';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -30,6 +31,8 @@ describe('UsersController', () => {
       gender: null,
       dateOfBirth: null,
       isActive: true,
+      statusChangedAt: null,
+      statusReason: null,
       lastLoginAt: null,
       emailVerified: false,
       createdAt: new Date(),
@@ -68,7 +71,10 @@ describe('UsersController', () => {
           useValue: mockPrisma,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(ThrottlerGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<UsersController>(UsersController);
   });
@@ -254,6 +260,26 @@ describe('UsersController', () => {
     });
   });
 
+  describe('deactivate', () => {
+    it('should deactivate a user with a reason', async () => {
+      const userId = '550e8400-e29b-41d4-a716-446655440000';
+      mockUsersService.deactivate.mockResolvedValue({ id: userId, isActive: false } as any);
+
+      const result = await controller.deactivate(
+        userId,
+        { reason: 'Left the referee team' },
+        mockRequest,
+      );
+
+      expect(mockUsersService.deactivate).toHaveBeenCalledWith(
+        userId,
+        'Left the referee team',
+        'test-user-id',
+      );
+      expect(result).toEqual({ id: userId, isActive: false });
+    });
+  });
+
   describe('bulkDelete', () => {
     it('should bulk delete users', async () => {
       const bulkOperationDto = {
@@ -358,17 +384,61 @@ describe('UsersController', () => {
       };
       const expectedResult = createMockUser({
         id: 'test-user-id',
-        email: 'new@example.com',
+        phoneNumber: '123-456-7890',
       });
       mockUsersService.update.mockResolvedValue(expectedResult);
 
       const result = await controller.updateMyProfile(mockRequest, updateDto);
 
+      // Email changes must go through the verified email change flow
       expect(mockUsersService.update).toHaveBeenCalledWith('test-user-id', {
-        email: 'new@example.com',
         phoneNumber: '123-456-7890',
       });
       expect(result).toEqual(expectedResult);
     });
   });
+
+  describe('changeMyPassword', () => {
+    it('should keep the calling session signed in', async () => {
+      const request = {
+        user: { sub: 'test-user-id', sessionId: 'session-1' },
+      } as unknown as Request;
+      mockUsersService.changePassword.mockResolvedValue({
+        message: 'Password changed successfully',
+        revokedSessions: 1,
+      });
+
+      await controller.changeMyPassword(request, {
+        currentPassword: 'OldPass123',
+        newPassword: 'NewPass123',
+        confirmPassword: 'NewPass123',
+      });
+
+      expect(mockUsersService.changePassword).toHaveBeenCalledWith(
+        'test-user-id',
+        'OldPass123',
+        'NewPass123',
+        'session-1',
+      );
+    });
+  });
+
+  describe('requestMyEmailChange', () => {
+    it('should start the email change for the current user', async () => {
+      mockUsersService.requestEmailChange.mockResolvedValue({
+        message: 'A verification link has been sent to new@example.com',
+      });
+
+      await controller.requestMyEmailChange(mockRequest, {
+        newEmail: 'new@example.com',
+        currentPassword: 'OldPass123',
+      });
+
+      expect(mockUsersService.requestEmailChange).toHaveBeenCalledWith(
+        'test-user-id',
+        'new@example.com',
+        'OldPass123',
+      );
+    });
+  });
 });
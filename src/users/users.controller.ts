@@ -13,9 +13,11 @@ import {
   ParseEnumPipe,
   ParseBoolPipe,
   Req,
+  Res,
   HttpCode,
   HttpStatus,
   UseInterceptors,
+  UploadedFile,
   BadRequestException,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
@@ -25,6 +27,10 @@ UpdateUserDto,
 ChangeRoleDto,
 BulkOperationDto,
   BulkEmailDto,
+  ChangePasswordDto,
+  EmailChangeRequestDto,
+  EmailChangeConfirmDto,
+  UserStatusReasonDto,
 } from './dto/update-user.dto';
 import {
   UserQueryDto,
@@ -35,11 +41,17 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { UserOperationGuard } from './guards/user-operation.guard';
 import { ApiResponseInterceptor } from './interceptors/api-response.interceptor';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Roles } from '../auth/roles.decorator';
 import { UserRole } from '../utils/prisma-types';
-import { Request } from 'express';
+import { Request, Response } from 'express';
+import { Audited, SkipAudit } from '../audit/audited.decorator';
+import { Public } from '../auth/public.decorator';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { writeTabularExport } from '../common/export/tabular-export';
 
 @Controller('users')
+@Audited('user')
 @UseGuards(JwtAuthGuard) // Apply JWT guard to all endpoints
 @UseInterceptors(ApiResponseInterceptor) // Standardize API responses
 export class UsersController {
@@ -149,7 +161,7 @@ export class UsersController {
   }
 
   /**
-   * Delete user - Admin only
+   * Delete user - Admin only. The account is soft-deleted and can be restored.
    */
   @Delete(':id')
   @UseGuards(RolesGuard, UserOperationGuard)
@@ -162,10 +174,64 @@ export class UsersController {
     return { message: 'User deleted successfully' };
   }
 
+  /**
+   * Deactivate user - Admin only. Existing sessions and sockets are closed.
+   */
+  @Post(':id/deactivate')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async deactivate(
+    @Param('id') id: string,
+    @Body() statusDto: UserStatusReasonDto,
+    @Req() req: Request,
+  ) {
+    this.validateUuidParam(id);
+    const currentUserId = this.getCurrentUserId(req);
+    return await this.usersService.deactivate(id, statusDto.reason, currentUserId);
+  }
+
+  /**
+   * Reactivate a deactivated user - Admin only
+   */
+  @Post(':id/reactivate')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async reactivate(@Param('id') id: string, @Body() statusDto: UserStatusReasonDto) {
+    this.validateUuidParam(id);
+    return await this.usersService.reactivate(id, statusDto.reason);
+  }
+
+  /**
+   * Restore a soft-deleted user - Admin only
+   */
+  @Post(':id/restore')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async restore(@Param('id') id: string) {
+    this.validateUuidParam(id);
+    return await this.usersService.restore(id);
+  }
+
+  /**
+   * Permanently remove a soft-deleted user - Admin only
+   */
+  @Delete(':id/purge')
+  @UseGuards(RolesGuard, UserOperationGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async purge(@Param('id') id: string) {
+    this.validateUuidParam(id);
+    await this.usersService.purge(id);
+  }
+
   /**
    * Bulk delete users - Admin only
    */
   @Post('bulk-delete')
+  @Audited('user', { idBody: 'userIds' })
   @UseGuards(RolesGuard, UserOperationGuard)
   @Roles(UserRole.ADMIN)
   async bulkDelete(
@@ -189,6 +255,7 @@ export class UsersController {
    * Bulk change user roles - Admin only
    */
   @Post('bulk-role')
+  @Audited('user', { idBody: 'userIds' })
   @UseGuards(RolesGuard, UserOperationGuard)
   @Roles(UserRole.ADMIN)
   async bulkChangeRole(
@@ -231,32 +298,64 @@ export class UsersController {
   }
 
   /**
-   * Export users - Admin only
+   * Import users from a CSV upload - Admin only. With dryRun=true the file is
+   * only validated and a per-row report is returned.
    */
-  @Post('export')
+  @Post('import')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
-  async exportUsers(
-    @Query('role') role?: UserRole,
-    @Query('search') search?: string,
-    @Query('isActive', new DefaultValuePipe(true), ParseBoolPipe)
-    isActive?: boolean,
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 1024 * 1024 } }))
+  @HttpCode(HttpStatus.OK)
+  async importUsers(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('dryRun', new DefaultValuePipe(false), ParseBoolPipe) dryRun: boolean,
+    @Req() req: Request,
   ) {
-    // For now, return filtered users data for export
-    // In a full implementation, this would generate CSV/Excel files
-    const result = await this.usersService.findAll(
-      1,
-      1000,
-      role,
-      search,
-      isActive,
-    );
-    return {
-      data: result.users,
-      total: result.pagination.total,
-      exportedAt: new Date().toISOString(),
-      filters: { role, search, isActive },
-    };
+    if (!file) {
+      throw new BadRequestException('A CSV file is required in the "file" field');
+    }
+    const currentUserId = this.getCurrentUserId(req);
+    return await this.usersService.importUsers(file.buffer, {
+      dryRun,
+      createdById: currentUserId,
+    });
+  }
+
+  /**
+   * Export users - Admin only. Streams a CSV or XLSX file of every user
+   * matching the filters; `json` returns the same rows as a response body.
+   */
+  @Post('export')
+  @SkipAudit()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async exportUsers(@Body() exportDto: UserExportDto, @Res() res: Response) {
+    const columns = this.usersService.getExportColumns(exportDto.fields);
+    const rows = this.usersService.streamUsersForExport(exportDto);
+    const format = exportDto.format ?? 'csv';
+
+    if (format === 'json') {
+      const data: Record<string, unknown>[] = [];
+      for await (const user of rows) {
+        data.push(Object.fromEntries(columns.map((c) => [c.key, c.value(user)])));
+      }
+      res.json({
+        data,
+        total: data.length,
+        exportedAt: new Date().toISOString(),
+        ...(exportDto.includeStats ? { stats: await this.usersService.getUserStats() } : {}),
+      });
+      return;
+    }
+
+    await writeTabularExport(res, {
+      format: format === 'excel' ? 'xlsx' : 'csv',
+      filename: `users-${new Date().toISOString().slice(0, 10)}`,
+      sheetName: 'Users',
+      columns,
+      rows,
+    });
   }
 
   /**
@@ -269,7 +368,8 @@ export class UsersController {
   }
 
   /**
-   * Update current user profile (limited fields)
+   * Update current user profile (limited fields). Email changes go through
+   * POST profile/me/email so the new address is verified first.
    */
   @Patch('profile/me')
   async updateMyProfile(
@@ -282,6 +382,52 @@ export class UsersController {
     return await this.usersService.update(currentUserId, allowedUpdates);
   }
 
+  /**
+   * Change current user's password - requires the current password
+   */
+  @Post('profile/me/password')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async changeMyPassword(@Req() req: Request, @Body() dto: ChangePasswordDto) {
+    const currentUserId = this.getCurrentUserId(req);
+    return await this.usersService.changePassword(
+      currentUserId,
+      dto.currentPassword,
+      dto.newPassword,
+      req.user?.['sessionId'],
+    );
+  }
+
+  /**
+   * Request an email change - a verification link is sent to the new address
+   */
+  @Post('profile/me/email')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async requestMyEmailChange(@Req() req: Request, @Body() dto: EmailChangeRequestDto) {
+    const currentUserId = this.getCurrentUserId(req);
+    return await this.usersService.requestEmailChange(
+      currentUserId,
+      dto.newEmail,
+      dto.currentPassword,
+    );
+  }
+
+  /**
+   * Confirm an email change from the emailed link. Public so the link works
+   * without an active session; the token identifies the user.
+   */
+  @Public()
+  @Post('profile/email/confirm')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async confirmEmailChange(@Body() dto: EmailChangeConfirmDto) {
+    return await this.usersService.confirmEmailChange(dto.token);
+  }
+
   // Private helper methods following SOLID principles
 
   /**
@@ -362,7 +508,7 @@ export class UsersController {
   private filterAllowedProfileUpdates(
     updateDto: Partial<UpdateUserDto>,
   ): Partial<UpdateUserDto> {
-    const allowedFields = ['email', 'phoneNumber', 'gender', 'dateOfBirth'];
+    const allowedFields = ['phoneNumber', 'gender', 'dateOfBirth'];
     return Object.keys(updateDto)
       .filter((key) => allowedFields.includes(key))
       .reduce((obj, key) => {
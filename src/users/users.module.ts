@@ -5,6 +5,7 @@ import { PrismaService } from '../prisma.service';
 import { UserOperationGuard } from './guards/user-operation.guard';
 import { ApiResponseInterceptor } from './interceptors/api-response.interceptor';
 import { EmailsModule } from '../emails/emails.module';
+import { AuthSessionService } from '../auth/auth-session.service';
 import { JwtModule } from '@nestjs/jwt';
 
 @Module({
@@ -19,6 +20,8 @@ import { JwtModule } from '@nestjs/jwt';
   providers: [
     UsersService,
     PrismaService,
+    // Provided here rather than imported: AuthModule already imports UsersModule
+    AuthSessionService,
     UserOperationGuard,
     ApiResponseInterceptor,
   ],
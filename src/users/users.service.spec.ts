@@ -3,22 +3,26 @@ import { UsersService } from './users.service';
 import { PrismaService } from '../prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { EmailsService } from '../emails/emails.service';
+import { AuthSessionService } from '../auth/auth-session.service';
 import {
   NotFoundException,
   BadRequestException,
   ConflictException,
 } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
 import { mockDeep, DeepMockProxy } from 'jest-mock-extended';
 import { UserRole, Gender } from '../utils/prisma-types';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { setGlobalEventsGateway } from '../match-scores/ranking-update.service';
 
 describe('UsersService', () => {
   let service: UsersService;
   let prisma: DeepMockProxy<PrismaService>;
   let jwtService: JwtService;
   let emailsService: EmailsService;
+  let authSessionService: DeepMockProxy<AuthSessionService>;
 
   const mockUser = {
     id: '123e4567-e89b-42d3-a456-426614174000',
@@ -32,8 +36,15 @@ describe('UsersService', () => {
     dateOfBirth: new Date('1990-01-01'),
     avatar: null,
     isActive: true,
+    statusChangedAt: null,
+    statusReason: null,
     lastLoginAt: new Date(),
     emailVerified: false,
+    lastVerificationEmailSent: null,
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastUsedStep: null,
+    deletedAt: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     createdById: '123e4567-e89b-42d3-a456-426614174001',
@@ -66,7 +77,10 @@ describe('UsersService', () => {
     } as any;
     emailsService = {
       sendAccountActivationInvite: jest.fn().mockResolvedValue(undefined),
+      sendEmailChangeVerificationEmail: jest.fn().mockResolvedValue(undefined),
+      sendUserAccountInfoEmail: jest.fn().mockResolvedValue(undefined),
     } as any;
+    authSessionService = mockDeep<AuthSessionService>();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -74,6 +88,7 @@ describe('UsersService', () => {
         { provide: PrismaService, useValue: prisma },
         { provide: JwtService, useValue: jwtService },
         { provide: EmailsService, useValue: emailsService },
+        { provide: AuthSessionService, useValue: authSessionService },
       ],
     }).compile();
 
@@ -115,7 +130,7 @@ describe('UsersService', () => {
       expect(bcrypt.hash).toHaveBeenCalledWith(mockCreateUserDto.password, 12);
       expect(jwtService.signAsync).toHaveBeenCalledWith(
         { email: mockCreateUserDto.email },
-        { expiresIn: '7d' },
+        { expiresIn: '10m' },
       );
       expect(emailsService.sendAccountActivationInvite).toHaveBeenCalledWith(
         mockCreateUserDto.email,
@@ -400,18 +415,24 @@ describe('UsersService', () => {
   });
 
   describe('remove', () => {
-    it('should delete a user successfully', async () => {
+    it('should soft delete a user and revoke their sessions', async () => {
       prisma.user.findUnique.mockResolvedValue(mockUser);
       const deletedUser = { id: mockUser.id, username: mockUser.username };
-      prisma.user.delete.mockResolvedValue(deletedUser as any);
+      prisma.user.update.mockResolvedValue(deletedUser as any);
 
       const result = await service.remove(mockUser.id);
 
       expect(result).toEqual(deletedUser);
-      expect(prisma.user.delete).toHaveBeenCalledWith({
+      expect(prisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
+        data: { deletedAt: expect.any(Date) },
         select: { id: true, username: true },
       });
+      expect(authSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        mockUser.id,
+        'account_deleted',
+      );
+      expect(prisma.user.delete).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException when trying to delete own account', async () => {
@@ -445,6 +466,112 @@ describe('UsersService', () => {
     });
   });
 
+  describe('restore', () => {
+    it('should clear deletedAt on a soft-deleted user', async () => {
+      prisma.user.findFirst.mockResolvedValue({ id: mockUser.id } as any);
+      prisma.user.update.mockResolvedValue(mockUser as any);
+
+      await service.restore(mockUser.id);
+
+      expect(prisma.user.findFirst).toHaveBeenCalledWith({
+        where: { id: mockUser.id, deletedAt: { not: null } },
+        select: { id: true },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: mockUser.id }, data: { deletedAt: null } }),
+      );
+    });
+
+    it('should throw NotFoundException for a user that is not deleted', async () => {
+      prisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.restore(mockUser.id)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deactivate', () => {
+    afterEach(() => setGlobalEventsGateway(null));
+
+    it('should deactivate, revoke sessions and disconnect sockets', async () => {
+      const gateway = { disconnectUser: jest.fn() };
+      setGlobalEventsGateway(gateway);
+      prisma.user.findUnique.mockResolvedValue(mockUser as any);
+      (prisma.$transaction as any).mockImplementation(async (ops: any[]) => Promise.all(ops));
+      prisma.user.update.mockResolvedValue({ ...mockUser, isActive: false } as any);
+      prisma.session.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.deactivate(mockUser.id, 'Left the referee team', 'admin-id');
+
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: mockUser.id },
+          data: {
+            isActive: false,
+            statusChangedAt: expect.any(Date),
+            statusReason: 'Left the referee team',
+          },
+        }),
+      );
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: { in: [mockUser.id] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'account_deactivated' },
+      });
+      expect(gateway.disconnectUser).toHaveBeenCalledWith(mockUser.id, 'Account disabled');
+    });
+
+    it('should not let admins deactivate themselves', async () => {
+      prisma.user.findUnique.mockResolvedValue(mockUser as any);
+
+      await expect(
+        service.deactivate(mockUser.id, 'Testing self lockout', mockUser.id),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a user that is already deactivated', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...mockUser, isActive: false } as any);
+
+      await expect(
+        service.deactivate(mockUser.id, 'Left the referee team'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should reactivate a deactivated user and record the reason', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...mockUser, isActive: false } as any);
+      prisma.user.update.mockResolvedValue(mockUser as any);
+
+      await service.reactivate(mockUser.id, 'Rejoined for the finals');
+
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            isActive: true,
+            statusChangedAt: expect.any(Date),
+            statusReason: 'Rejoined for the finals',
+          },
+        }),
+      );
+    });
+  });
+
+  describe('purge', () => {
+    it('should only permanently delete soft-deleted users', async () => {
+      prisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.purge(mockUser.id)).rejects.toThrow(NotFoundException);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should explain when the user still owns other records', async () => {
+      prisma.user.findFirst.mockResolvedValue({ id: mockUser.id } as any);
+      prisma.user.delete.mockRejectedValue({ code: 'P2003' });
+
+      await expect(service.purge(mockUser.id)).rejects.toThrow(ConflictException);
+    });
+  });
+
   describe('getUserStats', () => {
     it('should return user statistics by role', async () => {
       const mockStats = [
@@ -528,11 +655,13 @@ describe('UsersService', () => {
           role: UserRole.COMMON,
         } as any,
       ]);
-      prisma.user.deleteMany.mockResolvedValue({ count: 2 });
+      prisma.user.updateMany.mockResolvedValue({ count: 2 });
 
       const result = await service.bulkDelete(userIds);
 
       expect(result).toEqual({ deleted: 2 });
+      expect(authSessionService.revokeAllUserSessions).toHaveBeenCalledTimes(2);
+      expect(prisma.user.deleteMany).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException for empty array', async () => {
@@ -654,6 +783,245 @@ describe('UsersService', () => {
     });
   });
 
+  describe('streamUsersForExport', () => {
+    it('should page through every matching user with a cursor', async () => {
+      const firstBatch = Array.from({ length: 500 }, (_, i) => ({ ...mockUser, id: `user-${i}` }));
+      prisma.user.findMany
+        .mockResolvedValueOnce(firstBatch as any)
+        .mockResolvedValueOnce([{ ...mockUser, id: 'user-500' }] as any);
+
+      const exported: string[] = [];
+      for await (const user of service.streamUsersForExport({ role: UserRole.COMMON, hasEmail: true })) {
+        exported.push(user.id);
+      }
+
+      expect(exported).toHaveLength(501);
+      expect(prisma.user.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ role: UserRole.COMMON, email: { not: null } }),
+          cursor: { id: 'user-499' },
+          skip: 1,
+        }),
+      );
+    });
+  });
+
+  describe('importUsers', () => {
+    const csv = (body: string) =>
+      Buffer.from(`username,name,email,role,phone\n${body}`);
+
+    beforeEach(() => {
+      prisma.user.findMany.mockResolvedValue([]);
+      (prisma.$transaction as any).mockImplementation(async (ops: any[]) => Promise.all(ops));
+      prisma.user.create.mockImplementation(
+        (args: any) => ({ id: `id-${args.data.username}`, ...args.data }) as any,
+      );
+      jest
+        .spyOn(service, 'sendBulkUserCreationEmails')
+        .mockResolvedValue({ sent: 1, failed: 0, results: [] });
+    });
+
+    it('should report per-row errors on a dry run without writing', async () => {
+      prisma.user.findMany.mockResolvedValue([
+        { username: 'taken_user', email: 'other@example.com' },
+      ] as any);
+
+      const report = await service.importUsers(
+        csv(
+          [
+            'referee_one,Referee One,ref1@example.com,alliance_referee,+84912345678',
+            'taken_user,Taken,taken@example.com,COMMON,',
+            'x,No Email,,WIZARD,',
+          ].join('\n'),
+        ),
+        { dryRun: true },
+      );
+
+      expect(report).toMatchObject({ dryRun: true, total: 3, valid: 1, invalid: 2 });
+      expect(report.rows[1].errors).toEqual(['username: Username already exists']);
+      expect(report.rows[2].errors.length).toBeGreaterThanOrEqual(3);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should flag usernames still held by deleted accounts', async () => {
+      prisma.user.findMany.mockResolvedValue([
+        { username: 'deleted_user', email: 'gone@example.com' },
+      ] as any);
+
+      const report = await service.importUsers(
+        csv('deleted_user,Deleted,New@Example.com,COMMON,'),
+        { dryRun: true },
+      );
+
+      const { where } = prisma.user.findMany.mock.calls[0][0] as any;
+      expect(where).toHaveProperty('deletedAt', undefined);
+      expect(where.OR[1].email).toEqual({ in: ['New@Example.com'], mode: 'insensitive' });
+      expect(report).toMatchObject({ valid: 0, invalid: 1 });
+      expect(report.rows[0].errors).toEqual(['username: Username already exists']);
+    });
+
+    it('should refuse to import when any row is invalid', async () => {
+      await expect(
+        service.importUsers(
+          csv('jane_doe,Jane,jane@example.com,COMMON,\njane_doe,Jane,jane2@example.com,COMMON,'),
+          { dryRun: false },
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should create users with generated passwords and email them', async () => {
+      const report = await service.importUsers(
+        csv('jane_doe,Jane,jane@example.com,COMMON,'),
+        { dryRun: false, createdById: 'admin-id' },
+      );
+
+      const data = prisma.user.create.mock.calls[0][0].data as any;
+      const [email] = (service.sendBulkUserCreationEmails as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({ username: 'jane_doe', role: UserRole.COMMON, createdById: 'admin-id' });
+      expect(data.password).toBe(`hashed-${email.password}`);
+      expect(email.password).toMatch(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/);
+      expect(report).toMatchObject({ created: 1, emails: { sent: 1, failed: 0 } });
+    });
+
+    it('should reject a file without the required columns', async () => {
+      await expect(
+        service.importUsers(Buffer.from('username,email\njane,jane@example.com'), {
+          dryRun: true,
+        }),
+      ).rejects.toThrow('CSV file is missing required columns: name, role');
+    });
+  });
+
+  describe('changePassword', () => {
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(mockUser as any);
+      prisma.user.update.mockResolvedValue(mockUser as any);
+      authSessionService.revokeOtherUserSessions.mockResolvedValue({ revoked: 2 });
+      authSessionService.revokeAllUserSessions.mockResolvedValue({ revoked: 3 });
+    });
+
+    it('should reject an incorrect current password', async () => {
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(false as never);
+
+      await expect(
+        service.changePassword(mockUser.id, 'wrong', 'NewPass123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should store the new hash and revoke every other session', async () => {
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      const result = await service.changePassword(
+        mockUser.id,
+        'OldPass123',
+        'NewPass123',
+        'session-1',
+      );
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { password: 'hashed-NewPass123' },
+      });
+      expect(authSessionService.revokeOtherUserSessions).toHaveBeenCalledWith(
+        mockUser.id,
+        'session-1',
+        'password_changed',
+      );
+      expect(result.revokedSessions).toBe(2);
+    });
+
+    it('should revoke every session when the request has none', async () => {
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      const result = await service.changePassword(mockUser.id, 'OldPass123', 'NewPass123');
+
+      expect(authSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        mockUser.id,
+        'password_changed',
+      );
+      expect(result.revokedSessions).toBe(3);
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    beforeEach(() => {
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      prisma.user.findUnique.mockResolvedValue(mockUser as any);
+      (prisma.$transaction as any).mockImplementation(async (ops: any[]) => Promise.all(ops));
+    });
+
+    it('should reject an address used by another account', async () => {
+      prisma.user.count.mockResolvedValue(1);
+
+      await expect(
+        service.requestEmailChange(mockUser.id, 'taken@example.com', 'OldPass123'),
+      ).rejects.toThrow(ConflictException);
+      expect(emailsService.sendEmailChangeVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email a link to the new address without changing the user', async () => {
+      prisma.user.count.mockResolvedValue(0);
+      prisma.emailChangeToken.findFirst.mockResolvedValue(null);
+
+      await service.requestEmailChange(mockUser.id, 'new@example.com', 'OldPass123');
+
+      const [to, , verifyUrl] = (emailsService.sendEmailChangeVerificationEmail as jest.Mock)
+        .mock.calls[0];
+      const token = new URL(verifyUrl, 'http://localhost').searchParams.get('token');
+      expect(to).toBe('new@example.com');
+      expect(prisma.emailChangeToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: mockUser.id,
+          newEmail: 'new@example.com',
+          tokenHash: createHash('sha256').update(token!).digest('hex'),
+        }),
+      });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    beforeEach(() => {
+      (prisma.$transaction as any).mockImplementation(async (fn: any) => fn(prisma));
+    });
+
+    it('should reject an expired or already used token', async () => {
+      prisma.emailChangeToken.findUnique.mockResolvedValue({
+        id: 'token-1',
+        userId: mockUser.id,
+        newEmail: 'new@example.com',
+      } as any);
+      prisma.emailChangeToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.confirmEmailChange('token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should switch to the new address and mark it verified', async () => {
+      prisma.emailChangeToken.findUnique.mockResolvedValue({
+        id: 'token-1',
+        userId: mockUser.id,
+        newEmail: 'new@example.com',
+      } as any);
+      prisma.emailChangeToken.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.count.mockResolvedValue(0);
+      prisma.user.update.mockResolvedValue(mockUser as any);
+
+      await service.confirmEmailChange('token');
+
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: mockUser.id },
+          data: { email: 'new@example.com', emailVerified: true },
+        }),
+      );
+    });
+  });
+
   // Additional helper methods tests
   describe('private helper methods', () => {
     describe('validateUuid', () => {
@@ -7,22 +7,86 @@ import {
 import { PrismaService } from '../prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { EmailsService } from '../emails/emails.service';
+import { AuthSessionService } from '../auth/auth-session.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import {
+  UserExportDto,
+  UserExportField,
+  UserImportRow,
+  UserImportRowSchema,
+  USER_IMPORT_MAX_ROWS,
+} from './dto/user-query.dto';
+import { TabularColumn } from '../common/export/tabular-export';
+import { readCsvRecords } from '../common/import/tabular-import';
+import { getGlobalEventsGateway } from '../match-scores/ranking-update.service';
 import { UserRole } from '../utils/prisma-types';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomInt } from 'crypto';
 import { Prisma } from 'generated/prisma';
 
+type ExportUser = Prisma.UserGetPayload<{
+  select: {
+    id: true;
+    username: true;
+    name: true;
+    role: true;
+    email: true;
+    phoneNumber: true;
+    gender: true;
+    dateOfBirth: true;
+    isActive: true;
+    lastLoginAt: true;
+    emailVerified: true;
+    createdAt: true;
+    updatedAt: true;
+    createdBy: { select: { id: true; username: true } };
+  };
+}>;
+
+export interface UserImportRowResult {
+  row: number;
+  username: string;
+  errors: string[];
+}
+
+export interface UserImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: UserImportRowResult[];
+  created?: number;
+  users?: Array<{ id: string; username: string; email: string | null; role: UserRole }>;
+  emails?: { sent: number; failed: number };
+}
+
 @Injectable()
 export class UsersService {
   private readonly bcryptRounds = 12;
   private readonly defaultPageSize = 10;
   private readonly maxPageSize = 100;
+  private readonly emailChangeTtlMinutes = 60;
+  private readonly emailChangeCooldownMs = 2 * 60 * 1000;
+  private readonly exportBatchSize = 500;
+  private readonly defaultExportFields: UserExportField[] = [
+    'id',
+    'username',
+    'name',
+    'email',
+    'role',
+    'phoneNumber',
+    'isActive',
+    'emailVerified',
+    'createdAt',
+    'lastLoginAt',
+  ];
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly jwtService: JwtService,
     private readonly emailsService: EmailsService,
+    private readonly authSessionService: AuthSessionService,
   ) {}
 
   /**
@@ -227,16 +291,157 @@ export class UsersService {
       await this.validateNotLastAdmin();
     }
 
+    try {
+      const deleted = await this.prisma.user.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+        select: { id: true, username: true },
+      });
+      await this.authSessionService.revokeAllUserSessions(id, 'account_deleted');
+      return deleted;
+    } catch (error) {
+      this.handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Bring back a soft-deleted user. Their sessions stay revoked, so they log in again.
+   */
+  async restore(id: string) {
+    this.validateUuid(id);
+    await this.findDeletedUserById(id);
+
+    try {
+      return await this.prisma.user.update({
+        where: { id },
+        data: { deletedAt: null },
+        select: this.getUserSelectFields(),
+      });
+    } catch (error) {
+      this.handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Permanently remove a user that has already been soft-deleted
+   */
+  async purge(id: string) {
+    this.validateUuid(id);
+    await this.findDeletedUserById(id);
+
     try {
       return await this.prisma.user.delete({
         where: { id },
         select: { id: true, username: true },
       });
+    } catch (error) {
+      if (error.code === 'P2003') {
+        throw new ConflictException(
+          'User still owns tournaments or teams. Reassign them before purging the user.',
+        );
+      }
+      this.handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Deactivate a user. Their sessions are revoked and open sockets closed, so
+   * access stops immediately rather than when the access token expires.
+   */
+  async deactivate(id: string, reason: string, currentUserId?: string) {
+    this.validateUuid(id);
+
+    const user = await this.findUserById(id);
+
+    if (id === currentUserId) {
+      throw new BadRequestException('Cannot deactivate your own account');
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('User is already deactivated');
+    }
+    if (user.role === UserRole.ADMIN) {
+      await this.validateNotLastAdmin();
+    }
+
+    try {
+      const [deactivated] = await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id },
+          data: { isActive: false, statusChangedAt: new Date(), statusReason: reason },
+          select: this.getUserSelectFields(),
+        }),
+        this.revokeSessions([id], 'account_deactivated'),
+      ]);
+
+      getGlobalEventsGateway()?.disconnectUser?.(id, 'Account disabled');
+      return deactivated;
     } catch (error) {
       this.handlePrismaError(error);
     }
   }
 
+  /**
+   * Reactivate a deactivated user. Revoked sessions stay revoked, so they log in again.
+   */
+  async reactivate(id: string, reason: string) {
+    this.validateUuid(id);
+
+    const user = await this.findUserById(id);
+
+    if (user.isActive) {
+      throw new BadRequestException('User is already active');
+    }
+
+    try {
+      return await this.prisma.user.update({
+        where: { id },
+        data: { isActive: true, statusChangedAt: new Date(), statusReason: reason },
+        select: this.getUserSelectFields(),
+      });
+    } catch (error) {
+      this.handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Yield every user matching the export filters. Users are read in batches
+   * so large exports never hold the whole table in memory.
+   */
+  async *streamUsersForExport(filters: UserExportDto): AsyncGenerator<ExportUser> {
+    const where = this.buildUserFilterWhere(filters);
+    const orderBy: Prisma.UserOrderByWithRelationInput[] = [
+      { [filters.sortBy ?? 'createdAt']: filters.sortOrder ?? 'desc' },
+      { id: 'asc' }, // Tie-breaker keeps cursor pagination stable
+    ];
+
+    let cursor: string | undefined;
+    do {
+      const batch = await this.prisma.user.findMany({
+        where,
+        orderBy,
+        take: this.exportBatchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: { ...this.getUserSelectFields(), name: true, dateOfBirth: true },
+      });
+      yield* batch;
+      cursor = batch.length === this.exportBatchSize ? batch[batch.length - 1].id : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Columns for a user export, in the requested order
+   */
+  getExportColumns(fields?: UserExportField[]): TabularColumn<ExportUser>[] {
+    return (fields?.length ? fields : this.defaultExportFields).map((field) => ({
+      key: field,
+      header: field,
+      value:
+        field === 'createdBy'
+          ? (user: ExportUser) => user.createdBy?.username
+          : (user: ExportUser) => user[field],
+    }));
+  }
+
   /**
    * Get user statistics by role
    */
@@ -338,9 +543,13 @@ export class UsersService {
     }
 
     try {
-      const result = await this.prisma.user.deleteMany({
-        where: { id: { in: ids } },
+      const result = await this.prisma.user.updateMany({
+        where: { id: { in: ids }, deletedAt: null },
+        data: { deletedAt: new Date() },
       });
+      for (const id of ids) {
+        await this.authSessionService.revokeAllUserSessions(id, 'account_deleted');
+      }
 
       return { deleted: result.count };
     } catch (error) {
@@ -392,6 +601,114 @@ export class UsersService {
     return { sent, failed, results };
   }
 
+  /**
+   * Create users from a CSV file with username, name, email, role and phone
+   * columns. Every row is validated before anything is written; with
+   * `dryRun`, or when any row is invalid, no users are created. Each new user
+   * gets a generated password, sent to them in the bulk creation email.
+   */
+  async importUsers(
+    content: Buffer,
+    options: { dryRun: boolean; createdById?: string },
+  ): Promise<UserImportReport> {
+    const { headers, records } = readCsvRecords(content);
+
+    const missing = ['username', 'name', 'email', 'role'].filter(
+      (column) => !headers.includes(column),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `CSV file is missing required columns: ${missing.join(', ')}`,
+      );
+    }
+    if (records.length === 0) {
+      throw new BadRequestException('CSV file contains no users');
+    }
+    if (records.length > USER_IMPORT_MAX_ROWS) {
+      throw new BadRequestException(
+        `Cannot import more than ${USER_IMPORT_MAX_ROWS} users at once`,
+      );
+    }
+
+    const rows = records.map(({ row, values }) => {
+      const parsed = UserImportRowSchema.safeParse({
+        username: values.username,
+        name: values.name,
+        email: values.email,
+        role: values.role,
+        phoneNumber: values.phone ?? values.phonenumber ?? '',
+      });
+      return {
+        row,
+        username: values.username,
+        data: parsed.success ? parsed.data : undefined,
+        errors: parsed.success
+          ? []
+          : parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      };
+    });
+    await this.flagImportConflicts(rows);
+
+    const invalid = rows.filter((row) => row.errors.length > 0).length;
+    const report: UserImportReport = {
+      dryRun: options.dryRun,
+      total: rows.length,
+      valid: rows.length - invalid,
+      invalid,
+      rows: rows.map(({ row, username, errors }) => ({ row, username, errors })),
+    };
+
+    if (options.dryRun) {
+      return report;
+    }
+    if (invalid > 0) {
+      throw new BadRequestException({
+        message: 'Import contains invalid rows; no users were created',
+        ...report,
+      });
+    }
+
+    const accounts = await Promise.all(
+      rows.map(async ({ data }) => {
+        const password = this.generatePassword();
+        return { ...data!, password, hashedPassword: await this.hashPassword(password) };
+      }),
+    );
+
+    let users: UserImportReport['users'];
+    try {
+      users = await this.prisma.$transaction(
+        accounts.map((account) =>
+          this.prisma.user.create({
+            data: {
+              username: account.username,
+              name: account.name,
+              email: account.email,
+              role: account.role,
+              phoneNumber: account.phoneNumber,
+              password: account.hashedPassword,
+              createdById: options.createdById,
+            },
+            select: { id: true, username: true, email: true, role: true },
+          }),
+        ),
+      );
+    } catch (error) {
+      this.handlePrismaError(error);
+    }
+
+    const emails = await this.sendBulkUserCreationEmails(
+      accounts.map(({ email, username, password, role }) => ({ email, username, password, role })),
+    );
+
+    return {
+      ...report,
+      created: users.length,
+      users,
+      emails: { sent: emails.sent, failed: emails.failed },
+    };
+  }
+
   /**
     * Bulk change user roles
     */
@@ -459,6 +776,133 @@ export class UsersService {
     }
   }
 
+  /**
+   * Change the caller's own password. Other sessions are signed out; the
+   * session making the request stays logged in.
+   */
+  async changePassword(
+    id: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string,
+  ) {
+    const user = await this.findUserWithPassword(id);
+    await this.assertPasswordMatches(currentPassword, user.password);
+
+    const hashedPassword = await this.hashPassword(newPassword);
+    await this.prisma.user.update({
+      where: { id },
+      data: { password: hashedPassword },
+    });
+    // Through AuthSessionService so the revoked sessions' sockets are closed too
+    const { revoked } = currentSessionId
+      ? await this.authSessionService.revokeOtherUserSessions(id, currentSessionId, 'password_changed')
+      : await this.authSessionService.revokeAllUserSessions(id, 'password_changed');
+
+    return { message: 'Password changed successfully', revokedSessions: revoked };
+  }
+
+  /**
+   * Start an email change. The address is not switched until the link sent
+   * to the new address is confirmed.
+   */
+  async requestEmailChange(id: string, newEmail: string, currentPassword: string) {
+    const user = await this.findUserWithPassword(id);
+    await this.assertPasswordMatches(currentPassword, user.password);
+
+    if (user.email === newEmail) {
+      throw new BadRequestException('New email must be different from the current email');
+    }
+    if (await this.isEmailExists(newEmail)) {
+      throw new ConflictException('Email already exists');
+    }
+
+    const now = new Date();
+    const lastRequest = await this.prisma.emailChangeToken.findFirst({
+      where: { userId: id },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    if (
+      lastRequest &&
+      lastRequest.createdAt.getTime() > now.getTime() - this.emailChangeCooldownMs
+    ) {
+      throw new BadRequestException(
+        'Please wait a few minutes before requesting another email change.',
+      );
+    }
+
+    const token = randomBytes(32).toString('hex');
+
+    // A new request invalidates any earlier unconfirmed ones
+    await this.prisma.$transaction([
+      this.prisma.emailChangeToken.updateMany({
+        where: { userId: id, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.emailChangeToken.create({
+        data: {
+          userId: id,
+          newEmail,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(now.getTime() + this.emailChangeTtlMinutes * 60 * 1000),
+        },
+      }),
+    ]);
+
+    await this.emailsService.sendEmailChangeVerificationEmail(
+      newEmail,
+      user.username,
+      `${process.env.FRONTEND_URL}/verify-email-change?token=${token}`,
+      this.emailChangeTtlMinutes,
+    );
+
+    return { message: `A verification link has been sent to ${newEmail}` };
+  }
+
+  /**
+   * Consume an email change token and switch the user to the new, verified address
+   */
+  async confirmEmailChange(token: string) {
+    const now = new Date();
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const changeToken = await tx.emailChangeToken.findUnique({
+          where: { tokenHash: this.hashToken(token) },
+          select: { id: true, userId: true, newEmail: true },
+        });
+
+        // Conditional update keeps the token single-use under concurrent requests
+        const consumed = changeToken
+          ? await tx.emailChangeToken.updateMany({
+              where: { id: changeToken.id, usedAt: null, expiresAt: { gt: now } },
+              data: { usedAt: now },
+            })
+          : { count: 0 };
+
+        if (!changeToken || consumed.count === 0) {
+          throw new BadRequestException('Email change link is invalid or has expired.');
+        }
+
+        const taken = await tx.user.count({
+          where: { email: changeToken.newEmail, id: { not: changeToken.userId } },
+        });
+        if (taken > 0) {
+          throw new ConflictException('Email already exists');
+        }
+
+        return tx.user.update({
+          where: { id: changeToken.userId },
+          data: { email: changeToken.newEmail, emailVerified: true },
+          select: this.getUserSelectFields(),
+        });
+      });
+    } catch (error) {
+      this.handlePrismaError(error);
+    }
+  }
+
   // Private helper methods
 
   private async validateUserCreation(
@@ -561,6 +1005,32 @@ export class UsersService {
     return where;
   }
 
+  private buildUserFilterWhere(filters: UserExportDto): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = this.buildUserWhereClause(
+      filters.role,
+      filters.search,
+      filters.isActive,
+    );
+
+    if (filters.createdAfter || filters.createdBefore) {
+      where.createdAt = {
+        ...(filters.createdAfter ? { gte: filters.createdAfter } : {}),
+        ...(filters.createdBefore ? { lte: filters.createdBefore } : {}),
+      };
+    }
+    if (filters.lastLoginAfter) {
+      where.lastLoginAt = { gte: filters.lastLoginAfter };
+    }
+    if (filters.hasEmail !== undefined) {
+      where.email = filters.hasEmail ? { not: null } : null;
+    }
+    if (filters.emailVerified !== undefined) {
+      where.emailVerified = filters.emailVerified;
+    }
+
+    return where;
+  }
+
   private getUserSelectFields() {
     return {
       id: true,
@@ -570,6 +1040,8 @@ export class UsersService {
       phoneNumber: true, // Changed from phone to phoneNumber to match the schema
       gender: true,
       isActive: true,
+      statusChangedAt: true,
+      statusReason: true,
       lastLoginAt: true,
       emailVerified: true,
       createdAt: true,
@@ -586,7 +1058,22 @@ export class UsersService {
   private async findUserById(id: string) {
     const user = await this.prisma.user.findUnique({
       where: { id },
-      select: { id: true, role: true, username: true },
+      select: { id: true, role: true, username: true, isActive: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  private async findUserWithPassword(id: string) {
+    this.validateUuid(id);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true, username: true, email: true, password: true },
     });
 
     if (!user) {
@@ -596,11 +1083,38 @@ export class UsersService {
     return user;
   }
 
+  private async assertPasswordMatches(password: string, hash: string): Promise<void> {
+    if (!(await bcrypt.compare(password, hash))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+  }
+
+  private async findDeletedUserById(id: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`Deleted user with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  private revokeSessions(userIds: string[], reason: string) {
+    return this.prisma.session.updateMany({
+      where: { userId: { in: userIds }, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
   private async isUsernameExists(username: string): Promise<boolean> {
     try {
       console.log(`[UserService] Checking if username exists: ${username}`);
+      // Deleted users keep their username until they are purged
       const count = await this.prisma.user.count({
-        where: { username },
+        where: { username, deletedAt: undefined },
       });
       console.log(`[UserService] Username ${username} exists check: ${count > 0}`);
       return count > 0;
@@ -613,7 +1127,7 @@ export class UsersService {
 
   private async isEmailExists(email: string): Promise<boolean> {
     const count = await this.prisma.user.count({
-      where: { email },
+      where: { email, deletedAt: undefined },
     });
     return count > 0;
   }
@@ -628,10 +1142,67 @@ export class UsersService {
     }
   }
 
+  /**
+   * Record rows whose username or email repeats within the file or already exists
+   */
+  private async flagImportConflicts(
+    rows: Array<{ data?: UserImportRow; errors: string[] }>,
+  ): Promise<void> {
+    const candidates = rows.filter((row) => row.data);
+    // Deleted users keep their username and email until they are purged
+    const existing = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { username: { in: candidates.map((row) => row.data!.username) } },
+          { email: { in: candidates.map((row) => row.data!.email), mode: 'insensitive' } },
+        ],
+        deletedAt: undefined,
+      },
+      select: { username: true, email: true },
+    });
+    const takenUsernames = new Set(existing.map((user) => user.username));
+    const takenEmails = new Set(existing.map((user) => user.email?.toLowerCase()));
+    const seenUsernames = new Set<string>();
+    const seenEmails = new Set<string>();
+
+    for (const row of candidates) {
+      const { username } = row.data!;
+      const email = row.data!.email.toLowerCase();
+
+      if (takenUsernames.has(username)) {
+        row.errors.push('username: Username already exists');
+      } else if (seenUsernames.has(username)) {
+        row.errors.push('username: Username appears more than once in the file');
+      }
+      if (takenEmails.has(email)) {
+        row.errors.push('email: Email already exists');
+      } else if (seenEmails.has(email)) {
+        row.errors.push('email: Email appears more than once in the file');
+      }
+
+      seenUsernames.add(username);
+      seenEmails.add(email);
+    }
+  }
+
+  /**
+   * Random password that satisfies the password rules (lower, upper, digit)
+   */
+  private generatePassword(): string {
+    const required = ['abcdefghijkmnpqrstuvwxyz', 'ABCDEFGHJKLMNPQRSTUVWXYZ', '23456789'].map(
+      (set) => set[randomInt(set.length)],
+    );
+    return randomBytes(9).toString('base64url') + required.join('');
+  }
+
   private async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, this.bcryptRounds);
   }
 
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
   private validateUuid(id: string): void {
     const uuidRegex =
       /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
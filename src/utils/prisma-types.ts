@@ -1,6 +1,10 @@
 // Re-export types from Prisma client to simplify imports
 export { 
   UserRole,
+  TournamentRole,
+  TeamRegistrationStatus,
+  TeamNumberMode,
+  TournamentStatus,
   StageType,
   StageStatus,
   CardType,
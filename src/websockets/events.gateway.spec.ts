@@ -1,12 +1,15 @@
 import { EventsGateway } from './events.gateway';
 import { Logger } from '@nestjs/common';
 import { MatchScoresService } from '../match-scores/match-scores.service';
+import { AuthService } from '../auth/auth.service';
+import { UserRole } from '../utils/prisma-types';
 
 describe('EventsGateway', () => {
   let gateway: EventsGateway;
   let mockServer: any;
   let mockClient: any;
   let mockMatchScoresService: jest.Mocked<MatchScoresService>;
+  let mockAuthService: jest.Mocked<AuthService>;
 
   beforeEach(() => {
     mockServer = {
@@ -29,6 +32,7 @@ describe('EventsGateway', () => {
       leave: jest.fn(),
       emit: jest.fn(),
       to: jest.fn().mockReturnThis(),
+      data: {},
     };
     
     mockMatchScoresService = {
@@ -38,21 +42,93 @@ describe('EventsGateway', () => {
     } as any;
     
     
-    gateway = new EventsGateway(mockMatchScoresService);
+    mockAuthService = {
+      authenticateAccessToken: jest.fn(),
+    } as any;
+
+    gateway = new EventsGateway(mockMatchScoresService, mockAuthService);
     gateway.server = mockServer;
     jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
     jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
     jest.spyOn(Logger.prototype, 'debug').mockImplementation(() => {});
-    jest.spyOn(gateway, 'emitToField').mockImplementation(() => {});
+    jest.spyOn(gateway, 'emitToField');
   });
 
-  it('should handle client connection and disconnection', () => {
-    expect(() => gateway.handleConnection(mockClient)).not.toThrow();
+  afterEach(() => {
+    (gateway as any).activeTimers.forEach((timer: any) => clearInterval(timer));
+    // The connection manager's cleanup interval would keep jest from exiting
+    clearInterval((gateway as any).centralizedConnectionManager.cleanupInterval);
+    jest.useRealTimers();
+  });
+
+  it('should handle client connection and disconnection', async () => {
+    await expect(gateway.handleConnection(mockClient)).resolves.not.toThrow();
     expect(() => gateway.handleDisconnect(mockClient)).not.toThrow();
   });
 
+  it('should treat clients without a token as anonymous audience displays', async () => {
+    mockClient.handshake = { auth: {}, headers: {} };
+    await gateway.handleConnection(mockClient);
+    expect(mockAuthService.authenticateAccessToken).not.toHaveBeenCalled();
+    expect(mockClient.data.user).toBeNull();
+  });
+
+  it('should attach the authenticated user from the handshake token', async () => {
+    mockClient.handshake = { auth: { token: 'jwt-token' }, headers: {} };
+    mockAuthService.authenticateAccessToken.mockResolvedValue({
+      id: 'u1',
+      sub: 'u1',
+      username: 'ref',
+      role: UserRole.HEAD_REFEREE,
+      sessionId: 's1',
+    });
+    await gateway.handleConnection(mockClient);
+    expect(mockAuthService.authenticateAccessToken).toHaveBeenCalledWith('jwt-token');
+    expect(mockClient.data.user).toEqual({
+      id: 'u1',
+      username: 'ref',
+      role: UserRole.HEAD_REFEREE,
+      sessionId: 's1',
+    });
+    expect(mockClient.join).toHaveBeenCalledWith('user:u1');
+    expect(mockClient.join).toHaveBeenCalledWith('session:s1');
+  });
+
+  it('should close the sockets of a revoked session', () => {
+    const disconnectSockets = jest.fn();
+    mockServer.in = jest.fn().mockReturnValue({ disconnectSockets });
+
+    gateway.disconnectSession('s1', 'Session revoked');
+
+    expect(mockServer.to).toHaveBeenCalledWith('session:s1');
+    expect(mockServer.emit).toHaveBeenCalledWith('auth_error', { message: 'Session revoked' });
+    expect(mockServer.in).toHaveBeenCalledWith('session:s1');
+    expect(disconnectSockets).toHaveBeenCalledWith(true);
+  });
+
+  it('should close the sockets of a disconnected user', () => {
+    const disconnectSockets = jest.fn();
+    mockServer.in = jest.fn().mockReturnValue({ disconnectSockets });
+
+    gateway.disconnectUser('u1', 'Account disabled');
+
+    expect(mockServer.to).toHaveBeenCalledWith('user:u1');
+    expect(mockServer.emit).toHaveBeenCalledWith('auth_error', { message: 'Account disabled' });
+    expect(mockServer.in).toHaveBeenCalledWith('user:u1');
+    expect(disconnectSockets).toHaveBeenCalledWith(true);
+  });
+
+  it('should read the token from the auth cookie', async () => {
+    mockClient.handshake = { auth: {}, headers: { cookie: 'theme=dark; token=cookie-jwt' } };
+    mockAuthService.authenticateAccessToken.mockResolvedValue(null);
+    await gateway.handleConnection(mockClient);
+    expect(mockAuthService.authenticateAccessToken).toHaveBeenCalledWith('cookie-jwt');
+    expect(mockClient.data.user).toBeNull();
+    expect(mockClient.emit).toHaveBeenCalledWith('auth_error', expect.any(Object));
+  });
+
   it('should join and leave tournament rooms', () => {
-    gateway.handleJoinRoom(mockClient, { tournamentId: 't1' });
+    gateway.handleJoinTournamentRoom(mockClient, { tournamentId: 't1' });
     expect(mockClient.join).toHaveBeenCalledWith('t1');
     gateway.handleLeaveRoom(mockClient, { tournamentId: 't1' });
     expect(mockClient.leave).toHaveBeenCalledWith('t1');
@@ -71,8 +147,8 @@ describe('EventsGateway', () => {
 
   it('should emit display_mode_change on join if settings exist', () => {
     const settings = { tournamentId: 't1', displayMode: 'match', updatedAt: Date.now() };
-    (gateway as any).audienceDisplaySettings.set('t1', settings as any);
-    gateway.handleJoinRoom(mockClient, { tournamentId: 't1' });
+    (gateway as any).audienceDisplaySettings.set('tournament:t1', settings as any);
+    gateway.handleJoinTournamentRoom(mockClient, { tournamentId: 't1' });
     expect(mockClient.emit).toHaveBeenCalledWith('display_mode_change', settings);
   });
 
@@ -86,7 +162,7 @@ describe('EventsGateway', () => {
     expect(mockClient.to().emit).toHaveBeenCalledWith('score_update', payload);
 
     gateway.handleTimerUpdate(mockClient, payload as any);
-    expect(mockClient.to().emit).toHaveBeenCalledWith('timer_update', payload);
+    expect(mockServer.to().emit).toHaveBeenCalledWith('timer_update', payload);
 
     gateway.handleMatchStateChange(mockClient, payload as any);
     expect(mockClient.to().emit).toHaveBeenCalledWith('match_state_change', payload);
@@ -105,10 +181,8 @@ describe('EventsGateway', () => {
     gateway.handleStartTimer(mockClient, { ...payload });
     expect(gateway.hasActiveTimer('t1')).toBe(true);
     expect(mockServer.to().emit).toHaveBeenCalledWith('timer_update', expect.objectContaining({ tournamentId: 't1', isRunning: true }));
-    jest.advanceTimersByTime(2000);
-    jest.runOnlyPendingTimers();
-    expect(gateway.hasActiveTimer('t1')).toBe(false);
     gateway.handlePauseTimer(mockClient, payload);
+    expect(gateway.hasActiveTimer('t1')).toBe(false);
     expect(mockServer.to().emit).toHaveBeenCalledWith('timer_update', expect.objectContaining({ isRunning: false }));
     gateway.handleResetTimer(mockClient, payload);
     expect(mockServer.to().emit).toHaveBeenCalledWith('timer_update', expect.objectContaining({ remaining: 2000, isRunning: false }));
@@ -209,8 +283,8 @@ describe('EventsGateway', () => {
     expect(mockClient.to().emit).toHaveBeenCalledWith('score_update', payload);
 
     gateway.handleTimerUpdate(mockClient, payload);
-    expect(mockClient.to).toHaveBeenCalledWith('t1');
-    expect(mockClient.to().emit).toHaveBeenCalledWith('timer_update', payload);
+    expect(mockServer.to).toHaveBeenCalledWith('t1');
+    expect(mockServer.to().emit).toHaveBeenCalledWith('timer_update', payload);
 
     gateway.handleMatchStateChange(mockClient, payload);
     expect(mockClient.to).toHaveBeenCalledWith('t1');
@@ -10,8 +10,10 @@ import {
   MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger, Injectable } from '@nestjs/common';
+import { Logger, Injectable, UseGuards } from '@nestjs/common';
 import { MatchScoresService } from '../match-scores/match-scores.service';
+import { AuthService } from '../auth/auth.service';
+import { Roles } from '../auth/roles.decorator';
 import { setGlobalEventsGateway } from '../match-scores/ranking-update.service';
 import { GameElementDto } from '../match-scores/dto/create-match-scores.dto';
 import { MatchState } from '../utils/prisma-types';
@@ -21,6 +23,12 @@ import {
   PersistenceResultDto,
 } from './dto';
 import { CentralizedConnectionManagerService } from './services/centralized-connection-manager.service';
+import { WsRolesGuard } from './guards/ws-roles.guard';
+import {
+  SocketUser,
+  SCORING_ROLES,
+  CONTROL_ROLES,
+} from './interfaces/socket-user.interface';
 
 interface TimerData {
   duration: number;
@@ -101,6 +109,7 @@ interface WinnerBadgeUpdate {
   },
 })
 @Injectable()
+@UseGuards(WsRolesGuard)
 export class EventsGateway
   implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
@@ -126,6 +135,7 @@ export class EventsGateway
 
   constructor(
     private readonly matchScoresService: MatchScoresService,
+    private readonly authService: AuthService,
   ) {
     // Initialize centralized connection manager
     this.centralizedConnectionManager = new CentralizedConnectionManagerService({
@@ -265,14 +275,98 @@ export class EventsGateway
     this.logger.log('WebSocket Gateway initialized');
   }
 
-  handleConnection(client: Socket, ...args: any[]) {
-    this.logger.log(`Client connected: ${client.id}`);
+  async handleConnection(client: Socket, ...args: any[]) {
+    const token = this.extractToken(client);
+    const user = token ? await this.authService.authenticateAccessToken(token) : null;
+
+    client.data.user = user
+      ? { id: user.id, username: user.username, role: user.role, sessionId: user.sessionId }
+      : null;
+
+    if (user) {
+      // Per-user and per-session rooms so sockets can be closed when access is revoked
+      client.join(this.userRoom(user.id));
+      client.join(this.sessionRoom(user.sessionId));
+    } else if (token) {
+      // Keep the socket as a read-only audience client but tell it why
+      client.emit('auth_error', { message: 'Invalid or expired token' });
+    }
+
+    this.logger.log(
+      `Client connected: ${client.id} (${user ? `${user.username}, ${user.role}` : 'anonymous'})`,
+    );
   }
 
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
   }
+
+  /**
+   * Close every socket authenticated as the given user, e.g. after deactivation
+   */
+  disconnectUser(userId: string, message: string): void {
+    if (!this.server) return;
+
+    const room = this.userRoom(userId);
+    this.server.to(room).emit('auth_error', { message });
+    this.server.in(room).disconnectSockets(true);
+    this.logger.log(`Disconnected sockets of user ${userId}: ${message}`);
+  }
+
+  /**
+   * Close the sockets authenticated through one login session, e.g. after logout
+   */
+  disconnectSession(sessionId: string, message: string): void {
+    if (!this.server) return;
+
+    const room = this.sessionRoom(sessionId);
+    this.server.to(room).emit('auth_error', { message });
+    this.server.in(room).disconnectSockets(true);
+    this.logger.log(`Disconnected sockets of session ${sessionId}: ${message}`);
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private sessionRoom(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
   
+  /**
+   * Read the access token from the socket.io auth payload, the Authorization
+   * header or the `token` cookie, in that order
+   */
+  private extractToken(client: Socket): string | null {
+    const handshake = client.handshake;
+    if (!handshake) return null;
+
+    if (typeof handshake.auth?.token === 'string' && handshake.auth.token) {
+      return handshake.auth.token.replace(/^Bearer\s+/i, '');
+    }
+
+    const authorization = handshake.headers?.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length);
+    }
+
+    const cookieHeader = handshake.headers?.cookie;
+    if (cookieHeader) {
+      for (const part of cookieHeader.split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name === 'token' && value.length) {
+          return decodeURIComponent(value.join('='));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private getSocketUser(client: Socket): SocketUser | null {
+    return client.data?.user ?? null;
+  }
+
   @SubscribeMessage('join_room')
   handleJoinRoom(
     @ConnectedSocket() client: Socket,
@@ -308,6 +402,7 @@ export class EventsGateway
   }
   // Handle match updates (control panel -> audience display)
   @SubscribeMessage('match_update')
+  @Roles(...CONTROL_ROLES)
   handleMatchUpdate(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: any // Accept any to allow fieldId
@@ -352,7 +447,8 @@ export class EventsGateway
       }
     }
   }  // Handle score updates (control panel -> audience display)
-    @SubscribeMessage('score_update')
+  @SubscribeMessage('score_update')
+  @Roles(...SCORING_ROLES)
   handleScoreUpdate(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: any
@@ -389,6 +485,7 @@ export class EventsGateway
   }
   // Handle real-time score updates (for immediate synchronization without database persistence)
   @SubscribeMessage('scoreUpdateRealtime')
+  @Roles(...SCORING_ROLES)
   handleRealtimeScoreUpdate(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: ScoreUpdateDto
@@ -439,6 +536,7 @@ export class EventsGateway
 
   // Handle score persistence requests (NEW: for database saves when explicitly triggered)
   @SubscribeMessage('persistScores')
+  @Roles(...SCORING_ROLES)
   async handlePersistScores(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: PersistScoresDto
@@ -486,7 +584,7 @@ export class EventsGateway
       const persistenceEvent = {
         ...payload,
         persistedAt: Date.now(),
-        persistedBy: payload.submittedBy,
+        persistedBy: this.getSocketUser(client)?.username ?? payload.submittedBy,
         success: true,
       };
       
@@ -519,7 +617,7 @@ export class EventsGateway
       const failureEvent = {
         ...payload,
         persistedAt: Date.now(),
-        persistedBy: payload.submittedBy,
+        persistedBy: this.getSocketUser(client)?.username ?? payload.submittedBy,
         success: false,
         error: error.message || 'Failed to persist scores',
       };
@@ -540,6 +638,7 @@ export class EventsGateway
 
   // Handle timer updates (control panel -> audience display)
   @SubscribeMessage('timer_update')
+  @Roles(...CONTROL_ROLES)
   handleTimerUpdate(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: any
@@ -568,6 +667,7 @@ export class EventsGateway
   }
   // Handle match state changes (control panel -> audience display)
   @SubscribeMessage('match_state_change')
+  @Roles(...CONTROL_ROLES)
   handleMatchStateChange(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: any
@@ -592,6 +692,7 @@ export class EventsGateway
 
   // Handle winner badge updates (control panel -> audience display)
   @SubscribeMessage('winner_badge_update')
+  @Roles(...CONTROL_ROLES)
   handleWinnerBadgeUpdate(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: WinnerBadgeUpdate
@@ -621,6 +722,7 @@ export class EventsGateway
   
   // Handle display mode changes (control panel -> audience display)
   @SubscribeMessage('display_mode_change')
+  @Roles(...CONTROL_ROLES)
   handleDisplayModeChange(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: AudienceDisplaySettings
@@ -653,6 +755,7 @@ export class EventsGateway
   }
     // Handle announcements (control panel -> audience display)
   @SubscribeMessage('announcement')
+  @Roles(...CONTROL_ROLES)
   handleAnnouncement(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: AnnouncementData  ): void {
@@ -686,6 +789,7 @@ export class EventsGateway
   }
     // Start a timer for a match (control panel)
   @SubscribeMessage('timer_start')
+  @Roles(...CONTROL_ROLES)
   handleStartTimer(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: TimerData
@@ -743,6 +847,7 @@ export class EventsGateway
   }
     // Pause a timer for a match (control panel)
   @SubscribeMessage('timer_pause')
+  @Roles(...CONTROL_ROLES)
   handlePauseTimer(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: TimerData
@@ -779,6 +884,7 @@ export class EventsGateway
   }
     // Reset a timer for a match (control panel)
   @SubscribeMessage('timer_reset')
+  @Roles(...CONTROL_ROLES)
   handleResetTimer(
     @ConnectedSocket() client: Socket,
     @MessageBody() payload: TimerData
@@ -0,0 +1,49 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { WsRolesGuard } from './ws-roles.guard';
+import { UserRole } from '../../utils/prisma-types';
+
+describe('WsRolesGuard', () => {
+  let guard: WsRolesGuard;
+  let reflector: Reflector;
+
+  const createContext = (user: any): ExecutionContext =>
+    ({
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToWs: () => ({
+        getClient: () => ({ id: 'client1', data: { user } }),
+        getPattern: () => 'timer_start',
+      }),
+    }) as any;
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    guard = new WsRolesGuard(reflector);
+  });
+
+  it('should allow anonymous clients on events without role requirements', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+    expect(guard.canActivate(createContext(null))).toBe(true);
+  });
+
+  it('should reject anonymous clients on protected events', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([UserRole.ADMIN]);
+    expect(() => guard.canActivate(createContext(null))).toThrow(WsException);
+  });
+
+  it('should reject users without a required role', () => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue([UserRole.ADMIN, UserRole.HEAD_REFEREE]);
+    const user = { id: 'u1', username: 'ref', role: UserRole.ALLIANCE_REFEREE };
+    expect(() => guard.canActivate(createContext(user))).toThrow(WsException);
+  });
+
+  it('should allow users with a required role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([UserRole.HEAD_REFEREE]);
+    const user = { id: 'u1', username: 'head', role: UserRole.HEAD_REFEREE };
+    expect(guard.canActivate(createContext(user))).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { Injectable, CanActivate, ExecutionContext, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { UserRole } from '../../utils/prisma-types';
+import { ROLES_KEY } from '../../auth/roles.decorator';
+import { SocketUser } from '../interfaces/socket-user.interface';
+
+/**
+ * Websocket counterpart of RolesGuard. Handlers without @Roles stay open to
+ * anonymous clients (audience displays); the rest require a socket that was
+ * authenticated during the handshake with one of the listed roles.
+ *
+ * Rejections are thrown as WsException so the default filter emits an
+ * `exception` event back to the sender and the handler never broadcasts.
+ */
+@Injectable()
+export class WsRolesGuard implements CanActivate {
+  private readonly logger = new Logger(WsRolesGuard.name);
+
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredRoles) {
+      return true; // No roles required, allow anonymous access
+    }
+
+    const ws = context.switchToWs();
+    const client = ws.getClient<Socket>();
+    const event = ws.getPattern();
+    const user: SocketUser | null = client.data?.user ?? null;
+
+    if (!user) {
+      this.logger.warn(`Rejected '${event}' from unauthenticated client ${client.id}`);
+      throw new WsException({
+        status: 'error',
+        event,
+        code: 'UNAUTHENTICATED',
+        message: 'Authentication required',
+      });
+    }
+
+    if (!requiredRoles.includes(user.role)) {
+      this.logger.warn(
+        `Rejected '${event}' from ${user.username} with role ${user.role}. Required roles: ${requiredRoles.join(', ')}`,
+      );
+      throw new WsException({
+        status: 'error',
+        event,
+        code: 'FORBIDDEN',
+        message: `User with role ${user.role} does not have permission to emit ${event}`,
+      });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,23 @@
+import { UserRole } from '../../utils/prisma-types';
+
+/**
+ * Identity attached to `socket.data.user` after a successful handshake.
+ * Anonymous (audience display) sockets carry `null`.
+ */
+export interface SocketUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  sessionId: string;
+}
+
+/**
+ * Role sets used to gate websocket events
+ */
+export const SCORING_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.HEAD_REFEREE,
+  UserRole.ALLIANCE_REFEREE,
+];
+
+export const CONTROL_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.HEAD_REFEREE];